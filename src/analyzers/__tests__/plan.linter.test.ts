@@ -0,0 +1,100 @@
+import { PlanLinter } from '../plan.linter';
+import { TestHelpers } from '../../generators/__tests__/utils/test-helpers';
+
+describe('PlanLinter', () => {
+  let linter: PlanLinter;
+
+  const rules = (plan: string): string[] => linter.lint(TestHelpers.parsePlan(plan)).map((finding) => finding.rule);
+
+  beforeEach(() => {
+    linter = new PlanLinter();
+  });
+
+  it('should report nothing for a well-formed plan', () => {
+    expect(linter.lint(TestHelpers.parsePlan(`SortPreservingMergeExec: [a@0 ASC]
+  SortExec: expr=[a@0 ASC], preserve_partitioning=[true]
+    RepartitionExec: partitioning=Hash([a@0], 4), input_partitions=1
+      DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[a], file_type=parquet`))).toEqual([]);
+  });
+
+  it('should flag a SortExec without preserve_partitioning above a hash repartition', () => {
+    const [finding] = linter.lint(TestHelpers.parsePlan(`SortExec: expr=[a@0 ASC], preserve_partitioning=[false]
+  CoalesceBatchesExec: target_batch_size=8192
+    RepartitionExec: partitioning=Hash([a@0], 4), input_partitions=1
+      DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[a], file_type=parquet`));
+
+    expect(finding.rule).toBe('sort-without-preserve-partitioning');
+    expect(finding.severity).toBe('warning');
+    expect(finding.operator).toBe('SortExec');
+    expect(finding.path).toEqual(['SortExec']);
+  });
+
+  it('should flag RoundRobinBatch repartitioning directly under SortPreservingMergeExec', () => {
+    expect(rules(`SortPreservingMergeExec: [a@0 ASC]
+  RepartitionExec: partitioning=RoundRobinBatch(4), input_partitions=1
+    DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[a], file_type=parquet`)).toEqual(['round-robin-under-sort-preserving-merge']);
+  });
+
+  it('should flag CoalescePartitionsExec feeding a single-mode aggregate', () => {
+    expect(rules(`AggregateExec: mode=Single, gby=[a@0 as a], aggr=[]
+  CoalescePartitionsExec
+    DataSourceExec: file_groups={2 groups: [[t1.parquet], [t2.parquet]]}, projection=[a], file_type=parquet`)).toEqual(['coalesce-before-single-aggregate']);
+    expect(rules(`AggregateExec: mode=Final, gby=[a@0 as a], aggr=[]
+  CoalescePartitionsExec
+    DataSourceExec: file_groups={2 groups: [[t1.parquet], [t2.parquet]]}, projection=[a], file_type=parquet`)).toEqual([]);
+  });
+
+  describe('size-dependent rules', () => {
+    const crossJoin = (leftRows: number, rightRows: number): string => `CrossJoinExec, metrics=[output_rows=${leftRows * rightRows}]
+  DataSourceExec: file_groups={1 group: [[a.parquet]]}, projection=[a], file_type=parquet, metrics=[output_rows=${leftRows}]
+  DataSourceExec: file_groups={1 group: [[b.parquet]]}, projection=[b], file_type=parquet, metrics=[output_rows=${rightRows}]`;
+
+    it('should report cross joins with unknown input sizes as info', () => {
+      const [finding] = linter.lint(TestHelpers.parsePlan(`CrossJoinExec
+  DataSourceExec: file_groups={1 group: [[a.parquet]]}, projection=[a], file_type=parquet
+  DataSourceExec: file_groups={1 group: [[b.parquet]]}, projection=[b], file_type=parquet`));
+
+      expect(finding.rule).toBe('large-cross-join');
+      expect(finding.severity).toBe('info');
+    });
+
+    it('should warn about cross joins over large inputs only', () => {
+      expect(linter.lint(TestHelpers.parsePlan(crossJoin(10, 20)))).toEqual([]);
+
+      const [finding] = linter.lint(TestHelpers.parsePlan(crossJoin(2_000_000, 20)));
+      expect(finding.severity).toBe('warning');
+      expect(finding.message).toContain('2000000 × 20 rows');
+    });
+
+    it('should warn about CollectLeft hash joins over a large build side', () => {
+      const join = (buildRows: number): string => `HashJoinExec: mode=CollectLeft, join_type=Inner, on=[(a@0, b@0)]
+  DataSourceExec: file_groups={1 group: [[a.parquet]]}, projection=[a], file_type=parquet, statistics=[Rows=Inexact(${buildRows}), Bytes=Absent]
+  DataSourceExec: file_groups={1 group: [[b.parquet]]}, projection=[b], file_type=parquet`;
+
+      expect(rules(join(1000))).toEqual([]);
+      expect(rules(join(5_000_000))).toEqual(['collect-left-large-build']);
+    });
+
+    it('should honor a custom large input threshold', () => {
+      expect(new PlanLinter({ largeInputRows: 100 }).lint(TestHelpers.parsePlan(crossJoin(10, 200)))[0].severity).toBe('warning');
+    });
+  });
+
+  it('should index path segments below operators with several inputs', () => {
+    const [finding] = linter.lint(TestHelpers.parsePlan(`UnionExec
+  DataSourceExec: file_groups={1 group: [[a.parquet]]}, projection=[a], file_type=parquet
+  AggregateExec: mode=Single, gby=[a@0 as a], aggr=[]
+    CoalescePartitionsExec
+      DataSourceExec: file_groups={1 group: [[b.parquet]]}, projection=[a], file_type=parquet`));
+
+    expect(finding.path).toEqual(['UnionExec', 'AggregateExec[1]']);
+  });
+
+  describe('estimateRows', () => {
+    it('should prefer output_rows metrics over statistics', () => {
+      expect(linter.estimateRows(TestHelpers.parsePlan('DataSourceExec: statistics=[Rows=Exact(7)], metrics=[output_rows=9]'))).toBe(9);
+      expect(linter.estimateRows(TestHelpers.parsePlan('DataSourceExec: statistics=[Rows=Exact(7)]'))).toBe(7);
+      expect(linter.estimateRows(TestHelpers.parsePlan('DataSourceExec: statistics=[Rows=Absent]'))).toBeUndefined();
+    });
+  });
+});
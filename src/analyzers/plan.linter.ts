@@ -0,0 +1,171 @@
+import { ExecutionPlanNode } from '../types/execution-plan.types';
+import { LintFinding, LintSeverity, PlanLinterConfig } from '../types/plan-lint.types';
+
+/**
+ * Result of checking one node against a rule
+ */
+interface RuleViolation {
+  severity: LintSeverity;
+  message: string;
+}
+
+/**
+ * A structural check run against every node of a plan
+ */
+interface LintRule {
+  /** Rule identifier reported with each finding */
+  id: string;
+  /** Returns a violation when the node matches the anti-pattern */
+  check(node: ExecutionPlanNode, linter: PlanLinter): RuleViolation | undefined;
+}
+
+/**
+ * Plan Linter
+ * Walks a physical plan tree and reports common performance anti-patterns.
+ * Row counts come from EXPLAIN ANALYZE `output_rows` metrics or from
+ * `statistics=[Rows=...]`; rules about large inputs only fire as warnings
+ * when the size is known.
+ */
+export class PlanLinter {
+  private static readonly DEFAULT_LARGE_INPUT_ROWS = 1_000_000;
+
+  private static readonly RULES: LintRule[] = [
+    {
+      id: 'sort-without-preserve-partitioning',
+      check: (node, linter) => {
+        const input = linter.inputOf(node);
+        if (node.operator !== 'SortExec' || linter.preservesPartitioning(node) ||
+          input?.operator !== 'RepartitionExec' || !input.properties?.partitioning?.startsWith('Hash(')) {
+          return undefined;
+        }
+        return {
+          severity: 'warning',
+          message: 'SortExec without preserve_partitioning sorts all partitions of a hash RepartitionExec into one; ' +
+            'sort each partition and merge with SortPreservingMergeExec instead',
+        };
+      },
+    },
+    {
+      id: 'large-cross-join',
+      check: (node, linter) => {
+        if (node.operator !== 'CrossJoinExec') {
+          return undefined;
+        }
+        const rows = node.children.map((child) => linter.estimateRows(child));
+        if (rows.some((count) => count === undefined)) {
+          return { severity: 'info', message: 'CrossJoinExec with unknown input sizes produces the product of its inputs' };
+        }
+        const [left = 1, right = 1] = rows as number[];
+        if (Math.max(left, right) < linter.largeInputRows) {
+          return undefined;
+        }
+        return {
+          severity: 'warning',
+          message: `CrossJoinExec over large inputs (${left} × ${right} rows); check for a missing join predicate`,
+        };
+      },
+    },
+    {
+      id: 'round-robin-under-sort-preserving-merge',
+      check: (node) => {
+        const roundRobin = node.children.find((child) =>
+          child.operator === 'RepartitionExec' && child.properties?.partitioning?.startsWith('RoundRobinBatch'));
+        if (node.operator !== 'SortPreservingMergeExec' || !roundRobin) {
+          return undefined;
+        }
+        return {
+          severity: 'warning',
+          message: 'RoundRobinBatch repartitioning directly under SortPreservingMergeExec only adds work: ' +
+            'the merge reads every partition anyway',
+        };
+      },
+    },
+    {
+      id: 'coalesce-before-single-aggregate',
+      check: (node, linter) => {
+        if (node.operator !== 'AggregateExec' || node.properties?.mode !== 'Single' ||
+          linter.inputOf(node)?.operator !== 'CoalescePartitionsExec') {
+          return undefined;
+        }
+        return {
+          severity: 'warning',
+          message: 'CoalescePartitionsExec feeds AggregateExec mode=Single: the whole aggregation runs on one partition; ' +
+            'a Partial/Final pair aggregates in parallel',
+        };
+      },
+    },
+    {
+      id: 'collect-left-large-build',
+      check: (node, linter) => {
+        const buildRows = node.children.length > 0 ? linter.estimateRows(node.children[0]) : undefined;
+        if (node.operator !== 'HashJoinExec' || node.properties?.mode !== 'CollectLeft' ||
+          buildRows === undefined || buildRows < linter.largeInputRows) {
+          return undefined;
+        }
+        return {
+          severity: 'warning',
+          message: `HashJoinExec mode=CollectLeft builds its hash table from ${buildRows} rows on every partition; ` +
+            'consider mode=Partitioned',
+        };
+      },
+    },
+  ];
+
+  private readonly largeInputRows: number;
+
+  constructor(config: PlanLinterConfig = {}) {
+    this.largeInputRows = config.largeInputRows ?? PlanLinter.DEFAULT_LARGE_INPUT_ROWS;
+  }
+
+  /**
+   * Lints a physical plan
+   * @param root - Root of the plan tree
+   * @returns Findings in plan order (root first)
+   */
+  lint(root: ExecutionPlanNode): LintFinding[] {
+    const findings: LintFinding[] = [];
+    this.lintNode(root, [root.operator], findings);
+    return findings;
+  }
+
+  /**
+   * Best known row count produced by a node
+   * @returns output_rows from EXPLAIN ANALYZE, else the `Rows` statistic, else undefined
+   */
+  estimateRows(node: ExecutionPlanNode): number | undefined {
+    if (node.metrics?.outputRows !== undefined) {
+      return node.metrics.outputRows;
+    }
+    const statistic = node.properties?.statistics?.match(/Rows=(?:Exact|Inexact)\((\d+)\)/);
+    return statistic ? parseInt(statistic[1], 10) : undefined;
+  }
+
+  /**
+   * Single input of a node, looking through CoalesceBatchesExec, which does not change partitioning
+   */
+  private inputOf(node: ExecutionPlanNode): ExecutionPlanNode | undefined {
+    let input = node.children.length === 1 ? node.children[0] : undefined;
+    while (input?.operator === 'CoalesceBatchesExec' && input.children.length === 1) {
+      input = input.children[0];
+    }
+    return input;
+  }
+
+  private preservesPartitioning(node: ExecutionPlanNode): boolean {
+    return node.properties?.preserve_partitioning?.includes('true') ?? false;
+  }
+
+  private lintNode(node: ExecutionPlanNode, path: string[], findings: LintFinding[]): void {
+    for (const rule of PlanLinter.RULES) {
+      const violation = rule.check(node, this);
+      if (violation) {
+        findings.push({ rule: rule.id, ...violation, operator: node.operator, path, node });
+      }
+    }
+
+    node.children.forEach((child, i) => {
+      const segment = node.children.length > 1 ? `${child.operator}[${i}]` : child.operator;
+      this.lintNode(child, [...path, segment], findings);
+    });
+  }
+}
@@ -1,17 +1,220 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
-import { convertPlanToExcalidraw } from './index';
+import { BatchConverterService, ConverterConfig, ConverterService, DataFusionCliRunner, DetailLevel, LintFinding, Orientation, OutputFormat, PlanSelection, PlanServerService, PlanWatchService } from './index';
 
-interface CliOptions {
-  input?: string;
-  output?: string;
+/**
+ * Options shared by every command that draws plans
+ */
+interface DrawingOptions {
   nodeWidth: number;
   nodeHeight: number;
   verticalSpacing: number;
   horizontalSpacing: number;
+  maxNodeWidth: number;
+  maxNodeHeight: number;
+  metrics?: boolean;
+  scanDetails?: boolean;
+  detailLevel: DetailLevel;
+  orientation: Orientation;
+}
+
+interface CliOptions extends DrawingOptions {
+  input?: string;
+  output?: string;
+  format: OutputFormat;
+  plan: PlanSelection;
+  stage?: string;
+  listStages?: boolean;
+  walkthrough?: boolean;
+  watch?: boolean;
+}
+
+interface ServeCliOptions extends DrawingOptions {
+  port: number;
+  host: string;
+}
+
+interface QueryCliOptions extends DrawingOptions {
+  sql: string;
+  datafusionCli: string;
+  setup?: string;
+  analyze?: boolean;
+  output?: string;
+  format: OutputFormat;
+  plan: PlanSelection;
+}
+
+interface BatchCliOptions extends DrawingOptions {
+  inputDir: string;
+  outputDir: string;
+  format: OutputFormat[];
+  plan: PlanSelection;
+  jobs?: number;
+  force?: boolean;
+}
+
+const FORMAT_NAMES: Record<OutputFormat, string> = {
+  excalidraw: 'Excalidraw JSON',
+  svg: 'SVG',
+  mermaid: 'Mermaid flowchart',
+  dot: 'Graphviz DOT',
+};
+
+/**
+ * Builds the file name of one stage when every stage is written:
+ * "plan.excalidraw" -> "plan-03-physical_plan_after_EnforceSorting.excalidraw"
+ */
+function stageOutputPath(outputPath: string, index: number, stageName: string): string {
+  const { dir, name, ext } = path.parse(outputPath);
+  const slug = stageName.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return path.join(dir, `${name}-${String(index + 1).padStart(2, '0')}-${slug}${ext}`);
+}
+
+/**
+ * Formats lint findings for the terminal, one finding per block followed by a summary
+ */
+function formatFindings(findings: LintFinding[]): string {
+  if (findings.length === 0) {
+    return 'No findings';
+  }
+
+  const blocks = findings.map((finding) =>
+    `${finding.severity.padEnd(7)} ${finding.rule}  ${finding.path.join(' > ')}\n        ${finding.message}`
+  );
+  const warnings = findings.filter((finding) => finding.severity === 'warning').length;
+  return `${blocks.join('\n')}\n\n${findings.length} finding(s): ${warnings} warning(s), ${findings.length - warnings} info`;
+}
+
+/**
+ * Adds the options controlling how plans are drawn to a command
+ */
+function addDrawingOptions(command: Command): Command {
+  return command
+    .option(
+      '--node-width <number>',
+      'Width of each node box',
+      (value: string) => parseInt(value, 10),
+      200
+    )
+    .option(
+      '--node-height <number>',
+      'Height of each node box',
+      (value: string) => parseInt(value, 10),
+      80
+    )
+    .option(
+      '--vertical-spacing <number>',
+      'Vertical spacing between nodes',
+      (value: string) => parseInt(value, 10),
+      100
+    )
+    .option(
+      '--horizontal-spacing <number>',
+      'Horizontal spacing between sibling nodes',
+      (value: string) => parseInt(value, 10),
+      50
+    )
+    .option(
+      '--max-node-width <number>',
+      'Widest a node may grow to fit its details before they wrap',
+      (value: string) => parseInt(value, 10),
+      500
+    )
+    .option(
+      '--max-node-height <number>',
+      'Tallest a node may grow to fit its wrapped details',
+      (value: string) => parseInt(value, 10),
+      400
+    )
+    .option('--metrics', 'Overlay EXPLAIN ANALYZE metrics as a performance heat map')
+    .option('--scan-details', 'Show DataSourceExec byte ranges, projection, predicate, file format and pruning metrics')
+    .addOption(
+      new Option('--detail-level <level>', 'Details drawn inside each node (minimal: operator names only, full: every raw property)')
+        .choices(['minimal', 'standard', 'full'])
+        .default('standard')
+    )
+    .addOption(
+      new Option('--orientation <orientation>', 'Direction the plan is drawn in (bottom-up: sources at the top, left-to-right: sources on the left)')
+        .choices(['top-down', 'bottom-up', 'left-to-right'])
+        .default('top-down')
+    );
+}
+
+/**
+ * Builds the converter configuration from the drawing options
+ */
+function converterConfig(options: DrawingOptions): ConverterConfig {
+  return {
+    generator: {
+      nodeWidth: options.nodeWidth,
+      nodeHeight: options.nodeHeight,
+      verticalSpacing: options.verticalSpacing,
+      horizontalSpacing: options.horizontalSpacing,
+      maxNodeWidth: options.maxNodeWidth,
+      maxNodeHeight: options.maxNodeHeight,
+      metricsOverlay: options.metrics ?? false,
+      scanDetails: options.scanDetails ?? false,
+      detailLevel: options.detailLevel,
+      orientation: options.orientation,
+    },
+  };
+}
+
+/**
+ * Parses a comma-separated list of output formats: "excalidraw,svg"
+ */
+function parseFormats(value: string): OutputFormat[] {
+  const formats = value.split(',').map((format) => format.trim()).filter((format) => format.length > 0);
+  const allowed = Object.keys(FORMAT_NAMES);
+  if (formats.length === 0 || formats.some((format) => !allowed.includes(format))) {
+    throw new InvalidArgumentError(`Allowed formats are ${allowed.join(', ')}.`);
+  }
+  return formats as OutputFormat[];
+}
+
+/**
+ * Parses a count that must be at least 1, such as --jobs
+ */
+function parsePositiveInteger(value: string): number {
+  if (!/^\d+$/.test(value.trim()) || parseInt(value, 10) < 1) {
+    throw new InvalidArgumentError('Expected a positive integer.');
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * The --format option of commands writing one output
+ */
+function formatOption(): Option {
+  return new Option('--format <format>', 'Output format')
+    .choices(['excalidraw', 'svg', 'mermaid', 'dot'])
+    .default('excalidraw');
+}
+
+/**
+ * The --plan option choosing which plan of EXPLAIN output is drawn
+ */
+function planOption(): Option {
+  return new Option('--plan <plan>', 'Plan to draw from EXPLAIN output (both: side by side, excalidraw and svg only)')
+    .choices(['physical', 'logical', 'both'])
+    .default('physical');
+}
+
+/**
+ * Writes a converted plan to the output file, or to stdout when there is none
+ */
+function writeOutput(output: string, format: OutputFormat, outputFile?: string): void {
+  if (outputFile) {
+    const outputPath = path.resolve(outputFile);
+    fs.writeFileSync(outputPath, output, 'utf-8');
+    console.log(`Successfully wrote ${FORMAT_NAMES[format]} to: ${outputPath}`);
+  } else {
+    // Write to stdout
+    console.log(output);
+  }
 }
 
 // Read version from package.json
@@ -24,37 +227,56 @@ const program = new Command();
 program
   .name('plan-viz')
   .description('Convert Apache Data Fusion Physical Execution Plans to Excalidraw JSON')
-  .version(version);
+  .version(version)
+  // Options after a subcommand (e.g. "diff -o") belong to that subcommand
+  .enablePositionalOptions();
 
-program
-  .option('-i, --input <file>', 'Input file containing the execution plan')
-  .option('-o, --output <file>', 'Output file for Excalidraw JSON')
-  .option(
-    '--node-width <number>',
-    'Width of each node box',
-    (value: string) => parseInt(value, 10),
-    200
-  )
-  .option(
-    '--node-height <number>',
-    'Height of each node box',
-    (value: string) => parseInt(value, 10),
-    80
-  )
-  .option(
-    '--vertical-spacing <number>',
-    'Vertical spacing between nodes',
-    (value: string) => parseInt(value, 10),
-    100
-  )
-  .option(
-    '--horizontal-spacing <number>',
-    'Horizontal spacing between sibling nodes',
-    (value: string) => parseInt(value, 10),
-    50
-  )
+addDrawingOptions(
+  program
+    .option('-i, --input <file>', 'Input file containing the execution plan')
+    .option('-o, --output <file>', 'Output file (Excalidraw JSON unless --format is given)')
+)
+  .addOption(formatOption())
+  .addOption(planOption())
+  .option('--stage <name>', 'Draw one EXPLAIN VERBOSE stage by name, or "all" to write one file per stage')
+  .option('--list-stages', 'List the plan stages found in EXPLAIN VERBOSE output')
+  .option('--walkthrough', 'Draw EXPLAIN VERBOSE output as one frame per optimizer pass that changed the plan')
+  .option('--watch', 'Regenerate the output whenever the input file (or a .sql file of the input directory) changes')
   .action((options: CliOptions) => {
     try {
+      if (options.watch) {
+        if (!options.input || !options.output) {
+          console.error('Error: --watch requires --input and --output (a directory for a directory input)');
+          process.exit(1);
+        }
+        if (options.stage || options.listStages || options.walkthrough) {
+          console.error('Error: --watch cannot be combined with --stage, --list-stages or --walkthrough');
+          process.exit(1);
+        }
+
+        const formatName = FORMAT_NAMES[options.format];
+        const watchedPath = path.resolve(options.input);
+        const watcher = new PlanWatchService(converterConfig(options)).watch({
+          input: options.input,
+          output: options.output,
+          format: options.format,
+          plan: options.plan,
+          onConverted: (_input, outputPath) => console.log(`Successfully wrote ${formatName} to: ${outputPath}`),
+          // Parse errors are reported and the previous output is kept until the plan is fixed
+          onError: (input, error) => console.error(`Error: ${input}: ${error.message}`),
+          onWatchError: (error) => {
+            console.error(`Error: Stopped watching ${watchedPath}: ${error.message}`);
+            process.exit(1);
+          },
+        });
+        console.log(`Watching ${watchedPath} for changes (press Ctrl+C to stop)`);
+        process.on('SIGINT', () => {
+          watcher.close();
+          process.exit(0);
+        });
+        return;
+      }
+
       let planText: string;
 
       // Read input
@@ -72,25 +294,81 @@ program
       }
 
       // Convert
-      const config = {
-        generator: {
-          nodeWidth: options.nodeWidth,
-          nodeHeight: options.nodeHeight,
-          verticalSpacing: options.verticalSpacing,
-          horizontalSpacing: options.horizontalSpacing,
-        },
+      const converter = new ConverterService(converterConfig(options));
+      const formatName = FORMAT_NAMES[options.format];
+
+      if (options.listStages) {
+        converter.parseStages(planText).forEach((stage, i) => {
+          console.log(`${i + 1}. ${stage.name}${stage.unchanged ? ' (unchanged)' : ''}`);
+        });
+        return;
+      }
+
+      let output: string;
+      if (options.walkthrough) {
+        output = converter.convertWalkthroughToFormat(planText, options.format);
+      } else if (options.stage) {
+        const renderedStages = converter.convertStagesToFormat(planText, options.format);
+
+        if (options.stage === 'all') {
+          if (!options.output) {
+            console.error('Error: --stage all requires --output (one file is written per stage)');
+            process.exit(1);
+          }
+          renderedStages.forEach(({ stage, output: stageOutput }, i) => {
+            const outputPath = stageOutputPath(path.resolve(options.output!), i, stage.name);
+            fs.writeFileSync(outputPath, stageOutput, 'utf-8');
+            console.log(`Successfully wrote ${formatName} to: ${outputPath}`);
+          });
+          return;
+        }
+
+        const selected = renderedStages.find(({ stage }) => stage.name === options.stage);
+        if (!selected) {
+          const names = renderedStages.map(({ stage }) => stage.name).join(', ');
+          console.error(`Error: Stage not found: ${options.stage} (available: ${names})`);
+          process.exit(1);
+        }
+        output = selected.output;
+      } else {
+        output = converter.convertToFormat(planText, options.format, options.plan);
+      }
+
+      writeOutput(output, options.format, options.output);
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(`Error: ${error.message}`);
+      } else {
+        console.error('An unknown error occurred');
+      }
+      process.exit(1);
+    }
+  });
+
+program
+  .command('diff')
+  .description('Draw the differences between two physical plans as one Excalidraw diagram')
+  .argument('<before>', 'File containing the old execution plan')
+  .argument('<after>', 'File containing the new execution plan')
+  .option('-o, --output <file>', 'Output file (Excalidraw JSON)')
+  .action((before: string, after: string, options: { output?: string }) => {
+    try {
+      const readPlan = (file: string): string => {
+        const inputPath = path.resolve(file);
+        if (!fs.existsSync(inputPath)) {
+          console.error(`Error: Input file not found: ${inputPath}`);
+          process.exit(1);
+        }
+        return fs.readFileSync(inputPath, 'utf-8');
       };
 
-      const excalidrawData = convertPlanToExcalidraw(planText, config);
-      const output = JSON.stringify(excalidrawData, null, 2);
+      const output = JSON.stringify(new ConverterService().convertDiff(readPlan(before), readPlan(after)), null, 2);
 
-      // Write output
       if (options.output) {
         const outputPath = path.resolve(options.output);
         fs.writeFileSync(outputPath, output, 'utf-8');
         console.log(`Successfully wrote Excalidraw JSON to: ${outputPath}`);
       } else {
-        // Write to stdout
         console.log(output);
       }
     } catch (error) {
@@ -103,4 +381,157 @@ program
     }
   });
 
-program.parse(process.argv);
+program
+  .command('lint')
+  .description('Report performance anti-patterns in a physical plan (exits with 1 when there are warnings)')
+  .argument('[input]', 'File containing the execution plan (default: stdin)')
+  .addOption(
+    new Option('--format <format>', 'Report format')
+      .choices(['text', 'json'])
+      .default('text')
+  )
+  .option('--callouts <file>', 'Also write the diagram with findings drawn as callouts (SVG if the file ends in .svg, else Excalidraw JSON)')
+  .action((input: string | undefined, options: { format: 'text' | 'json'; callouts?: string }) => {
+    try {
+      let planText: string;
+      if (input) {
+        const inputPath = path.resolve(input);
+        if (!fs.existsSync(inputPath)) {
+          console.error(`Error: Input file not found: ${inputPath}`);
+          process.exit(1);
+        }
+        planText = fs.readFileSync(inputPath, 'utf-8');
+      } else {
+        planText = fs.readFileSync(0, 'utf-8');
+      }
+
+      const converter = new ConverterService();
+      const findings = converter.lint(planText);
+
+      if (options.format === 'json') {
+        const report = findings.map(({ node: _node, ...finding }) => finding);
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        console.log(formatFindings(findings));
+      }
+
+      if (options.callouts) {
+        const outputPath = path.resolve(options.callouts);
+        const format: OutputFormat = path.extname(outputPath).toLowerCase() === '.svg' ? 'svg' : 'excalidraw';
+        fs.writeFileSync(outputPath, converter.convertLintToFormat(planText, format), 'utf-8');
+        console.error(`Successfully wrote ${FORMAT_NAMES[format]} to: ${outputPath}`);
+      }
+
+      // Let the process end on its own: exiting right away could cut a report piped to another command short
+      if (findings.some((finding) => finding.severity === 'warning')) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(`Error: ${error.message}`);
+      } else {
+        console.error('An unknown error occurred');
+      }
+      process.exit(1);
+    }
+  });
+
+addDrawingOptions(
+  program
+    .command('convert')
+    .description('Convert every .sql plan file of a directory tree, skipping files unchanged since the last run')
+    .requiredOption('--input-dir <dir>', 'Directory searched recursively for .sql plan files')
+    .requiredOption('--output-dir <dir>', 'Directory the outputs are written to, keeping the input directory structure')
+    .option('--format <formats>', 'Comma-separated output formats: excalidraw, svg, mermaid, dot', parseFormats, ['excalidraw'])
+    .addOption(planOption())
+    .option('--jobs <number>', 'Number of files converted in parallel (default: number of CPUs)', parsePositiveInteger)
+    .option('--force', 'Convert every file, even when it has not changed since the last run')
+).action(async (options: BatchCliOptions) => {
+  try {
+    const textFormats = options.format.filter((format) => format === 'mermaid' || format === 'dot');
+    if (options.plan === 'both' && textFormats.length > 0) {
+      console.error(`Error: Side-by-side plans are not supported for ${textFormats.join(', ')} output`);
+      process.exit(1);
+    }
+
+    const summary = await new BatchConverterService(converterConfig(options)).convertDirectory({
+      inputDir: options.inputDir,
+      outputDir: options.outputDir,
+      formats: options.format,
+      plan: options.plan,
+      jobs: options.jobs,
+      force: options.force,
+    });
+
+    for (const result of summary.results.filter((result) => result.status === 'failed')) {
+      console.error(`Failed: ${result.file}: ${result.error}`);
+    }
+    console.log(`${summary.results.length} file(s): ${summary.converted} converted, ${summary.skipped} unchanged, ${summary.failed} failed`);
+
+    if (summary.failed > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unknown error occurred');
+    }
+    process.exit(1);
+  }
+});
+
+addDrawingOptions(
+  program
+    .command('serve')
+    .description('Start a local web server with a page to paste EXPLAIN output into and a POST /convert endpoint')
+    .option('--port <number>', 'Port to listen on', (value: string) => parseInt(value, 10), 3000)
+    .option('--host <host>', 'Interface to listen on (0.0.0.0 to share the server with your network)', '127.0.0.1')
+).action(async (options: ServeCliOptions) => {
+  try {
+    const server = await new PlanServerService(converterConfig(options)).listen({ port: options.port, host: options.host });
+    console.log(`Serving plan-viz at ${server.url} (press Ctrl+C to stop)`);
+    process.on('SIGINT', () => {
+      server.close().finally(() => process.exit(0));
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unknown error occurred');
+    }
+    process.exit(1);
+  }
+});
+
+addDrawingOptions(
+  program
+    .command('query')
+    .description('Run EXPLAIN for a SQL query through a local datafusion-cli binary and draw the plan')
+    .requiredOption('--sql <query>', 'Query to explain')
+    .option('--datafusion-cli <path>', 'Path of the datafusion-cli binary', 'datafusion-cli')
+    .option('--setup <file>', 'SQL file run before the query, e.g. CREATE EXTERNAL TABLE statements')
+    .option('--analyze', 'Run EXPLAIN ANALYZE (executes the query) to include runtime metrics')
+    .option('-o, --output <file>', 'Output file (Excalidraw JSON unless --format is given)')
+    .addOption(formatOption())
+    .addOption(planOption())
+).action(async (options: QueryCliOptions) => {
+  try {
+    const planText = await new DataFusionCliRunner({ binary: options.datafusionCli }).explain({
+      sql: options.sql,
+      setupFile: options.setup,
+      analyze: options.analyze,
+    });
+    const output = new ConverterService(converterConfig(options)).convertToFormat(planText, options.format, options.plan);
+    writeOutput(output, options.format, options.output);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unknown error occurred');
+    }
+    process.exit(1);
+  }
+});
+
+program.parseAsync(process.argv);
@@ -0,0 +1,32 @@
+import { DotExporter } from '../dot.exporter';
+import { TestHelpers } from '../../generators/__tests__/utils/test-helpers';
+
+describe('DotExporter', () => {
+  let exporter: DotExporter;
+
+  beforeEach(() => {
+    exporter = new DotExporter();
+  });
+
+  it('should emit a digraph with edges from child to parent', () => {
+    const root = TestHelpers.parsePlan(`AggregateExec: mode=Final, gby=[], aggr=[count(Int64(1))]
+  AggregateExec: mode=Partial, gby=[], aggr=[count(Int64(1))]`);
+
+    expect(exporter.export(root)).toBe([
+      'digraph plan {',
+      '  rankdir=BT;',
+      '  node [shape=box, style=rounded, fontname="Helvetica"];',
+      '  n0 [label="AggregateExec\\nmode=Final\\ngby=[], aggr=[count(Int64(1))]"];',
+      '  n1 [label="AggregateExec\\nmode=Partial\\ngby=[], aggr=[count(Int64(1))]"];',
+      '  n1 -> n0;',
+      '}',
+      '',
+    ].join('\n'));
+  });
+
+  it('should escape quotes and backslashes in labels', () => {
+    const root = TestHelpers.parsePlan('FilterExec: name@0 = "a\\b"');
+
+    expect(exporter.export(root)).toContain('label="FilterExec\\nname = \\"a\\\\b\\""');
+  });
+});
@@ -0,0 +1,56 @@
+import { MermaidExporter } from '../mermaid.exporter';
+import { TestHelpers } from '../../generators/__tests__/utils/test-helpers';
+
+describe('MermaidExporter', () => {
+  let exporter: MermaidExporter;
+
+  beforeEach(() => {
+    exporter = new MermaidExporter();
+  });
+
+  it('should emit a bottom-to-top flowchart with edges from child to parent', () => {
+    const root = TestHelpers.parsePlan(`CoalescePartitionsExec
+  RepartitionExec: partitioning=RoundRobinBatch(4), input_partitions=1
+    DataSourceExec: file_groups={1 group: [[t.parquet]]}, file_type=parquet`);
+
+    expect(exporter.export(root)).toBe([
+      'flowchart BT',
+      '  n0["<b>CoalescePartitionsExec</b>"]',
+      '  n1["<b>RepartitionExec</b><br/>RoundRobinBatch(4)"]',
+      '  n2["<b>DataSourceExec</b>"]',
+      '  n2 --> n1',
+      '  n1 --> n0',
+      '',
+    ].join('\n'));
+  });
+
+  it('should connect every child of a join', () => {
+    const root = TestHelpers.parsePlan(`HashJoinExec: mode=CollectLeft, join_type=Inner, on=[(a@0, b@0)]
+  DataSourceExec: file_groups={1 group: [[l.parquet]]}, file_type=parquet
+  DataSourceExec: file_groups={1 group: [[r.parquet]]}, file_type=parquet`);
+
+    const output = exporter.export(root);
+
+    expect(output).toContain('n1 --> n0');
+    expect(output).toContain('n2 --> n0');
+    expect(output).toContain('on=[(a, b)]');
+  });
+
+  it('should show the detail lines the diagram draws', () => {
+    const root = TestHelpers.parsePlan('AggregateExec: mode=FinalPartitioned, gby=[env@0 as env], aggr=[count(Int64(1))]');
+    const texts = TestHelpers.getTextElements(TestHelpers.createGenerator().generate(root).elements).map((text) => text.text);
+
+    const label = exporter.export(root).split('\n')[1];
+
+    expect(label).toBe(`  n0["${['<b>AggregateExec</b>', ...texts.slice(1)].join('<br/>')}"]`);
+  });
+
+  it('should escape characters that break Mermaid labels', () => {
+    const root = TestHelpers.parsePlan('FilterExec: a@0 > 10 AND b@1 = "x"');
+
+    const output = exporter.export(root);
+
+    expect(output).toContain('a #gt; 10 AND b = #quot;x#quot;');
+    expect(output).not.toContain('"x"');
+  });
+});
@@ -0,0 +1,125 @@
+import { SvgExporter } from '../svg.exporter';
+import { ExcalidrawGenerator } from '../../generators/excalidraw.generator';
+import { ElementFactory } from '../../generators/factories/element.factory';
+import { IdGenerator } from '../../generators/utils/id.generator';
+import { ExecutionPlanParser } from '../../parsers/execution-plan.parser';
+import { ExcalidrawData, ExcalidrawElement, ResolvedExcalidrawConfig } from '../../types/excalidraw.types';
+
+describe('SvgExporter', () => {
+  let exporter: SvgExporter;
+  let elementFactory: ElementFactory;
+
+  const createData = (elements: ExcalidrawElement[]): ExcalidrawData => ({
+    type: 'excalidraw',
+    version: 2,
+    source: 'https://excalidraw.com',
+    elements,
+    appState: { gridSize: null, viewBackgroundColor: '#ffffff' },
+    files: {},
+  });
+
+  beforeEach(() => {
+    const config: ResolvedExcalidrawConfig = {
+      nodeWidth: 200,
+      nodeHeight: 80,
+      verticalSpacing: 100,
+      horizontalSpacing: 50,
+      fontSize: 16,
+      operatorFontSize: 20,
+      detailsFontSize: 14,
+      nodeColor: '#1e1e1e',
+      arrowColor: '#1e1e1e',
+      scanDetails: false,
+      detailLevel: 'standard',
+      maxNodeWidth: 500,
+      maxNodeHeight: 400,
+      metricsOverlay: false,
+    };
+    exporter = new SvgExporter();
+    elementFactory = new ElementFactory(new IdGenerator(), config);
+  });
+
+  it('should produce a standalone SVG document sized to the drawing', () => {
+    const rect = elementFactory.createRectangle({ id: 'r', x: 0, y: 0, width: 200, height: 80 });
+
+    const svg = exporter.export(createData([rect]));
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="240" height="120" viewBox="-20 -20 240 120">')).toBe(true);
+    expect(svg.trim().endsWith('</svg>')).toBe(true);
+    expect(svg).toContain('<rect x="0" y="0" width="200" height="80" rx="20" fill="none" stroke="#1e1e1e"');
+  });
+
+  it('should render ellipses, arrows with arrowheads and dashed strokes', () => {
+    const ellipse = elementFactory.createEllipse({ id: 'e', x: 0, y: 0, width: 10, height: 10, strokeStyle: 'dashed' });
+    const arrow = elementFactory.createArrow({
+      id: 'a',
+      startX: 50,
+      startY: 200,
+      endX: 50,
+      endY: 100,
+      childRectId: 'child',
+      parentRectId: 'parent',
+    });
+
+    const svg = exporter.export(createData([ellipse, arrow]));
+
+    expect(svg).toContain('<ellipse cx="5" cy="5" rx="5" ry="5"');
+    expect(svg).toContain('stroke-dasharray="8 6"');
+    expect(svg).toContain('<polyline points="50,200 50,100"');
+    // Arrowhead meets the parent at the end point
+    expect(svg.match(/<polyline points="[^"]*50,100 [^"]*"/g)).toHaveLength(1);
+  });
+
+  it('should render frames with their name above and include it in the bounds', () => {
+    const frame = elementFactory.createFrame({ id: 'f', x: 0, y: 0, width: 200, height: 80, name: 'after <Pass>' });
+
+    const svg = exporter.export(createData([frame]));
+
+    expect(svg).toContain('viewBox="-20 -40 240 140"');
+    expect(svg).toContain('<rect x="0" y="0" width="200" height="80"');
+    expect(svg).toContain('>after &lt;Pass&gt;</text>');
+  });
+
+  it('should align and escape text', () => {
+    const centered = elementFactory.createText({
+      id: 't1',
+      x: 0,
+      y: 0,
+      width: 200,
+      height: 20,
+      text: 'a < b & "c"',
+      textAlign: 'center',
+    });
+    const multiLine = elementFactory.createText({ id: 't2', x: 0, y: 40, width: 100, height: 40, text: 'one\ntwo' });
+
+    const svg = exporter.export(createData([centered, multiLine]));
+
+    expect(svg).toContain('x="100" y="0"');
+    expect(svg).toContain('text-anchor="middle"');
+    expect(svg).toContain('a &lt; b &amp; &quot;c&quot;');
+    expect(svg).toContain('<tspan x="0" dy="0">one</tspan><tspan x="0" dy="17.5">two</tspan>');
+  });
+
+  it('should fill colored backgrounds and omit a transparent canvas background', () => {
+    const rect = elementFactory.createRectangle({ id: 'r', x: 0, y: 0, width: 100, height: 50 });
+    rect.backgroundColor = '#ff6b6b';
+
+    const svg = new SvgExporter({ backgroundColor: 'transparent', padding: 0 }).export(createData([rect]));
+
+    expect(svg).toContain('fill="#ff6b6b"');
+    expect(svg).not.toContain('fill="#ffffff"');
+    expect(svg).toContain('viewBox="0 0 100 50"');
+  });
+
+  it('should export a generated plan', () => {
+    const parsed = new ExecutionPlanParser().parse(`ProjectionExec: expr=[a@0 as a]
+  DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[a], file_type=parquet`);
+    const data = new ExcalidrawGenerator().generate(parsed.root);
+
+    const svg = exporter.export(data);
+
+    expect(svg).toContain('>ProjectionExec</text>');
+    expect(svg).toContain('>DataSourceExec</text>');
+    expect((svg.match(/<rect /g) ?? []).length).toBeGreaterThanOrEqual(3);
+  });
+});
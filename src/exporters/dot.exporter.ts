@@ -0,0 +1,58 @@
+import { ExecutionPlanNode, PlanKind } from '../types/execution-plan.types';
+import { ExcalidrawGenerator } from '../generators/excalidraw.generator';
+
+/**
+ * DOT Exporter
+ * Renders an execution plan tree as a Graphviz DOT digraph. Edges follow the
+ * data flow (child to parent) and the root operator is ranked at the top.
+ */
+export class DotExporter {
+  /**
+   * @param generator - Generator whose node generators build the detail lines, so
+   * labels show the same details as the Excalidraw diagram
+   */
+  constructor(private generator: ExcalidrawGenerator = new ExcalidrawGenerator()) {}
+
+  /**
+   * Exports a plan tree to Graphviz DOT syntax
+   * @param root - Root node of the execution plan
+   * @param kind - Whether the tree is a physical or a logical plan (selects the node generators)
+   * @returns DOT source
+   */
+  export(root: ExecutionPlanNode, kind: PlanKind = 'physical'): string {
+    const lines: string[] = [
+      'digraph plan {',
+      '  rankdir=BT;',
+      '  node [shape=box, style=rounded, fontname="Helvetica"];',
+    ];
+    const edges: string[] = [];
+    let nextId = 0;
+
+    const visit = (node: ExecutionPlanNode): string => {
+      const id = `n${nextId++}`;
+      lines.push(`  ${id} [label="${this.buildLabel(node, kind)}"];`);
+      for (const child of node.children) {
+        const childId = visit(child);
+        edges.push(`  ${childId} -> ${id};`);
+      }
+      return id;
+    };
+
+    visit(root);
+    return [...lines, ...edges, '}'].join('\n') + '\n';
+  }
+
+  /**
+   * Builds a multi-line node label: operator name followed by summarised details
+   */
+  private buildLabel(node: ExecutionPlanNode, kind: PlanKind): string {
+    return [node.operator, ...this.generator.summarizeNode(node, kind)].map((line) => this.escape(line)).join('\\n');
+  }
+
+  /**
+   * Escapes characters that are special inside a quoted DOT string
+   */
+  private escape(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  }
+}
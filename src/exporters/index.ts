@@ -0,0 +1,3 @@
+export * from './svg.exporter';
+export * from './mermaid.exporter';
+export * from './dot.exporter';
@@ -0,0 +1,60 @@
+import { ExecutionPlanNode, PlanKind } from '../types/execution-plan.types';
+import { ExcalidrawGenerator } from '../generators/excalidraw.generator';
+
+/**
+ * Mermaid Exporter
+ * Renders an execution plan tree as a Mermaid flowchart that GitHub, GitLab
+ * and most wikis display natively. Edges follow the data flow (child to parent)
+ * and the root operator is drawn at the top, as in the Excalidraw diagram.
+ */
+export class MermaidExporter {
+  /**
+   * @param generator - Generator whose node generators build the detail lines, so
+   * labels show the same details as the Excalidraw diagram
+   */
+  constructor(private generator: ExcalidrawGenerator = new ExcalidrawGenerator()) {}
+
+  /**
+   * Exports a plan tree to Mermaid flowchart syntax
+   * @param root - Root node of the execution plan
+   * @param kind - Whether the tree is a physical or a logical plan (selects the node generators)
+   * @returns Mermaid source
+   */
+  export(root: ExecutionPlanNode, kind: PlanKind = 'physical'): string {
+    const lines: string[] = ['flowchart BT'];
+    const edges: string[] = [];
+    let nextId = 0;
+
+    const visit = (node: ExecutionPlanNode): string => {
+      const id = `n${nextId++}`;
+      lines.push(`  ${id}["${this.buildLabel(node, kind)}"]`);
+      for (const child of node.children) {
+        const childId = visit(child);
+        edges.push(`  ${childId} --> ${id}`);
+      }
+      return id;
+    };
+
+    visit(root);
+    return [...lines, ...edges].join('\n') + '\n';
+  }
+
+  /**
+   * Builds a node label: bold operator name followed by summarised details
+   */
+  private buildLabel(node: ExecutionPlanNode, kind: PlanKind): string {
+    const details = this.generator.summarizeNode(node, kind).map((line) => this.escape(line));
+    return [`<b>${this.escape(node.operator)}</b>`, ...details].join('<br/>');
+  }
+
+  /**
+   * Escapes characters Mermaid would interpret inside a quoted label
+   */
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '#amp;')
+      .replace(/"/g, '#quot;')
+      .replace(/</g, '#lt;')
+      .replace(/>/g, '#gt;');
+  }
+}
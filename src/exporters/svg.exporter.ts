@@ -0,0 +1,254 @@
+import {
+  ExcalidrawArrow,
+  ExcalidrawData,
+  ExcalidrawElement,
+  ExcalidrawEllipse,
+  ExcalidrawFrame,
+  ExcalidrawRectangle,
+  ExcalidrawText,
+} from '../types/excalidraw.types';
+import { FONT_FAMILIES, WALKTHROUGH } from '../generators/constants';
+
+/**
+ * Configuration for SVG export
+ */
+export interface SvgExportConfig {
+  /** Padding around the drawing in pixels (default: 20) */
+  padding?: number;
+  /** Background color; use 'transparent' to omit the background (default: the scene's viewBackgroundColor) */
+  backgroundColor?: string;
+}
+
+/**
+ * SVG Exporter
+ * Renders generated Excalidraw elements as a standalone SVG document
+ * so diagrams can be embedded without opening Excalidraw
+ */
+export class SvgExporter {
+  private static readonly ARROWHEAD_LENGTH = 10;
+  private static readonly ARROWHEAD_ANGLE = Math.PI / 7;
+  private static readonly MAX_CORNER_RADIUS = 32;
+
+  private static readonly FONT_STACKS: Record<number, string> = {
+    [FONT_FAMILIES.REGULAR]: 'Virgil, Segoe UI Emoji, cursive',
+    [FONT_FAMILIES.NORMAL]: 'Nunito, Segoe UI, Helvetica, Arial, sans-serif',
+    [FONT_FAMILIES.BOLD]: 'Lilita One, Nunito, Segoe UI, Helvetica, Arial, sans-serif',
+  };
+
+  private readonly padding: number;
+  private readonly backgroundColor?: string;
+
+  constructor(config: SvgExportConfig = {}) {
+    this.padding = config.padding ?? 20;
+    this.backgroundColor = config.backgroundColor;
+  }
+
+  /**
+   * Exports Excalidraw data to an SVG document
+   * @param data - Excalidraw data produced by ExcalidrawGenerator
+   * @returns SVG markup
+   */
+  export(data: ExcalidrawData): string {
+    const elements = data.elements.filter((el) => !el.isDeleted);
+    const bounds = this.calculateBounds(elements);
+    const width = bounds.maxX - bounds.minX + this.padding * 2;
+    const height = bounds.maxY - bounds.minY + this.padding * 2;
+    const viewBox = `${this.format(bounds.minX - this.padding)} ${this.format(bounds.minY - this.padding)} ` +
+      `${this.format(width)} ${this.format(height)}`;
+    const background = this.backgroundColor ?? data.appState.viewBackgroundColor;
+
+    const lines: string[] = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.format(width)}" height="${this.format(height)}" viewBox="${viewBox}">`,
+    ];
+
+    if (background && background !== 'transparent') {
+      lines.push(
+        `  <rect x="${this.format(bounds.minX - this.padding)}" y="${this.format(bounds.minY - this.padding)}" ` +
+        `width="${this.format(width)}" height="${this.format(height)}" fill="${this.escape(background)}"/>`
+      );
+    }
+
+    for (const element of elements) {
+      const markup = this.renderElement(element);
+      if (markup) {
+        lines.push(`  ${markup}`);
+      }
+    }
+
+    lines.push('</svg>');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Renders a single element, returning null for unsupported element types
+   */
+  private renderElement(element: ExcalidrawElement): string | null {
+    switch (element.type) {
+    case 'rectangle':
+      return this.renderRectangle(element);
+    case 'ellipse':
+      return this.renderEllipse(element);
+    case 'arrow':
+      return this.renderArrow(element);
+    case 'text':
+      return this.renderText(element);
+    case 'frame':
+      return this.renderFrame(element);
+    default:
+      return null;
+    }
+  }
+
+  private renderRectangle(rect: ExcalidrawRectangle): string {
+    const radius = rect.roundness ?
+      Math.min(SvgExporter.MAX_CORNER_RADIUS, Math.min(rect.width, rect.height) * 0.25) :
+      0;
+    return `<rect x="${this.format(rect.x)}" y="${this.format(rect.y)}" width="${this.format(rect.width)}" ` +
+      `height="${this.format(rect.height)}" rx="${this.format(radius)}"${this.shapeStyle(rect)}/>`;
+  }
+
+  private renderEllipse(ellipse: ExcalidrawEllipse): string {
+    const rx = ellipse.width / 2;
+    const ry = ellipse.height / 2;
+    return `<ellipse cx="${this.format(ellipse.x + rx)}" cy="${this.format(ellipse.y + ry)}" ` +
+      `rx="${this.format(rx)}" ry="${this.format(ry)}"${this.shapeStyle(ellipse)}/>`;
+  }
+
+  private renderArrow(arrow: ExcalidrawArrow): string {
+    const points = arrow.points.map(([px, py]) => [arrow.x + px, arrow.y + py]);
+    const pointList = points.map(([px, py]) => `${this.format(px)},${this.format(py)}`).join(' ');
+    const stroke = this.strokeAttributes(arrow);
+    const parts = [`<polyline points="${pointList}" fill="none"${stroke}/>`];
+
+    if (arrow.endArrowhead && points.length >= 2) {
+      parts.push(this.renderArrowhead(points[points.length - 2], points[points.length - 1], stroke));
+    }
+    if (arrow.startArrowhead && points.length >= 2) {
+      parts.push(this.renderArrowhead(points[1], points[0], stroke));
+    }
+
+    return parts.length === 1 ? parts[0] : `<g>${parts.join('')}</g>`;
+  }
+
+  /**
+   * Draws an open arrowhead pointing from `from` towards `to`
+   */
+  private renderArrowhead(from: number[], to: number[], stroke: string): string {
+    const angle = Math.atan2(to[1] - from[1], to[0] - from[0]);
+    const length = SvgExporter.ARROWHEAD_LENGTH;
+    const left = [
+      to[0] - length * Math.cos(angle - SvgExporter.ARROWHEAD_ANGLE),
+      to[1] - length * Math.sin(angle - SvgExporter.ARROWHEAD_ANGLE),
+    ];
+    const right = [
+      to[0] - length * Math.cos(angle + SvgExporter.ARROWHEAD_ANGLE),
+      to[1] - length * Math.sin(angle + SvgExporter.ARROWHEAD_ANGLE),
+    ];
+    const pointList = [left, to, right].map(([px, py]) => `${this.format(px)},${this.format(py)}`).join(' ');
+    return `<polyline points="${pointList}" fill="none"${stroke.replace(/ stroke-dasharray="[^"]*"/, '')}/>`;
+  }
+
+  /**
+   * Renders a frame as an outline with its name above the top-left corner
+   */
+  private renderFrame(frame: ExcalidrawFrame): string {
+    const outline = `<rect x="${this.format(frame.x)}" y="${this.format(frame.y)}" width="${this.format(frame.width)}" ` +
+      `height="${this.format(frame.height)}"${this.shapeStyle(frame)}/>`;
+    if (!frame.name) {
+      return outline;
+    }
+
+    const fontFamily = SvgExporter.FONT_STACKS[FONT_FAMILIES.NORMAL];
+    const label = `<text x="${this.format(frame.x)}" y="${this.format(frame.y - WALKTHROUGH.FRAME_NAME_HEIGHT)}" ` +
+      `font-family="${fontFamily}" font-size="${WALKTHROUGH.FRAME_NAME_FONT_SIZE}" fill="${this.escape(frame.strokeColor)}" ` +
+      `dominant-baseline="text-before-edge">${this.escape(frame.name)}</text>`;
+    return `<g>${outline}${label}</g>`;
+  }
+
+  /**
+   * Renders text, honoring alignment and multi-line content
+   */
+  private renderText(text: ExcalidrawText): string {
+    const anchor = text.textAlign === 'center' ? 'middle' : text.textAlign === 'right' ? 'end' : 'start';
+    const anchorX = text.textAlign === 'center' ?
+      text.x + text.width / 2 :
+      text.textAlign === 'right' ? text.x + text.width : text.x;
+    const lineHeightPx = text.fontSize * text.lineHeight;
+    const lines = text.text.split('\n');
+    const fontFamily = SvgExporter.FONT_STACKS[text.fontFamily] ?? SvgExporter.FONT_STACKS[FONT_FAMILIES.NORMAL];
+    const opacity = text.opacity < 100 ? ` opacity="${text.opacity / 100}"` : '';
+    const attributes = `x="${this.format(anchorX)}" y="${this.format(text.y)}" font-family="${fontFamily}" ` +
+      `font-size="${this.format(text.fontSize)}" fill="${this.escape(text.strokeColor)}" text-anchor="${anchor}" ` +
+      `dominant-baseline="text-before-edge"${opacity}`;
+
+    if (lines.length === 1) {
+      return `<text ${attributes}>${this.escape(lines[0])}</text>`;
+    }
+
+    const spans = lines.map((line, i) =>
+      `<tspan x="${this.format(anchorX)}" dy="${i === 0 ? 0 : this.format(lineHeightPx)}">${this.escape(line)}</tspan>`
+    );
+    return `<text ${attributes}>${spans.join('')}</text>`;
+  }
+
+  private shapeStyle(element: ExcalidrawElement): string {
+    const fill = element.backgroundColor && element.backgroundColor !== 'transparent' ?
+      this.escape(element.backgroundColor) :
+      'none';
+    return ` fill="${fill}"${this.strokeAttributes(element)}`;
+  }
+
+  private strokeAttributes(element: ExcalidrawElement): string {
+    let attributes = ` stroke="${this.escape(element.strokeColor)}" stroke-width="${element.strokeWidth}"`;
+    if (element.strokeStyle === 'dashed') {
+      attributes += ' stroke-dasharray="8 6"';
+    } else if (element.strokeStyle === 'dotted') {
+      attributes += ' stroke-dasharray="2 4"';
+    }
+    if (element.opacity < 100) {
+      attributes += ` opacity="${element.opacity / 100}"`;
+    }
+    return attributes;
+  }
+
+  /**
+   * Calculates the bounding box of all elements
+   */
+  private calculateBounds(elements: ExcalidrawElement[]): { minX: number; minY: number; maxX: number; maxY: number } {
+    if (elements.length === 0) {
+      return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+    }
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    for (const element of elements) {
+      const top = element.type === 'frame' && element.name ? element.y - WALKTHROUGH.FRAME_NAME_HEIGHT : element.y;
+      const points = element.type === 'arrow' ?
+        element.points.map(([px, py]) => [element.x + px, element.y + py]) :
+        [[element.x, top], [element.x + element.width, element.y + element.height]];
+      for (const [px, py] of points) {
+        minX = Math.min(minX, px);
+        minY = Math.min(minY, py);
+        maxX = Math.max(maxX, px);
+        maxY = Math.max(maxY, py);
+      }
+    }
+
+    return { minX, minY, maxX, maxY };
+  }
+
+  private format(value: number): string {
+    return `${Math.round(value * 100) / 100}`;
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -1,7 +1,9 @@
 import { ExcalidrawGenerator } from '../excalidraw.generator';
-import { ExcalidrawElement } from '../../types/excalidraw.types';
+import { ExcalidrawArrow, ExcalidrawElement, ExcalidrawFrame } from '../../types/excalidraw.types';
 import { TestHelpers } from './utils/test-helpers';
 import { NodeBuilder } from './builders/node.builder';
+import { COLORS } from '../constants';
+import { ExecutionPlanParser } from '../../parsers/execution-plan.parser';
 import { BaseNodeGenerator as PublicBaseNodeGenerator } from '../../index';
 import type {
   ExecutionPlanNode as PublicExecutionPlanNode,
@@ -146,6 +148,52 @@ describe('ExcalidrawGenerator - Core', () => {
     });
   });
 
+  describe('layout', () => {
+    const overlapping = (rects: ExcalidrawElement[]): Array<[ExcalidrawElement, ExcalidrawElement]> =>
+      rects.flatMap((a, i) => rects.slice(i + 1)
+        .filter((b) => a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height)
+        .map((b): [ExcalidrawElement, ExcalidrawElement] => [a, b]));
+
+    const scan = (indent: string, file: string): string =>
+      `${indent}DataSourceExec: file_groups={2 groups: [[${file}_1.parquet], [${file}_2.parquet]]}, projection=[id], file_type=parquet`;
+    const join = (indent: string, prefix: string): string => [
+      `${indent}HashJoinExec: mode=Partitioned, join_type=Inner, on=[(id@0, id@0)]`,
+      `${indent}  HashJoinExec: mode=Partitioned, join_type=Inner, on=[(id@0, id@0)]`,
+      scan(`${indent}    `, `${prefix}_a`),
+      scan(`${indent}    `, `${prefix}_b`),
+      `${indent}  HashJoinExec: mode=Partitioned, join_type=Inner, on=[(id@0, id@0)]`,
+      scan(`${indent}    `, `${prefix}_c`),
+      scan(`${indent}    `, `${prefix}_d`),
+    ].join('\n');
+
+    it('should not overlap the inputs of a union of nested joins', () => {
+      const root = new ExecutionPlanParser().parse(['UnionExec', join('  ', 'l'), scan('  ', 'm'), join('  ', 'r')].join('\n')).root;
+
+      const result = generator.generate(root);
+
+      expect(overlapping(TestHelpers.getRectangles(result.elements))).toEqual([]);
+    });
+
+    it('should spread the inputs of an operator without a dedicated generator', () => {
+      const node = NodeBuilder.createNodeWithChildren('InterleaveExec', [
+        NodeBuilder.createNodeWithChildren('TableScan', [], 1, { table: 'a' }),
+        NodeBuilder.createNodeWithChildren('TableScan', [], 1, { table: 'b' }),
+        NodeBuilder.createNodeWithChildren('TableScan', [], 1, { table: 'c' }),
+      ]);
+
+      const result = generator.generate(node);
+      const [parent, ...inputs] = TestHelpers.getRectangles(result.elements).sort((a, b) => a.y - b.y || a.x - b.x);
+
+      expect(overlapping(inputs)).toEqual([]);
+      expect((inputs[0].x + inputs[2].x + inputs[2].width) / 2).toBeCloseTo(parent.x + parent.width / 2);
+      for (const arrow of TestHelpers.getArrows(result.elements) as ExcalidrawArrow[]) {
+        const endX = arrow.x + arrow.points[arrow.points.length - 1][0];
+        expect(endX).toBeGreaterThanOrEqual(parent.x);
+        expect(endX).toBeLessThanOrEqual(parent.x + parent.width);
+      }
+    });
+  });
+
   describe('custom configuration', () => {
     it('should respect custom node dimensions', () => {
       const customGenerator = TestHelpers.createGenerator({
@@ -255,4 +303,99 @@ describe('ExcalidrawGenerator - Core', () => {
       expect(acceptsPublicTypes(generator, node)).toBe(true);
     });
   });
+
+  describe('metrics overlay', () => {
+    const analyzedPlan = `CoalescePartitionsExec, metrics=[output_rows=1, elapsed_compute=1ns]
+  ProjectionExec: expr=[a@0 as a], metrics=[output_rows=8192, elapsed_compute=3ns]`;
+
+    it('should not render metrics unless enabled', () => {
+      const root = new ExecutionPlanParser().parse(analyzedPlan).root;
+      const result = TestHelpers.createGenerator().generate(root);
+
+      expect(TestHelpers.findElementByText(result.elements, '8.19K rows')).toBeUndefined();
+      expect(TestHelpers.getRectangles(result.elements).every((rect) => rect.backgroundColor === 'transparent')).toBe(true);
+    });
+
+    it('should render a heat map when metricsOverlay is enabled', () => {
+      const root = new ExecutionPlanParser().parse(analyzedPlan).root;
+      const result = TestHelpers.createGenerator({ metricsOverlay: true }).generate(root);
+
+      expect(TestHelpers.findElementByText(result.elements, '8.19K rows')).toBeDefined();
+      expect(TestHelpers.getRectangles(result.elements).some((rect) => rect.backgroundColor !== 'transparent')).toBe(true);
+    });
+
+    it('should show rows and elapsed time as a detail line inside the node', () => {
+      const root = new ExecutionPlanParser().parse(analyzedPlan).root;
+      const result = TestHelpers.createGenerator({ metricsOverlay: true }).generate(root);
+      const line = TestHelpers.findElementByText(result.elements, 'rows=8.19K, elapsed=3ns (75%)');
+      const operator = TestHelpers.findElementByText(result.elements, 'ProjectionExec');
+      const rect = result.elements.find((el) => el.id === operator?.containerId);
+
+      expect(line).toBeDefined();
+      expect(rect).toBeDefined();
+      expect(line!.x).toBeGreaterThanOrEqual(rect!.x);
+      expect(line!.x + line!.width).toBeLessThanOrEqual(rect!.x + rect!.width);
+      expect(line!.y).toBeGreaterThan(rect!.y);
+      expect(line!.y + line!.height).toBeLessThanOrEqual(rect!.y + rect!.height);
+    });
+  });
+
+  describe('generateWalkthrough', () => {
+    const verboseText = `+--------------------------------------------+------------------------------------------------------------+
+| plan_type                                  | plan                                                       |
++--------------------------------------------+------------------------------------------------------------+
+| initial_logical_plan                       | Projection: t.a                                            |
+|                                            |   TableScan: t                                             |
+| logical_plan after push_down_projection    | Projection: t.a                                            |
+|                                            |   TableScan: t projection=[a]                              |
+| initial_physical_plan                      | CoalesceBatchesExec: target_batch_size=8192                |
+|                                            |   DataSourceExec: file_groups={1 group: [[t.csv]]}         |
+| physical_plan after OutputRequirements     | SAME TEXT AS ABOVE                                         |
+| physical_plan after LimitPushdown          | CoalesceBatchesExec: target_batch_size=8192                |
+|                                            |   DataSourceExec: file_groups={1 group: [[t.csv]]}         |
+| physical_plan after CoalesceBatches        | DataSourceExec: file_groups={1 group: [[t.csv]]}           |
++--------------------------------------------+------------------------------------------------------------+`;
+
+    const generateFrames = (): { elements: ExcalidrawElement[]; frames: ExcalidrawFrame[] } => {
+      const stages = new ExecutionPlanParser().parseStages(verboseText);
+      const { elements } = generator.generateWalkthrough(stages);
+      return { elements, frames: elements.filter((el): el is ExcalidrawFrame => el.type === 'frame') };
+    };
+
+    it('should emit one frame per stage that changed the plan, left to right', () => {
+      const { frames } = generateFrames();
+
+      expect(frames.map((frame) => frame.name)).toEqual([
+        'initial_logical_plan',
+        'logical_plan after push_down_projection',
+        'initial_physical_plan',
+        'physical_plan after CoalesceBatches',
+      ]);
+      for (let i = 1; i < frames.length; i++) {
+        expect(frames[i].x).toBeGreaterThan(frames[i - 1].x + frames[i - 1].width);
+      }
+    });
+
+    it('should place every element inside its frame', () => {
+      const { elements, frames } = generateFrames();
+      const framesById = new Map(frames.map((frame) => [frame.id, frame]));
+
+      for (const element of elements.filter((el) => el.type !== 'frame')) {
+        const frame = framesById.get(element.frameId!);
+        expect(frame).toBeDefined();
+        expect(element.x).toBeGreaterThanOrEqual(frame!.x);
+        expect(element.x + element.width).toBeLessThanOrEqual(frame!.x + frame!.width);
+      }
+    });
+
+    it('should highlight changes against the previous frame of the same kind', () => {
+      const { elements, frames } = generateFrames();
+      const rectanglesIn = (frame: ExcalidrawFrame): ExcalidrawElement[] => TestHelpers.getRectangles(elements).filter((rect) => rect.frameId === frame.id);
+
+      expect(rectanglesIn(frames[0]).map((rect) => rect.strokeColor)).not.toContain(COLORS.DIFF_CHANGED);
+      expect(rectanglesIn(frames[1]).map((rect) => rect.strokeColor)).toContain(COLORS.DIFF_CHANGED);
+      expect(rectanglesIn(frames[2]).map((rect) => rect.strokeColor)).not.toContain(COLORS.DIFF_REMOVED);
+      expect(rectanglesIn(frames[3]).map((rect) => rect.strokeColor)).toContain(COLORS.DIFF_REMOVED);
+    });
+  });
 });
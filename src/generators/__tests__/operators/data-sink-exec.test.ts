@@ -0,0 +1,73 @@
+import { ExcalidrawGenerator } from '../../excalidraw.generator';
+import { TestHelpers } from '../utils/test-helpers';
+
+describe('ExcalidrawGenerator - DataSinkExec / FileSinkExec', () => {
+  let generator: ExcalidrawGenerator;
+
+  const copyPlan = `DataSinkExec: sink=ParquetSink(file_groups=[out/part-0.parquet, out/part-1.parquet])
+  DataSourceExec: file_groups={1 group: [[in.csv]]}, projection=[a, b], file_type=csv`;
+
+  beforeEach(() => {
+    generator = TestHelpers.createGenerator();
+  });
+
+  it('should show the sink, its format and its output path', () => {
+    const result = generator.generate(TestHelpers.parsePlan(copyPlan));
+
+    TestHelpers.assertHasOperator(result, 'DataSinkExec');
+    TestHelpers.assertHasText(result, 'sink=ParquetSink');
+    TestHelpers.assertHasText(result, 'format=parquet');
+    TestHelpers.assertHasText(result, 'path=out/');
+  });
+
+  it('should draw written files above the operator with arrows pointing up to them', () => {
+    const result = generator.generate(TestHelpers.parsePlan(copyPlan));
+    const sinkRect = result.elements.find((el) => el.id === TestHelpers.findElementByText(result.elements, 'DataSinkExec')!.containerId)!;
+    const file = TestHelpers.getEllipses(result.elements).find((el) => el.id === TestHelpers.findElementByText(result.elements, 'part-0')?.containerId)!;
+    const upArrows = TestHelpers.getArrows(result.elements).filter((arrow) => arrow.y === sinkRect.y);
+
+    TestHelpers.assertHasText(result, 'part-1');
+    expect(file.y + file.height).toBeLessThan(sinkRect.y);
+    expect(upArrows).toHaveLength(2);
+  });
+
+  it('should read as source to sink: the input is drawn below the sink', () => {
+    const result = generator.generate(TestHelpers.parsePlan(copyPlan));
+    const [sinkRect, sourceRect] = TestHelpers.getRectangles(result.elements);
+
+    expect(sourceRect.y).toBeGreaterThan(sinkRect.y + sinkRect.height);
+  });
+
+  it('should collapse many output files to first ... last', () => {
+    const files = Array.from({ length: 6 }, (_, i) => `out/f${i}.csv`).join(', ');
+    const result = generator.generate(TestHelpers.parsePlan(`DataSinkExec: sink=CsvSink(file_groups=[${files}])`));
+
+    TestHelpers.assertHasText(result, 'f0');
+    TestHelpers.assertHasText(result, 'f5');
+    TestHelpers.assertHasText(result, '...');
+    expect(TestHelpers.findElementByText(result.elements, 'f2')).toBeUndefined();
+  });
+
+  it('should draw one ellipse per partition of a memory table', () => {
+    const result = generator.generate(TestHelpers.parsePlan('DataSinkExec: sink=MemoryTable (partitions=2)'));
+
+    TestHelpers.assertHasText(result, 'format=memory');
+    TestHelpers.assertHasText(result, 'p0');
+    TestHelpers.assertHasText(result, 'p1');
+  });
+
+  it('should draw the format as the target when no files are known yet', () => {
+    const result = generator.generate(TestHelpers.parsePlan('FileSinkExec: sink=JsonSink(file_groups=[])'));
+
+    TestHelpers.assertHasOperator(result, 'FileSinkExec');
+    expect(TestHelpers.findElementByText(result.elements, 'json')?.containerId).toBe(TestHelpers.getEllipses(result.elements)[0].id);
+  });
+
+  it('should output the count of written rows', () => {
+    const result = generator.generate(TestHelpers.parsePlan(`ProjectionExec: expr=[count@0 as count]
+  ${copyPlan.replace('\n', '\n  ')}`));
+    const labels = TestHelpers.getTextElements(result.elements).map((el) => el.text);
+
+    expect(labels).toContain('count');
+  });
+});
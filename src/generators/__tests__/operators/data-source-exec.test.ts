@@ -66,5 +66,61 @@ describe('ExcalidrawGenerator - DataSourceExec', () => {
       TestHelpers.assertHasArrows(result);
     });
   });
-});
 
+  describe('scan details', () => {
+    const rangedScan = 'DataSourceExec: file_groups={2 groups: [[data/f.parquet:0..1024], [data/f.parquet:1024..2048]]}, ' +
+      'projection=[a, b], file_type=parquet, predicate=a@0 = 1, pruning_predicate=a_null_count@2 != row_count@3, required_guarantees=[a in (1)], ' +
+      'metrics=[output_rows=10, row_groups_pruned_statistics=4 total → 1 matched, row_groups_pruned_bloom_filter=1 total → 1 matched, ' +
+      'page_index_rows_pruned=100 total → 40 matched]';
+
+    it('should label ranged files by their base name in the default mode', () => {
+      const result = generator.generate(TestHelpers.parsePlan(rangedScan));
+
+      expect(TestHelpers.findElementByText(result.elements, 'f')).toBeDefined();
+      expect(TestHelpers.findElementByText(result.elements, '0..1024')).toBeUndefined();
+      expect(TestHelpers.findElementByText(result.elements, 'scan details')).toBeUndefined();
+    });
+
+    it('should write each byte range under its file ellipse', () => {
+      const result = TestHelpers.createGenerator({ scanDetails: true }).generate(TestHelpers.parsePlan(rangedScan));
+      const range = TestHelpers.findElementByText(result.elements, '1024..2048')!;
+      const ellipses = TestHelpers.getEllipses(result.elements);
+
+      TestHelpers.assertHasText(result, '0..1024');
+      expect(ellipses.some((el) => range.y === el.y + el.height && Math.abs(range.x + range.width / 2 - (el.x + el.width / 2)) < 1)).toBe(true);
+    });
+
+    it('should list projection, predicate, guarantees, file type and pruning in a grouped panel below the files', () => {
+      const result = TestHelpers.createGenerator({ scanDetails: true }).generate(TestHelpers.parsePlan(rangedScan));
+      const title = TestHelpers.findElementByText(result.elements, 'scan details')!;
+      const panel = result.elements.filter((el) => el.groupIds.includes(title.groupIds[0]));
+      const lowestEllipse = Math.max(...TestHelpers.getEllipses(result.elements).map((el) => el.y + el.height));
+
+      for (const line of [
+        'projection=[a, b]',
+        'predicate=a = 1',
+        'required_guarantees=[a in (1)]',
+        'file_type=parquet',
+        'pruned by statistics: 3 row groups',
+        'pruned by bloom filter: 0 row groups',
+        'pruned by page index: 60 rows',
+      ]) {
+        expect(panel.some((el) => el.type === 'text' && el.text === line)).toBe(true);
+      }
+      expect(panel.filter((el) => el.type === 'rectangle')).toHaveLength(1);
+      expect(Math.min(...panel.map((el) => el.y))).toBeGreaterThan(lowestEllipse);
+    });
+
+    it('should wrap long lines to the width of the scan', () => {
+      const columns = Array.from({ length: 30 }, (_, i) => `column_${i}`).join(', ');
+      const result = TestHelpers.createGenerator({ scanDetails: true })
+        .generate(TestHelpers.parsePlan(`DataSourceExec: file_groups={1 group: [[f.parquet]]}, projection=[${columns}], file_type=parquet`));
+      const rect = TestHelpers.getRectangles(result.elements)[0];
+      const title = TestHelpers.findElementByText(result.elements, 'scan details')!;
+      const lines = result.elements.filter((el) => el.type === 'text' && el.groupIds.includes(title.groupIds[0]) && el !== title);
+
+      expect(lines.length).toBeGreaterThan(1);
+      expect(lines.every((el) => el.x + el.width <= rect.x + rect.width)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { ExcalidrawGenerator } from '../../excalidraw.generator';
+import { TestHelpers } from '../utils/test-helpers';
+import { NODE_DIMENSIONS } from '../../constants';
+
+describe('ExcalidrawGenerator - EmptyExec / PlaceholderRowExec / MemoryExec / ValuesExec', () => {
+  let generator: ExcalidrawGenerator;
+
+  beforeEach(() => {
+    generator = TestHelpers.createGenerator();
+  });
+
+  it('should draw EmptyExec as a compact source with no rows', () => {
+    const result = generator.generate(TestHelpers.parsePlan('EmptyExec'));
+    const [rect] = TestHelpers.getRectangles(result.elements);
+
+    TestHelpers.assertHasOperator(result, 'EmptyExec');
+    TestHelpers.assertHasText(result, '1 partition, 0 rows');
+    expect(rect.width).toBe(NODE_DIMENSIONS.DEFAULT_WIDTH);
+    expect(rect.height).toBe(NODE_DIMENSIONS.DEFAULT_HEIGHT);
+  });
+
+  it('should count one row per partition for PlaceholderRowExec and fit its name', () => {
+    const result = generator.generate(TestHelpers.parsePlan('PlaceholderRowExec: partitions=2'));
+    const [rect] = TestHelpers.getRectangles(result.elements);
+
+    TestHelpers.assertHasText(result, '2 partitions, 2 rows');
+    expect(rect.width).toBeGreaterThan(NODE_DIMENSIONS.DEFAULT_WIDTH);
+  });
+
+  it('should read MemoryExec partitions and rows from partition_sizes and statistics', () => {
+    const result = generator.generate(TestHelpers.parsePlan('MemoryExec: partitions=2, partition_sizes=[1, 1], statistics=[Rows=Exact(3), Bytes=Inexact(120)]'));
+
+    TestHelpers.assertHasText(result, '2 partitions, 3 rows');
+  });
+
+  it('should omit the row count when it is unknown', () => {
+    const result = generator.generate(TestHelpers.parsePlan('ValuesExec'));
+
+    TestHelpers.assertHasOperator(result, 'ValuesExec');
+    TestHelpers.assertHasText(result, '1 partition');
+  });
+
+  it('should feed one arrow per partition and its projection into its parent', () => {
+    const result = generator.generate(TestHelpers.parsePlan(`CoalescePartitionsExec
+  MemoryExec: partitions=3, partition_sizes=[1, 1, 1], projection=[a, b]`));
+    const labels = TestHelpers.getTextElements(result.elements).map((el) => el.text).join('');
+
+    expect(TestHelpers.getArrows(result.elements)).toHaveLength(3);
+    expect(labels).toContain('a, b');
+  });
+});
@@ -0,0 +1,128 @@
+import { ExcalidrawGenerator } from '../../excalidraw.generator';
+import { ExecutionPlanParser } from '../../../parsers/execution-plan.parser';
+import { ExecutionPlanNode } from '../../../types/execution-plan.types';
+import { ExcalidrawArrow } from '../../../types/excalidraw.types';
+import { TestHelpers } from '../utils/test-helpers';
+import { COLORS } from '../../constants';
+
+describe('ExcalidrawGenerator - logical plans', () => {
+  let generator: ExcalidrawGenerator;
+  let parser: ExecutionPlanParser;
+
+  const parseLogical = (plan: string): ExecutionPlanNode => parser.parseLogicalPlan(plan)!;
+
+  beforeEach(() => {
+    generator = TestHelpers.createGenerator();
+    parser = new ExecutionPlanParser();
+  });
+
+  it('should draw generic logical operators with their expressions', () => {
+    const root = parseLogical(`Projection: t.a, t.b
+  Filter: t.a > Int64(10)
+    SubqueryAlias: t
+      EmptyRelation`);
+
+    const result = generator.generateLogical(root);
+
+    TestHelpers.assertHasRectangles(result, 4);
+    TestHelpers.assertHasArrows(result, 3);
+    TestHelpers.assertHasText(result, 'Projection');
+    TestHelpers.assertHasText(result, 't.a, t.b');
+    TestHelpers.assertHasText(result, 't.a > Int64(10)');
+    TestHelpers.assertHasText(result, 'EmptyRelation');
+    // Logical operators are never "unimplemented"
+    expect(TestHelpers.findElementByText(result.elements, 'unimplemented')).toBeUndefined();
+  });
+
+  it('should draw Aggregate grouping in purple', () => {
+    const result = generator.generateLogical(parseLogical('Aggregate: groupBy=[[t.env]], aggr=[[count(Int64(1))]]'));
+
+    expect(TestHelpers.findElementByText(result.elements, 'groupBy=[t.env]')?.strokeColor).toBe(COLORS.PURPLE_MODE);
+    TestHelpers.assertHasText(result, 'aggr=[count(Int64(1))]');
+  });
+
+  it('should draw TableScan with table name and partial filters', () => {
+    const result = generator.generateLogical(
+      parseLogical('TableScan: dim projection=[env, service], partial_filters=[dim.service = Utf8View("log")]')
+    );
+
+    TestHelpers.assertHasText(result, 'TableScan: dim');
+    TestHelpers.assertHasText(result, 'projection=[env, service]');
+    expect(
+      TestHelpers.findElementByText(result.elements, 'partial_filters=[dim.service = Utf8View("log")]')?.strokeColor
+    ).toBe(COLORS.DARK_RED);
+  });
+
+  it('should place join inputs side by side without overlap', () => {
+    const root = parseLogical(`Inner Join: d.d_dkey = f.f_dkey
+  SubqueryAlias: d
+    TableScan: dim projection=[d_dkey]
+  TableScan: fact projection=[f_dkey]`);
+
+    const result = generator.generateLogical(root);
+    const rects = TestHelpers.getRectangles(result.elements);
+    const [join, alias, dimScan, factScan] = rects;
+
+    TestHelpers.assertHasText(result, 'Inner Join');
+    TestHelpers.assertHasText(result, 'd.d_dkey = f.f_dkey');
+    expect(alias.y).toBe(factScan.y);
+    expect(alias.x + alias.width).toBeLessThan(factScan.x);
+    expect(dimScan.x).toBe(alias.x);
+    // The two inputs are centered under the join
+    expect((alias.x + factScan.x + factScan.width) / 2).toBeCloseTo(join.x + join.width / 2);
+
+    const arrows = TestHelpers.getArrows(result.elements) as ExcalidrawArrow[];
+    const joinInputs = arrows.filter((arrow) => arrow.endBinding?.elementId === join.id);
+    expect(joinInputs).toHaveLength(2);
+  });
+
+  it('should shorten long expressions to the box width', () => {
+    const longExpr = Array.from({ length: 30 }, (_, i) => `t.column_${i}`).join(', ');
+    const result = generator.generateLogical(parseLogical(`Projection: ${longExpr}`));
+
+    const detail = TestHelpers.getTextElements(result.elements).find((t) => t.text.startsWith('t.column_0'));
+    expect(detail?.text.endsWith('...')).toBe(true);
+  });
+
+  it('should return an empty diagram for a null root', () => {
+    expect(generator.generateLogical(null).elements).toEqual([]);
+  });
+
+  describe('generateSideBySide', () => {
+    const logicalPlan = `Aggregate: groupBy=[[t.env]], aggr=[[count(Int64(1))]]
+  TableScan: t projection=[env]`;
+    const physicalPlan = `AggregateExec: mode=FinalPartitioned, gby=[env@0 as env], aggr=[count(Int64(1))]
+  RepartitionExec: partitioning=Hash([env@0], 4), input_partitions=1
+    AggregateExec: mode=Partial, gby=[env@0 as env], aggr=[count(Int64(1))]
+      DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[env], file_type=parquet`;
+
+    it('should place the physical plan to the right of the logical plan under titles', () => {
+      const result = generator.generateSideBySide(parseLogical(logicalPlan), parser.parse(physicalPlan).root!);
+      const logicalTitle = TestHelpers.findElementByText(result.elements, 'Logical plan')!;
+      const physicalTitle = TestHelpers.findElementByText(result.elements, 'Physical plan')!;
+      const aggregate = TestHelpers.findElementByText(result.elements, 'Aggregate')!;
+      const aggregateExecs = result.elements.filter((el) => el.type === 'text' && (el as { text: string }).text === 'AggregateExec');
+
+      expect(physicalTitle.x).toBeGreaterThan(logicalTitle.x);
+      expect(logicalTitle.y).toBe(physicalTitle.y);
+      expect(logicalTitle.y).toBeLessThan(aggregate.y);
+      expect(aggregateExecs.every((el) => el.x > aggregate.x + aggregate.width)).toBe(true);
+    });
+
+    it('should link logical operators to their physical operators with dashed arrows', () => {
+      const result = generator.generateSideBySide(parseLogical(logicalPlan), parser.parse(physicalPlan).root!);
+      const links = (TestHelpers.getArrows(result.elements) as ExcalidrawArrow[]).filter((arrow) => arrow.strokeStyle === 'dashed');
+
+      // Aggregate -> Partial and FinalPartitioned, TableScan -> DataSourceExec
+      expect(links).toHaveLength(3);
+      expect(links.every((arrow) => arrow.strokeColor === COLORS.PLAN_LINK)).toBe(true);
+      for (const arrow of links) {
+        const start = result.elements.find((el) => el.id === arrow.startBinding?.elementId);
+        const end = result.elements.find((el) => el.id === arrow.endBinding?.elementId);
+        expect(start?.boundElements).toContainEqual({ id: arrow.id, type: 'arrow' });
+        expect(end?.boundElements).toContainEqual({ id: arrow.id, type: 'arrow' });
+        expect(arrow.x).toBe(start!.x + start!.width);
+      }
+    });
+  });
+});
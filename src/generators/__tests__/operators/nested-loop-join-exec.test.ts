@@ -0,0 +1,72 @@
+import { ExcalidrawGenerator } from '../../excalidraw.generator';
+import { ExecutionPlanNode } from '../../../types/execution-plan.types';
+import { TestHelpers } from '../utils/test-helpers';
+import { COLORS } from '../../constants';
+
+describe('ExcalidrawGenerator - NestedLoopJoinExec', () => {
+  let generator: ExcalidrawGenerator;
+
+  const joinPlan = (joinType: string): string => `CoalesceBatchesExec: target_batch_size=8192
+  NestedLoopJoinExec: join_type=${joinType}, filter=a@0 > b@1
+    DataSourceExec: file_groups={1 group: [[l.parquet]]}, projection=[a, x], file_type=parquet
+    DataSourceExec: file_groups={1 group: [[r.parquet]]}, projection=[b, y], file_type=parquet`;
+
+  const labelText = (plan: string): string => {
+    const result = generator.generate(TestHelpers.parsePlan(plan));
+    return TestHelpers.getTextElements(result.elements).map((el) => el.text).join('');
+  };
+
+  beforeEach(() => {
+    generator = TestHelpers.createGenerator();
+  });
+
+  it('should show the join condition and the buffered side', () => {
+    const result = generator.generate(TestHelpers.parsePlan(joinPlan('Inner')));
+
+    TestHelpers.assertHasOperator(result, 'NestedLoopJoinExec');
+    TestHelpers.assertHasText(result, 'join_type=Inner');
+    TestHelpers.assertHasText(result, 'filter=a > b');
+    expect(TestHelpers.findElementByText(result.elements, 'buffered: left')?.strokeColor).toBe(COLORS.ORANGE_BORDER);
+    TestHelpers.assertHasText(result, 'Buffer');
+    expect(TestHelpers.getEllipses(result.elements).filter((el) => el.strokeColor === COLORS.ORANGE_BORDER)).toHaveLength(1);
+  });
+
+  it('should place the inputs side by side below the join', () => {
+    const result = generator.generate(TestHelpers.parsePlan(joinPlan('Inner')));
+    const [, join, left, right] = TestHelpers.getRectangles(result.elements);
+
+    expect(left.y).toBe(right.y);
+    expect(left.y).toBeGreaterThan(join.y + join.height);
+    expect(left.x + left.width).toBeLessThan(join.x);
+    expect(right.x).toBeGreaterThan(join.x + join.width);
+  });
+
+  it('should combine the schemas of both inputs', () => {
+    expect(labelText(joinPlan('Left'))).toContain('a, x, b, y');
+  });
+
+  it('should keep only the left columns for LeftSemi and LeftAnti', () => {
+    expect(labelText(joinPlan('LeftSemi'))).toContain('a, x');
+    expect(labelText(joinPlan('LeftAnti'))).not.toContain('a, x, b');
+  });
+
+  it('should keep only the right columns for RightAnti', () => {
+    expect(labelText(joinPlan('RightAnti'))).not.toContain('a, x, b');
+    expect(labelText(joinPlan('RightAnti'))).toMatch(/b, y.*b, y/);
+  });
+
+  it('should add a mark column for LeftMark', () => {
+    expect(labelText(joinPlan('LeftMark'))).toContain('a, x, mark');
+  });
+
+  it('should throw when the join does not have two inputs', () => {
+    const node: ExecutionPlanNode = {
+      operator: 'NestedLoopJoinExec',
+      properties: { join_type: 'Inner' },
+      children: [{ operator: 'DataSourceExec', children: [], level: 1 }],
+      level: 0,
+    };
+
+    expect(() => generator.generate(node)).toThrow('NestedLoopJoinExec must have exactly 2 children');
+  });
+});
@@ -0,0 +1,87 @@
+import { ExcalidrawGenerator } from '../../excalidraw.generator';
+import { ExcalidrawArrow } from '../../../types/excalidraw.types';
+import { TestHelpers } from '../utils/test-helpers';
+
+describe('ExcalidrawGenerator - RecursiveQueryExec / WorkTableExec', () => {
+  let generator: ExcalidrawGenerator;
+
+  const plan = `RecursiveQueryExec: name=nodes, is_distinct=false
+  ProjectionExec: expr=[1 as id]
+    PlaceholderRowExec
+  CoalescePartitionsExec
+    ProjectionExec: expr=[id@0 + 1 as id]
+      CoalesceBatchesExec: target_batch_size=8192
+        FilterExec: id@0 < 10
+          WorkTableExec: name=nodes`;
+
+  const rectOf = (result: ReturnType<ExcalidrawGenerator['generate']>, operator: string): { id: string; x: number; y: number; width: number; height: number } => {
+    const text = TestHelpers.findElementByText(result.elements, operator)!;
+    return result.elements.find((el) => el.id === text.containerId)!;
+  };
+
+  const loopArrows = (result: ReturnType<ExcalidrawGenerator['generate']>): ExcalidrawArrow[] =>
+    (TestHelpers.getArrows(result.elements) as ExcalidrawArrow[]).filter((arrow) => arrow.strokeStyle === 'dashed');
+
+  beforeEach(() => {
+    generator = TestHelpers.createGenerator();
+  });
+
+  it('should show the CTE name and the two terms as distinct branches', () => {
+    const result = generator.generate(TestHelpers.parsePlan(plan));
+    const query = rectOf(result, 'RecursiveQueryExec');
+    const staticTerm = rectOf(result, 'ProjectionExec');
+    const recursiveTerm = rectOf(result, 'CoalescePartitionsExec');
+
+    TestHelpers.assertHasText(result, 'name=nodes');
+    TestHelpers.assertHasText(result, 'is_distinct=false');
+    TestHelpers.assertHasText(result, 'static');
+    TestHelpers.assertHasText(result, 'recursive');
+    expect(staticTerm.y).toBe(recursiveTerm.y);
+    expect(staticTerm.x + staticTerm.width).toBeLessThan(query.x);
+    expect(recursiveTerm.x).toBeGreaterThan(query.x + query.width);
+  });
+
+  it('should loop the work table back to the recursive query', () => {
+    const result = generator.generate(TestHelpers.parsePlan(plan));
+    const query = rectOf(result, 'RecursiveQueryExec');
+    const workTable = rectOf(result, 'WorkTableExec');
+    const [loop] = loopArrows(result);
+
+    expect(loopArrows(result)).toHaveLength(1);
+    expect(loop.startBinding?.elementId).toBe(workTable.id);
+    expect(loop.endBinding?.elementId).toBe(query.id);
+    expect(loop.points).toHaveLength(4);
+    // The loop runs to the right of the whole recursive term before turning back up
+    const loopX = loop.x + loop.points[1][0];
+    expect(loopX).toBeGreaterThan(workTable.x + workTable.width);
+    expect(loop.y + loop.points[3][1]).toBe(query.y + query.height / 2);
+    TestHelpers.assertHasText(result, 'next iteration');
+  });
+
+  it('should leave the work table name unbound from its rectangle', () => {
+    const result = generator.generate(TestHelpers.parsePlan(plan));
+    const names = TestHelpers.getTextElements(result.elements).filter((el) => el.text === 'name=nodes');
+
+    expect(names).toHaveLength(2);
+    expect(names.every((el) => el.containerId === null)).toBe(true);
+  });
+
+  it('should loop each work table to its own query when recursive queries are nested', () => {
+    const nested = `RecursiveQueryExec: name=outer_cte, is_distinct=false
+  PlaceholderRowExec
+  RecursiveQueryExec: name=inner_cte, is_distinct=false
+    WorkTableExec: name=outer_cte
+    WorkTableExec: name=inner_cte`;
+    const result = generator.generate(TestHelpers.parsePlan(nested));
+    const queries = TestHelpers.getTextElements(result.elements)
+      .filter((el) => el.text === 'RecursiveQueryExec')
+      .map((el) => el.containerId);
+
+    expect(loopArrows(result).map((arrow) => arrow.endBinding?.elementId).sort()).toEqual([...queries].sort());
+  });
+
+  it('should throw when a term is missing', () => {
+    expect(() => generator.generate(TestHelpers.parsePlan('RecursiveQueryExec: name=nodes, is_distinct=false\n  PlaceholderRowExec')))
+      .toThrow('RecursiveQueryExec must have exactly 2 children');
+  });
+});
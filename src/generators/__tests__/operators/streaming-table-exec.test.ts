@@ -0,0 +1,52 @@
+import { ExcalidrawGenerator } from '../../excalidraw.generator';
+import { TestHelpers } from '../utils/test-helpers';
+import { COLORS, NODE_DIMENSIONS } from '../../constants';
+
+describe('ExcalidrawGenerator - StreamingTableExec / LazyMemoryExec', () => {
+  let generator: ExcalidrawGenerator;
+
+  beforeEach(() => {
+    generator = TestHelpers.createGenerator();
+  });
+
+  describe('StreamingTableExec operator', () => {
+    const plan = `CoalesceBatchesExec: target_batch_size=8192
+  StreamingTableExec: partition_sizes=4, projection=[ts, value], infinite_source=true, output_ordering=[ts@0 ASC NULLS LAST]`;
+
+    it('should draw a source node with its partition count and infinite=true', () => {
+      const result = generator.generate(TestHelpers.parsePlan(plan));
+      const source = TestHelpers.getRectangles(result.elements)[1];
+
+      TestHelpers.assertHasOperator(result, 'StreamingTableExec');
+      TestHelpers.assertHasText(result, '4 partitions');
+      expect(TestHelpers.findElementByText(result.elements, 'infinite=true')?.strokeColor).toBe(COLORS.DARK_RED);
+      expect(source.width).toBe(NODE_DIMENSIONS.DATASOURCE_WIDTH);
+    });
+
+    it('should have one output arrow per partition labelled with its columns', () => {
+      const result = generator.generate(TestHelpers.parsePlan(plan));
+      const labels = TestHelpers.getTextElements(result.elements).map((el) => el.text).join('');
+
+      expect(TestHelpers.getArrows(result.elements)).toHaveLength(4);
+      expect(labels).toContain('ts');
+      expect(labels).toContain('value');
+    });
+
+    it('should not mark bounded sources as infinite', () => {
+      const result = generator.generate(TestHelpers.parsePlan('StreamingTableExec: partition_sizes=1, projection=[a]'));
+
+      TestHelpers.assertHasText(result, '1 partition');
+      expect(TestHelpers.findElementByText(result.elements, 'infinite=true')).toBeUndefined();
+    });
+  });
+
+  describe('LazyMemoryExec operator', () => {
+    it('should show its partitions and batch generators', () => {
+      const result = generator.generate(TestHelpers.parsePlan('LazyMemoryExec: partitions=1, batch_generators=[generate_series: start=1, end=10, batch_size=8192]'));
+
+      TestHelpers.assertHasOperator(result, 'LazyMemoryExec');
+      TestHelpers.assertHasText(result, '1 partition');
+      TestHelpers.assertHasText(result, 'generate_series');
+    });
+  });
+});
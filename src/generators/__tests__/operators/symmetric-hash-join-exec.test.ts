@@ -0,0 +1,52 @@
+import { ExcalidrawGenerator } from '../../excalidraw.generator';
+import { TestHelpers } from '../utils/test-helpers';
+import { COLORS } from '../../constants';
+
+describe('ExcalidrawGenerator - SymmetricHashJoinExec', () => {
+  let generator: ExcalidrawGenerator;
+
+  const plan = `CoalesceBatchesExec: target_batch_size=8192
+  SymmetricHashJoinExec: mode=Partitioned, join_type=Full, on=[(a@0, a@0)], filter=b@0 > b@1
+    DataSourceExec: file_groups={1 group: [[l.parquet]]}, projection=[a, b], file_type=parquet
+    DataSourceExec: file_groups={1 group: [[r.parquet]]}, projection=[a, c], file_type=parquet`;
+
+  beforeEach(() => {
+    generator = TestHelpers.createGenerator();
+  });
+
+  it('should show the partition mode, join type, keys and filter', () => {
+    const result = generator.generate(TestHelpers.parsePlan(plan));
+
+    TestHelpers.assertHasOperator(result, 'SymmetricHashJoinExec');
+    expect(TestHelpers.findElementByText(result.elements, 'partition_mode=Partitioned')?.strokeColor).toBe(COLORS.PURPLE_MODE);
+    TestHelpers.assertHasText(result, 'join_type=Full');
+    TestHelpers.assertHasText(result, 'on=[(a, a)]');
+    TestHelpers.assertHasText(result, 'filter=b > b');
+  });
+
+  it('should draw one hash table per input, each receiving its own input', () => {
+    const result = generator.generate(TestHelpers.parsePlan(plan));
+    const hashTables = TestHelpers.getEllipses(result.elements).filter((el) => el.strokeColor === COLORS.ORANGE_BORDER);
+    const [leftTable, rightTable] = hashTables;
+    const arrows = TestHelpers.getArrows(result.elements) as Array<{ endBinding?: { elementId: string } | null }>;
+
+    expect(hashTables).toHaveLength(2);
+    expect(leftTable.x + leftTable.width).toBeLessThan(rightTable.x);
+    expect(arrows.some((arrow) => arrow.endBinding?.elementId === leftTable.id)).toBe(true);
+    expect(arrows.some((arrow) => arrow.endBinding?.elementId === rightTable.id)).toBe(true);
+  });
+
+  it('should show the sort-based pruning expressions when present', () => {
+    const result = generator.generate(TestHelpers.parsePlan(plan.replace('filter=b@0 > b@1', 'filter=b@0 > b@1, left_sort_exprs=[a@0 ASC], right_sort_exprs=[a@0 ASC]')));
+
+    expect(TestHelpers.findElementByText(result.elements, 'prune left by [a ASC]')?.strokeColor).toBe(COLORS.ORDERED_COLUMN);
+    TestHelpers.assertHasText(result, 'prune right by [a ASC]');
+  });
+
+  it('should output the combined schema without duplicates', () => {
+    const result = generator.generate(TestHelpers.parsePlan(plan));
+    const labels = TestHelpers.getTextElements(result.elements).map((el) => el.text).join('');
+
+    expect(labels).toContain('a, b, c');
+  });
+});
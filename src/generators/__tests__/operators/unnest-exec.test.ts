@@ -0,0 +1,58 @@
+import { ExcalidrawGenerator } from '../../excalidraw.generator';
+import { TestHelpers } from '../utils/test-helpers';
+import { COLORS } from '../../constants';
+
+describe('ExcalidrawGenerator - UnnestExec', () => {
+  let generator: ExcalidrawGenerator;
+
+  const labelText = (plan: string): string => {
+    const result = generator.generate(TestHelpers.parsePlan(plan));
+    return TestHelpers.getTextElements(result.elements).map((el) => el.text).join('');
+  };
+
+  const tablePlan = `CoalesceBatchesExec: target_batch_size=8192
+  UnnestExec
+    ProjectionExec: expr=[id@0 as id, tags@1 as __unnest_placeholder(t.tags)]
+      DataSourceExec: file_groups={2 groups: [[a.parquet], [b.parquet]]}, projection=[id, tags], file_type=parquet`;
+
+  beforeEach(() => {
+    generator = TestHelpers.createGenerator();
+  });
+
+  it('should list the expanded columns', () => {
+    const result = generator.generate(TestHelpers.parsePlan(tablePlan));
+
+    TestHelpers.assertHasOperator(result, 'UnnestExec');
+    expect(TestHelpers.findElementByText(result.elements, 'UNNEST(t.tags)')?.strokeColor).toBe(COLORS.PURPLE_MODE);
+  });
+
+  it('should replace placeholder columns with their unnested values on its output', () => {
+    const labels = labelText(tablePlan);
+
+    expect(labels).toContain('id, __unnest_placeholder(t.tags)');
+    expect(labels).toContain('id, UNNEST(t.tags)');
+  });
+
+  it('should keep the partitioning of its input', () => {
+    const result = generator.generate(TestHelpers.parsePlan(tablePlan));
+    const unnestRect = TestHelpers.getRectangles(result.elements)[1];
+    const arrowsIntoParent = TestHelpers.getArrows(result.elements).filter((arrow) => arrow.y === unnestRect.y);
+
+    expect(arrowsIntoParent).toHaveLength(2);
+  });
+
+  it('should find placeholders of nested expressions', () => {
+    const result = generator.generate(TestHelpers.parsePlan(`UnnestExec
+  ProjectionExec: expr=[[1, 2, 3] as __unnest_placeholder(make_array(Int64(1),Int64(2),Int64(3)))]
+    PlaceholderRowExec`));
+
+    TestHelpers.assertHasText(result, 'UNNEST(make_array(Int64(1),Int64(2),Int64(3)))');
+  });
+
+  it('should draw UnnestExec without an input', () => {
+    const result = generator.generate({ operator: 'UnnestExec', children: [], level: 0 });
+
+    TestHelpers.assertHasOperator(result, 'UnnestExec');
+    TestHelpers.assertHasRectangles(result, 1);
+  });
+});
@@ -0,0 +1,64 @@
+import { ExcalidrawGenerator } from '../../excalidraw.generator';
+import { TestHelpers } from '../utils/test-helpers';
+import { COLORS, NODE_DIMENSIONS, WINDOW_NODE } from '../../constants';
+
+describe('ExcalidrawGenerator - WindowAggExec / BoundedWindowAggExec', () => {
+  let generator: ExcalidrawGenerator;
+
+  const boundedPlan = `ProjectionExec: expr=[a@0 as a, row_number() PARTITION BY [t.a] ORDER BY [t.b ASC NULLS LAST] ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW@2 as rn]
+  BoundedWindowAggExec: wdw=[row_number() PARTITION BY [t.a] ORDER BY [t.b ASC NULLS LAST] ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW: Ok(Field { name: "row_number() PARTITION BY [t.a] ORDER BY [t.b ASC NULLS LAST] ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW", data_type: UInt64, nullable: false, dict_id: 0, dict_is_ordered: false, metadata: {} }), frame: WindowFrame { units: Rows, start_bound: Preceding(UInt64(NULL)), end_bound: CurrentRow, is_causal: true }], mode=[Sorted]
+    SortExec: expr=[a@0 ASC NULLS LAST, b@1 ASC NULLS LAST], preserve_partitioning=[false]
+      DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[a, b], file_type=parquet`;
+
+  beforeEach(() => {
+    generator = TestHelpers.createGenerator();
+  });
+
+  describe('BoundedWindowAggExec operator', () => {
+    it('should list the window function with its keys and frame', () => {
+      const result = generator.generate(TestHelpers.parsePlan(boundedPlan));
+
+      TestHelpers.assertHasOperator(result, 'BoundedWindowAggExec');
+      TestHelpers.assertHasText(result, 'row_number()');
+      TestHelpers.assertHasText(result, 'PARTITION BY [t.a]');
+      expect(TestHelpers.findElementByText(result.elements, 'ORDER BY [t.b ASC]')?.strokeColor).toBe(COLORS.ORDERED_COLUMN);
+      TestHelpers.assertHasText(result, 'ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW');
+    });
+
+    it('should show the mode in purple', () => {
+      const result = generator.generate(TestHelpers.parsePlan(boundedPlan));
+
+      expect(TestHelpers.findElementByText(result.elements, 'mode=Sorted')?.strokeColor).toBe(COLORS.PURPLE_MODE);
+    });
+
+    it('should append window columns to the input columns on its output arrow', () => {
+      const result = generator.generate(TestHelpers.parsePlan(boundedPlan));
+      const labels = TestHelpers.getTextElements(result.elements).map((el) => el.text).join('');
+
+      expect(labels).toContain('a, b, row_number()');
+    });
+  });
+
+  describe('WindowAggExec operator', () => {
+    it('should draw one entry per window function and grow with them', () => {
+      const result = generator.generate(TestHelpers.parsePlan(`WindowAggExec: wdw=[sum(t.c) PARTITION BY [t.a]: Field { "sum(t.c) PARTITION BY [t.a]": nullable Int64 }, frame: RANGE BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING, count(Int64(1)): Field { "count(Int64(1))": Int64 }, frame: ROWS BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING]
+  DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[a, c], file_type=parquet`));
+      const [rect] = TestHelpers.getRectangles(result.elements);
+
+      TestHelpers.assertHasOperator(result, 'WindowAggExec');
+      TestHelpers.assertHasText(result, 'sum(t.c)');
+      TestHelpers.assertHasText(result, 'count(Int64(1))');
+      expect(TestHelpers.findElementByText(result.elements, 'mode=Sorted')).toBeUndefined();
+      expect(rect.height).toBeGreaterThan(NODE_DIMENSIONS.DEFAULT_HEIGHT);
+      expect(rect.width).toBeGreaterThanOrEqual(NODE_DIMENSIONS.DATASOURCE_WIDTH);
+      expect(rect.width).toBeLessThanOrEqual(WINDOW_NODE.MAX_WIDTH);
+    });
+
+    it('should handle a window operator without wdw', () => {
+      const result = generator.generate({ operator: 'WindowAggExec', children: [], level: 0 });
+
+      TestHelpers.assertHasOperator(result, 'WindowAggExec');
+      TestHelpers.assertHasRectangles(result, 1);
+    });
+  });
+});
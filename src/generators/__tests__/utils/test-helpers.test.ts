@@ -25,6 +25,18 @@ describe('TestHelpers', () => {
     });
   });
 
+  describe('parsePlan', () => {
+    it('should parse plan text into its root node', () => {
+      const root = TestHelpers.parsePlan('CoalescePartitionsExec\n  DataSourceExec: file_groups={1 group: [[a.parquet]]}');
+      expect(root.operator).toBe('CoalescePartitionsExec');
+      expect(root.children[0].operator).toBe('DataSourceExec');
+    });
+
+    it('should throw when the text contains no plan', () => {
+      expect(() => TestHelpers.parsePlan('  ')).toThrow('No execution plan found');
+    });
+  });
+
   describe('findElementByType', () => {
     it('should find rectangle element', () => {
       const node = NodeBuilder.createSimpleNode('TableScan');
@@ -1,6 +1,8 @@
 import { ExcalidrawGenerator } from '../../excalidraw.generator';
 import { ExcalidrawConfig } from '../../../types/excalidraw.types';
 import { ExcalidrawData, ExcalidrawElement, ExcalidrawText } from '../../../types/excalidraw.types';
+import { ExecutionPlanParser } from '../../../parsers/execution-plan.parser';
+import { ExecutionPlanNode } from '../../../types/execution-plan.types';
 
 /**
  * Test helper utilities for common test operations
@@ -13,6 +15,18 @@ export class TestHelpers {
     return new ExcalidrawGenerator(config);
   }
 
+  /**
+   * Parses plan text (as printed by DataFusion) into its root node
+   * @throws Error if the text contains no plan
+   */
+  static parsePlan(planText: string): ExecutionPlanNode {
+    const root = new ExecutionPlanParser().parse(planText).root;
+    if (!root) {
+      throw new Error(`No execution plan found in: ${planText}`);
+    }
+    return root;
+  }
+
   /**
    * Finds an element by type with type assertion
    */
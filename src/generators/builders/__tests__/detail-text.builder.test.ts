@@ -21,6 +21,11 @@ describe('DetailTextBuilder', () => {
       detailsFontSize: 14,
       nodeColor: '#1e1e1e',
       arrowColor: '#1e1e1e',
+      scanDetails: false,
+      detailLevel: 'standard',
+      maxNodeWidth: 500,
+      maxNodeHeight: 400,
+      metricsOverlay: false,
     };
     elementFactory = new ElementFactory(idGenerator, config);
     builder = new DetailTextBuilder(elementFactory, idGenerator);
@@ -13,6 +13,56 @@ export const NODE_DIMENSIONS = {
   SORT_MERGE_JOIN_HEIGHT: 125,
 } as const;
 
+export const WINDOW_NODE = {
+  MAX_WIDTH: 500,
+  BASE_HEIGHT: 45,
+  DETAILS_OFFSET: 35,
+  TEXT_PADDING: 10,
+} as const;
+
+export const SOURCE_NODE = {
+  DETAILS_OFFSET: 35,
+  TEXT_PADDING: 10,
+  BOTTOM_PADDING: 10,
+} as const;
+
+export const SCAN_DETAILS = {
+  PANEL_GAP: 20,
+  PADDING: 10,
+  RANGE_GAP: 10,
+} as const;
+
+export const DETAIL_LEVEL = {
+  HEADER_HEIGHT: 30,
+  DETAILS_OFFSET: 35,
+  TEXT_PADDING: 10,
+  INNER_GAP: 10,
+  BOTTOM_PADDING: 10,
+  MIN_HEIGHT: 40,
+} as const;
+
+export const ORIENTATION = {
+  LABEL_MARGIN: 10,
+  LABEL_GAP: 5,
+} as const;
+
+export const SINK_NODE = {
+  MAX_TARGETS: 3,
+  LABEL_PADDING: 20,
+} as const;
+
+export const RECURSIVE_QUERY = {
+  LOOP_GAP: 40,
+  LOOP_LABEL_OFFSET: 5,
+} as const;
+
+export const LOGICAL_NODE = {
+  MIN_WIDTH: 300,
+  MAX_WIDTH: 600,
+  BASE_HEIGHT: 45,
+  TEXT_PADDING: 10,
+} as const;
+
 export const SPACING = {
   VERTICAL: 100,
   HORIZONTAL: 50,
@@ -36,6 +86,18 @@ export const COLORS = {
   RED_ERROR: '#ff0000',
   TRANSPARENT: 'transparent',
   WHITE_BACKGROUND: '#ffffff',
+  HEAT_COLD: '#ffffff',
+  HEAT_HOT: '#ff6b6b',
+  ROW_COUNT: '#2f9e44',
+  PLAN_LINK: '#1971c2',
+  DIFF_ADDED: '#2f9e44',
+  DIFF_REMOVED: '#e03131',
+  DIFF_CHANGED: '#f08c00',
+  FRAME_STROKE: '#bbb',
+  LINT_WARNING: '#e8590c',
+  LINT_WARNING_BACKGROUND: '#fff4e6',
+  LINT_INFO: '#1971c2',
+  LINT_INFO_BACKGROUND: '#e7f5ff',
 } as const;
 
 export const ARROW_CONSTANTS = {
@@ -76,12 +138,51 @@ export const ELEMENT_DEFAULTS = {
   ELLIPSE_ROUNDNESS_TYPE: 2,
 } as const;
 
+export const METRICS_OVERLAY = {
+  ROW_LABEL_OFFSET: 5,
+} as const;
+
+export const DIFF_OVERLAY = {
+  STROKE_WIDTH: 2,
+  GHOST_OPACITY: 40,
+  LABEL_GAP: 10,
+  MAX_VALUE_LENGTH: 40,
+} as const;
+
+export const LINT_CALLOUT = {
+  GAP: 80,
+  PADDING: 10,
+  SPACING: 15,
+  STROKE_WIDTH: 2,
+  LINE_LENGTH: 48,
+} as const;
+
+export const WALKTHROUGH = {
+  FRAME_PADDING: 60,
+  FRAME_GAP: 100,
+  FRAME_STROKE_WIDTH: 2,
+  FRAME_NAME_HEIGHT: 20,
+  FRAME_NAME_FONT_SIZE: 14,
+} as const;
+
+export const SIDE_BY_SIDE = {
+  PLAN_GAP: 300,
+  TITLE_OFFSET: 60,
+} as const;
+
 export const HASH_TABLE_DIMENSIONS = {
   WIDTH: 138,
   HEIGHT: 41,
   Y_OFFSET: 70,
 } as const;
 
+export const TWO_INPUT_JOIN = {
+  DETAILS_OFFSET: 35,
+  INNER_GAP: 10,
+  ELLIPSE_LABEL_HEIGHT: 18.4,
+  LABEL_OFFSET: 5,
+} as const;
+
 export const DYNAMIC_FILTER_DIMENSIONS = {
   WIDTH: 120,
   HEIGHT: 30,
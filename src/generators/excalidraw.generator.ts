@@ -2,17 +2,31 @@ import {
   ExcalidrawData,
   ExcalidrawElement,
   ExcalidrawConfig,
+  Orientation,
   ResolvedExcalidrawConfig,
 } from '../types/excalidraw.types';
-import { ExecutionPlanNode } from '../types/execution-plan.types';
+import { ExecutionPlanNode, PlanKind, PlanStage } from '../types/execution-plan.types';
+import { PlanDiffNode } from '../types/plan-diff.types';
+import { LintFinding } from '../types/plan-lint.types';
 import { IdGenerator } from './utils/id.generator';
 import { TextMeasurement } from './utils/text-measurement';
+import { TextWrapper } from './utils/text-wrapper';
 import { ElementFactory } from './factories/element.factory';
 import { ArrowPositionCalculator } from './utils/arrow-position.calculator';
 import { PropertyParser } from './utils/property.parser';
 import { ColumnLabelRenderer } from './renderers/column-label.renderer';
+import { MetricsOverlayRenderer } from './renderers/metrics-overlay.renderer';
+import { PlanLinkRenderer } from './renderers/plan-link.renderer';
+import { PlanDiffOverlayRenderer } from './renderers/plan-diff-overlay.renderer';
+import { PlanLintOverlayRenderer } from './renderers/plan-lint-overlay.renderer';
+import { OrientationRenderer, OrientedNode } from './renderers/orientation.renderer';
+import { PlanNodeMatcher } from './utils/plan-node.matcher';
+import { PlanNodeDiffer } from './utils/plan-node.differ';
 import { GeometryUtils } from './utils/geometry.utils';
+import { MeasuredNode, TreeLayoutCalculator } from './utils/tree-layout.calculator';
 import { NodeGeneratorRegistry } from './generators/node-generator.registry';
+import { NodeGeneratorStrategy } from './generators/node-generator.strategy';
+import { BaseNodeGenerator } from './generators/base-node.generator';
 import { DefaultNodeGenerator } from './generators/default-node.generator';
 import { CoalescePartitionsNodeGenerator } from './generators/coalesce-partitions-node.generator';
 import { CoalesceBatchesNodeGenerator } from './generators/coalesce-batches-node.generator';
@@ -25,11 +39,36 @@ import { SortPreservingMergeNodeGenerator } from './generators/sort-preserving-m
 import { HashJoinNodeGenerator } from './generators/hash-join-node.generator';
 import { SortMergeJoinNodeGenerator } from './generators/sort-merge-join-node.generator';
 import { CrossJoinNodeGenerator } from './generators/cross-join-node.generator';
+import { NestedLoopJoinNodeGenerator } from './generators/nested-loop-join-node.generator';
+import { SymmetricHashJoinNodeGenerator } from './generators/symmetric-hash-join-node.generator';
 import { UnionNodeGenerator } from './generators/union-node.generator';
 import { DataSourceNodeGenerator } from './generators/data-source-node.generator';
 import { LocalLimitNodeGenerator } from './generators/local-limit-node.generator';
 import { GlobalLimitNodeGenerator } from './generators/global-limit-node.generator';
+import { WindowAggNodeGenerator } from './generators/window-agg-node.generator';
+import { RecursiveQueryNodeGenerator } from './generators/recursive-query-node.generator';
+import { WorkTableNodeGenerator } from './generators/work-table-node.generator';
+import { StreamingSourceNodeGenerator } from './generators/streaming-source-node.generator';
+import { InMemorySourceNodeGenerator } from './generators/in-memory-source-node.generator';
+import { UnnestNodeGenerator } from './generators/unnest-node.generator';
+import { DataSinkNodeGenerator } from './generators/data-sink-node.generator';
+import { LogicalNodeGenerator } from './generators/logical-node.generator';
+import { LogicalAggregateNodeGenerator } from './generators/logical-aggregate-node.generator';
+import { LogicalJoinNodeGenerator } from './generators/logical-join-node.generator';
+import { LogicalTableScanNodeGenerator } from './generators/logical-table-scan-node.generator';
 import { GenerationContext } from './types/generation-context.types';
+import { NodeInfo, RenderedNode } from './types/node-info.types';
+import { FONT_FAMILIES, FONT_SIZES, SIDE_BY_SIDE, TEXT_HEIGHTS, WALKTHROUGH } from './constants';
+
+/**
+ * Overlay elements drawn as part of a plan tree, so that its layout makes room for them
+ */
+interface TreeOverlays {
+  /** Elements an overlay will add next to a node's rectangle once the tree is drawn; the layout counts them as part of the node */
+  annotate?: (node: ExecutionPlanNode, rect: ExcalidrawElement) => ExcalidrawElement[];
+  /** Label arrows with the rows flowing through them (metrics overlay) */
+  rowCounts?: boolean;
+}
 
 /**
  * Generator for Excalidraw JSON from execution plan nodes
@@ -40,12 +79,30 @@ export class ExcalidrawGenerator {
   private readonly config: ResolvedExcalidrawConfig;
   private readonly idGenerator: IdGenerator;
   private readonly textMeasurement: TextMeasurement;
+  private readonly textWrapper: TextWrapper;
   private readonly elementFactory: ElementFactory;
   private readonly arrowCalculator: ArrowPositionCalculator;
   private readonly propertyParser: PropertyParser;
   private readonly columnRenderer: ColumnLabelRenderer;
   private readonly geometryUtils: GeometryUtils;
   private readonly nodeGeneratorRegistry: NodeGeneratorRegistry;
+  private readonly logicalGeneratorRegistry: NodeGeneratorRegistry;
+  private readonly metricsOverlayRenderer: MetricsOverlayRenderer;
+  private readonly planLinkRenderer: PlanLinkRenderer;
+  private readonly planNodeMatcher: PlanNodeMatcher;
+  private readonly planDiffOverlayRenderer: PlanDiffOverlayRenderer;
+  private readonly planNodeDiffer: PlanNodeDiffer;
+  private readonly planLintOverlayRenderer: PlanLintOverlayRenderer;
+  private readonly treeLayoutCalculator: TreeLayoutCalculator;
+  private readonly orientationRenderer: OrientationRenderer;
+  private readonly orientation: Orientation;
+  private renderedNodes: RenderedNode[] = [];
+  /** Nodes drawn by the current pass, with the x they were asked for and their subtree's elements */
+  private drawnNodes: Map<ExecutionPlanNode, { x: number; info: NodeInfo; subtree: ExcalidrawElement[] }> = new Map();
+  /** X to draw each node at, as assigned by the layout pass */
+  private layoutPositions: Map<ExecutionPlanNode, number> | null = null;
+  /** Total elapsed_compute of the plan being drawn, for the metrics detail lines */
+  private totalCompute = 0;
 
   constructor(config: ExcalidrawConfig = {}) {
     const baseFontSize = config.fontSize ?? 16;
@@ -59,8 +116,14 @@ export class ExcalidrawGenerator {
       detailsFontSize: config.detailsFontSize ?? Math.round(baseFontSize * 0.875),
       nodeColor: config.nodeColor ?? '#1e1e1e',
       arrowColor: config.arrowColor ?? '#1e1e1e',
+      scanDetails: config.scanDetails ?? false,
+      detailLevel: config.detailLevel ?? 'standard',
+      maxNodeWidth: config.maxNodeWidth ?? 500,
+      maxNodeHeight: config.maxNodeHeight ?? 400,
+      metricsOverlay: config.metricsOverlay ?? false,
     };
     const customGenerators = config.customGenerators ?? [];
+    this.orientation = config.orientation ?? 'top-down';
 
     // Initialize utility instances
     this.idGenerator = new IdGenerator();
@@ -68,8 +131,17 @@ export class ExcalidrawGenerator {
     this.elementFactory = new ElementFactory(this.idGenerator, this.config);
     this.arrowCalculator = new ArrowPositionCalculator();
     this.propertyParser = new PropertyParser();
+    this.textWrapper = new TextWrapper(this.textMeasurement, this.propertyParser);
     this.columnRenderer = new ColumnLabelRenderer(this.elementFactory, this.textMeasurement, this.idGenerator);
     this.geometryUtils = new GeometryUtils();
+    this.metricsOverlayRenderer = new MetricsOverlayRenderer(this.elementFactory, this.textMeasurement, this.idGenerator);
+    this.planLinkRenderer = new PlanLinkRenderer(this.elementFactory, this.idGenerator);
+    this.planNodeMatcher = new PlanNodeMatcher();
+    this.planDiffOverlayRenderer = new PlanDiffOverlayRenderer(this.elementFactory, this.textMeasurement, this.idGenerator);
+    this.planNodeDiffer = new PlanNodeDiffer();
+    this.planLintOverlayRenderer = new PlanLintOverlayRenderer(this.elementFactory, this.textMeasurement, this.idGenerator, this.geometryUtils);
+    this.treeLayoutCalculator = new TreeLayoutCalculator(this.config.horizontalSpacing);
+    this.orientationRenderer = new OrientationRenderer(this.geometryUtils, this.treeLayoutCalculator);
 
     // Initialize node generator registry
     this.nodeGeneratorRegistry = new NodeGeneratorRegistry();
@@ -78,6 +150,11 @@ export class ExcalidrawGenerator {
     for (const { operator, generator } of customGenerators) {
       this.nodeGeneratorRegistry.register(operator, generator);
     }
+
+    // Logical plans use their own registry: operator names such as "TableScan"
+    // would otherwise collide with physical plans rendered by the default generator
+    this.logicalGeneratorRegistry = new NodeGeneratorRegistry();
+    this.registerLogicalNodeGenerators();
   }
 
   /**
@@ -87,12 +164,225 @@ export class ExcalidrawGenerator {
    */
   public generate(root: ExecutionPlanNode | null): ExcalidrawData {
     const elements: ExcalidrawElement[] = [];
+    this.renderedNodes = [];
 
     if (root) {
       // Root node is the first line of physical_plan - it should not have output arrows
-      this.generateNodeElements(root, 0, 0, elements, true);
+      this.generateTree(root, elements, this.nodeGeneratorRegistry, { rowCounts: this.config.metricsOverlay });
+    }
+
+    if (this.config.metricsOverlay) {
+      this.metricsOverlayRenderer.render(this.renderedNodes, elements);
+    }
+
+    return this.createExcalidrawData(elements);
+  }
+
+  /**
+   * Generates Excalidraw JSON from an execution plan with lint findings drawn
+   * as callouts to the right of the plan
+   * @param root - Root node of the execution plan
+   * @param findings - Findings from PlanLinter.lint on the same tree
+   * @returns Complete Excalidraw data structure
+   */
+  public generateWithFindings(root: ExecutionPlanNode, findings: LintFinding[]): ExcalidrawData {
+    const data = this.generate(root);
+    data.elements.push(...this.planLintOverlayRenderer.render(this.renderedNodes, data.elements, findings));
+    return data;
+  }
+
+  /**
+   * Generates Excalidraw JSON from a logical plan node tree
+   * Logical nodes are drawn by the logical generators with children side by side
+   * @param root - Root node of the logical plan
+   * @returns Complete Excalidraw data structure
+   */
+  public generateLogical(root: ExecutionPlanNode | null): ExcalidrawData {
+    const elements: ExcalidrawElement[] = [];
+    this.renderedNodes = [];
+
+    if (root) {
+      this.generateTree(root, elements, this.logicalGeneratorRegistry);
+    }
+
+    return this.createExcalidrawData(elements);
+  }
+
+  /**
+   * Generates one canvas with the logical plan on the left and the physical plan
+   * on the right, each under a title, with dashed arrows linking logical
+   * operators to the physical operators that implement them
+   * @param logicalRoot - Root node of the logical plan
+   * @param physicalRoot - Root node of the physical plan
+   * @returns Complete Excalidraw data structure
+   */
+  public generateSideBySide(logicalRoot: ExecutionPlanNode, physicalRoot: ExecutionPlanNode): ExcalidrawData {
+    const logicalElements: ExcalidrawElement[] = [];
+    const physicalElements: ExcalidrawElement[] = [];
+
+    this.generateTree(logicalRoot, logicalElements, this.logicalGeneratorRegistry);
+    const logicalNodes = this.renderedNodes;
+
+    this.generateTree(physicalRoot, physicalElements, this.nodeGeneratorRegistry, { rowCounts: this.config.metricsOverlay });
+    if (this.config.metricsOverlay) {
+      this.metricsOverlayRenderer.render(this.renderedNodes, physicalElements);
+    }
+    const physicalNodes = this.renderedNodes;
+
+    // Physical subtrees may extend left of their root; place the whole tree right of the logical plan
+    const logicalBounds = this.geometryUtils.getBounds(logicalElements);
+    const physicalBounds = this.geometryUtils.getBounds(physicalElements);
+    const shiftX = logicalBounds.maxX + SIDE_BY_SIDE.PLAN_GAP - physicalBounds.minX;
+    for (const element of physicalElements) {
+      element.x += shiftX;
+    }
+
+    const titleY = Math.min(logicalBounds.minY, physicalBounds.minY) - SIDE_BY_SIDE.TITLE_OFFSET;
+    const elements = [
+      this.createTitle('Logical plan', logicalBounds.minX, titleY),
+      ...logicalElements,
+      this.createTitle('Physical plan', physicalBounds.minX + shiftX, titleY),
+      ...physicalElements,
+    ];
+
+    const links = this.planNodeMatcher.match(logicalRoot, physicalRoot);
+    elements.push(...this.planLinkRenderer.render(links, [...logicalNodes, ...physicalNodes], elements));
+
+    return this.createExcalidrawData(elements);
+  }
+
+  /**
+   * Generates Excalidraw JSON from a merged plan diff tree
+   * The merged plan (including removed operators) is drawn by the physical
+   * generators, then highlighted by the diff overlay
+   * @param root - Root of the diff tree produced by PlanNodeDiffer
+   * @returns Complete Excalidraw data structure
+   */
+  public generateDiff(root: PlanDiffNode): ExcalidrawData {
+    const elements: ExcalidrawElement[] = [];
+    this.generateDiffElements(root, elements, this.nodeGeneratorRegistry);
+    return this.createExcalidrawData(elements);
+  }
+
+  /**
+   * Generates an optimizer walkthrough: one frame per plan stage, left to right
+   * Stages that did not change the plan are skipped; every other stage is
+   * highlighted against the previous frame of the same kind (logical or physical)
+   * @param stages - Plan stages from ExecutionPlanParser.parseStages
+   * @returns Complete Excalidraw data structure
+   */
+  public generateWalkthrough(stages: PlanStage[]): ExcalidrawData {
+    const elements: ExcalidrawElement[] = [];
+    const previousRoots: Partial<Record<PlanKind, ExecutionPlanNode>> = {};
+    let frameX = 0;
+
+    for (const stage of stages) {
+      if (!stage.root || stage.unchanged) {
+        continue;
+      }
+
+      const previous = previousRoots[stage.kind];
+      const diff = this.planNodeDiffer.diff(previous ?? stage.root, stage.root);
+      previousRoots[stage.kind] = stage.root;
+      if (previous && !this.hasChanges(diff)) {
+        continue;
+      }
+
+      const registry = stage.kind === 'logical' ? this.logicalGeneratorRegistry : this.nodeGeneratorRegistry;
+      const stageElements: ExcalidrawElement[] = [];
+      this.generateDiffElements(diff, stageElements, registry);
+
+      const bounds = this.geometryUtils.getBounds(stageElements);
+      const frame = this.elementFactory.createFrame({
+        id: this.idGenerator.generateId(),
+        x: frameX,
+        y: 0,
+        width: bounds.maxX - bounds.minX + WALKTHROUGH.FRAME_PADDING * 2,
+        height: bounds.maxY - bounds.minY + WALKTHROUGH.FRAME_PADDING * 2,
+        name: stage.name,
+      });
+      for (const element of stageElements) {
+        element.x += frameX + WALKTHROUGH.FRAME_PADDING - bounds.minX;
+        element.y += WALKTHROUGH.FRAME_PADDING - bounds.minY;
+        element.frameId = frame.id;
+      }
+
+      // Excalidraw keeps frame children directly before their frame
+      elements.push(...stageElements, frame);
+      frameX += frame.width + WALKTHROUGH.FRAME_GAP;
+    }
+
+    return this.createExcalidrawData(elements);
+  }
+
+  /**
+   * Texts of the detail lines a node is drawn with at the standard detail level
+   * Lets text-only backends such as Mermaid and DOT show the same details as the diagram
+   * @param kind - Whether the node belongs to a physical or a logical plan
+   * @returns The lines, or none if the node's generator does not build detail lines
+   */
+  public summarizeNode(node: ExecutionPlanNode, kind: PlanKind = 'physical'): string[] {
+    const registry = kind === 'logical' ? this.logicalGeneratorRegistry : this.nodeGeneratorRegistry;
+    const generator = this.getNodeGenerator(node, registry);
+    if (!(generator instanceof BaseNodeGenerator)) {
+      return [];
     }
+    const context: GenerationContext = {
+      ...this.createGenerationContext([], registry),
+      config: { ...this.config, detailLevel: 'standard', metricsOverlay: false },
+      getMetricsLine: () => undefined,
+    };
+    return generator.summarizeDetails(node, context);
+  }
+
+  /**
+   * Draws a merged diff tree with the given generators and applies the diff overlay
+   */
+  private generateDiffElements(root: PlanDiffNode, elements: ExcalidrawElement[], registry: NodeGeneratorRegistry): void {
+    const diffs = new Map<ExecutionPlanNode, PlanDiffNode>();
+    const toPlanNode = (diff: PlanDiffNode): ExecutionPlanNode => {
+      const node = { ...diff.node, children: diff.children.map(toPlanNode) };
+      diffs.set(node, diff);
+      return node;
+    };
+
+    // Changed-property labels sit right of their node; measure them so the layout makes room
+    this.generateTree(toPlanNode(root), elements, registry, {
+      annotate: (node, rect) => {
+        const diff = diffs.get(node);
+        return diff ? this.planDiffOverlayRenderer.renderLabels(rect, diff) : [];
+      },
+    });
+    elements.push(...this.planDiffOverlayRenderer.render(this.renderedNodes, elements, diffs));
+  }
+
+  private hasChanges(diff: PlanDiffNode): boolean {
+    return diff.status !== 'unchanged' || diff.children.some((child) => this.hasChanges(child));
+  }
 
+  /**
+   * Creates a bold heading placed above a plan tree
+   */
+  private createTitle(text: string, x: number, y: number): ExcalidrawElement {
+    return this.elementFactory.createText({
+      id: this.idGenerator.generateId(),
+      x,
+      y,
+      width: this.textMeasurement.measureText(text, FONT_SIZES.OPERATOR),
+      height: TEXT_HEIGHTS.OPERATOR,
+      text,
+      fontSize: FONT_SIZES.OPERATOR,
+      fontFamily: FONT_FAMILIES.BOLD,
+      textAlign: 'left',
+      verticalAlign: 'top',
+      strokeColor: this.config.nodeColor,
+    });
+  }
+
+  /**
+   * Wraps generated elements into an Excalidraw document
+   */
+  private createExcalidrawData(elements: ExcalidrawElement[]): ExcalidrawData {
     return {
       type: 'excalidraw',
       version: 2,
@@ -109,7 +399,7 @@ export class ExcalidrawGenerator {
   /**
    * Creates a generation context for node generators
    */
-  private createGenerationContext(elements: ExcalidrawElement[]): GenerationContext {
+  private createGenerationContext(elements: ExcalidrawElement[], registry: NodeGeneratorRegistry): GenerationContext {
     return {
       elementFactory: this.elementFactory,
       propertyParser: this.propertyParser,
@@ -117,50 +407,162 @@ export class ExcalidrawGenerator {
       columnRenderer: this.columnRenderer,
       idGenerator: this.idGenerator,
       textMeasurement: this.textMeasurement,
+      textWrapper: this.textWrapper,
       geometryUtils: this.geometryUtils,
       config: this.config,
       elements,
       generateChildNode: (child, childX, childY, isChildRoot) => {
-        return this.generateNodeElements(child, childX, childY, elements, isChildRoot);
+        return this.generateNodeElements(child, childX, childY, elements, isChildRoot, registry);
       },
+      getNodeInfo: (node) => this.drawnNodes.get(node)?.info,
+      getMetricsLine: (node) => this.config.metricsOverlay ?
+        this.metricsOverlayRenderer.buildDetailLine(node, this.totalCompute, this.config.nodeColor) :
+        undefined,
     };
   }
 
+  /**
+   * Draws a plan tree in two passes: a measuring pass draws it into a scratch
+   * array to learn how much room every node takes, the layout pass assigns each
+   * node its horizontal position, and the tree is drawn again at those positions
+   * The drawing is then turned to the configured orientation
+   * Collects the nodes of the final drawing in renderedNodes
+   */
+  private generateTree(
+    root: ExecutionPlanNode,
+    elements: ExcalidrawElement[],
+    registry: NodeGeneratorRegistry,
+    overlays: TreeOverlays = {}
+  ): void {
+    this.totalCompute = this.metricsOverlayRenderer.totalCompute(root);
+    this.drawnNodes = new Map();
+    this.renderedNodes = [];
+    this.generateNodeElements(root, 0, 0, [], true, registry);
+    this.layoutPositions = this.layoutTree(root, this.drawnNodes, overlays.annotate);
+
+    this.drawnNodes = new Map();
+    this.renderedNodes = [];
+    this.generateNodeElements(root, 0, 0, elements, true, registry);
+    this.layoutPositions = null;
+    if (overlays.rowCounts) {
+      this.addRowCountLabels(elements);
+    }
+
+    if (this.orientation !== 'top-down') {
+      const oriented = new Map<ExecutionPlanNode, OrientedNode>();
+      for (const [node, { info }] of this.drawnNodes) {
+        const own = this.ownElements(node, this.drawnNodes);
+        oriented.set(node, {
+          rect: own.find((element) => element.id === info.rectId)!,
+          elements: own.filter((element) => element.id !== info.rectId),
+          inputLayout: info.inputLayout ?? 'below',
+        });
+      }
+      this.orientationRenderer.orient(root, oriented, this.orientation);
+    }
+    this.drawnNodes = new Map();
+  }
+
+  /**
+   * Runs the tree layout on the measured drawing
+   * @returns X to pass to each node's generator
+   */
+  private layoutTree(
+    root: ExecutionPlanNode,
+    drawn: Map<ExecutionPlanNode, { x: number; info: NodeInfo; subtree: ExcalidrawElement[] }>,
+    annotate?: (node: ExecutionPlanNode, rect: ExcalidrawElement) => ExcalidrawElement[]
+  ): Map<ExecutionPlanNode, number> {
+    const measured = new Map<ExecutionPlanNode, MeasuredNode>();
+    for (const [node, { info, subtree }] of drawn) {
+      const rect = subtree.find((element) => element.id === info.rectId)!;
+      const own = [
+        ...this.ownElements(node, drawn).filter((element) => element.type !== 'arrow'),
+        ...(annotate?.(node, rect) ?? []),
+      ];
+      measured.set(node, {
+        x: rect.x,
+        width: rect.width,
+        bounds: this.geometryUtils.getBounds(own),
+        inputLayout: info.inputLayout ?? 'below',
+      });
+    }
+
+    // Generators may draw their rectangle away from the x they are given; keep that offset
+    const rectPositions = this.treeLayoutCalculator.layout(root, measured);
+    return new Map([...rectPositions].map(([node, x]) => [node, x - measured.get(node)!.x + drawn.get(node)!.x]));
+  }
+
+  /**
+   * Adds the metrics overlay's row count labels to the drawn tree; each label belongs to the
+   * node its arrows enter, like the column labels, so that turning the tree moves them together
+   */
+  private addRowCountLabels(elements: ExcalidrawElement[]): void {
+    for (const [node, parent] of this.drawnNodes) {
+      for (const input of node.children) {
+        const drawn = this.drawnNodes.get(input);
+        const label = drawn && this.metricsOverlayRenderer.renderRowCountLabel(input, drawn.info.rectId, this.ownElements(node, this.drawnNodes));
+        if (label) {
+          parent.subtree.push(label);
+          elements.push(label);
+        }
+      }
+    }
+  }
+
+  /**
+   * Elements a node's generator drew for the node itself: its subtree without its inputs' subtrees
+   */
+  private ownElements(
+    node: ExecutionPlanNode,
+    drawn: Map<ExecutionPlanNode, { x: number; info: NodeInfo; subtree: ExcalidrawElement[] }>
+  ): ExcalidrawElement[] {
+    const inputElements = new Set(node.children.flatMap((child) => drawn.get(child)?.subtree ?? []));
+    return drawn.get(node)!.subtree.filter((element) => !inputElements.has(element));
+  }
+
   /**
    * Recursively generates Excalidraw elements for nodes
    * Returns node info including the number of input arrows
    * @param isRoot - Whether this node is the root node (first line of physical_plan)
+   * @param registry - Generators for the kind of plan being drawn (physical or logical)
    */
   private generateNodeElements(
     node: ExecutionPlanNode,
     x: number,
     y: number,
     elements: ExcalidrawElement[],
-    isRoot: boolean = false
-  ): {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    rectId: string;
-    inputArrowCount: number;
-    inputArrowPositions: number[];
-    outputColumns: string[];
-    outputSortOrder: string[];
-  } {
-    // Use registered generators
-    if (this.nodeGeneratorRegistry.hasGenerator(node.operator)) {
-      const context = this.createGenerationContext(elements);
-      const generator = this.nodeGeneratorRegistry.getGenerator(node.operator);
-      return generator.generate(node, x, y, isRoot, context);
-    }
+    isRoot: boolean,
+    registry: NodeGeneratorRegistry
+  ): NodeInfo {
+    const context = this.createGenerationContext(elements, registry);
+    const generator = this.getNodeGenerator(node, registry);
+    const firstElement = elements.length;
+    // Once the tree is laid out, every node is drawn at the position it was assigned
+    const nodeX = this.layoutPositions?.get(node) ?? x;
+    const info = generator.generate(node, nodeX, y, isRoot, context);
+    this.drawnNodes.set(node, { x: nodeX, info, subtree: elements.slice(firstElement) });
+    this.renderedNodes.push({ node, info });
+    return info;
+  }
 
-    // Use default generator for unimplemented operators
-    const context = this.createGenerationContext(elements);
-    const defaultGenerator = this.nodeGeneratorRegistry.getGenerator('default') as DefaultNodeGenerator;
-    return defaultGenerator.generate(node, x, y, isRoot, context);
+  /**
+   * Looks up the generator for a node, falling back to the default generator
+   * for unimplemented operators
+   */
+  private getNodeGenerator(node: ExecutionPlanNode, registry: NodeGeneratorRegistry): NodeGeneratorStrategy {
+    const operator = registry === this.logicalGeneratorRegistry ? this.getLogicalGeneratorKey(node.operator) : node.operator;
+    return registry.hasGenerator(operator) ?
+      registry.getGenerator(operator) :
+      registry.getGenerator('default');
   }
 
+  /**
+   * Maps logical operator names to generator keys
+   * All join flavours ("Inner Join", "LeftSemi Join", "CrossJoin") share one generator
+   */
+  private getLogicalGeneratorKey(operator: string): string {
+    return /Join$/.test(operator) ? 'Join' : operator;
+  }
 
   /**
    * Registers all node generators with the registry
@@ -180,9 +582,34 @@ export class ExcalidrawGenerator {
     this.nodeGeneratorRegistry.register('SortMergeJoin', new SortMergeJoinNodeGenerator());
     this.nodeGeneratorRegistry.register('SortMergeJoinExec', new SortMergeJoinNodeGenerator());
     this.nodeGeneratorRegistry.register('CrossJoinExec', new CrossJoinNodeGenerator());
+    this.nodeGeneratorRegistry.register('NestedLoopJoinExec', new NestedLoopJoinNodeGenerator());
+    this.nodeGeneratorRegistry.register('SymmetricHashJoinExec', new SymmetricHashJoinNodeGenerator());
     this.nodeGeneratorRegistry.register('UnionExec', new UnionNodeGenerator());
     this.nodeGeneratorRegistry.register('DataSourceExec', new DataSourceNodeGenerator());
     this.nodeGeneratorRegistry.register('LocalLimitExec', new LocalLimitNodeGenerator());
     this.nodeGeneratorRegistry.register('GlobalLimitExec', new GlobalLimitNodeGenerator());
+    this.nodeGeneratorRegistry.register('WindowAggExec', new WindowAggNodeGenerator());
+    this.nodeGeneratorRegistry.register('BoundedWindowAggExec', new WindowAggNodeGenerator());
+    this.nodeGeneratorRegistry.register('RecursiveQueryExec', new RecursiveQueryNodeGenerator());
+    this.nodeGeneratorRegistry.register('WorkTableExec', new WorkTableNodeGenerator());
+    this.nodeGeneratorRegistry.register('StreamingTableExec', new StreamingSourceNodeGenerator());
+    this.nodeGeneratorRegistry.register('LazyMemoryExec', new StreamingSourceNodeGenerator());
+    this.nodeGeneratorRegistry.register('EmptyExec', new InMemorySourceNodeGenerator());
+    this.nodeGeneratorRegistry.register('PlaceholderRowExec', new InMemorySourceNodeGenerator());
+    this.nodeGeneratorRegistry.register('MemoryExec', new InMemorySourceNodeGenerator());
+    this.nodeGeneratorRegistry.register('ValuesExec', new InMemorySourceNodeGenerator());
+    this.nodeGeneratorRegistry.register('UnnestExec', new UnnestNodeGenerator());
+    this.nodeGeneratorRegistry.register('DataSinkExec', new DataSinkNodeGenerator());
+    this.nodeGeneratorRegistry.register('FileSinkExec', new DataSinkNodeGenerator());
+  }
+
+  /**
+   * Registers logical plan node generators
+   */
+  private registerLogicalNodeGenerators(): void {
+    this.logicalGeneratorRegistry.register('default', new LogicalNodeGenerator());
+    this.logicalGeneratorRegistry.register('Aggregate', new LogicalAggregateNodeGenerator());
+    this.logicalGeneratorRegistry.register('Join', new LogicalJoinNodeGenerator());
+    this.logicalGeneratorRegistry.register('TableScan', new LogicalTableScanNodeGenerator());
   }
 }
@@ -19,6 +19,11 @@ describe('ElementFactory', () => {
       detailsFontSize: 14,
       nodeColor: '#1e1e1e',
       arrowColor: '#1e1e1e',
+      scanDetails: false,
+      detailLevel: 'standard',
+      maxNodeWidth: 500,
+      maxNodeHeight: 400,
+      metricsOverlay: false,
     };
     factory = new ElementFactory(idGenerator, config);
   });
@@ -136,6 +141,22 @@ describe('ElementFactory', () => {
       expect(arrow.width).toBe(100);
       expect(arrow.height).toBe(100);
     });
+
+    it('should pass through waypoints relative to its start', () => {
+      const arrow = factory.createArrow({
+        id: 'test-id',
+        startX: 100,
+        startY: 200,
+        endX: 100,
+        endY: 50,
+        childRectId: 'child',
+        parentRectId: 'parent',
+        waypoints: [[160, 200], [160, 50]],
+      });
+      expect(arrow.points).toEqual([[0, 0], [60, 0], [60, -150], [0, -150]]);
+      expect(arrow.width).toBe(60);
+      expect(arrow.height).toBe(150);
+    });
   });
 
   describe('createEllipse', () => {
@@ -178,6 +199,24 @@ describe('ElementFactory', () => {
     });
   });
 
+  describe('createFrame', () => {
+    it('should create a named frame element', () => {
+      const frame = factory.createFrame({
+        id: 'frame-id',
+        x: 10,
+        y: 20,
+        width: 300,
+        height: 400,
+        name: 'initial_physical_plan',
+      });
+      expect(frame.type).toBe('frame');
+      expect(frame.name).toBe('initial_physical_plan');
+      expect(frame.width).toBe(300);
+      expect(frame.height).toBe(400);
+      expect(frame.frameId).toBeNull();
+    });
+  });
+
   describe('createOperatorText', () => {
     it('should create operator text with correct styling', () => {
       const text = factory.createOperatorText('test-id', 0, 0, 200, 'Operator', 'rect-id');
@@ -3,6 +3,7 @@ import {
   ExcalidrawText,
   ExcalidrawArrow,
   ExcalidrawEllipse,
+  ExcalidrawFrame,
   ResolvedExcalidrawConfig,
 } from '../../types/excalidraw.types';
 import { IdGenerator } from '../utils/id.generator';
@@ -12,6 +13,7 @@ import {
   FONT_FAMILIES,
   ELEMENT_DEFAULTS,
   TEXT_HEIGHTS,
+  WALKTHROUGH,
 } from '../constants';
 
 export interface RectangleOptions {
@@ -51,6 +53,9 @@ export interface ArrowOptions {
   childRectId: string;
   parentRectId: string;
   strokeColor?: string;
+  strokeStyle?: 'solid' | 'dashed' | 'dotted';
+  /** Absolute points the arrow passes through between its start and end */
+  waypoints?: Array<[number, number]>;
 }
 
 export interface EllipseOptions {
@@ -65,6 +70,15 @@ export interface EllipseOptions {
   roundnessType?: number;
 }
 
+export interface FrameOptions {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  name: string;
+}
+
 /**
  * Factory for creating Excalidraw elements
  * Centralizes element creation logic to ensure consistency
@@ -165,22 +179,27 @@ export class ElementFactory {
    * Creates an arrow element with proper binding
    */
   createArrow(options: ArrowOptions): ExcalidrawArrow {
-    const dx = options.endX - options.startX;
-    const dy = options.endY - options.startY;
+    const points: Array<[number, number]> = [
+      [0, 0],
+      ...(options.waypoints ?? []).map(([px, py]): [number, number] => [px - options.startX, py - options.startY]),
+      [options.endX - options.startX, options.endY - options.startY],
+    ];
+    const xs = points.map(([px]) => px);
+    const ys = points.map(([, py]) => py);
 
     return {
       id: options.id,
       type: 'arrow',
       x: options.startX,
       y: options.startY,
-      width: Math.abs(dx),
-      height: Math.abs(dy),
+      width: Math.max(...xs) - Math.min(...xs),
+      height: Math.max(...ys) - Math.min(...ys),
       angle: 0,
       strokeColor: options.strokeColor ?? this.config.arrowColor,
       backgroundColor: COLORS.TRANSPARENT,
       fillStyle: 'solid',
       strokeWidth: ELEMENT_DEFAULTS.STROKE_WIDTH,
-      strokeStyle: 'solid',
+      strokeStyle: options.strokeStyle ?? 'solid',
       roughness: ELEMENT_DEFAULTS.ROUGHNESS,
       opacity: ELEMENT_DEFAULTS.OPACITY,
       groupIds: [],
@@ -195,10 +214,7 @@ export class ElementFactory {
       updated: this.idGenerator.generateTimestamp(),
       link: null,
       locked: false,
-      points: [
-        [0, 0],
-        [dx, dy],
-      ],
+      points,
       lastCommittedPoint: null,
       startBinding: {
         elementId: options.childRectId,
@@ -250,6 +266,42 @@ export class ElementFactory {
     };
   }
 
+  /**
+   * Creates a frame element
+   * Elements are placed in the frame by setting their frameId to the frame's id
+   */
+  createFrame(options: FrameOptions): ExcalidrawFrame {
+    return {
+      id: options.id,
+      type: 'frame',
+      x: options.x,
+      y: options.y,
+      width: options.width,
+      height: options.height,
+      angle: 0,
+      strokeColor: COLORS.FRAME_STROKE,
+      backgroundColor: COLORS.TRANSPARENT,
+      fillStyle: 'solid',
+      strokeWidth: WALKTHROUGH.FRAME_STROKE_WIDTH,
+      strokeStyle: 'solid',
+      roughness: ELEMENT_DEFAULTS.ROUGHNESS,
+      opacity: ELEMENT_DEFAULTS.OPACITY,
+      groupIds: [],
+      frameId: null,
+      index: this.idGenerator.generateIndex(),
+      roundness: null,
+      seed: this.idGenerator.generateSeed(),
+      version: 1,
+      versionNonce: this.idGenerator.generateSeed(),
+      isDeleted: false,
+      boundElements: null,
+      updated: this.idGenerator.generateTimestamp(),
+      link: null,
+      locked: false,
+      name: options.name,
+    };
+  }
+
   /**
    * Creates operator name text (bold, centered)
    */
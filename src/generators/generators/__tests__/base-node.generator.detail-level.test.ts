@@ -0,0 +1,151 @@
+import { ExcalidrawGenerator } from '../../excalidraw.generator';
+import { ExcalidrawArrow, ExcalidrawConfig, ExcalidrawData, ExcalidrawElement, ExcalidrawText } from '../../../types/excalidraw.types';
+import { DetailLevel } from '../../../types';
+import { DETAIL_LEVEL } from '../../constants';
+import { TestHelpers } from '../../__tests__/utils/test-helpers';
+
+describe('BaseNodeGenerator detail levels', () => {
+  const generate = (plan: string, detailLevel: DetailLevel, config: ExcalidrawConfig = {}): ExcalidrawData =>
+    new ExcalidrawGenerator({ ...config, detailLevel }).generate(TestHelpers.parsePlan(plan));
+
+  const rectOf = (result: ExcalidrawData, operator: string): ExcalidrawElement => {
+    const text = result.elements.find((el): el is ExcalidrawText => el.type === 'text' && el.text.startsWith(operator))!;
+    return result.elements.find((el) => el.id === text.containerId)!;
+  };
+
+  const textsInside = (result: ExcalidrawData, rect: ExcalidrawElement): ExcalidrawText[] =>
+    result.elements.filter((el): el is ExcalidrawText => el.type === 'text' &&
+      el.y >= rect.y && el.y < rect.y + rect.height && el.x >= rect.x && el.x + el.width <= rect.x + rect.width);
+
+  const filterPlan = `FilterExec: amount@1 > 100 AND region@0 = europe, projection=[region@0]
+  DataSourceExec: file_groups={1 group: [[sales.parquet]]}, projection=[region, amount], file_type=parquet`;
+
+  const joinPlan = `HashJoinExec: mode=CollectLeft, join_type=Inner, on=[(id@0, id@0)]
+  DataSourceExec: file_groups={1 group: [[left.parquet]]}, projection=[id], file_type=parquet
+  DataSourceExec: file_groups={1 group: [[right.parquet]]}, projection=[id, v], file_type=parquet`;
+
+  it('should leave the standard level untouched', () => {
+    const standard = generate(filterPlan, 'standard');
+    const defaults = new ExcalidrawGenerator().generate(TestHelpers.parsePlan(filterPlan));
+
+    expect(standard.elements.map((el) => [el.type, el.x, el.y, el.width, el.height]))
+      .toEqual(defaults.elements.map((el) => [el.type, el.x, el.y, el.width, el.height]));
+  });
+
+  describe('standard', () => {
+    const predicate = Array.from({ length: 12 }, (_, i) => `amount@1 != ${1000000 + i}`).join(' AND ');
+    const longFilterPlan = `FilterExec: ${predicate}
+  DataSourceExec: file_groups={1 group: [[sales.parquet]]}, projection=[amount], file_type=parquet`;
+
+    it('should widen a node whose details overflow and wrap them at the maximum width', () => {
+      const result = generate(longFilterPlan, 'standard', { maxNodeWidth: 400 });
+      const filter = rectOf(result, 'FilterExec');
+      const details = textsInside(result, filter).slice(1);
+
+      expect(filter.width).toBe(400);
+      expect(details.length).toBeGreaterThan(1);
+      expect(details.map((text) => text.text).join(' ')).toBe(predicate.replace(/@\d+/g, ''));
+      expect(details.every((text) => text.y + text.height <= filter.y + filter.height)).toBe(true);
+      expect(details.every((text) => text.containerId === null)).toBe(true);
+    });
+
+    it('should cut details at the maximum height and end the last line with an ellipsis', () => {
+      const result = generate(longFilterPlan, 'standard', { maxNodeWidth: 300, maxNodeHeight: 100 });
+      const filter = rectOf(result, 'FilterExec');
+      const details = textsInside(result, filter).slice(1);
+
+      expect(filter.height).toBeLessThanOrEqual(100);
+      expect(details[details.length - 1].text.endsWith('...')).toBe(true);
+    });
+
+    it('should move a widened left input away from its join', () => {
+      const result = generate(`HashJoinExec: mode=CollectLeft, join_type=Inner, on=[(amount@0, amount@0)]
+  ${longFilterPlan.replace('\n', '\n  ')}
+  DataSourceExec: file_groups={1 group: [[right.parquet]]}, projection=[amount], file_type=parquet`, 'standard');
+      const join = rectOf(result, 'HashJoinExec');
+      const filter = rectOf(result, 'FilterExec');
+
+      expect(filter.width).toBeGreaterThan(300);
+      expect(filter.x + filter.width).toBe(join.x - 50);
+    });
+  });
+
+  describe('minimal', () => {
+    it('should draw only the operator name and shrink the node', () => {
+      const result = generate(filterPlan, 'minimal');
+      const filter = rectOf(result, 'FilterExec');
+
+      expect(textsInside(result, filter).map((text) => text.text)).toEqual(['FilterExec']);
+      expect(filter.height).toBe(DETAIL_LEVEL.MIN_HEIGHT);
+    });
+
+    it('should move the inputs up with the shorter node and keep arrows attached', () => {
+      const standard = generate(filterPlan, 'standard');
+      const result = generate(filterPlan, 'minimal');
+      const filter = rectOf(result, 'FilterExec');
+      const source = rectOf(result, 'DataSourceExec');
+      const arrow = result.elements.find((el): el is ExcalidrawArrow => el.type === 'arrow' && el.endBinding?.elementId === filter.id)!;
+
+      expect(source.y).toBe(rectOf(standard, 'DataSourceExec').y - (rectOf(standard, 'FilterExec').height - filter.height));
+      expect(arrow.y).toBe(source.y);
+      expect(arrow.y + arrow.points[1][1]).toBe(filter.y + filter.height);
+    });
+
+    it('should keep shapes drawn inside the node such as hash tables', () => {
+      const result = generate(joinPlan, 'minimal');
+      const join = rectOf(result, 'HashJoinExec');
+      const hashTable = result.elements.find((el) => el.type === 'ellipse' && el.x > join.x && el.y > join.y && el.x + el.width < join.x + join.width)!;
+
+      expect(hashTable).toBeDefined();
+      expect(hashTable.y + hashTable.height).toBeLessThanOrEqual(join.y + join.height);
+      expect(textsInside(result, join).map((text) => text.text)).toEqual(['HashJoinExec: CollectLeft', 'HashTable']);
+    });
+
+    it('should still connect work tables to their recursive query', () => {
+      const result = generate(`RecursiveQueryExec: name=nodes, is_distinct=false
+  ProjectionExec: expr=[1 as id]
+    PlaceholderRowExec
+  ProjectionExec: expr=[id@0 + 1 as id]
+    WorkTableExec: name=nodes`, 'minimal');
+      const workTable = rectOf(result, 'WorkTableExec');
+      const loop = result.elements.find((el): el is ExcalidrawArrow => el.type === 'arrow' && el.strokeStyle === 'dashed')!;
+
+      expect(loop.startBinding?.elementId).toBe(workTable.id);
+      expect(loop.endBinding?.elementId).toBe(rectOf(result, 'RecursiveQueryExec').id);
+    });
+  });
+
+  describe('full', () => {
+    it('should draw shapes inside the node below the details', () => {
+      const result = generate(joinPlan, 'full');
+      const join = rectOf(result, 'HashJoinExec');
+      const hashTable = result.elements.find((el) => el.type === 'ellipse' && el.x > join.x && el.y > join.y && el.x + el.width < join.x + join.width)!;
+      const details = textsInside(result, join).filter((text) => text.text !== 'HashTable').slice(1);
+
+      expect(details.map((text) => text.text)).toEqual(['mode=CollectLeft', 'join_type=Inner', 'on=[(id@0, id@0)]']);
+      expect(hashTable.y).toBe(details[details.length - 1].y + details[details.length - 1].height + DETAIL_LEVEL.INNER_GAP);
+      expect(hashTable.y + hashTable.height + DETAIL_LEVEL.BOTTOM_PADDING).toBe(join.y + join.height);
+    });
+
+    it('should list every raw property inside the node and grow it to fit', () => {
+      const result = generate(filterPlan, 'full');
+      const source = rectOf(result, 'DataSourceExec');
+      const lines = textsInside(result, source).map((text) => text.text).join(' ');
+
+      expect(lines).toContain('projection=[region, amount]');
+      expect(lines).toContain('file_type=parquet');
+      expect(lines).toContain('file_groups=');
+      expect(textsInside(result, source).every((text) => text.y + text.height <= source.y + source.height)).toBe(true);
+    });
+
+    it('should wrap long properties to the width of the node', () => {
+      const columns = Array.from({ length: 40 }, (_, i) => `column_${i}@${i}`).join(', ');
+      const result = generate(`ProjectionExec: expr=[${columns}]`, 'full');
+      const projection = rectOf(result, 'ProjectionExec');
+      const details = textsInside(result, projection).slice(1);
+
+      expect(details.length).toBeGreaterThan(3);
+      expect(projection.height).toBe(DETAIL_LEVEL.DETAILS_OFFSET + details.length * details[0].height + DETAIL_LEVEL.BOTTOM_PADDING);
+    });
+  });
+});
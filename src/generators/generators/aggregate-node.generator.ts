@@ -3,7 +3,7 @@ import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
 import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS, COLORS } from '../constants';
-import { DetailTextBuilder } from '../builders/detail-text.builder';
+import { DetailLine, DetailTextBuilder } from '../builders/detail-text.builder';
 
 /**
  * AggregateExec node generator
@@ -18,11 +18,17 @@ export class AggregateNodeGenerator extends BaseNodeGenerator {
     _isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
     // Check if ordering_mode=Sorted is present to determine height
     const hasOrderingModeSorted = node.properties?.ordering_mode === 'Sorted';
     // Increase height when ordering_mode is present to accommodate the third line
-    const nodeHeight = hasOrderingModeSorted ? 100 : NODE_DIMENSIONS.DEFAULT_HEIGHT;
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      hasOrderingModeSorted ? 100 : NODE_DIMENSIONS.DEFAULT_HEIGHT,
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -56,77 +62,17 @@ export class AggregateNodeGenerator extends BaseNodeGenerator {
     });
     context.elements.push(operatorText);
 
-    // Extract properties and format as detail text
+    // ordering_mode=Sorted is drawn as a separate detail text below the others
+    const summaryLines = hasOrderingModeSorted ? layout.lines.slice(0, -1) : layout.lines;
     const detailBuilder = new DetailTextBuilder(context.elementFactory, context.idGenerator);
-
-    if (node.properties) {
-      const parts: string[] = [];
-
-      if (node.properties.mode) {
-        parts.push(`mode=${node.properties.mode}`);
-      }
-
-      if (node.properties.gby) {
-        // Extract column names from gby using PropertyParser
-        const gbyMatch = node.properties.gby.match(/\[([^\]]+)\]/);
-        if (gbyMatch) {
-          const gbyContent = gbyMatch[1];
-          const columns = context.propertyParser.parseCommaSeparated(gbyContent).map((col) => {
-            const trimmed = col.trim();
-            // Check if it's a function call (e.g., date_bin(...))
-            const functionMatch = trimmed.match(/^(\w+)\s*\(/);
-            if (functionMatch) {
-              // Return just the function name, not the content inside
-              return functionMatch[1];
-            }
-            // Try to extract column name after "as" keyword first
-            const asMatch = trimmed.match(/\s+as\s+([^\s@]+)/i);
-            if (asMatch) {
-              return asMatch[1].trim();
-            }
-            // Otherwise, extract column name before @ symbol
-            const columnMatch = trimmed.match(/^([^@]+)/);
-            return columnMatch ? columnMatch[1].trim() : trimmed;
-          });
-          parts.push(`gby=[${columns.join(', ')}]`);
-        } else {
-          // Fallback: use original gby if format doesn't match
-          parts.push(`gby=${node.properties.gby}`);
-        }
-      }
-
-      if (node.properties.aggr) {
-        parts.push(`aggr=${node.properties.aggr}`);
-      }
-
-      // Add limit information if present
-      const limitText = context.propertyParser.extractLimit(node.properties);
-      if (limitText) {
-        parts.push(limitText);
-      }
-
-      // Format: mode on first line (purple), gby and aggr on second line
-      if (parts.length > 0) {
-        const hasMode = parts[0].startsWith('mode=');
-        if (hasMode) {
-          // Line 1: mode (purple)
-          detailBuilder.addLine(parts[0], COLORS.PURPLE_MODE);
-          // Remaining parts on Line 2
-          if (parts.length > 1) {
-            detailBuilder.addLine(parts.slice(1).join(', '), context.config.nodeColor);
-          }
-        } else {
-          // No mode, just render everything in default color
-          detailBuilder.addLine(parts[0], context.config.nodeColor);
-          if (parts.length > 1) {
-            detailBuilder.addLine(parts.slice(1).join(', '), context.config.nodeColor);
-          }
-        }
-      }
+    for (const line of summaryLines) {
+      detailBuilder.addLine(line.text, line.color);
     }
 
     // Create detail text elements
-    if (detailBuilder.getLineCount() > 0) {
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else if (detailBuilder.getLineCount() > 0) {
       // Adjust Y position based on whether ordering_mode is present
       // When ordering_mode is present, we need more space, so position detail text higher
       const detailTextY = hasOrderingModeSorted ? y + nodeHeight - 55 : y + nodeHeight - 35;
@@ -142,7 +88,7 @@ export class AggregateNodeGenerator extends BaseNodeGenerator {
     }
 
     // If ordering_mode=Sorted is present, add it as a separate detail text below
-    if (hasOrderingModeSorted) {
+    if (hasOrderingModeSorted && !layout.fitted) {
       const orderingText = context.elementFactory.createText({
         id: context.idGenerator.generateId(),
         x: x + 10,
@@ -318,5 +264,83 @@ export class AggregateNodeGenerator extends BaseNodeGenerator {
       outputSortOrder,
     };
   }
+
+  /**
+   * The mode (purple), then gby, aggr and the limit on one line, then ordering_mode=Sorted (dark red)
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const lines: DetailLine[] = [];
+
+    if (node.properties) {
+      const parts: string[] = [];
+
+      if (node.properties.mode) {
+        parts.push(`mode=${node.properties.mode}`);
+      }
+
+      if (node.properties.gby) {
+        // Extract column names from gby using PropertyParser
+        const gbyMatch = node.properties.gby.match(/\[([^\]]+)\]/);
+        if (gbyMatch) {
+          const gbyContent = gbyMatch[1];
+          const columns = context.propertyParser.parseCommaSeparated(gbyContent).map((col) => {
+            const trimmed = col.trim();
+            // Check if it's a function call (e.g., date_bin(...))
+            const functionMatch = trimmed.match(/^(\w+)\s*\(/);
+            if (functionMatch) {
+              // Return just the function name, not the content inside
+              return functionMatch[1];
+            }
+            // Try to extract column name after "as" keyword first
+            const asMatch = trimmed.match(/\s+as\s+([^\s@]+)/i);
+            if (asMatch) {
+              return asMatch[1].trim();
+            }
+            // Otherwise, extract column name before @ symbol
+            const columnMatch = trimmed.match(/^([^@]+)/);
+            return columnMatch ? columnMatch[1].trim() : trimmed;
+          });
+          parts.push(`gby=[${columns.join(', ')}]`);
+        } else {
+          // Fallback: use original gby if format doesn't match
+          parts.push(`gby=${node.properties.gby}`);
+        }
+      }
+
+      if (node.properties.aggr) {
+        parts.push(`aggr=${node.properties.aggr}`);
+      }
+
+      // Add limit information if present
+      const limitText = context.propertyParser.extractLimit(node.properties);
+      if (limitText) {
+        parts.push(limitText);
+      }
+
+      // Format: mode on first line (purple), gby and aggr on second line
+      if (parts.length > 0) {
+        const hasMode = parts[0].startsWith('mode=');
+        if (hasMode) {
+          // Line 1: mode (purple)
+          lines.push({ text: parts[0], color: COLORS.PURPLE_MODE });
+          // Remaining parts on Line 2
+          if (parts.length > 1) {
+            lines.push({ text: parts.slice(1).join(', '), color: context.config.nodeColor });
+          }
+        } else {
+          // No mode, just render everything in default color
+          lines.push({ text: parts[0], color: context.config.nodeColor });
+          if (parts.length > 1) {
+            lines.push({ text: parts.slice(1).join(', '), color: context.config.nodeColor });
+          }
+        }
+      }
+    }
+
+    if (node.properties?.ordering_mode === 'Sorted') {
+      lines.push({ text: 'ordering_mode=Sorted', color: '#8b0000' }); // Dark red (lowercase to match expected files)
+    }
+    return lines;
+  }
 }
 
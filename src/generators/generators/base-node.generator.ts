@@ -3,8 +3,24 @@ import { ExcalidrawText } from '../../types/excalidraw.types';
 import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { NodeGeneratorStrategy } from './node-generator.strategy';
-import { SPACING, TEXT_HEIGHTS, FONT_SIZES, FONT_FAMILIES } from '../constants';
-import { DetailTextBuilder } from '../builders/detail-text.builder';
+import { DETAIL_LEVEL, SPACING, TEXT_HEIGHTS, FONT_SIZES, FONT_FAMILIES } from '../constants';
+import { DetailLine, DetailTextBuilder } from '../builders/detail-text.builder';
+
+/**
+ * Detail lines of a node and the size the node is drawn at (see fitDetailLines)
+ */
+export interface DetailLayout {
+  /** Lines to draw below the operator name */
+  lines: DetailLine[];
+  /** Width of the node */
+  width: number;
+  /** Height of the node */
+  height: number;
+  /** Offset from the top of the node to the shapes drawn below the details */
+  innerTop: number;
+  /** False when the node keeps the size and layout of its generator's standard drawing */
+  fitted: boolean;
+}
 
 /**
  * Base class for node generators
@@ -56,7 +72,7 @@ export abstract class BaseNodeGenerator implements NodeGeneratorStrategy {
     const childrenInfo: NodeInfo[] = [];
 
     if (node.children.length > 0) {
-      // Use the same X position as parent for all children (vertical alignment)
+      // Children start below the parent; the layout pass spreads several children out
       const childX = parentX;
 
       for (let i = 0; i < node.children.length; i++) {
@@ -103,14 +119,18 @@ export abstract class BaseNodeGenerator implements NodeGeneratorStrategy {
           }
         }
 
+        // Arrows are vertical while the child sits below the parent; a child the layout pass
+        // moved aside keeps its arrow pattern, slanted to end on the parent's bottom edge
+        const endShift = Math.max(parentX - Math.min(...arrowPositions), 0) +
+          Math.min(parentX + parentWidth - Math.max(...arrowPositions), 0);
+
         // Store input arrow positions for this node
-        allInputArrowPositions.push(...arrowPositions);
+        allInputArrowPositions.push(...arrowPositions.map((position) => position + endShift));
 
-        // Calculate arrow positions - since nodes are vertically aligned, make arrows vertical
         const rectangleBottom = parentY + parentHeight;
         const childTop = childY;
 
-        // Create arrows - vertical lines connecting child top to parent bottom
+        // Create arrows connecting child top to parent bottom
         this.createArrowsToParent(
           numArrows,
           arrowPositions,
@@ -120,7 +140,8 @@ export abstract class BaseNodeGenerator implements NodeGeneratorStrategy {
           parentRectId,
           childInfo.outputColumns,
           childInfo.outputSortOrder,
-          context
+          context,
+          endShift
         );
 
         // Track the maximum Y position for next child
@@ -149,7 +170,8 @@ export abstract class BaseNodeGenerator implements NodeGeneratorStrategy {
     parentRectId: string,
     columns: string[],
     sortOrder: string[],
-    context: GenerationContext
+    context: GenerationContext,
+    endShift = 0
   ): void {
     // This will be implemented using ArrowPositionCalculator and ColumnLabelRenderer
     // For now, delegate to a helper method that will be refactored
@@ -163,7 +185,8 @@ export abstract class BaseNodeGenerator implements NodeGeneratorStrategy {
       parentRectId,
       columns,
       sortOrder,
-      context
+      context,
+      endShift
     );
   }
 
@@ -204,7 +227,8 @@ export abstract class BaseNodeGenerator implements NodeGeneratorStrategy {
     parentRectId: string,
     columns: string[],
     sortOrder: string[],
-    context: GenerationContext
+    context: GenerationContext,
+    endShift: number
   ): void {
     // Use ArrowPositionCalculator for ellipsis position calculation
     const ellipsisResult = context.arrowCalculator.calculateEllipsisPositions(numArrows, arrowPositions);
@@ -218,7 +242,7 @@ export abstract class BaseNodeGenerator implements NodeGeneratorStrategy {
         id: arrowId,
         startX: arrowX,
         startY: childTop,
-        endX: arrowX,
+        endX: arrowX + endShift,
         endY: parentBottom,
         childRectId,
         parentRectId,
@@ -233,7 +257,7 @@ export abstract class BaseNodeGenerator implements NodeGeneratorStrategy {
       const arrowMidY = (childTop + parentBottom) / 2;
       const ellipsisText = context.elementFactory.createText({
         id: context.idGenerator.generateId(),
-        x: ellipsisX - 10,
+        x: ellipsisX + endShift / 2 - 10,
         y: arrowMidY - 10,
         width: 20,
         height: 20,
@@ -256,7 +280,7 @@ export abstract class BaseNodeGenerator implements NodeGeneratorStrategy {
           id: arrowId,
           startX: arrowX,
           startY: childTop,
-          endX: arrowX,
+          endX: arrowX + endShift,
           endY: parentBottom,
           childRectId,
           parentRectId,
@@ -278,7 +302,7 @@ export abstract class BaseNodeGenerator implements NodeGeneratorStrategy {
         columns,
         sortOrder || [],
         arrowMidY,
-        rightmostArrowX,
+        rightmostArrowX + endShift / 2,
         context.config.nodeColor,
         5 // rightOffset
       );
@@ -313,6 +337,101 @@ export abstract class BaseNodeGenerator implements NodeGeneratorStrategy {
     });
   }
 
+  /**
+   * Lines shown below the operator name at the configured detail level:
+   * nothing at the minimal level, every raw property as "key=value" at the full
+   * level, and the generator's own summary (buildStandardDetailLines) at the standard level.
+   * With the metrics overlay, the node's rows and elapsed time follow as the last line.
+   */
+  protected buildDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const metricsLine = context.getMetricsLine(node);
+    return [...this.buildLevelDetailLines(node, context), ...(metricsLine ? [metricsLine] : [])];
+  }
+
+  private buildLevelDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    switch (context.config.detailLevel) {
+    case 'minimal':
+      return [];
+    case 'full':
+      return Object.entries(node.properties ?? {}).map(([key, value]) => ({ text: `${key}=${value}`, color: context.config.nodeColor }));
+    default:
+      return this.buildStandardDetailLines(node, context);
+    }
+  }
+
+  /**
+   * Texts of the node's detail lines, for backends that render text-only labels
+   */
+  summarizeDetails(node: ExecutionPlanNode, context: GenerationContext): string[] {
+    return this.buildDetailLines(node, context).map((line) => line.text);
+  }
+
+  /**
+   * Lines shown below the operator name at the standard detail level
+   */
+  protected buildStandardDetailLines(_node: ExecutionPlanNode, _context: GenerationContext): DetailLine[] {
+    return [];
+  }
+
+  /**
+   * Sizes a node to fit its detail lines
+   * At the standard level the node keeps the size of its standard drawing unless a line
+   * spills into the node's padding or the metrics overlay is on. Otherwise the lines are wrapped with TextWrapper, the
+   * node grows to fit them up to maxNodeWidth and maxNodeHeight, and lines past the
+   * maximum height are dropped, the last one kept ending in "..."
+   * @param width - Width of the node in its standard drawing
+   * @param height - Height of the node in its standard drawing
+   * @param innerHeight - Height of the shapes drawn below the details, such as hash tables
+   */
+  protected fitDetailLines(
+    lines: DetailLine[],
+    width: number,
+    height: number,
+    context: GenerationContext,
+    innerHeight = 0
+  ): DetailLayout {
+    const { detailLevel, maxNodeWidth, maxNodeHeight } = context.config;
+    const padding = DETAIL_LEVEL.TEXT_PADDING;
+    const measure = (text: string): number => context.textMeasurement.measureText(text, FONT_SIZES.DETAILS);
+    const innerSpace = innerHeight > 0 ? innerHeight + DETAIL_LEVEL.INNER_GAP : 0;
+    if (detailLevel === 'standard' && !context.config.metricsOverlay && !lines.some((line) => measure(line.text) > width - padding)) {
+      return { lines, width, height, innerTop: DETAIL_LEVEL.DETAILS_OFFSET + lines.length * TEXT_HEIGHTS.DETAILS_LINE + DETAIL_LEVEL.INNER_GAP, fitted: false };
+    }
+
+    const widest = Math.max(0, ...lines.map((line) => measure(line.text)));
+    const fittedWidth = Math.max(width, Math.min(maxNodeWidth, Math.ceil(widest + padding * 2)));
+    const maxLines = Math.max(1, Math.floor(
+      (maxNodeHeight - DETAIL_LEVEL.DETAILS_OFFSET - DETAIL_LEVEL.BOTTOM_PADDING - innerSpace) / TEXT_HEIGHTS.DETAILS_LINE
+    ));
+    const wrapped = this.wrapDetailLines(lines, fittedWidth - padding * 2, maxLines, context);
+    const detailsBottom = wrapped.length > 0 ?
+      DETAIL_LEVEL.DETAILS_OFFSET + wrapped.length * TEXT_HEIGHTS.DETAILS_LINE :
+      DETAIL_LEVEL.HEADER_HEIGHT;
+    const minHeight = detailLevel === 'standard' ? height : DETAIL_LEVEL.MIN_HEIGHT;
+    return {
+      lines: wrapped,
+      width: fittedWidth,
+      height: Math.max(minHeight, detailsBottom + innerSpace + DETAIL_LEVEL.BOTTOM_PADDING),
+      innerTop: detailsBottom + DETAIL_LEVEL.INNER_GAP,
+      fitted: true,
+    };
+  }
+
+  /**
+   * Draws fitted detail lines below the operator name, one text element per line
+   */
+  protected drawDetailLines(layout: DetailLayout, x: number, y: number, context: GenerationContext): void {
+    const detailBuilder = new DetailTextBuilder(context.elementFactory, context.idGenerator);
+    for (const line of layout.lines) {
+      detailBuilder.addLine(line.text, line.color);
+    }
+    context.elements.push(...detailBuilder.build(
+      x + DETAIL_LEVEL.TEXT_PADDING,
+      y + DETAIL_LEVEL.DETAILS_OFFSET,
+      layout.width - DETAIL_LEVEL.TEXT_PADDING * 2
+    ));
+  }
+
   /**
    * Extracts limit information from node properties and adds it to detail builder
    * Handles formats: "limit=100", "fetch=100", "TopK(fetch=100)"
@@ -378,4 +497,20 @@ export abstract class BaseNodeGenerator implements NodeGeneratorStrategy {
     }
     return baseHeight;
   }
+
+  /**
+   * Wraps every line to maxWidth; when more than maxLines result, the rest is
+   * dropped and the last line kept ends in "..."
+   */
+  private wrapDetailLines(lines: DetailLine[], maxWidth: number, maxLines: number, context: GenerationContext): DetailLine[] {
+    const wrapped = lines.flatMap((line) =>
+      context.textWrapper.wrap(line.text, maxWidth, FONT_SIZES.DETAILS).map((text) => ({ text, color: line.color })));
+    if (wrapped.length <= maxLines) {
+      return wrapped;
+    }
+    const kept = wrapped.slice(0, maxLines);
+    const last = kept[kept.length - 1];
+    kept[kept.length - 1] = { ...last, text: context.textWrapper.ellipsise(last.text, maxWidth, FONT_SIZES.DETAILS) };
+    return kept;
+  }
 }
@@ -2,6 +2,7 @@ import { ExecutionPlanNode } from '../../types/execution-plan.types';
 import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
 import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS } from '../constants';
 
 /**
@@ -16,14 +17,20 @@ export class CoalesceBatchesNodeGenerator extends BaseNodeGenerator {
     _isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
     const baseHeight = NODE_DIMENSIONS.DEFAULT_HEIGHT;
 
     // Check for limit information
     const hasLimit = !!context.propertyParser.extractLimit(node.properties);
     const hasTargetBatchSize = !!(node.properties && node.properties.target_batch_size);
     const detailLines = (hasTargetBatchSize ? 1 : 0) + (hasLimit ? 1 : 0);
-    const nodeHeight = this.calculateAdjustedHeight(baseHeight, hasLimit, detailLines > 1 ? 1 : 0);
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      this.calculateAdjustedHeight(baseHeight, hasLimit, detailLines > 1 ? 1 : 0),
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -55,48 +62,27 @@ export class CoalesceBatchesNodeGenerator extends BaseNodeGenerator {
     });
     context.elements.push(operatorText);
 
-    // Extract target_batch_size from properties
-    let detailY = y + nodeHeight - 25;
-    if (node.properties && node.properties.target_batch_size) {
-      const targetBatchSize = `target_batch_size=${node.properties.target_batch_size}`;
-      const detailText = context.elementFactory.createText({
-        id: context.idGenerator.generateId(),
-        x: x + 10,
-        y: detailY,
-        width: nodeWidth - 20,
-        height: 20,
-        text: targetBatchSize,
-        fontSize: FONT_SIZES.DETAILS,
-        fontFamily: FONT_FAMILIES.NORMAL,
-        textAlign: 'center',
-        verticalAlign: 'top',
-        strokeColor: context.config.nodeColor,
-      });
-      context.elements.push(detailText);
-      // If limit is also present, adjust Y position for limit text
-      if (hasLimit) {
-        detailY -= TEXT_HEIGHTS.DETAILS_LINE;
-      }
-    }
-
-    // Add limit detail text if present
-    if (hasLimit) {
-      const limitText = context.propertyParser.extractLimit(node.properties);
-      if (limitText) {
-        const limitDetailText = context.elementFactory.createText({
+    // target_batch_size at the bottom, limit above it
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else {
+      let detailY = y + nodeHeight - 25;
+      for (const line of layout.lines) {
+        const detailText = context.elementFactory.createText({
           id: context.idGenerator.generateId(),
           x: x + 10,
           y: detailY,
           width: nodeWidth - 20,
           height: 20,
-          text: limitText,
+          text: line.text,
           fontSize: FONT_SIZES.DETAILS,
           fontFamily: FONT_FAMILIES.NORMAL,
           textAlign: 'center',
           verticalAlign: 'top',
           strokeColor: context.config.nodeColor,
         });
-        context.elements.push(limitDetailText);
+        context.elements.push(detailText);
+        detailY -= TEXT_HEIGHTS.DETAILS_LINE;
       }
     }
 
@@ -143,5 +129,20 @@ export class CoalesceBatchesNodeGenerator extends BaseNodeGenerator {
       outputSortOrder,
     };
   }
+
+  /**
+   * target_batch_size and limit
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const lines: DetailLine[] = [];
+    if (node.properties && node.properties.target_batch_size) {
+      lines.push({ text: `target_batch_size=${node.properties.target_batch_size}`, color: context.config.nodeColor });
+    }
+    const limitText = context.propertyParser.extractLimit(node.properties);
+    if (limitText) {
+      lines.push({ text: limitText, color: context.config.nodeColor });
+    }
+    return lines;
+  }
 }
 
@@ -2,6 +2,7 @@ import { ExecutionPlanNode } from '../../types/execution-plan.types';
 import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
 import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS } from '../constants';
 
 /**
@@ -17,12 +18,18 @@ export class CoalescePartitionsNodeGenerator extends BaseNodeGenerator {
     _isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
     const baseHeight = NODE_DIMENSIONS.DEFAULT_HEIGHT;
 
     // Check for limit information
     const hasLimit = !!context.propertyParser.extractLimit(node.properties);
-    const nodeHeight = this.calculateAdjustedHeight(baseHeight, hasLimit);
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      this.calculateAdjustedHeight(baseHeight, hasLimit),
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -55,7 +62,11 @@ export class CoalescePartitionsNodeGenerator extends BaseNodeGenerator {
     context.elements.push(operatorText);
 
     // Add limit detail text if present
-    this.addLimitDetailText(node, x, y, nodeWidth, nodeHeight, context);
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else {
+      this.addLimitDetailText(node, x, y, nodeWidth, nodeHeight, context);
+    }
 
     // Process children using the recursive generator from context
     const childResult = this.processChildren(
@@ -95,5 +106,13 @@ export class CoalescePartitionsNodeGenerator extends BaseNodeGenerator {
       outputSortOrder,
     };
   }
+
+  /**
+   * The limit, if any
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const limitText = context.propertyParser.extractLimit(node.properties);
+    return limitText ? [{ text: limitText, color: context.config.nodeColor }] : [];
+  }
 }
 
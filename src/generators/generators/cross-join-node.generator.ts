@@ -16,8 +16,14 @@ export class CrossJoinNodeGenerator extends BaseNodeGenerator {
     _isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
-    const nodeHeight = NODE_DIMENSIONS.SORT_MERGE_JOIN_HEIGHT;
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      NODE_DIMENSIONS.SORT_MERGE_JOIN_HEIGHT,
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Draw join rectangle
     const rectId = context.idGenerator.generateId();
@@ -48,6 +54,7 @@ export class CrossJoinNodeGenerator extends BaseNodeGenerator {
       strokeColor: context.config.nodeColor,
     });
     context.elements.push(operatorTextElement);
+    this.drawDetailLines(layout, x, y, context);
 
     // Require exactly 2 inputs
     if (node.children.length !== 2) {
@@ -352,6 +359,7 @@ export class CrossJoinNodeGenerator extends BaseNodeGenerator {
       inputArrowPositions: outputArrowPositions,
       outputColumns,
       outputSortOrder: [],
+      inputLayout: 'beside',
     };
   }
 }
@@ -0,0 +1,229 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { NodeInfo } from '../types/node-info.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { BaseNodeGenerator } from './base-node.generator';
+import { SinkTarget } from '../utils/property.parser';
+import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS, SPACING, SINK_NODE, SOURCE_NODE } from '../constants';
+import { DetailLine } from '../builders/detail-text.builder';
+
+/**
+ * DataSinkExec / FileSinkExec node generator
+ * Mirrors DataSourceExec upside down: what the sink writes is drawn as ellipses
+ * above the operator, with arrows from the operator up to them
+ * - Files listed in the sink's file_groups, collapsed to first ... last beyond three
+ * - Otherwise one ellipse per partition of an in-memory table
+ * - Otherwise one ellipse named after the output format
+ * The operator shows the sink, its format and the output path
+ * outputColumns = count: sinks return the number of rows written
+ */
+export class DataSinkNodeGenerator extends BaseNodeGenerator {
+  generate(
+    node: ExecutionPlanNode,
+    x: number,
+    y: number,
+    _isRoot: boolean,
+    context: GenerationContext
+  ): NodeInfo {
+    const sink = this.parseSink(node, context);
+    const detailLines = this.buildDetailLines(node, context);
+    const layout = this.fitDetailLines(
+      detailLines,
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      Math.max(NODE_DIMENSIONS.DATASOURCE_HEIGHT, SOURCE_NODE.DETAILS_OFFSET + detailLines.length * TEXT_HEIGHTS.DETAILS_LINE + SOURCE_NODE.BOTTOM_PADDING),
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
+
+    // Targets sit above the operator, which moves down to make room for them
+    const targetLabels = this.getTargetLabels(sink);
+    const rectY = targetLabels.length > 0 ? y + SPACING.ELLIPSE_SIZE + SPACING.ELLIPSE_BASE_OFFSET : y;
+
+    // Create rectangle
+    const rectId = context.idGenerator.generateId();
+    context.elements.push(context.elementFactory.createRectangle({
+      id: rectId,
+      x,
+      y: rectY,
+      width: nodeWidth,
+      height: nodeHeight,
+      strokeColor: context.config.nodeColor,
+      roundnessType: 3,
+    }));
+
+    // Create operator name text (centered, bold)
+    context.elements.push(context.elementFactory.createText({
+      id: context.idGenerator.generateId(),
+      x,
+      y: rectY + 5,
+      width: nodeWidth,
+      height: TEXT_HEIGHTS.OPERATOR,
+      text: node.operator,
+      fontSize: FONT_SIZES.OPERATOR,
+      fontFamily: FONT_FAMILIES.BOLD,
+      textAlign: 'center',
+      verticalAlign: 'top',
+      containerId: rectId,
+      strokeColor: context.config.nodeColor,
+    }));
+
+    this.drawDetailLines(layout, x, rectY, context);
+
+    this.createTargets(targetLabels, x, y, nodeWidth, rectId, rectY, context);
+
+    // Process children using the recursive generator from context
+    const childResult = this.processChildren(
+      node,
+      x,
+      rectY,
+      nodeHeight,
+      rectId,
+      nodeWidth,
+      context,
+      (child, childX, childY, isChildRoot, childContext) => {
+        return childContext.generateChildNode(child, childX, childY, isChildRoot);
+      }
+    );
+
+    return {
+      x,
+      y: childResult.maxChildY,
+      width: nodeWidth,
+      height: nodeHeight,
+      rectId,
+      inputArrowCount: 1,
+      inputArrowPositions: [x + nodeWidth / 2],
+      outputColumns: ['count'],
+      outputSortOrder: [],
+    };
+  }
+
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const sink = this.parseSink(node, context);
+    if (!sink) {
+      return [];
+    }
+    const lines: DetailLine[] = [
+      { text: `sink=${sink.kind}`, color: context.config.nodeColor },
+      { text: `format=${sink.format}`, color: context.config.nodeColor },
+    ];
+    if (sink.location) {
+      lines.push({ text: `path=${sink.location}`, color: context.config.nodeColor });
+    }
+    return lines;
+  }
+
+  private parseSink(node: ExecutionPlanNode, context: GenerationContext): SinkTarget | null {
+    return node.properties?.sink ? context.propertyParser.parseSink(node.properties.sink) : null;
+  }
+
+  /**
+   * Labels of the ellipses drawn above the operator; null marks the "..." of collapsed targets
+   */
+  private getTargetLabels(sink: SinkTarget | null): Array<string | null> {
+    if (!sink) {
+      return [];
+    }
+
+    let labels: string[];
+    if (sink.files.length > 0) {
+      // File name without directory and extension, like DataSourceExec
+      labels = sink.files.map((file) => (file.split('/').pop() || file).replace(/\.[^.]*$/, ''));
+    } else if (sink.partitions !== null) {
+      labels = Array.from({ length: sink.partitions }, (_, i) => `p${i}`);
+    } else {
+      labels = [sink.format];
+    }
+
+    return labels.length > SINK_NODE.MAX_TARGETS ? [labels[0], null, labels[labels.length - 1]] : labels;
+  }
+
+  /**
+   * Draws the target ellipses in a row centered above the operator and
+   * connects the operator's top edge to each of them
+   */
+  private createTargets(
+    labels: Array<string | null>,
+    x: number,
+    y: number,
+    nodeWidth: number,
+    rectId: string,
+    rectY: number,
+    context: GenerationContext
+  ): void {
+    const widths = labels.map((label) => label === null ?
+      SPACING.ELLIPSE_SIZE :
+      Math.max(SPACING.ELLIPSE_SIZE, context.textMeasurement.measureText(label, FONT_SIZES.ELLIPSE_TEXT) + SINK_NODE.LABEL_PADDING));
+    const totalWidth = widths.reduce((sum, width) => sum + width, 0) + (labels.length - 1) * SPACING.GROUP_SPACING;
+    const arrowCount = labels.filter((label) => label !== null).length;
+    const { positions: arrowStarts } = context.arrowCalculator.calculateOutputArrowPositions(arrowCount, x, nodeWidth);
+
+    let currentX = x + nodeWidth / 2 - totalWidth / 2;
+    let arrowIndex = 0;
+    labels.forEach((label, i) => {
+      const width = widths[i];
+      if (label === null) {
+        context.elements.push(context.elementFactory.createText({
+          id: context.idGenerator.generateId(),
+          x: currentX + width / 2 - 10,
+          y: y + SPACING.ELLIPSE_SIZE / 2 - 10,
+          width: 20,
+          height: 20,
+          text: '...',
+          fontSize: FONT_SIZES.ELLIPSIS,
+          fontFamily: FONT_FAMILIES.NORMAL,
+          textAlign: 'center',
+          verticalAlign: 'middle',
+          strokeColor: context.config.nodeColor,
+          autoResize: true,
+        }));
+        currentX += width + SPACING.GROUP_SPACING;
+        return;
+      }
+
+      const ellipseId = context.idGenerator.generateId();
+      context.elements.push(context.elementFactory.createEllipse({
+        id: ellipseId,
+        x: currentX,
+        y,
+        width,
+        height: SPACING.ELLIPSE_SIZE,
+        strokeColor: context.config.nodeColor,
+        backgroundColor: 'transparent',
+        roundnessType: 2,
+      }));
+      context.elements.push(context.elementFactory.createText({
+        id: context.idGenerator.generateId(),
+        x: currentX + SINK_NODE.LABEL_PADDING / 2,
+        y: y + SPACING.ELLIPSE_SIZE / 2 - 15,
+        width: width - SINK_NODE.LABEL_PADDING,
+        height: 30,
+        text: label,
+        fontSize: FONT_SIZES.ELLIPSE_TEXT,
+        fontFamily: FONT_FAMILIES.BOLD,
+        textAlign: 'center',
+        verticalAlign: 'middle',
+        strokeColor: context.config.nodeColor,
+        containerId: ellipseId,
+        autoResize: true,
+        lineHeight: 1.15,
+      }));
+
+      // Arrow from the operator's top edge up to the bottom of the ellipse
+      const arrowId = context.idGenerator.generateId();
+      context.elements.push(context.elementFactory.createArrow({
+        id: arrowId,
+        startX: arrowStarts[arrowIndex++] ?? x + nodeWidth / 2,
+        startY: rectY,
+        endX: currentX + width / 2,
+        endY: y + SPACING.ELLIPSE_SIZE,
+        childRectId: rectId,
+        parentRectId: ellipseId,
+        strokeColor: context.config.arrowColor,
+      }));
+      this.bindArrowToElements(context, arrowId, [rectId, ellipseId]);
+
+      currentX += width + SPACING.GROUP_SPACING;
+    });
+  }
+}
@@ -2,15 +2,25 @@ import { ExecutionPlanNode } from '../../types/execution-plan.types';
 import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
-import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS, DYNAMIC_FILTER_DIMENSIONS } from '../constants';
+import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS, DYNAMIC_FILTER_DIMENSIONS, COLORS, ELEMENT_DEFAULTS, SCAN_DETAILS } from '../constants';
+import { DetailLine } from '../builders/detail-text.builder';
 
 /**
  * DataSourceExec node generator
  * DataSourceExec has special handling for file groups, creating ellipses for each file
  * Supports DynamicFilter visualization with orange-dashed ellipse
  * Creates arrows from file groups to DataSourceExec rectangle bottom edge
+ * With the scanDetails option, each file's byte range is written under its
+ * ellipse and a grouped "scan details" panel is drawn below the files
  */
 export class DataSourceNodeGenerator extends BaseNodeGenerator {
+  /** EXPLAIN ANALYZE pruning metrics shown in the scan details panel */
+  private static readonly PRUNING_METRICS: Array<{ name: string; label: string }> = [
+    { name: 'row_groups_pruned_statistics', label: 'pruned by statistics: {n} row groups' },
+    { name: 'row_groups_pruned_bloom_filter', label: 'pruned by bloom filter: {n} row groups' },
+    { name: 'page_index_rows_pruned', label: 'pruned by page index: {n} rows' },
+  ];
+
   generate(
     node: ExecutionPlanNode,
     x: number,
@@ -18,9 +28,25 @@ export class DataSourceNodeGenerator extends BaseNodeGenerator {
     _isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
+    // Check if DynamicFilter is present in predicate
+    const hasDynamicFilter =
+      node.properties?.predicate &&
+      (node.properties.predicate.includes('DynamicFilter') ||
+        node.properties.predicate.includes('DynamicFilterPhysicalExpr'));
+
     // Use larger dimensions for DataSourceExec
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
-    const nodeHeight = NODE_DIMENSIONS.DATASOURCE_HEIGHT;
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      NODE_DIMENSIONS.DATASOURCE_HEIGHT,
+      context,
+      hasDynamicFilter ? DYNAMIC_FILTER_DIMENSIONS.HEIGHT : 0
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
+    const scanDetails = context.config.scanDetails;
+    // Lowest Y drawn for this scan; the scan details panel goes below it
+    let scanBottom = y + nodeHeight;
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -53,60 +79,53 @@ export class DataSourceNodeGenerator extends BaseNodeGenerator {
     context.elements.push(operatorTextElement);
 
     // Add limit detail text if present (like CoalescePartitionsExec)
-    // Do not show other details (file_groups, projection, file_type) - they are not critical
-    if (node.properties) {
-      const limitText = context.propertyParser.extractLimit(node.properties);
-      if (limitText) {
-        // Use addLimitDetailText from base class (like CoalescePartitionsExec)
-        this.addLimitDetailText(node, x, y, nodeWidth, nodeHeight, context);
-      }
+    // Other details (projection, predicate, file_type) only appear in the scan details panel
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else if (layout.lines.length > 0) {
+      // Use addLimitDetailText from base class (like CoalescePartitionsExec)
+      this.addLimitDetailText(node, x, y, nodeWidth, nodeHeight, context);
+    }
 
-      // Check if DynamicFilter is present in predicate
-      const hasDynamicFilter =
-        node.properties.predicate &&
-        (node.properties.predicate.includes('DynamicFilter') ||
-          node.properties.predicate.includes('DynamicFilterPhysicalExpr'));
-
-      if (hasDynamicFilter) {
-        // Create orange-dashed-border ellipse (DynamicFilter) inside the rectangle
-        const dfEllipseWidth = DYNAMIC_FILTER_DIMENSIONS.WIDTH;
-        const dfEllipseHeight = DYNAMIC_FILTER_DIMENSIONS.HEIGHT;
-        const dfEllipseX = x + nodeWidth / 2 - dfEllipseWidth / 2;
-        const dfEllipseY = y + DYNAMIC_FILTER_DIMENSIONS.Y_OFFSET;
-        const dfEllipseId = context.idGenerator.generateId();
-
-        const dfEllipse = context.elementFactory.createEllipse({
-          id: dfEllipseId,
-          x: dfEllipseX,
-          y: dfEllipseY,
-          width: dfEllipseWidth,
-          height: dfEllipseHeight,
-          strokeColor: '#f08c00', // Orange border color
-          backgroundColor: 'transparent',
-          strokeStyle: 'dashed', // Dashed border
-          roundnessType: 2,
-        });
-        context.elements.push(dfEllipse);
-
-        // Create "DynamicFilter" text label inside the ellipse
-        const dfText = context.elementFactory.createText({
-          id: context.idGenerator.generateId(),
-          x: dfEllipseX + (dfEllipseWidth - 100) / 2, // Center text
-          y: dfEllipseY + dfEllipseHeight / 2 - 9, // Center vertically
-          width: 100,
-          height: 18,
-          text: 'DynamicFilter',
-          fontSize: FONT_SIZES.DETAILS,
-          fontFamily: FONT_FAMILIES.BOLD,
-          textAlign: 'center',
-          verticalAlign: 'top',
-          strokeColor: '#f08c00', // Orange color to match border
-          containerId: dfEllipseId,
-          autoResize: true,
-          version: 1, // Explicitly set version to 1 to match original DataSourceExec implementation
-        });
-        context.elements.push(dfText);
-      }
+    if (hasDynamicFilter) {
+      // Create orange-dashed-border ellipse (DynamicFilter) inside the rectangle, below fitted details
+      const dfEllipseWidth = DYNAMIC_FILTER_DIMENSIONS.WIDTH;
+      const dfEllipseHeight = DYNAMIC_FILTER_DIMENSIONS.HEIGHT;
+      const dfEllipseX = x + nodeWidth / 2 - dfEllipseWidth / 2;
+      const dfEllipseY = y + (layout.fitted ? layout.innerTop : DYNAMIC_FILTER_DIMENSIONS.Y_OFFSET);
+      const dfEllipseId = context.idGenerator.generateId();
+
+      const dfEllipse = context.elementFactory.createEllipse({
+        id: dfEllipseId,
+        x: dfEllipseX,
+        y: dfEllipseY,
+        width: dfEllipseWidth,
+        height: dfEllipseHeight,
+        strokeColor: '#f08c00', // Orange border color
+        backgroundColor: 'transparent',
+        strokeStyle: 'dashed', // Dashed border
+        roundnessType: 2,
+      });
+      context.elements.push(dfEllipse);
+
+      // Create "DynamicFilter" text label inside the ellipse
+      const dfText = context.elementFactory.createText({
+        id: context.idGenerator.generateId(),
+        x: dfEllipseX + (dfEllipseWidth - 100) / 2, // Center text
+        y: dfEllipseY + dfEllipseHeight / 2 - 9, // Center vertically
+        width: 100,
+        height: 18,
+        text: 'DynamicFilter',
+        fontSize: FONT_SIZES.DETAILS,
+        fontFamily: FONT_FAMILIES.BOLD,
+        textAlign: 'center',
+        verticalAlign: 'top',
+        strokeColor: '#f08c00', // Orange color to match border
+        containerId: dfEllipseId,
+        autoResize: true,
+        version: 1, // Explicitly set version to 1 to match original DataSourceExec implementation
+      });
+      context.elements.push(dfText);
     }
 
     // Parse file groups and create ellipses for each file
@@ -125,8 +144,13 @@ export class DataSourceNodeGenerator extends BaseNodeGenerator {
 
     if (fileGroups.length > 0) {
       const ellipseSize = 60;
-      const ellipseSpacing = 20; // Vertical spacing between ellipses within a group
-      const groupSpacing = 40; // Horizontal spacing between groups
+      // Byte ranges are written under the ellipses in scan details mode
+      const rangeHeight = scanDetails ? TEXT_HEIGHTS.DETAILS_LINE : 0;
+      const widestRange = scanDetails ?
+        Math.max(0, ...fileGroups.flat().map((file) => context.textMeasurement.measureText(this.splitFileRange(file).range ?? '', FONT_SIZES.DETAILS))) :
+        0;
+      const ellipseSpacing = 20 + rangeHeight; // Vertical spacing between ellipses within a group
+      const groupSpacing = Math.max(40, widestRange - ellipseSize + SCAN_DETAILS.RANGE_GAP); // Horizontal spacing between groups
       const baseEllipseY = y + nodeHeight + 75;
 
       // Calculate total width needed for all groups (each group is one ellipse width)
@@ -137,6 +161,8 @@ export class DataSourceNodeGenerator extends BaseNodeGenerator {
       // Cap at 3 because we collapse groups larger than 2 files
       const maxFilesInGroup = Math.max(...fileGroups.map((g) => (g.length > 2 ? 3 : g.length)));
       const maxGroupHeight = maxFilesInGroup * ellipseSize + (maxFilesInGroup - 1) * ellipseSpacing;
+      // Group rectangles extend 10 below the last ellipse (and its range)
+      scanBottom = baseEllipseY + maxGroupHeight + rangeHeight + 10;
 
       // Create ellipses for each file group
       for (let groupIndex = 0; groupIndex < fileGroups.length; groupIndex++) {
@@ -213,7 +239,7 @@ export class DataSourceNodeGenerator extends BaseNodeGenerator {
           groupEllipseIds.push(ellipseId);
 
           // Create text inside ellipse using file name without extension
-          const fileName = group[fileIndex];
+          const { path: fileName, range } = this.splitFileRange(group[fileIndex]);
           // Extract just the filename (basename) from the path, then remove extension
           const basename = fileName.split('/').pop() || fileName; // Get last part of path
           const fileNameWithoutExtension = basename.replace(/\.[^.]*$/, ''); // Remove extension
@@ -237,6 +263,25 @@ export class DataSourceNodeGenerator extends BaseNodeGenerator {
           ellipseText.version = 43;
           context.elements.push(ellipseText);
 
+          if (scanDetails && range) {
+            const rangeWidth = context.textMeasurement.measureText(range, FONT_SIZES.DETAILS);
+            context.elements.push(context.elementFactory.createText({
+              id: context.idGenerator.generateId(),
+              x: ellipseCenterX - rangeWidth / 2,
+              y: ellipseY + ellipseSize,
+              width: rangeWidth,
+              height: TEXT_HEIGHTS.DETAILS_LINE,
+              text: range,
+              fontSize: FONT_SIZES.DETAILS,
+              fontFamily: FONT_FAMILIES.NORMAL,
+              textAlign: 'center',
+              verticalAlign: 'top',
+              strokeColor: context.config.nodeColor,
+              autoResize: true,
+              lineHeight: ELEMENT_DEFAULTS.LINE_HEIGHT,
+            }));
+          }
+
           // Store ellipse info for arrow calculation
           ellipseInfo.push({
             id: ellipseId,
@@ -252,11 +297,11 @@ export class DataSourceNodeGenerator extends BaseNodeGenerator {
           // For max Y, if we have > 2 files, the last rendered element is at visual index 2
           if (group.length > 2) {
             if (fileIndex === group.length - 1) {
-              groupMaxY = ellipseY + ellipseSize;
+              groupMaxY = ellipseY + ellipseSize + rangeHeight;
             }
           } else {
             if (fileIndex === group.length - 1) {
-              groupMaxY = ellipseY + ellipseSize;
+              groupMaxY = ellipseY + ellipseSize + rangeHeight;
             }
           }
         }
@@ -497,6 +542,10 @@ export class DataSourceNodeGenerator extends BaseNodeGenerator {
       }
     }
 
+    if (scanDetails) {
+      this.renderScanDetails(node, x, scanBottom + SCAN_DETAILS.PANEL_GAP, nodeWidth, context);
+    }
+
     // Count input arrows (number of file groups)
     const inputArrowCount = fileGroups.length > 0 ? fileGroups.length : 0;
 
@@ -543,4 +592,96 @@ export class DataSourceNodeGenerator extends BaseNodeGenerator {
       outputSortOrder,
     };
   }
+
+  /**
+   * The limit, if any
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const limitText = context.propertyParser.extractLimit(node.properties);
+    return limitText ? [{ text: limitText, color: context.config.nodeColor }] : [];
+  }
+
+  /**
+   * Splits a file_groups entry into its path and optional byte range
+   * Example: "data/f.parquet:0..1024" -> { path: "data/f.parquet", range: "0..1024" }
+   */
+  private splitFileRange(file: string): { path: string; range: string | null } {
+    const match = file.match(/^(.*):(\d+\.\.\d+)$/);
+    return match ? { path: match[1], range: match[2] } : { path: file, range: null };
+  }
+
+  /**
+   * Lines of the scan details panel: projection, pushed-down predicate with its
+   * required guarantees, file format and, for EXPLAIN ANALYZE, pruned row groups and rows
+   */
+  private buildScanDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const properties = node.properties ?? {};
+    const lines: DetailLine[] = [];
+    if (properties.projection) {
+      lines.push({ text: `projection=${properties.projection}`, color: context.config.nodeColor });
+    }
+    if (properties.predicate) {
+      lines.push({ text: `predicate=${properties.predicate.replace(/@\d+/g, '')}`, color: COLORS.DARK_RED });
+    }
+    if (properties.required_guarantees) {
+      lines.push({ text: `required_guarantees=${properties.required_guarantees}`, color: COLORS.DARK_RED });
+    }
+    if (properties.file_type) {
+      lines.push({ text: `file_type=${properties.file_type}`, color: COLORS.PURPLE_MODE });
+    }
+    for (const metric of DataSourceNodeGenerator.PRUNING_METRICS) {
+      const value = node.metrics?.values[metric.name];
+      if (value) {
+        lines.push({ text: metric.label.replace('{n}', String(value.value)), color: COLORS.ROW_COUNT });
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Draws the scan details panel as a dashed box below the scan
+   * All panel elements share one group so the panel can be moved or removed as a unit
+   */
+  private renderScanDetails(node: ExecutionPlanNode, x: number, y: number, width: number, context: GenerationContext): void {
+    const textWidth = width - SCAN_DETAILS.PADDING * 2;
+    const lines = this.buildScanDetailLines(node, context)
+      .flatMap((line) => context.textWrapper.wrap(line.text, textWidth, FONT_SIZES.DETAILS).map((text) => ({ text, color: line.color })));
+    if (lines.length === 0) {
+      return;
+    }
+
+    const groupId = context.idGenerator.generateId();
+    const lineHeight = TEXT_HEIGHTS.DETAILS_LINE;
+    const panel = context.elementFactory.createRectangle({
+      id: context.idGenerator.generateId(),
+      x,
+      y,
+      width,
+      height: (lines.length + 1) * lineHeight + SCAN_DETAILS.PADDING * 2,
+      strokeColor: context.config.nodeColor,
+      roundnessType: 3,
+    });
+    panel.strokeStyle = 'dashed';
+
+    const texts = [{ text: 'scan details', color: context.config.nodeColor }, ...lines].map((line, i) => context.elementFactory.createText({
+      id: context.idGenerator.generateId(),
+      x: x + SCAN_DETAILS.PADDING,
+      y: y + SCAN_DETAILS.PADDING + i * lineHeight,
+      width: context.textMeasurement.measureText(line.text, FONT_SIZES.DETAILS),
+      height: lineHeight,
+      text: line.text,
+      fontSize: FONT_SIZES.DETAILS,
+      fontFamily: i === 0 ? FONT_FAMILIES.BOLD : FONT_FAMILIES.NORMAL,
+      textAlign: 'left',
+      verticalAlign: 'top',
+      strokeColor: line.color,
+      autoResize: true,
+      lineHeight: ELEMENT_DEFAULTS.LINE_HEIGHT,
+    }));
+
+    for (const element of [panel, ...texts]) {
+      element.groupIds = [groupId];
+      context.elements.push(element);
+    }
+  }
 }
@@ -3,6 +3,7 @@ import { ExcalidrawText } from '../../types/excalidraw.types';
 import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
 import { NODE_DIMENSIONS, FONT_FAMILIES, TEXT_HEIGHTS, COLORS } from '../constants';
 
 /**
@@ -20,10 +21,14 @@ export class DefaultNodeGenerator extends BaseNodeGenerator {
     // Use DATASOURCE_WIDTH (300) as default for consistency with other operators like AggregateExec, SortExec, etc.
     // Only use custom config if it's explicitly set to a non-default value
     const defaultConfigWidth = 200; // Default from ExcalidrawGenerator constructor
-    const nodeWidth = context.config.nodeWidth === defaultConfigWidth ?
-      NODE_DIMENSIONS.DATASOURCE_WIDTH :
-      context.config.nodeWidth;
-    const nodeHeight = context.config.nodeHeight ?? NODE_DIMENSIONS.DEFAULT_HEIGHT;
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      context.config.nodeWidth === defaultConfigWidth ? NODE_DIMENSIONS.DATASOURCE_WIDTH : context.config.nodeWidth,
+      context.config.nodeHeight ?? NODE_DIMENSIONS.DEFAULT_HEIGHT,
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Create rectangle for the node
     const rectId = context.idGenerator.generateId();
@@ -57,22 +62,26 @@ export class DefaultNodeGenerator extends BaseNodeGenerator {
 
     // For unimplemented operators, add "unimplemented" text in red in the details section (centered)
     // Position it in the bottom center of the rectangle
-    const detailTextY = y + nodeHeight - TEXT_HEIGHTS.DETAILS_LINE - 10;
-    const unimplementedText: ExcalidrawText = context.elementFactory.createText({
-      id: context.idGenerator.generateId(),
-      x: x + 10,
-      y: detailTextY,
-      width: nodeWidth - 20,
-      height: TEXT_HEIGHTS.DETAILS_LINE,
-      text: 'unimplemented',
-      fontSize: context.config.detailsFontSize,
-      fontFamily: FONT_FAMILIES.NORMAL,
-      textAlign: 'center',
-      verticalAlign: 'top',
-      containerId: null,
-      strokeColor: COLORS.RED_ERROR,
-    });
-    context.elements.push(unimplementedText);
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else {
+      const detailTextY = y + nodeHeight - TEXT_HEIGHTS.DETAILS_LINE - 10;
+      const unimplementedText: ExcalidrawText = context.elementFactory.createText({
+        id: context.idGenerator.generateId(),
+        x: x + 10,
+        y: detailTextY,
+        width: nodeWidth - 20,
+        height: TEXT_HEIGHTS.DETAILS_LINE,
+        text: layout.lines[0].text,
+        fontSize: context.config.detailsFontSize,
+        fontFamily: FONT_FAMILIES.NORMAL,
+        textAlign: 'center',
+        verticalAlign: 'top',
+        containerId: null,
+        strokeColor: layout.lines[0].color,
+      });
+      context.elements.push(unimplementedText);
+    }
 
     // Process children using the recursive generator from context
     const childResult = this.processChildren(
@@ -117,5 +126,12 @@ export class DefaultNodeGenerator extends BaseNodeGenerator {
       outputSortOrder,
     };
   }
+
+  /**
+   * Marks the operator as not drawn by a dedicated generator
+   */
+  protected buildStandardDetailLines(): DetailLine[] {
+    return [{ text: 'unimplemented', color: COLORS.RED_ERROR }];
+  }
 }
 
@@ -2,6 +2,7 @@ import { ExecutionPlanNode } from '../../types/execution-plan.types';
 import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
 import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS } from '../constants';
 
 /**
@@ -16,8 +17,15 @@ export class FilterNodeGenerator extends BaseNodeGenerator {
     _isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
-    const nodeHeight = NODE_DIMENSIONS.DEFAULT_HEIGHT;
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      NODE_DIMENSIONS.DEFAULT_HEIGHT,
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
+    const projectionColumns = this.extractProjectionColumns(node, context);
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -49,76 +57,17 @@ export class FilterNodeGenerator extends BaseNodeGenerator {
     });
     context.elements.push(operatorText);
 
-    // Extract filter expression and projection from properties
-    let filterExpression = '';
-    let projectionColumns: string[] = [];
-
-    if (node.properties) {
-      // Extract projection if present (could be in projection property or in filter string)
-      let projectionText = '';
-      if (node.properties.projection) {
-        projectionText = node.properties.projection;
-      } else if (node.properties.filter && node.properties.filter.includes('projection=')) {
-        // Extract projection from filter string if it's there
-        // Format: "filter_expr, projection=[col1@0, col2@1]"
-        const projectionMatch = node.properties.filter.match(/projection=\[([^\]]+)\]/);
-        if (projectionMatch) {
-          projectionText = `[${projectionMatch[1]}]`; // Add brackets back for extractProjectionColumns
-        }
-      }
-
-      if (projectionText) {
-        // extractProjectionColumns expects format like "[col1@0, col2@1]"
-        projectionColumns = context.propertyParser.extractProjectionColumns(projectionText);
-      }
-
-      // Extract filter expression
-      // Check for filter property (set by parser for FilterExec when no key=value format)
-      if (node.properties.filter) {
-        filterExpression = node.properties.filter;
-        // Remove projection part from filter expression if it's there
-        filterExpression = filterExpression.replace(/,\s*projection=\[[^\]]+\]/g, '');
-      } else if (node.properties.predicate) {
-        filterExpression = node.properties.predicate;
-      } else {
-        // Fallback: look for any property that looks like a filter expression
-        for (const [key, value] of Object.entries(node.properties)) {
-          if (key.includes('predicate') || (typeof value === 'string' && value.includes('=') && value.includes('@'))) {
-            filterExpression = value;
-            break;
-          }
-        }
-      }
-
-      // Remove @ symbols and numbers from filter expression
-      if (filterExpression) {
-        filterExpression = filterExpression.replace(/@\d+/g, '');
-      }
-    }
-
-    // Create detail text - filter expression and projection on separate lines
-    const details: string[] = [];
-    if (filterExpression) {
-      details.push(filterExpression);
-    }
-    if (projectionColumns.length > 0) {
-      details.push(`projection=[${projectionColumns.join(', ')}]`);
-    }
-
-    // Add limit information if present
-    const limitText = context.propertyParser.extractLimit(node.properties);
-    if (limitText) {
-      details.push(limitText);
-    }
-
-    if (details.length > 0) {
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else if (layout.lines.length > 0) {
+      // Filter expression and projection on separate lines of one text
       const detailText = context.elementFactory.createText({
         id: context.idGenerator.generateId(),
         x: x + 10,
         y: y + 35, // Position below operator name
         width: nodeWidth - 20,
-        height: details.length * 20,
-        text: details.join('\n'),
+        height: layout.lines.length * 20,
+        text: layout.lines.map((line) => line.text).join('\n'),
         fontSize: FONT_SIZES.DETAILS,
         fontFamily: FONT_FAMILIES.NORMAL,
         textAlign: 'center',
@@ -175,5 +124,82 @@ export class FilterNodeGenerator extends BaseNodeGenerator {
       outputSortOrder,
     };
   }
+
+  /**
+   * Filter expression, projection and limit, each on its own line
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const details: string[] = [];
+    const filterExpression = this.extractFilterExpression(node);
+    if (filterExpression) {
+      details.push(filterExpression);
+    }
+    const projectionColumns = this.extractProjectionColumns(node, context);
+    if (projectionColumns.length > 0) {
+      details.push(`projection=[${projectionColumns.join(', ')}]`);
+    }
+
+    // Add limit information if present
+    const limitText = context.propertyParser.extractLimit(node.properties);
+    if (limitText) {
+      details.push(limitText);
+    }
+    return details.map((text) => ({ text, color: context.config.nodeColor }));
+  }
+
+  /**
+   * Projected columns, from the projection property or from the filter string
+   */
+  private extractProjectionColumns(node: ExecutionPlanNode, context: GenerationContext): string[] {
+    if (!node.properties) {
+      return [];
+    }
+
+    // Extract projection if present (could be in projection property or in filter string)
+    let projectionText = '';
+    if (node.properties.projection) {
+      projectionText = node.properties.projection;
+    } else if (node.properties.filter && node.properties.filter.includes('projection=')) {
+      // Extract projection from filter string if it's there
+      // Format: "filter_expr, projection=[col1@0, col2@1]"
+      const projectionMatch = node.properties.filter.match(/projection=\[([^\]]+)\]/);
+      if (projectionMatch) {
+        projectionText = `[${projectionMatch[1]}]`; // Add brackets back for extractProjectionColumns
+      }
+    }
+
+    // extractProjectionColumns expects format like "[col1@0, col2@1]"
+    return projectionText ? context.propertyParser.extractProjectionColumns(projectionText) : [];
+  }
+
+  /**
+   * Filter predicate without column indexes
+   */
+  private extractFilterExpression(node: ExecutionPlanNode): string {
+    if (!node.properties) {
+      return '';
+    }
+
+    let filterExpression = '';
+    // Check for filter property (set by parser for FilterExec when no key=value format)
+    if (node.properties.filter) {
+      filterExpression = node.properties.filter;
+      // Remove projection part from filter expression if it's there
+      filterExpression = filterExpression.replace(/,\s*projection=\[[^\]]+\]/g, '');
+    } else if (node.properties.predicate) {
+      filterExpression = node.properties.predicate;
+    } else {
+      // Fallback: look for any property that looks like a filter expression
+      for (const [key, value] of Object.entries(node.properties)) {
+        if (key.includes('predicate') || (typeof value === 'string' && value.includes('=') && value.includes('@'))) {
+          filterExpression = value;
+          break;
+        }
+      }
+    }
+
+    // Remove @ symbols and numbers from filter expression
+    return filterExpression.replace(/@\d+/g, '');
+  }
 }
 
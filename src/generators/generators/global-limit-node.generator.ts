@@ -2,6 +2,7 @@ import { ExecutionPlanNode } from '../../types/execution-plan.types';
 import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
 import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS } from '../constants';
 
 /**
@@ -26,8 +27,14 @@ export class GlobalLimitNodeGenerator extends BaseNodeGenerator {
       );
     }
 
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
-    const nodeHeight = NODE_DIMENSIONS.DEFAULT_HEIGHT;
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      NODE_DIMENSIONS.DEFAULT_HEIGHT,
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -59,26 +66,17 @@ export class GlobalLimitNodeGenerator extends BaseNodeGenerator {
     });
     context.elements.push(operatorText);
 
-    // Extract skip and fetch properties and display as detail text
-    const detailParts: string[] = [];
-    if (node.properties?.skip !== undefined) {
-      detailParts.push(`skip=${node.properties.skip}`);
-    }
-    if (node.properties?.fetch !== undefined) {
-      detailParts.push(`fetch=${node.properties.fetch}`);
-    }
-
-    const detailText = detailParts.join(', ');
-
     // Create detail text at bottom center
-    if (detailText) {
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else if (layout.lines.length > 0) {
       const detailTextElement = context.elementFactory.createText({
         id: context.idGenerator.generateId(),
         x: x + 10,
         y: y + nodeHeight - 25, // Position near bottom
         width: nodeWidth - 20,
         height: 20,
-        text: detailText,
+        text: layout.lines[0].text,
         fontSize: FONT_SIZES.DETAILS,
         fontFamily: FONT_FAMILIES.NORMAL,
         textAlign: 'center',
@@ -134,5 +132,19 @@ export class GlobalLimitNodeGenerator extends BaseNodeGenerator {
       outputSortOrder,
     };
   }
+
+  /**
+   * skip and fetch on one line
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const detailParts: string[] = [];
+    if (node.properties?.skip !== undefined) {
+      detailParts.push(`skip=${node.properties.skip}`);
+    }
+    if (node.properties?.fetch !== undefined) {
+      detailParts.push(`fetch=${node.properties.fetch}`);
+    }
+    return detailParts.length > 0 ? [{ text: detailParts.join(', '), color: context.config.nodeColor }] : [];
+  }
 }
 
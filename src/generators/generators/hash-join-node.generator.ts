@@ -2,6 +2,7 @@ import { ExecutionPlanNode } from '../../types/execution-plan.types';
 import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
 import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS, HASH_TABLE_DIMENSIONS } from '../constants';
 
 /**
@@ -19,8 +20,15 @@ export class HashJoinNodeGenerator extends BaseNodeGenerator {
     _isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
-    const nodeHeight = 125; // Increased to accommodate details text and hash table
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      125, // Increased to accommodate details text and hash table
+      context,
+      HASH_TABLE_DIMENSIONS.HEIGHT
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -63,7 +71,8 @@ export class HashJoinNodeGenerator extends BaseNodeGenerator {
     const hashTableWidth = HASH_TABLE_DIMENSIONS.WIDTH;
     const hashTableHeight = HASH_TABLE_DIMENSIONS.HEIGHT;
     const hashTableX = x + nodeWidth / 2 - hashTableWidth / 2;
-    const hashTableY = y + HASH_TABLE_DIMENSIONS.Y_OFFSET;
+    // Fitted details push the hash table down below them
+    const hashTableY = y + (layout.fitted ? layout.innerTop : HASH_TABLE_DIMENSIONS.Y_OFFSET);
     const hashTableId = context.idGenerator.generateId();
     const hashTable = context.elementFactory.createEllipse({
       id: hashTableId,
@@ -96,28 +105,17 @@ export class HashJoinNodeGenerator extends BaseNodeGenerator {
     context.elements.push(hashTableText);
 
     // Create details text showing join_type and on=
-    const details: string[] = [];
-    if (node.properties) {
-      if (node.properties.join_type) {
-        details.push(`join_type=${node.properties.join_type}`);
-      }
-      if (node.properties.on) {
-        // Simplify the on= expression: remove @ symbols and indices
-        let onValue = node.properties.on;
-        onValue = onValue.replace(/@\d+/g, '');
-        details.push(`on=${onValue}`);
-      }
-    }
-
-    if (details.length > 0) {
-      const textHeight = details.length * TEXT_HEIGHTS.DETAILS_LINE;
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else if (layout.lines.length > 0) {
+      const textHeight = layout.lines.length * TEXT_HEIGHTS.DETAILS_LINE;
       const detailText = context.elementFactory.createText({
         id: context.idGenerator.generateId(),
         x: x + 10,
         y: y + 35, // Position below operator name
         width: nodeWidth - 20,
         height: textHeight,
-        text: details.join('\n'),
+        text: layout.lines.map((line) => line.text).join('\n'),
         fontSize: FONT_SIZES.DETAILS,
         fontFamily: FONT_FAMILIES.NORMAL,
         textAlign: 'center',
@@ -157,11 +155,11 @@ export class HashJoinNodeGenerator extends BaseNodeGenerator {
     const buildSideArrows = Math.max(1, buildSideInfo.inputArrowCount);
     const buildSideTopArrowPositions: number[] = [];
     if (buildSideArrows === 1) {
-      buildSideTopArrowPositions.push(buildSideX + buildSideInfo.width / 2);
+      buildSideTopArrowPositions.push(buildSideInfo.x + buildSideInfo.width / 2);
     } else {
       const centerRegionWidth = buildSideInfo.width * 0.6;
-      const centerRegionLeft = buildSideX + buildSideInfo.width / 2 - centerRegionWidth / 2;
-      const centerRegionRight = buildSideX + buildSideInfo.width / 2 + centerRegionWidth / 2;
+      const centerRegionLeft = buildSideInfo.x + buildSideInfo.width / 2 - centerRegionWidth / 2;
+      const centerRegionRight = buildSideInfo.x + buildSideInfo.width / 2 + centerRegionWidth / 2;
       const spacing = (centerRegionRight - centerRegionLeft) / (buildSideArrows - 1);
       for (let j = 0; j < buildSideArrows; j++) {
         buildSideTopArrowPositions.push(centerRegionLeft + j * spacing);
@@ -203,7 +201,7 @@ export class HashJoinNodeGenerator extends BaseNodeGenerator {
       const leftmostArrowX =
         buildSideTopArrowPositions.length > 0 ?
           buildSideTopArrowPositions[0] :
-          buildSideX + buildSideInfo.width / 2;
+          buildSideInfo.x + buildSideInfo.width / 2;
       const leftOffset = -5; // Negative offset to position text to the left
       const projectionTextX = leftmostArrowX + leftOffset;
 
@@ -271,11 +269,11 @@ export class HashJoinNodeGenerator extends BaseNodeGenerator {
     const probeSideArrows = Math.max(1, probeSideInfo.inputArrowCount);
     const probeSideTopArrowPositions: number[] = [];
     if (probeSideArrows === 1) {
-      probeSideTopArrowPositions.push(probeSideX + probeSideInfo.width / 2);
+      probeSideTopArrowPositions.push(probeSideInfo.x + probeSideInfo.width / 2);
     } else {
       const centerRegionWidth = probeSideInfo.width * 0.6;
-      const centerRegionLeft = probeSideX + probeSideInfo.width / 2 - centerRegionWidth / 2;
-      const centerRegionRight = probeSideX + probeSideInfo.width / 2 + centerRegionWidth / 2;
+      const centerRegionLeft = probeSideInfo.x + probeSideInfo.width / 2 - centerRegionWidth / 2;
+      const centerRegionRight = probeSideInfo.x + probeSideInfo.width / 2 + centerRegionWidth / 2;
       const spacing = (centerRegionRight - centerRegionLeft) / (probeSideArrows - 1);
       for (let j = 0; j < probeSideArrows; j++) {
         probeSideTopArrowPositions.push(centerRegionLeft + j * spacing);
@@ -317,7 +315,7 @@ export class HashJoinNodeGenerator extends BaseNodeGenerator {
       const rightmostArrowX =
         probeSideTopArrowPositions.length > 0 ?
           probeSideTopArrowPositions[probeSideTopArrowPositions.length - 1] :
-          probeSideX + probeSideInfo.width / 2;
+          probeSideInfo.x + probeSideInfo.width / 2;
       const rightOffset = 5;
       const projectionTextX = rightmostArrowX + rightOffset;
 
@@ -410,6 +408,22 @@ export class HashJoinNodeGenerator extends BaseNodeGenerator {
       inputArrowPositions: outputArrowPositions,
       outputColumns,
       outputSortOrder,
+      inputLayout: 'beside',
     };
   }
+
+  /**
+   * The join type and the join condition (without @index)
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const details: string[] = [];
+    if (node.properties?.join_type) {
+      details.push(`join_type=${node.properties.join_type}`);
+    }
+    if (node.properties?.on) {
+      // Simplify the on= expression: remove @ symbols and indices
+      details.push(`on=${node.properties.on.replace(/@\d+/g, '')}`);
+    }
+    return details.map((text) => ({ text, color: context.config.nodeColor }));
+  }
 }
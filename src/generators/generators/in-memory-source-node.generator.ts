@@ -0,0 +1,126 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { NodeInfo } from '../types/node-info.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { BaseNodeGenerator } from './base-node.generator';
+import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS, SOURCE_NODE } from '../constants';
+import { DetailLine } from '../builders/detail-text.builder';
+
+/**
+ * EmptyExec / PlaceholderRowExec / MemoryExec / ValuesExec node generator
+ * Leaves whose rows are known at planning time, drawn as compact source nodes
+ * with their partition count and row count:
+ * - EmptyExec produces no rows
+ * - PlaceholderRowExec produces one row per partition
+ * - MemoryExec / ValuesExec rows come from statistics= when present
+ * One output arrow per partition
+ * outputColumns from projection, outputSortOrder from output_ordering
+ */
+export class InMemorySourceNodeGenerator extends BaseNodeGenerator {
+  generate(
+    node: ExecutionPlanNode,
+    x: number,
+    y: number,
+    _isRoot: boolean,
+    context: GenerationContext
+  ): NodeInfo {
+    const partitionCount = context.propertyParser.extractPartitionCount(node.properties);
+    const detailLines = this.buildDetailLines(node, context);
+
+    // Lines wider than the maximum node width are wrapped by fitDetailLines
+    const widestLine = Math.max(0, ...detailLines.map((line) => context.textMeasurement.measureText(line.text, FONT_SIZES.DETAILS)));
+    const layout = this.fitDetailLines(
+      detailLines,
+      Math.max(
+        NODE_DIMENSIONS.DEFAULT_WIDTH,
+        context.textMeasurement.measureText(node.operator, FONT_SIZES.OPERATOR) + SOURCE_NODE.TEXT_PADDING * 2,
+        Math.min(context.config.maxNodeWidth, widestLine + SOURCE_NODE.TEXT_PADDING * 2)
+      ),
+      Math.max(NODE_DIMENSIONS.DEFAULT_HEIGHT, SOURCE_NODE.DETAILS_OFFSET + detailLines.length * TEXT_HEIGHTS.DETAILS_LINE + SOURCE_NODE.BOTTOM_PADDING),
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
+
+    // Create rectangle
+    const rectId = context.idGenerator.generateId();
+    context.elements.push(context.elementFactory.createRectangle({
+      id: rectId,
+      x,
+      y,
+      width: nodeWidth,
+      height: nodeHeight,
+      strokeColor: context.config.nodeColor,
+      roundnessType: 3,
+    }));
+
+    // Create operator name text (centered, bold)
+    context.elements.push(context.elementFactory.createText({
+      id: context.idGenerator.generateId(),
+      x,
+      y: y + 5,
+      width: nodeWidth,
+      height: TEXT_HEIGHTS.OPERATOR,
+      text: node.operator,
+      fontSize: FONT_SIZES.OPERATOR,
+      fontFamily: FONT_FAMILIES.BOLD,
+      textAlign: 'center',
+      verticalAlign: 'top',
+      containerId: rectId,
+      strokeColor: context.config.nodeColor,
+    }));
+
+    this.drawDetailLines(layout, x, y, context);
+
+    // One output arrow per partition
+    const { positions: outputArrowPositions, fullCount: outputArrowCount } =
+      context.arrowCalculator.calculateOutputArrowPositions(partitionCount, x, nodeWidth);
+
+    const projection = node.properties?.projection?.match(/\[([^\]]+)\]/);
+    const ordering = node.properties?.output_ordering?.match(/\[([^\]]+)\]/);
+
+    return {
+      x,
+      y,
+      width: nodeWidth,
+      height: nodeHeight,
+      rectId,
+      inputArrowCount: outputArrowCount,
+      inputArrowPositions: outputArrowPositions,
+      outputColumns: projection ? context.propertyParser.parseCommaSeparated(projection[1]).map((col) => col.trim()) : [],
+      outputSortOrder: ordering ? context.propertyParser.parseCommaSeparated(ordering[1]).map((part) => part.trim().replace(/@.*$/, '')) : [],
+    };
+  }
+
+  /**
+   * The partition count and the row count when known, then the limit
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const partitionCount = context.propertyParser.extractPartitionCount(node.properties);
+    const rowCount = this.countRows(node, partitionCount, context);
+    const detailLines = [
+      [
+        `${partitionCount} ${partitionCount === 1 ? 'partition' : 'partitions'}`,
+        ...(rowCount !== undefined ? [`${rowCount} ${rowCount === 1 ? 'row' : 'rows'}`] : []),
+      ].join(', '),
+    ];
+    const limitText = context.propertyParser.extractLimit(node.properties);
+    if (limitText) {
+      detailLines.push(limitText);
+    }
+    return detailLines.map((text) => ({ text, color: context.config.nodeColor }));
+  }
+
+  /**
+   * Rows produced by the leaf, undefined when unknown
+   */
+  private countRows(node: ExecutionPlanNode, partitionCount: number, context: GenerationContext): number | undefined {
+    switch (node.operator) {
+    case 'EmptyExec':
+      return 0;
+    case 'PlaceholderRowExec':
+      return partitionCount;
+    default:
+      return context.propertyParser.extractRowCount(node.properties);
+    }
+  }
+}
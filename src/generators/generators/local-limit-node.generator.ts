@@ -2,6 +2,7 @@ import { ExecutionPlanNode } from '../../types/execution-plan.types';
 import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
 import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS } from '../constants';
 
 /**
@@ -17,8 +18,14 @@ export class LocalLimitNodeGenerator extends BaseNodeGenerator {
     _isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
-    const nodeHeight = NODE_DIMENSIONS.DEFAULT_HEIGHT;
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      NODE_DIMENSIONS.DEFAULT_HEIGHT,
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -50,21 +57,17 @@ export class LocalLimitNodeGenerator extends BaseNodeGenerator {
     });
     context.elements.push(operatorText);
 
-    // Extract fetch property and display as detail text
-    let detailText = '';
-    if (node.properties?.fetch) {
-      detailText = `fetch=${node.properties.fetch}`;
-    }
-
     // Create detail text at bottom center
-    if (detailText) {
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else if (layout.lines.length > 0) {
       const detailTextElement = context.elementFactory.createText({
         id: context.idGenerator.generateId(),
         x: x + 10,
         y: y + nodeHeight - 25, // Position near bottom
         width: nodeWidth - 20,
         height: 20,
-        text: detailText,
+        text: layout.lines[0].text,
         fontSize: FONT_SIZES.DETAILS,
         fontFamily: FONT_FAMILIES.NORMAL,
         textAlign: 'center',
@@ -118,5 +121,12 @@ export class LocalLimitNodeGenerator extends BaseNodeGenerator {
       outputSortOrder,
     };
   }
+
+  /**
+   * The fetch limit
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    return node.properties?.fetch ? [{ text: `fetch=${node.properties.fetch}`, color: context.config.nodeColor }] : [];
+  }
 }
 
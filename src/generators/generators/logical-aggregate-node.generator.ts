@@ -0,0 +1,34 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { DetailLine } from '../builders/detail-text.builder';
+import { LogicalBaseNodeGenerator } from './logical-base-node.generator';
+import { COLORS } from '../constants';
+
+/**
+ * Logical Aggregate node generator
+ * Shows the grouping expressions (purple, like AggregateExec's mode) and the aggregates
+ * Example: "Aggregate: groupBy=[[t.env]], aggr=[[count(Int64(1))]]"
+ */
+export class LogicalAggregateNodeGenerator extends LogicalBaseNodeGenerator {
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const lines: DetailLine[] = [];
+    const groupBy = node.properties?.groupBy;
+    const aggr = node.properties?.aggr;
+
+    if (groupBy) {
+      lines.push({ text: `groupBy=${this.flattenList(groupBy)}`, color: COLORS.PURPLE_MODE });
+    }
+    if (aggr) {
+      lines.push({ text: `aggr=${this.flattenList(aggr)}`, color: context.config.nodeColor });
+    }
+
+    return lines;
+  }
+
+  /**
+   * DataFusion prints grouping sets as nested lists: "[[a, b]]" -> "[a, b]"
+   */
+  private flattenList(value: string): string {
+    return value.replace(/^\[\[(.*)\]\]$/, '[$1]');
+  }
+}
@@ -0,0 +1,174 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { NodeInfo } from '../types/node-info.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { BaseNodeGenerator } from './base-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
+import { LOGICAL_NODE, SPACING, TEXT_HEIGHTS, FONT_SIZES, FONT_FAMILIES, ARROW_CONSTANTS } from '../constants';
+
+/**
+ * Base class for logical plan node generators
+ * Logical operators have no partitions, so every node is a single box with one
+ * output arrow. Unlike physical generators, children are laid out side by side
+ * below their parent so joins and unions read as a tree.
+ */
+export abstract class LogicalBaseNodeGenerator extends BaseNodeGenerator {
+  /**
+   * Builds the detail lines shown under the operator name at the standard detail level
+   */
+  protected abstract buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[];
+
+  /**
+   * Title shown in bold at the top of the box
+   */
+  protected getTitle(node: ExecutionPlanNode): string {
+    return node.operator;
+  }
+
+  generate(
+    node: ExecutionPlanNode,
+    x: number,
+    y: number,
+    _isRoot: boolean,
+    context: GenerationContext
+  ): NodeInfo {
+    const title = this.getTitle(node);
+    const rawDetailLines = this.buildDetailLines(node, context);
+    const standardWidth = this.computeNodeWidth(title, rawDetailLines, context);
+    // At the standard level long expressions are shortened to the box width; other levels wrap them
+    const detailLines = context.config.detailLevel !== 'standard' ? rawDetailLines : rawDetailLines.map((line) => ({
+      text: this.truncateToWidth(line.text, standardWidth - LOGICAL_NODE.TEXT_PADDING * 2, FONT_SIZES.DETAILS, context),
+      color: line.color,
+    }));
+    const layout = this.fitDetailLines(
+      detailLines,
+      standardWidth,
+      LOGICAL_NODE.BASE_HEIGHT + detailLines.length * TEXT_HEIGHTS.DETAILS_LINE,
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
+
+    const rectId = context.idGenerator.generateId();
+    context.elements.push(context.elementFactory.createRectangle({
+      id: rectId,
+      x,
+      y,
+      width: nodeWidth,
+      height: nodeHeight,
+      strokeColor: context.config.nodeColor,
+      roundnessType: 3,
+    }));
+
+    context.elements.push(context.elementFactory.createText({
+      id: context.idGenerator.generateId(),
+      x,
+      y: y + 5,
+      width: nodeWidth,
+      height: TEXT_HEIGHTS.OPERATOR,
+      text: this.truncateToWidth(title, nodeWidth, FONT_SIZES.OPERATOR, context),
+      fontSize: FONT_SIZES.OPERATOR,
+      fontFamily: FONT_FAMILIES.BOLD,
+      textAlign: 'center',
+      verticalAlign: 'top',
+      containerId: rectId,
+      strokeColor: context.config.nodeColor,
+    }));
+
+    this.drawDetailLines(layout, x, y, context);
+
+    const subtreeBottom = this.layoutChildrenSideBySide(node, x, y, nodeWidth, nodeHeight, rectId, context);
+
+    return {
+      x,
+      y: subtreeBottom,
+      width: nodeWidth,
+      height: nodeHeight,
+      rectId,
+      inputArrowCount: 1,
+      inputArrowPositions: [x + nodeWidth / 2],
+      outputColumns: [],
+      outputSortOrder: [],
+      inputLayout: 'centered',
+    };
+  }
+
+  /**
+   * Generates children left to right below the parent and connects each child
+   * to the parent's bottom edge; the layout pass centers them under the parent
+   * @returns Bottom Y of the subtree
+   */
+  protected layoutChildrenSideBySide(
+    node: ExecutionPlanNode,
+    x: number,
+    y: number,
+    nodeWidth: number,
+    nodeHeight: number,
+    rectId: string,
+    context: GenerationContext
+  ): number {
+    if (node.children.length === 0) {
+      return y + nodeHeight;
+    }
+
+    const childY = y + nodeHeight + context.config.verticalSpacing * SPACING.ARROW_VERTICAL_RATIO;
+    const firstChildElement = context.elements.length;
+    const childrenInfo: NodeInfo[] = [];
+    let currentX = x;
+
+    for (const child of node.children) {
+      const childInfo = context.generateChildNode(child, currentX, childY, false);
+      childrenInfo.push(childInfo);
+      currentX = childInfo.x + childInfo.width + context.config.horizontalSpacing;
+    }
+    const subtreeBottom = Math.max(y + nodeHeight, context.geometryUtils.getBounds(context.elements.slice(firstChildElement)).maxY);
+    const parentCenter = x + nodeWidth / 2;
+
+    // Arrow ends are spread over the central region of the parent's bottom edge
+    const regionWidth = nodeWidth * ARROW_CONSTANTS.CENTRAL_REGION_RATIO;
+    const regionLeft = parentCenter - regionWidth / 2;
+    childrenInfo.forEach((childInfo, i) => {
+      const endX = childrenInfo.length === 1 ?
+        parentCenter :
+        regionLeft + (i * regionWidth) / (childrenInfo.length - 1);
+      const arrowId = context.idGenerator.generateId();
+      context.elements.push(context.elementFactory.createArrow({
+        id: arrowId,
+        startX: childInfo.x + childInfo.width / 2,
+        startY: childY,
+        endX,
+        endY: y + nodeHeight,
+        childRectId: childInfo.rectId,
+        parentRectId: rectId,
+        strokeColor: context.config.arrowColor,
+      }));
+      this.bindArrowToElements(context, arrowId, [childInfo.rectId, rectId]);
+    });
+
+    return subtreeBottom;
+  }
+
+  /**
+   * Widens the box to fit its widest line, between LOGICAL_NODE.MIN_WIDTH and MAX_WIDTH
+   */
+  private computeNodeWidth(title: string, detailLines: DetailLine[], context: GenerationContext): number {
+    const widest = Math.max(
+      context.textMeasurement.measureText(title, FONT_SIZES.OPERATOR),
+      ...detailLines.map((line) => context.textMeasurement.measureText(line.text, FONT_SIZES.DETAILS))
+    );
+    return Math.min(LOGICAL_NODE.MAX_WIDTH, Math.max(LOGICAL_NODE.MIN_WIDTH, widest + LOGICAL_NODE.TEXT_PADDING * 2));
+  }
+
+  /**
+   * Shortens text with a trailing ellipsis so it fits the given width
+   */
+  protected truncateToWidth(text: string, maxWidth: number, fontSize: number, context: GenerationContext): string {
+    if (context.textMeasurement.measureText(text, fontSize) <= maxWidth) {
+      return text;
+    }
+    let truncated = text;
+    while (truncated.length > 0 && context.textMeasurement.measureText(`${truncated}...`, fontSize) > maxWidth) {
+      truncated = truncated.slice(0, -1);
+    }
+    return `${truncated.trimEnd()}...`;
+  }
+}
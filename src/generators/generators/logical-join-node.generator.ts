@@ -0,0 +1,25 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { DetailLine } from '../builders/detail-text.builder';
+import { LogicalBaseNodeGenerator } from './logical-base-node.generator';
+import { COLORS } from '../constants';
+
+/**
+ * Logical join node generator
+ * Handles "Inner Join", "Left Join", "LeftSemi Join", "CrossJoin", ...
+ * The title keeps the join type; the join condition and filter are shown below
+ */
+export class LogicalJoinNodeGenerator extends LogicalBaseNodeGenerator {
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const lines: DetailLine[] = [];
+
+    if (node.properties?.on) {
+      lines.push({ text: node.properties.on, color: context.config.nodeColor });
+    }
+    if (node.properties?.filter) {
+      lines.push({ text: `filter=${node.properties.filter}`, color: COLORS.DARK_RED });
+    }
+
+    return lines;
+  }
+}
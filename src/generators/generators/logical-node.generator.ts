@@ -0,0 +1,27 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { DetailLine } from '../builders/detail-text.builder';
+import { LogicalBaseNodeGenerator } from './logical-base-node.generator';
+
+/**
+ * Generic logical plan node generator
+ * Used for Projection, Filter, Sort, SubqueryAlias, Limit and any logical operator
+ * without a dedicated generator; shows each property as one detail line
+ */
+export class LogicalNodeGenerator extends LogicalBaseNodeGenerator {
+  /**
+   * Properties shown without their key, as DataFusion prints them
+   */
+  private static readonly POSITIONAL_PROPERTIES = ['expr', 'predicate', 'alias', 'expression'];
+
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    if (!node.properties) {
+      return [];
+    }
+
+    return Object.entries(node.properties).map(([key, value]) => ({
+      text: LogicalNodeGenerator.POSITIONAL_PROPERTIES.includes(key) ? value : `${key}=${value}`,
+      color: context.config.nodeColor,
+    }));
+  }
+}
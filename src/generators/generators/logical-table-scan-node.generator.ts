@@ -0,0 +1,40 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { DetailLine } from '../builders/detail-text.builder';
+import { LogicalBaseNodeGenerator } from './logical-base-node.generator';
+import { COLORS } from '../constants';
+
+/**
+ * Logical TableScan node generator
+ * Shows the table name in the title, then projection, pushed-down filters and fetch
+ * Example: "TableScan: t projection=[a, b], partial_filters=[t.a > Int64(1)]"
+ */
+export class LogicalTableScanNodeGenerator extends LogicalBaseNodeGenerator {
+  protected getTitle(node: ExecutionPlanNode): string {
+    return node.properties?.table ? `TableScan: ${node.properties.table}` : node.operator;
+  }
+
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const lines: DetailLine[] = [];
+    const properties = node.properties ?? {};
+
+    if (properties.projection) {
+      lines.push({ text: `projection=${properties.projection}`, color: context.config.nodeColor });
+    }
+    // Filters pushed into the scan are highlighted like DataSourceExec predicates
+    if (properties.partial_filters) {
+      lines.push({ text: `partial_filters=${properties.partial_filters}`, color: COLORS.DARK_RED });
+    }
+    if (properties.full_filters) {
+      lines.push({ text: `full_filters=${properties.full_filters}`, color: COLORS.DARK_RED });
+    }
+    if (properties.filters) {
+      lines.push({ text: `filters=${properties.filters}`, color: COLORS.DARK_RED });
+    }
+    if (properties.fetch) {
+      lines.push({ text: `fetch=${properties.fetch}`, color: context.config.nodeColor });
+    }
+
+    return lines;
+  }
+}
@@ -0,0 +1,39 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { TwoInputJoinNodeGenerator, JoinInputTarget } from './two-input-join-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
+import { COLORS } from '../constants';
+
+/**
+ * NestedLoopJoinExec node generator
+ * NestedLoopJoinExec buffers its whole first input (left child) in memory and
+ * evaluates the filter= join condition against every batch of its second input
+ * Left input arrows end on a "Buffer" ellipse; right input arrows end on the box
+ */
+export class NestedLoopJoinNodeGenerator extends TwoInputJoinNodeGenerator {
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const lines: DetailLine[] = [];
+    if (node.properties?.join_type) {
+      lines.push({ text: `join_type=${node.properties.join_type}`, color: context.config.nodeColor });
+    }
+    if (node.properties?.filter) {
+      lines.push({ text: `filter=${this.simplifyExpression(node.properties.filter)}`, color: context.config.nodeColor });
+    }
+    lines.push({ text: 'buffered: left', color: COLORS.ORANGE_BORDER });
+    return lines;
+  }
+
+  protected createInputTargets(
+    _node: ExecutionPlanNode,
+    x: number,
+    innerTop: number,
+    nodeWidth: number,
+    rectId: string,
+    context: GenerationContext
+  ): [JoinInputTarget, JoinInputTarget] {
+    return [
+      this.createInnerEllipse('Buffer', x + nodeWidth / 2, innerTop, context),
+      { id: rectId },
+    ];
+  }
+}
@@ -2,6 +2,7 @@ import { ExecutionPlanNode } from '../../types/execution-plan.types';
 import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
 import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS } from '../constants';
 
 /**
@@ -18,8 +19,14 @@ export class ProjectionNodeGenerator extends BaseNodeGenerator {
     _isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
-    const nodeHeight = NODE_DIMENSIONS.DEFAULT_HEIGHT;
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      NODE_DIMENSIONS.DEFAULT_HEIGHT,
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -51,65 +58,20 @@ export class ProjectionNodeGenerator extends BaseNodeGenerator {
     });
     context.elements.push(operatorText);
 
-    // Extract expr property and simplify detail text
-    // Example: [date_bin(...)@1 as time_bin, max(j.env)@2 as env] -> time_bin, env (for outputColumns)
-    // But for details: if function exists, show function name (e.g., date_bin) instead of full expression
     // ProjectionExec: outputColumns come from aliases/column names in expr
-    let detailText = '';
-    const outputColumns: string[] = [];
-    const detailItems: string[] = [];
-
-    if (node.properties?.expr) {
-      const exprMatch = node.properties.expr.match(/\[([^\]]+)\]/);
-      if (exprMatch) {
-        const exprContent = exprMatch[1];
-        // Parse comma-separated items respecting nested parentheses
-        const items = context.propertyParser.parseCommaSeparated(exprContent);
-
-        items.forEach((item) => {
-          const trimmed = item.trim();
-          // Extract alias after "as" keyword for outputColumns
-          const asMatch = trimmed.match(/\s+as\s+(.+?)(?:\s*@|$)/i);
-          let aliasOrColumn = '';
-          if (asMatch) {
-            aliasOrColumn = asMatch[1].trim();
-          } else {
-            // No alias, extract column name before @ symbol
-            const columnMatch = trimmed.match(/^([^@]+)/);
-            aliasOrColumn = columnMatch ? columnMatch[1].trim() : trimmed;
-          }
-          outputColumns.push(aliasOrColumn);
-
-          // For details: check if expression before "as" is a function
-          // Extract the expression part (before "as")
-          const exprPart = trimmed.split(/\s+as\s+/i)[0].trim();
-          // Check if it's a function (contains opening parenthesis before @)
-          const functionMatch = exprPart.match(/^(\w+)\s*\(/);
-          if (functionMatch) {
-            // It's a function, show only function name in details
-            detailItems.push(functionMatch[1]);
-          } else {
-            // Not a function, show the alias/column name
-            detailItems.push(aliasOrColumn);
-          }
-        });
-
-        detailText = detailItems.join(', ');
-      } else {
-        // Fallback: just remove brackets if format doesn't match
-        detailText = node.properties.expr.replace(/^\[|\]$/g, '');
-      }
-    }
+    const { outputColumns } = this.parseExpressions(node, context);
 
     // Create detail text at bottom center
-    if (detailText) {
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else if (layout.lines.length > 0) {
       const detailTextElement = context.elementFactory.createText({
         id: context.idGenerator.generateId(),
         x: x + 10,
         y: y + nodeHeight - 25, // Position near bottom
         width: nodeWidth - 20,
         height: 20,
-        text: detailText,
+        text: layout.lines[0].text,
         fontSize: FONT_SIZES.DETAILS,
         fontFamily: FONT_FAMILIES.NORMAL,
         textAlign: 'center',
@@ -160,5 +122,69 @@ export class ProjectionNodeGenerator extends BaseNodeGenerator {
       outputSortOrder,
     };
   }
+
+  /**
+   * The projected expressions, functions shown by their name only
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const { detailText } = this.parseExpressions(node, context);
+    return detailText ? [{ text: detailText, color: context.config.nodeColor }] : [];
+  }
+
+  /**
+   * Parses the expr property into output columns and the detail text
+   */
+  private parseExpressions(node: ExecutionPlanNode, context: GenerationContext): { outputColumns: string[]; detailText: string } {
+    // Extract expr property and simplify detail text
+    // Example: [date_bin(...)@1 as time_bin, max(j.env)@2 as env] -> time_bin, env (for outputColumns)
+    // But for details: if function exists, show function name (e.g., date_bin) instead of full expression
+    let detailText = '';
+    const outputColumns: string[] = [];
+    const detailItems: string[] = [];
+
+    if (node.properties?.expr) {
+      const exprMatch = node.properties.expr.match(/\[([^\]]+)\]/);
+      if (exprMatch) {
+        const exprContent = exprMatch[1];
+        // Parse comma-separated items respecting nested parentheses
+        const items = context.propertyParser.parseCommaSeparated(exprContent);
+
+        items.forEach((item) => {
+          const trimmed = item.trim();
+          // Extract alias after "as" keyword for outputColumns
+          const asMatch = trimmed.match(/\s+as\s+(.+?)(?:\s*@|$)/i);
+          let aliasOrColumn = '';
+          if (asMatch) {
+            aliasOrColumn = asMatch[1].trim();
+          } else {
+            // No alias, extract column name before @ symbol
+            const columnMatch = trimmed.match(/^([^@]+)/);
+            aliasOrColumn = columnMatch ? columnMatch[1].trim() : trimmed;
+          }
+          outputColumns.push(aliasOrColumn);
+
+          // For details: check if expression before "as" is a function
+          // Extract the expression part (before "as")
+          const exprPart = trimmed.split(/\s+as\s+/i)[0].trim();
+          // Check if it's a function (contains opening parenthesis before @)
+          const functionMatch = exprPart.match(/^(\w+)\s*\(/);
+          if (functionMatch) {
+            // It's a function, show only function name in details
+            detailItems.push(functionMatch[1]);
+          } else {
+            // Not a function, show the alias/column name
+            detailItems.push(aliasOrColumn);
+          }
+        });
+
+        detailText = detailItems.join(', ');
+      } else {
+        // Fallback: just remove brackets if format doesn't match
+        detailText = node.properties.expr.replace(/^\[|\]$/g, '');
+      }
+    }
+
+    return { outputColumns, detailText };
+  }
 }
 
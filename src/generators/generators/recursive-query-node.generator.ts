@@ -0,0 +1,129 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { ExcalidrawElement } from '../../types/excalidraw.types';
+import { NodeInfo } from '../types/node-info.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { TwoInputJoinNodeGenerator, JoinInputTarget } from './two-input-join-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
+import { ELEMENT_DEFAULTS, FONT_FAMILIES, FONT_SIZES, RECURSIVE_QUERY, TEXT_HEIGHTS } from '../constants';
+
+/**
+ * RecursiveQueryExec node generator
+ * A recursive CTE has two branches: the static term (first child), run once,
+ * drawn to the left, and the recursive term (second child), run until it
+ * produces no rows, drawn to the right. Each branch ends on its own ellipse.
+ * Every WorkTableExec leaf of the recursive term is connected back to this node
+ * with a dashed looping arrow, since it reads what the previous iteration produced.
+ * outputColumns from the static term, which defines the schema of the CTE
+ */
+export class RecursiveQueryNodeGenerator extends TwoInputJoinNodeGenerator {
+  generate(
+    node: ExecutionPlanNode,
+    x: number,
+    y: number,
+    isRoot: boolean,
+    context: GenerationContext
+  ): NodeInfo {
+    const firstElement = context.elements.length;
+    const info = super.generate(node, x, y, isRoot, context);
+    this.connectWorkTables(node, { ...info, y }, context.elements.slice(firstElement), context);
+
+    // Iterations are appended one after the other: no output order
+    return { ...info, outputSortOrder: [] };
+  }
+
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const lines: DetailLine[] = [];
+    if (node.properties?.name) {
+      lines.push({ text: `name=${node.properties.name}`, color: context.config.nodeColor });
+    }
+    if (node.properties?.is_distinct) {
+      lines.push({ text: `is_distinct=${node.properties.is_distinct}`, color: context.config.nodeColor });
+    }
+    return lines;
+  }
+
+  protected createInputTargets(
+    _node: ExecutionPlanNode,
+    x: number,
+    innerTop: number,
+    nodeWidth: number,
+    _rectId: string,
+    context: GenerationContext
+  ): [JoinInputTarget, JoinInputTarget] {
+    return [
+      this.createInnerEllipse('static', x + nodeWidth / 4, innerTop, context),
+      this.createInnerEllipse('recursive', x + nodeWidth * 3 / 4, innerTop, context),
+    ];
+  }
+
+  protected computeOutputColumns(
+    _node: ExecutionPlanNode,
+    staticColumns: string[]
+  ): string[] {
+    return [...staticColumns];
+  }
+
+  /**
+   * Draws a looping arrow from each WorkTableExec of this query's branches to
+   * the query node, routed to the right of everything drawn for the branches
+   * Only work tables reading this query's CTE (same name=) are connected, so
+   * nested recursive queries each get their own loops
+   * @param info - Node information with y at the top of the query node
+   */
+  private connectWorkTables(node: ExecutionPlanNode, info: NodeInfo, branchElements: ExcalidrawElement[], context: GenerationContext): void {
+    const workTableIds = new Set(this.findWorkTables(node, node.properties?.name)
+      .map((workTable) => context.getNodeInfo(workTable)?.rectId));
+    const workTables = branchElements.filter((el) => el.type === 'rectangle' && workTableIds.has(el.id));
+
+    const loopX = context.geometryUtils.getBounds(branchElements).maxX + RECURSIVE_QUERY.LOOP_GAP;
+    const endY = info.y + info.height / 2;
+    for (const workTable of workTables) {
+      const startX = workTable.x + workTable.width;
+      const startY = workTable.y + workTable.height / 2;
+      const arrowId = context.idGenerator.generateId();
+      context.elements.push(context.elementFactory.createArrow({
+        id: arrowId,
+        startX,
+        startY,
+        endX: info.x + info.width,
+        endY,
+        childRectId: workTable.id,
+        parentRectId: info.rectId,
+        strokeColor: context.config.arrowColor,
+        strokeStyle: 'dashed',
+        waypoints: [[loopX, startY], [loopX, endY]],
+      }));
+      this.bindArrowToElements(context, arrowId, [workTable.id, info.rectId]);
+
+      const label = 'next iteration';
+      context.elements.push(context.elementFactory.createText({
+        id: context.idGenerator.generateId(),
+        x: loopX + RECURSIVE_QUERY.LOOP_LABEL_OFFSET,
+        y: (startY + endY) / 2 - TEXT_HEIGHTS.DETAILS_LINE / 2,
+        width: context.textMeasurement.measureText(label, FONT_SIZES.DETAILS),
+        height: TEXT_HEIGHTS.DETAILS_LINE,
+        text: label,
+        fontSize: FONT_SIZES.DETAILS,
+        fontFamily: FONT_FAMILIES.NORMAL,
+        textAlign: 'left',
+        verticalAlign: 'top',
+        strokeColor: context.config.arrowColor,
+        autoResize: true,
+        lineHeight: ELEMENT_DEFAULTS.LINE_HEIGHT,
+      }));
+    }
+  }
+
+  /**
+   * Collects the WorkTableExec nodes below a node that read the given CTE
+   * A work table without name=, or a query without one, matches any CTE
+   */
+  private findWorkTables(node: ExecutionPlanNode, name: string | undefined): ExecutionPlanNode[] {
+    return node.children.flatMap((child) => {
+      if (child.operator === 'WorkTableExec') {
+        return !name || !child.properties?.name || child.properties.name === name ? [child] : [];
+      }
+      return this.findWorkTables(child, name);
+    });
+  }
+}
@@ -3,7 +3,7 @@ import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
 import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS, COLORS } from '../constants';
-import { DetailTextBuilder } from '../builders/detail-text.builder';
+import { DetailLine, DetailTextBuilder } from '../builders/detail-text.builder';
 
 /**
  * RepartitionExec node generator
@@ -18,8 +18,15 @@ export class RepartitionNodeGenerator extends BaseNodeGenerator {
     isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
-    const nodeHeight = NODE_DIMENSIONS.DEFAULT_HEIGHT;
+    const { partitioningDetail, outputArrowCount } = this.parsePartitioning(node);
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      NODE_DIMENSIONS.DEFAULT_HEIGHT,
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -51,88 +58,6 @@ export class RepartitionNodeGenerator extends BaseNodeGenerator {
     });
     context.elements.push(operatorText);
 
-    // Extract partitioning property and display as detail text
-    let partitioningDetail = '';
-    let outputArrowCount = 0;
-    if (node.properties && node.properties.partitioning) {
-      const partitioning = node.properties.partitioning;
-
-      // Simplify Hash partitioning format
-      // Example: Hash([d_dkey@0, env@1, service@2, host@3], 16) -> Hash([d_dkey, env, service, host], 16)
-      const hashMatch = partitioning.match(/^Hash\(\[([^\]]+)\],\s*(\d+)\)$/);
-      if (hashMatch) {
-        const columnsStr = hashMatch[1];
-        const partitionCount = hashMatch[2];
-        // Extract column names (remove @N parts)
-        const columns = columnsStr.split(',').map((col) => {
-          const trimmed = col.trim();
-          // Extract column name before @ symbol
-          const columnMatch = trimmed.match(/^([^@]+)/);
-          return columnMatch ? columnMatch[1].trim() : trimmed;
-        });
-        partitioningDetail = `Hash([${columns.join(', ')}], ${partitionCount})`;
-        outputArrowCount = parseInt(partitionCount, 10);
-      } else {
-        // RoundRobinBatch format: RoundRobinBatch(16) -> RoundRobinBatch(16)
-        const roundRobinMatch = partitioning.match(/^RoundRobinBatch\((\d+)\)$/);
-        if (roundRobinMatch) {
-          partitioningDetail = `RoundRobinBatch(${roundRobinMatch[1]})`;
-          outputArrowCount = parseInt(roundRobinMatch[1], 10);
-        } else {
-          // Fallback: use original format
-          partitioningDetail = partitioning;
-          // Try to extract number from partitioning formats:
-          // - RoundRobinBatch(16) -> 16
-          // - Hash([env@0], 16) -> 16 (number after comma before closing paren)
-          let numberMatch = partitioning.match(/\((\d+)\)$/);
-          if (!numberMatch) {
-            // Try Hash format: number after comma before closing paren
-            numberMatch = partitioning.match(/,\s*(\d+)\)$/);
-          }
-          if (numberMatch) {
-            outputArrowCount = parseInt(numberMatch[1], 10);
-          }
-        }
-      }
-    }
-
-    // Build detail text lines using DetailTextBuilder
-    const detailBuilder = new DetailTextBuilder(context.elementFactory, context.idGenerator);
-
-    // Add partitioning detail
-    if (partitioningDetail) {
-      detailBuilder.addLine(partitioningDetail, context.config.nodeColor);
-    }
-
-    // Check for preserve_order property
-    const hasPreserveOrder = node.properties?.preserve_order === 'true';
-    if (hasPreserveOrder) {
-      detailBuilder.addLine('preserve_order=true', COLORS.DARK_RED);
-    }
-
-    // Check for sort_exprs property and extract column names
-    if (node.properties?.sort_exprs) {
-      const sortExprs = node.properties.sort_exprs;
-      // Extract column names from expressions like "f_dkey@0 ASC NULLS LAST, timestamp@1 ASC NULLS LAST"
-      // sort_exprs is a plain string (not wrapped in brackets), so parse it directly
-      const expressions = sortExprs.split(',');
-      const columnNames: string[] = [];
-      for (const expr of expressions) {
-        const trimmed = expr.trim();
-        // Extract column name before @ symbol
-        const columnMatch = trimmed.match(/^([^@\s]+)/);
-        if (columnMatch) {
-          columnNames.push(columnMatch[1].trim());
-        }
-      }
-      if (columnNames.length > 0) {
-        detailBuilder.addLine(`sort_exprs=[${columnNames.join(', ')}]`, context.config.nodeColor);
-      }
-    }
-
-    // Add limit information if present
-    this.extractAndAddLimit(node, detailBuilder, context);
-
     // Create detail text elements
     // Position details above bottom with padding (same as original)
     // Pattern from expected output:
@@ -140,8 +65,14 @@ export class RepartitionNodeGenerator extends BaseNodeGenerator {
     // - 2 lines: first at bottom - 57.5, second at bottom - 40
     // - 3 lines: first at bottom - 57.5, second at bottom - 40, third at bottom - 22.5
     // So: first line at bottom - 57.5 (when numLines > 1), last line at bottom - 22.5
-    const numLines = detailBuilder.getLineCount();
-    if (numLines > 0) {
+    const numLines = layout.lines.length;
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else if (numLines > 0) {
+      const detailBuilder = new DetailTextBuilder(context.elementFactory, context.idGenerator);
+      for (const line of layout.lines) {
+        detailBuilder.addLine(line.text, line.color);
+      }
       const bottom = y + nodeHeight;
       let startY: number;
       if (numLines === 1) {
@@ -229,5 +160,102 @@ export class RepartitionNodeGenerator extends BaseNodeGenerator {
       outputSortOrder,
     };
   }
-}
 
+  /**
+   * The partitioning (column names without @index), preserve_order, the sort
+   * expressions' column names and the limit
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const lines: DetailLine[] = [];
+    const { partitioningDetail } = this.parsePartitioning(node);
+
+    // Add partitioning detail
+    if (partitioningDetail) {
+      lines.push({ text: partitioningDetail, color: context.config.nodeColor });
+    }
+
+    // Check for preserve_order property
+    if (node.properties?.preserve_order === 'true') {
+      lines.push({ text: 'preserve_order=true', color: COLORS.DARK_RED });
+    }
+
+    // Check for sort_exprs property and extract column names
+    if (node.properties?.sort_exprs) {
+      const sortExprs = node.properties.sort_exprs;
+      // Extract column names from expressions like "f_dkey@0 ASC NULLS LAST, timestamp@1 ASC NULLS LAST"
+      // sort_exprs is a plain string (not wrapped in brackets), so parse it directly
+      const expressions = sortExprs.split(',');
+      const columnNames: string[] = [];
+      for (const expr of expressions) {
+        const trimmed = expr.trim();
+        // Extract column name before @ symbol
+        const columnMatch = trimmed.match(/^([^@\s]+)/);
+        if (columnMatch) {
+          columnNames.push(columnMatch[1].trim());
+        }
+      }
+      if (columnNames.length > 0) {
+        lines.push({ text: `sort_exprs=[${columnNames.join(', ')}]`, color: context.config.nodeColor });
+      }
+    }
+
+    // Add limit information if present
+    const limitText = context.propertyParser.extractLimit(node.properties);
+    if (limitText) {
+      lines.push({ text: limitText, color: context.config.nodeColor });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Simplifies the partitioning property for display and reads the number of output partitions
+   */
+  private parsePartitioning(node: ExecutionPlanNode): { partitioningDetail: string; outputArrowCount: number } {
+    let partitioningDetail = '';
+    let outputArrowCount = 0;
+    if (node.properties && node.properties.partitioning) {
+      const partitioning = node.properties.partitioning;
+
+      // Simplify Hash partitioning format
+      // Example: Hash([d_dkey@0, env@1, service@2, host@3], 16) -> Hash([d_dkey, env, service, host], 16)
+      const hashMatch = partitioning.match(/^Hash\(\[([^\]]+)\],\s*(\d+)\)$/);
+      if (hashMatch) {
+        const columnsStr = hashMatch[1];
+        const partitionCount = hashMatch[2];
+        // Extract column names (remove @N parts)
+        const columns = columnsStr.split(',').map((col) => {
+          const trimmed = col.trim();
+          // Extract column name before @ symbol
+          const columnMatch = trimmed.match(/^([^@]+)/);
+          return columnMatch ? columnMatch[1].trim() : trimmed;
+        });
+        partitioningDetail = `Hash([${columns.join(', ')}], ${partitionCount})`;
+        outputArrowCount = parseInt(partitionCount, 10);
+      } else {
+        // RoundRobinBatch format: RoundRobinBatch(16) -> RoundRobinBatch(16)
+        const roundRobinMatch = partitioning.match(/^RoundRobinBatch\((\d+)\)$/);
+        if (roundRobinMatch) {
+          partitioningDetail = `RoundRobinBatch(${roundRobinMatch[1]})`;
+          outputArrowCount = parseInt(roundRobinMatch[1], 10);
+        } else {
+          // Fallback: use original format
+          partitioningDetail = partitioning;
+          // Try to extract number from partitioning formats:
+          // - RoundRobinBatch(16) -> 16
+          // - Hash([env@0], 16) -> 16 (number after comma before closing paren)
+          let numberMatch = partitioning.match(/\((\d+)\)$/);
+          if (!numberMatch) {
+            // Try Hash format: number after comma before closing paren
+            numberMatch = partitioning.match(/,\s*(\d+)\)$/);
+          }
+          if (numberMatch) {
+            outputArrowCount = parseInt(numberMatch[1], 10);
+          }
+        }
+      }
+    }
+
+    return { partitioningDetail, outputArrowCount };
+  }
+}
@@ -2,6 +2,7 @@ import { ExecutionPlanNode } from '../../types/execution-plan.types';
 import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
 import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS } from '../constants';
 
 /**
@@ -22,8 +23,14 @@ export class SortMergeJoinNodeGenerator extends BaseNodeGenerator {
     _isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
-    const nodeHeight = NODE_DIMENSIONS.SORT_MERGE_JOIN_HEIGHT;
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      NODE_DIMENSIONS.SORT_MERGE_JOIN_HEIGHT,
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -57,28 +64,17 @@ export class SortMergeJoinNodeGenerator extends BaseNodeGenerator {
     context.elements.push(operatorTextElement);
 
     // Create details text showing join_type and on=
-    const details: string[] = [];
-    if (node.properties) {
-      if (node.properties.join_type) {
-        details.push(`join_type=${node.properties.join_type}`);
-      }
-      if (node.properties.on) {
-        // Simplify the on= expression: remove @ symbols and indices
-        let onValue = node.properties.on;
-        onValue = onValue.replace(/@\d+/g, '');
-        details.push(`on=${onValue}`);
-      }
-    }
-
-    if (details.length > 0) {
-      const textHeight = details.length * TEXT_HEIGHTS.DETAILS_LINE;
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else if (layout.lines.length > 0) {
+      const textHeight = layout.lines.length * TEXT_HEIGHTS.DETAILS_LINE;
       const detailText = context.elementFactory.createText({
         id: context.idGenerator.generateId(),
         x: x + 10,
         y: y + 35, // Position below operator name
         width: nodeWidth - 20,
         height: textHeight,
-        text: details.join('\n'),
+        text: layout.lines.map((line) => line.text).join('\n'),
         fontSize: FONT_SIZES.DETAILS,
         fontFamily: FONT_FAMILIES.NORMAL,
         textAlign: 'center',
@@ -123,11 +119,11 @@ export class SortMergeJoinNodeGenerator extends BaseNodeGenerator {
     // Arrows MUST start from the TOP edge of the left side operator rectangle
     const leftSideTopArrowPositions: number[] = [];
     if (leftSideArrows === 1) {
-      leftSideTopArrowPositions.push(leftSideX + leftSideInfo.width / 2);
+      leftSideTopArrowPositions.push(leftSideInfo.x + leftSideInfo.width / 2);
     } else {
       const centerRegionWidth = leftSideInfo.width * 0.6;
-      const centerRegionLeft = leftSideX + leftSideInfo.width / 2 - centerRegionWidth / 2;
-      const centerRegionRight = leftSideX + leftSideInfo.width / 2 + centerRegionWidth / 2;
+      const centerRegionLeft = leftSideInfo.x + leftSideInfo.width / 2 - centerRegionWidth / 2;
+      const centerRegionRight = leftSideInfo.x + leftSideInfo.width / 2 + centerRegionWidth / 2;
       const spacing = (centerRegionRight - centerRegionLeft) / (leftSideArrows - 1);
       for (let j = 0; j < leftSideArrows; j++) {
         leftSideTopArrowPositions.push(centerRegionLeft + j * spacing);
@@ -140,11 +136,11 @@ export class SortMergeJoinNodeGenerator extends BaseNodeGenerator {
     // Arrows MUST start from the TOP edge of the right side operator rectangle
     const rightSideTopArrowPositions: number[] = [];
     if (rightSideArrows === 1) {
-      rightSideTopArrowPositions.push(rightSideX + rightSideInfo.width / 2);
+      rightSideTopArrowPositions.push(rightSideInfo.x + rightSideInfo.width / 2);
     } else {
       const centerRegionWidth = rightSideInfo.width * 0.6;
-      const centerRegionLeft = rightSideX + rightSideInfo.width / 2 - centerRegionWidth / 2;
-      const centerRegionRight = rightSideX + rightSideInfo.width / 2 + centerRegionWidth / 2;
+      const centerRegionLeft = rightSideInfo.x + rightSideInfo.width / 2 - centerRegionWidth / 2;
+      const centerRegionRight = rightSideInfo.x + rightSideInfo.width / 2 + centerRegionWidth / 2;
       const spacing = (centerRegionRight - centerRegionLeft) / (rightSideArrows - 1);
       for (let j = 0; j < rightSideArrows; j++) {
         rightSideTopArrowPositions.push(centerRegionLeft + j * spacing);
@@ -198,7 +194,7 @@ export class SortMergeJoinNodeGenerator extends BaseNodeGenerator {
       const leftmostArrowX =
         leftSideTopArrowPositions.length > 0 ?
           leftSideTopArrowPositions[0] :
-          leftSideX + leftSideInfo.width / 2;
+          leftSideInfo.x + leftSideInfo.width / 2;
       const leftOffset = -5; // Negative offset to position text to the left
       const projectionTextX = leftmostArrowX + leftOffset;
 
@@ -288,7 +284,7 @@ export class SortMergeJoinNodeGenerator extends BaseNodeGenerator {
       const rightmostArrowX =
         rightSideTopArrowPositions.length > 0 ?
           rightSideTopArrowPositions[rightSideTopArrowPositions.length - 1] :
-          rightSideX + rightSideInfo.width / 2;
+          rightSideInfo.x + rightSideInfo.width / 2;
       const rightOffset = 5;
       const projectionTextX = rightmostArrowX + rightOffset;
 
@@ -431,6 +427,22 @@ export class SortMergeJoinNodeGenerator extends BaseNodeGenerator {
       inputArrowPositions: outputArrowPositions,
       outputColumns,
       outputSortOrder,
+      inputLayout: 'beside',
     };
   }
+
+  /**
+   * The join type and the join condition (without @index)
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const details: string[] = [];
+    if (node.properties?.join_type) {
+      details.push(`join_type=${node.properties.join_type}`);
+    }
+    if (node.properties?.on) {
+      // Simplify the on= expression: remove @ symbols and indices
+      details.push(`on=${node.properties.on.replace(/@\d+/g, '')}`);
+    }
+    return details.map((text) => ({ text, color: context.config.nodeColor }));
+  }
 }
@@ -2,6 +2,7 @@ import { ExecutionPlanNode } from '../../types/execution-plan.types';
 import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
 import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS } from '../constants';
 
 /**
@@ -18,8 +19,14 @@ export class SortNodeGenerator extends BaseNodeGenerator {
     _isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
-    const nodeHeight = NODE_DIMENSIONS.DEFAULT_HEIGHT;
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      NODE_DIMENSIONS.DEFAULT_HEIGHT,
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -51,60 +58,15 @@ export class SortNodeGenerator extends BaseNodeGenerator {
     });
     context.elements.push(operatorText);
 
-    // Extract expr property and format as detail text
-    // Format: [env@1 ASC NULLS LAST, service@2 ASC NULLS LAST, host@3 ASC NULLS LAST]
-    // Extract column names (before @) and format as [env, service, host]
     // SortExec: outputSortOrder comes from expr details
-    let detailText = '';
-    const outputSortOrder: string[] = [];
-
-    if (node.properties) {
-      const parts: string[] = [];
-
-      if (node.properties.expr) {
-        // Extract column names from expr: remove @N ASC NULLS LAST parts
-        // Example: [env@1 ASC NULLS LAST, service@2 ASC NULLS LAST, host@3 ASC NULLS LAST]
-        // Result: [env, service, host]
-        const exprMatch = node.properties.expr.match(/\[([^\]]+)\]/);
-        if (exprMatch) {
-          const exprContent = exprMatch[1];
-          // Split by comma and extract column name (part before @)
-          const columns = exprContent.split(',').map((col) => {
-            const trimmed = col.trim();
-            // Extract column name before @ symbol
-            const columnMatch = trimmed.match(/^([^@]+)/);
-            return columnMatch ? columnMatch[1].trim() : trimmed;
-          });
-          outputSortOrder.push(...columns);
-          parts.push(`[${columns.join(', ')}]`);
-        }
-      }
-
-      if (node.properties.preserve_partitioning) {
-        parts.push(`preserve_partitioning=${node.properties.preserve_partitioning}`);
-      }
-
-      // Add limit information if present
-      const limitText = context.propertyParser.extractLimit(node.properties);
-      if (limitText) {
-        parts.push(limitText);
-      }
-
-      // Format: first part on first line, second part on second line
-      if (parts.length > 0) {
-        if (parts.length === 1) {
-          detailText = parts[0];
-        } else if (parts.length === 2) {
-          detailText = `${parts[0]} \n${parts[1]}`;
-        } else {
-          // 3 or more parts (e.g., when limit is added)
-          detailText = parts.join(' \n');
-        }
-      }
-    }
+    const outputSortOrder = this.extractSortColumns(node);
+    // Format: first part on first line, further parts (e.g. the limit) on the next lines
+    const detailText = layout.lines.map((line) => line.text).join(' \n');
 
     // Create detail text at bottom center
-    if (detailText) {
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else if (detailText) {
       const lineCount = detailText.split(' \n').length;
       let detailHeight: number;
       let detailTextY: number;
@@ -180,5 +142,47 @@ export class SortNodeGenerator extends BaseNodeGenerator {
       outputSortOrder,
     };
   }
+
+  /**
+   * The sorted columns, preserve_partitioning and the limit
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const parts: string[] = [];
+    const columns = this.extractSortColumns(node);
+    if (columns.length > 0) {
+      parts.push(`[${columns.join(', ')}]`);
+    }
+
+    if (node.properties?.preserve_partitioning) {
+      parts.push(`preserve_partitioning=${node.properties.preserve_partitioning}`);
+    }
+
+    // Add limit information if present
+    const limitText = context.propertyParser.extractLimit(node.properties);
+    if (limitText) {
+      parts.push(limitText);
+    }
+
+    return parts.map((text) => ({ text, color: context.config.nodeColor }));
+  }
+
+  /**
+   * Extracts column names from expr: removes @N ASC NULLS LAST parts
+   * Example: [env@1 ASC NULLS LAST, service@2 ASC NULLS LAST, host@3 ASC NULLS LAST]
+   * Result: [env, service, host]
+   */
+  private extractSortColumns(node: ExecutionPlanNode): string[] {
+    const exprMatch = node.properties?.expr?.match(/\[([^\]]+)\]/);
+    if (!exprMatch) {
+      return [];
+    }
+    // Split by comma and extract column name (part before @)
+    return exprMatch[1].split(',').map((col) => {
+      const trimmed = col.trim();
+      // Extract column name before @ symbol
+      const columnMatch = trimmed.match(/^([^@]+)/);
+      return columnMatch ? columnMatch[1].trim() : trimmed;
+    });
+  }
 }
 
@@ -2,6 +2,7 @@ import { ExecutionPlanNode } from '../../types/execution-plan.types';
 import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
 import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS } from '../constants';
 
 /**
@@ -18,8 +19,14 @@ export class SortPreservingMergeNodeGenerator extends BaseNodeGenerator {
     _isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
-    const nodeHeight = NODE_DIMENSIONS.DEFAULT_HEIGHT;
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      NODE_DIMENSIONS.DEFAULT_HEIGHT,
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -51,64 +58,14 @@ export class SortPreservingMergeNodeGenerator extends BaseNodeGenerator {
     });
     context.elements.push(operatorText);
 
-    // Extract expr or expression property and format as detail text
-    // Format: [f_dkey@0 ASC NULLS LAST, date_bin(...)@1 ASC NULLS LAST]
-    // Extract column/function names: for functions, extract only function name (e.g., date_bin)
-    // For columns, extract column name before @
-    // Result: [f_dkey, date_bin]
     // SortPreservingMergeExec: outputSortOrder is the same as columns/functions in details
-    let detailText = '';
-    const outputSortOrder: string[] = [];
-
-    if (node.properties) {
-      // Check both expr (key=value format) and expression (no key format)
-      const exprValue = node.properties.expr || node.properties.expression;
-      if (exprValue) {
-        // Extract content from brackets
-        const exprMatch = exprValue.match(/\[([^\]]+)\]/);
-        if (exprMatch) {
-          const exprContent = exprMatch[1];
-          // Parse comma-separated items respecting nested parentheses
-          const items = context.propertyParser.parseCommaSeparated(exprContent);
-
-          // Process each item to extract column or function name
-          const simplifiedItems: string[] = [];
-          items.forEach((item) => {
-            const trimmed = item.trim();
-            // Check if it's a function (contains opening parenthesis before @)
-            const functionMatch = trimmed.match(/^(\w+)\s*\(/);
-            if (functionMatch) {
-              // It's a function, extract just the function name
-              simplifiedItems.push(functionMatch[1]);
-              outputSortOrder.push(functionMatch[1]);
-            } else {
-              // It's a column, extract column name before @
-              const columnMatch = trimmed.match(/^([^@]+)/);
-              if (columnMatch) {
-                const columnName = columnMatch[1].trim();
-                simplifiedItems.push(columnName);
-                outputSortOrder.push(columnName);
-              }
-            }
-          });
-
-          detailText = `[${simplifiedItems.join(', ')}]`;
-        }
-      }
-
-      // Add limit information if present
-      const limitText = context.propertyParser.extractLimit(node.properties);
-      if (limitText) {
-        if (detailText) {
-          detailText = `${detailText} \n${limitText}`;
-        } else {
-          detailText = limitText;
-        }
-      }
-    }
+    const outputSortOrder = this.extractSortItems(node, context);
+    const detailText = layout.lines.map((line) => line.text).join(' \n');
 
     // Create detail text at bottom center
-    if (detailText) {
+    if (layout.fitted) {
+      this.drawDetailLines(layout, x, y, context);
+    } else if (detailText) {
       const lineCount = detailText.split(' \n').length;
       const detailHeight = lineCount > 1 ? 35 : 20;
       // Position text so it fits within the rectangle
@@ -167,5 +124,61 @@ export class SortPreservingMergeNodeGenerator extends BaseNodeGenerator {
       outputSortOrder, // outputSortOrder is set from expr details above
     };
   }
+
+  /**
+   * The sorted columns and functions, then the limit
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const lines: DetailLine[] = [];
+    const items = this.extractSortItems(node, context);
+    if (items.length > 0) {
+      lines.push({ text: `[${items.join(', ')}]`, color: context.config.nodeColor });
+    }
+
+    // Add limit information if present
+    const limitText = context.propertyParser.extractLimit(node.properties);
+    if (limitText) {
+      lines.push({ text: limitText, color: context.config.nodeColor });
+    }
+    return lines;
+  }
+
+  /**
+   * Extracts column/function names from the expr or expression property
+   * Format: [f_dkey@0 ASC NULLS LAST, date_bin(...)@1 ASC NULLS LAST]
+   * For functions, extracts only the function name (e.g., date_bin); for columns, the column name before @
+   * Result: [f_dkey, date_bin]
+   */
+  private extractSortItems(node: ExecutionPlanNode, context: GenerationContext): string[] {
+    // Check both expr (key=value format) and expression (no key format)
+    const exprValue = node.properties?.expr || node.properties?.expression;
+    // Extract content from brackets
+    const exprMatch = exprValue?.match(/\[([^\]]+)\]/);
+    if (!exprMatch) {
+      return [];
+    }
+
+    // Parse comma-separated items respecting nested parentheses
+    const items = context.propertyParser.parseCommaSeparated(exprMatch[1]);
+
+    // Process each item to extract column or function name
+    const simplifiedItems: string[] = [];
+    items.forEach((item) => {
+      const trimmed = item.trim();
+      // Check if it's a function (contains opening parenthesis before @)
+      const functionMatch = trimmed.match(/^(\w+)\s*\(/);
+      if (functionMatch) {
+        // It's a function, extract just the function name
+        simplifiedItems.push(functionMatch[1]);
+      } else {
+        // It's a column, extract column name before @
+        const columnMatch = trimmed.match(/^([^@]+)/);
+        if (columnMatch) {
+          simplifiedItems.push(columnMatch[1].trim());
+        }
+      }
+    });
+    return simplifiedItems;
+  }
 }
 
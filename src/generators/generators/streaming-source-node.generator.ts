@@ -0,0 +1,110 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { NodeInfo } from '../types/node-info.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { BaseNodeGenerator } from './base-node.generator';
+import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS, COLORS, SOURCE_NODE } from '../constants';
+import { DetailLine } from '../builders/detail-text.builder';
+
+/**
+ * StreamingTableExec / LazyMemoryExec node generator
+ * Leaves that produce batches from streams or generators rather than files
+ * Drawn as source nodes like DataSourceExec, showing their partition count,
+ * whether the source is unbounded (infinite=true), the batch generators of
+ * LazyMemoryExec and any fetch limit
+ * One output arrow per partition
+ * outputColumns from projection, outputSortOrder from output_ordering
+ */
+export class StreamingSourceNodeGenerator extends BaseNodeGenerator {
+  generate(
+    node: ExecutionPlanNode,
+    x: number,
+    y: number,
+    _isRoot: boolean,
+    context: GenerationContext
+  ): NodeInfo {
+    const partitionCount = context.propertyParser.extractPartitionCount(node.properties);
+    const detailLines = this.buildDetailLines(node, context);
+    const layout = this.fitDetailLines(
+      detailLines,
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      Math.max(NODE_DIMENSIONS.DATASOURCE_HEIGHT, SOURCE_NODE.DETAILS_OFFSET + detailLines.length * TEXT_HEIGHTS.DETAILS_LINE + SOURCE_NODE.BOTTOM_PADDING),
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
+
+    // Create rectangle
+    const rectId = context.idGenerator.generateId();
+    context.elements.push(context.elementFactory.createRectangle({
+      id: rectId,
+      x,
+      y,
+      width: nodeWidth,
+      height: nodeHeight,
+      strokeColor: context.config.nodeColor,
+      roundnessType: 3,
+    }));
+
+    // Create operator name text (centered, bold)
+    context.elements.push(context.elementFactory.createText({
+      id: context.idGenerator.generateId(),
+      x,
+      y: y + 5,
+      width: nodeWidth,
+      height: TEXT_HEIGHTS.OPERATOR,
+      text: node.operator,
+      fontSize: FONT_SIZES.OPERATOR,
+      fontFamily: FONT_FAMILIES.BOLD,
+      textAlign: 'center',
+      verticalAlign: 'top',
+      containerId: rectId,
+      strokeColor: context.config.nodeColor,
+    }));
+
+    this.drawDetailLines(layout, x, y, context);
+
+    // One output arrow per partition
+    const { positions: outputArrowPositions, fullCount: outputArrowCount } =
+      context.arrowCalculator.calculateOutputArrowPositions(partitionCount, x, nodeWidth);
+
+    const projection = node.properties?.projection?.match(/\[([^\]]+)\]/);
+    const ordering = node.properties?.output_ordering?.match(/\[([^\]]+)\]/);
+
+    return {
+      x,
+      y,
+      width: nodeWidth,
+      height: nodeHeight,
+      rectId,
+      inputArrowCount: outputArrowCount,
+      inputArrowPositions: outputArrowPositions,
+      outputColumns: projection ? context.propertyParser.parseCommaSeparated(projection[1]).map((col) => col.trim()) : [],
+      outputSortOrder: ordering ? context.propertyParser.parseCommaSeparated(ordering[1]).map((part) => part.trim().replace(/@.*$/, '')) : [],
+    };
+  }
+
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const partitionCount = context.propertyParser.extractPartitionCount(node.properties);
+    const lines: DetailLine[] = [
+      { text: `${partitionCount} ${partitionCount === 1 ? 'partition' : 'partitions'}`, color: context.config.nodeColor },
+    ];
+    if (node.properties?.infinite_source === 'true') {
+      lines.push({ text: 'infinite=true', color: COLORS.DARK_RED });
+    }
+
+    const generators = node.properties?.batch_generators?.match(/^\[(.*)\]$/);
+    if (generators) {
+      // "generate_series: start=1, end=10, batch_size=8192" -> "generate_series"
+      const names = generators[1].match(/(?:^|,\s*)([A-Za-z_][\w]*):/g)?.map((name) => name.replace(/^,\s*|:$/g, '')) ?? [];
+      if (names.length > 0) {
+        lines.push({ text: names.join(', '), color: context.config.nodeColor });
+      }
+    }
+
+    const limitText = context.propertyParser.extractLimit(node.properties);
+    if (limitText) {
+      lines.push({ text: limitText, color: context.config.nodeColor });
+    }
+    return lines;
+  }
+}
@@ -0,0 +1,52 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { TwoInputJoinNodeGenerator, JoinInputTarget } from './two-input-join-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
+import { COLORS } from '../constants';
+
+/**
+ * SymmetricHashJoinExec node generator
+ * SymmetricHashJoinExec streams both inputs and keeps one hash table per side,
+ * so each input's arrows end on its own hash table ellipse
+ * When both inputs are sorted on the join keys, left_sort_exprs/right_sort_exprs
+ * are used to prune the hash tables; they are shown as pruning lines
+ */
+export class SymmetricHashJoinNodeGenerator extends TwoInputJoinNodeGenerator {
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const lines: DetailLine[] = [];
+    const partitionMode = (node.properties?.partition_mode ?? node.properties?.mode)?.replace(/^\[|\]$/g, '');
+    if (partitionMode) {
+      lines.push({ text: `partition_mode=${partitionMode}`, color: COLORS.PURPLE_MODE });
+    }
+    if (node.properties?.join_type) {
+      lines.push({ text: `join_type=${node.properties.join_type}`, color: context.config.nodeColor });
+    }
+    if (node.properties?.on) {
+      lines.push({ text: `on=${this.simplifyExpression(node.properties.on)}`, color: context.config.nodeColor });
+    }
+    if (node.properties?.filter) {
+      lines.push({ text: `filter=${this.simplifyExpression(node.properties.filter)}`, color: context.config.nodeColor });
+    }
+    for (const side of ['left', 'right'] as const) {
+      const sortExprs = node.properties?.[`${side}_sort_exprs`];
+      if (sortExprs) {
+        lines.push({ text: `prune ${side} by ${this.simplifyExpression(sortExprs)}`, color: COLORS.ORDERED_COLUMN });
+      }
+    }
+    return lines;
+  }
+
+  protected createInputTargets(
+    _node: ExecutionPlanNode,
+    x: number,
+    innerTop: number,
+    nodeWidth: number,
+    _rectId: string,
+    context: GenerationContext
+  ): [JoinInputTarget, JoinInputTarget] {
+    return [
+      this.createInnerEllipse('HashTable', x + nodeWidth / 4, innerTop, context),
+      this.createInnerEllipse('HashTable', x + nodeWidth * 3 / 4, innerTop, context),
+    ];
+  }
+}
@@ -0,0 +1,283 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { NodeInfo } from '../types/node-info.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { BaseNodeGenerator } from './base-node.generator';
+import { DetailLine } from '../builders/detail-text.builder';
+import { ARROW_CONSTANTS, COLORS, FONT_FAMILIES, FONT_SIZES, HASH_TABLE_DIMENSIONS, NODE_DIMENSIONS, TEXT_HEIGHTS, TWO_INPUT_JOIN } from '../constants';
+
+/**
+ * Where the arrows of one join input end: an ellipse inside the join box
+ * (hash table, buffer) or the bottom edge of the box itself
+ */
+export interface JoinInputTarget {
+  id: string;
+  /** Ellipse geometry; undefined when arrows end on the box */
+  ellipse?: { centerX: number; centerY: number; width: number; height: number };
+}
+
+/**
+ * Base class for two-input operators drawn like HashJoinExec (joins, RecursiveQueryExec):
+ * the operator box with its details on top, the first input to the left and
+ * the second input to the right, with column labels on the input arrows
+ * Subclasses draw what sits inside the box and choose where each input's arrows end
+ */
+export abstract class TwoInputJoinNodeGenerator extends BaseNodeGenerator {
+  generate(
+    node: ExecutionPlanNode,
+    x: number,
+    y: number,
+    _isRoot: boolean,
+    context: GenerationContext
+  ): NodeInfo {
+    if (node.children.length !== 2) {
+      throw new Error(`${node.operator} must have exactly 2 children, but found ${node.children.length}`);
+    }
+
+    const detailLines = this.buildDetailLines(node, context);
+    const standardInnerTop = TWO_INPUT_JOIN.DETAILS_OFFSET + detailLines.length * TEXT_HEIGHTS.DETAILS_LINE + TWO_INPUT_JOIN.INNER_GAP;
+    const layout = this.fitDetailLines(
+      detailLines,
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      Math.max(NODE_DIMENSIONS.HASH_JOIN_HEIGHT, standardInnerTop + HASH_TABLE_DIMENSIONS.HEIGHT + TWO_INPUT_JOIN.INNER_GAP),
+      context,
+      HASH_TABLE_DIMENSIONS.HEIGHT
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
+    const innerTop = y + layout.innerTop;
+
+    // Create rectangle
+    const rectId = context.idGenerator.generateId();
+    context.elements.push(context.elementFactory.createRectangle({
+      id: rectId,
+      x,
+      y,
+      width: nodeWidth,
+      height: nodeHeight,
+      strokeColor: context.config.nodeColor,
+      roundnessType: 3,
+    }));
+
+    // Create operator name text (centered, bold)
+    context.elements.push(context.elementFactory.createText({
+      id: context.idGenerator.generateId(),
+      x,
+      y: y + 5,
+      width: nodeWidth,
+      height: TEXT_HEIGHTS.OPERATOR,
+      text: node.operator,
+      fontSize: FONT_SIZES.OPERATOR,
+      fontFamily: FONT_FAMILIES.BOLD,
+      textAlign: 'center',
+      verticalAlign: 'top',
+      containerId: rectId,
+      strokeColor: context.config.nodeColor,
+    }));
+
+    this.drawDetailLines(layout, x, y, context);
+
+    const [leftTarget, rightTarget] = this.createInputTargets(node, x, innerTop, nodeWidth, rectId, context);
+
+    // First input to the LEFT, second input to the RIGHT, both at the same Y level
+    const childY = y + nodeHeight + context.config.verticalSpacing;
+    const leftX = x - NODE_DIMENSIONS.DATASOURCE_WIDTH - context.config.horizontalSpacing;
+    const rightX = x + nodeWidth + context.config.horizontalSpacing;
+    const leftInfo = context.generateChildNode(node.children[0], leftX, childY, false);
+    const rightInfo = context.generateChildNode(node.children[1], rightX, childY, false);
+
+    this.connectInput(leftInfo, childY, leftTarget, { x, y, width: nodeWidth, height: nodeHeight }, 'left', context);
+    const rightArrows = this.connectInput(rightInfo, childY, rightTarget, { x, y, width: nodeWidth, height: nodeHeight }, 'right', context);
+
+    // Output arrows follow the streamed (second) input, like HashJoinExec
+    const { positions: outputArrowPositions, fullCount: outputArrowCount } =
+      context.arrowCalculator.calculateOutputArrowPositions(rightArrows, x, nodeWidth);
+
+    return {
+      x,
+      y: Math.max(leftInfo.y + leftInfo.height, rightInfo.y + rightInfo.height),
+      width: nodeWidth,
+      height: nodeHeight,
+      rectId,
+      inputArrowCount: outputArrowCount,
+      inputArrowPositions: outputArrowPositions,
+      outputColumns: this.computeOutputColumns(node, leftInfo.outputColumns, rightInfo.outputColumns, context),
+      outputSortOrder: [...rightInfo.outputSortOrder],
+      inputLayout: 'beside',
+    };
+  }
+
+  /**
+   * Lines shown below the operator name at the standard detail level
+   */
+  protected abstract buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[];
+
+  /**
+   * Draws the inside of the join box and returns where the arrows of the left and right inputs end
+   * @param innerTop - First free Y position below the detail lines
+   */
+  protected abstract createInputTargets(
+    node: ExecutionPlanNode,
+    x: number,
+    innerTop: number,
+    nodeWidth: number,
+    rectId: string,
+    context: GenerationContext
+  ): [JoinInputTarget, JoinInputTarget];
+
+  /**
+   * Output schema of the join: the projection if present, otherwise the
+   * columns of both inputs as kept by the join type
+   * - Inner/Left/Right/Full: left then right columns
+   * - LeftSemi/LeftAnti (RightSemi/RightAnti): only the left (right) columns
+   * - LeftMark (RightMark): the left (right) columns plus a boolean "mark" column
+   */
+  protected computeOutputColumns(
+    node: ExecutionPlanNode,
+    leftColumns: string[],
+    rightColumns: string[],
+    context: GenerationContext
+  ): string[] {
+    const projection = node.properties?.projection?.match(/\[([^\]]+)\]/);
+    if (projection) {
+      return context.propertyParser.parseCommaSeparated(projection[1]).map((column) => context.propertyParser.extractColumnName(column));
+    }
+
+    const joinType = node.properties?.join_type ?? 'Inner';
+    const columns = (() => {
+      switch (joinType) {
+      case 'LeftSemi':
+      case 'LeftAnti':
+        return [...leftColumns];
+      case 'RightSemi':
+      case 'RightAnti':
+        return [...rightColumns];
+      case 'LeftMark':
+        return [...leftColumns, 'mark'];
+      case 'RightMark':
+        return [...rightColumns, 'mark'];
+      default:
+        return [...leftColumns, ...rightColumns];
+      }
+    })();
+    return [...new Set(columns)];
+  }
+
+  /**
+   * Creates an orange ellipse with a bold label inside the join box
+   */
+  protected createInnerEllipse(
+    label: string,
+    centerX: number,
+    top: number,
+    context: GenerationContext
+  ): JoinInputTarget {
+    const width = HASH_TABLE_DIMENSIONS.WIDTH;
+    const height = HASH_TABLE_DIMENSIONS.HEIGHT;
+    const id = context.idGenerator.generateId();
+    context.elements.push(context.elementFactory.createEllipse({
+      id,
+      x: centerX - width / 2,
+      y: top,
+      width,
+      height,
+      strokeColor: COLORS.ORANGE_BORDER,
+      backgroundColor: 'transparent',
+      roundnessType: 2,
+    }));
+
+    const labelWidth = context.textMeasurement.measureText(label, FONT_SIZES.HASH_TABLE);
+    context.elements.push(context.elementFactory.createText({
+      id: context.idGenerator.generateId(),
+      x: centerX - labelWidth / 2,
+      y: top + height / 2 - TWO_INPUT_JOIN.ELLIPSE_LABEL_HEIGHT / 2,
+      width: labelWidth,
+      height: TWO_INPUT_JOIN.ELLIPSE_LABEL_HEIGHT,
+      text: label,
+      fontSize: FONT_SIZES.HASH_TABLE,
+      fontFamily: FONT_FAMILIES.BOLD,
+      textAlign: 'center',
+      verticalAlign: 'middle',
+      strokeColor: COLORS.ORANGE_BORDER,
+      autoResize: true,
+      lineHeight: 1.15,
+    }));
+
+    return { id, ellipse: { centerX, centerY: top + height / 2, width, height } };
+  }
+
+  /**
+   * Formats an expression property without column indexes: "a@0 > b@1" -> "a > b"
+   */
+  protected simplifyExpression(expression: string): string {
+    return expression.replace(/@\d+/g, '');
+  }
+
+  /**
+   * Draws the arrows of one input and labels them with the input's columns
+   * @returns Number of arrows drawn
+   */
+  private connectInput(
+    info: NodeInfo,
+    inputTop: number,
+    target: JoinInputTarget,
+    box: { x: number; y: number; width: number; height: number },
+    side: 'left' | 'right',
+    context: GenerationContext
+  ): number {
+    const arrowCount = Math.max(1, info.inputArrowCount);
+    const positions: number[] = [];
+    if (arrowCount === 1) {
+      positions.push(info.x + info.width / 2);
+    } else {
+      const regionWidth = info.width * ARROW_CONSTANTS.CENTRAL_REGION_RATIO;
+      const regionLeft = info.x + info.width / 2 - regionWidth / 2;
+      const spacing = regionWidth / (arrowCount - 1);
+      for (let i = 0; i < arrowCount; i++) {
+        positions.push(regionLeft + i * spacing);
+      }
+    }
+
+    const boxBottom = box.y + box.height;
+    for (const startX of positions) {
+      const [endX, endY] = target.ellipse ?
+        context.geometryUtils.getEllipseEdgePoint(
+          startX,
+          inputTop,
+          target.ellipse.centerX,
+          target.ellipse.centerY,
+          target.ellipse.width,
+          target.ellipse.height
+        ) :
+        [Math.min(Math.max(startX, box.x), box.x + box.width), boxBottom];
+      const arrowId = context.idGenerator.generateId();
+      context.elements.push(context.elementFactory.createArrow({
+        id: arrowId,
+        startX,
+        startY: inputTop,
+        endX,
+        endY,
+        childRectId: info.rectId,
+        parentRectId: target.id,
+        strokeColor: context.config.arrowColor,
+      }));
+      this.bindArrowToElements(context, arrowId, [info.rectId, target.id]);
+    }
+
+    if (info.outputColumns.length > 0) {
+      // Left labels end just left of the leftmost arrow; right labels start right of the rightmost arrow
+      const labelWidth = context.textMeasurement.measureText(info.outputColumns.join(', '), FONT_SIZES.COLUMN_LABEL);
+      const labelX = side === 'left' ?
+        positions[0] - TWO_INPUT_JOIN.LABEL_OFFSET - labelWidth :
+        positions[positions.length - 1] + TWO_INPUT_JOIN.LABEL_OFFSET;
+      context.elements.push(...context.columnRenderer.renderLabels({
+        columns: info.outputColumns,
+        sortOrder: info.outputSortOrder,
+        position: { x: labelX, y: (inputTop + (target.ellipse?.centerY ?? boxBottom)) / 2 },
+        alignment: 'left',
+        nodeColor: context.config.nodeColor,
+      }));
+    }
+
+    return arrowCount;
+  }
+}
@@ -3,13 +3,13 @@ import { NodeInfo } from '../types/node-info.types';
 import { GenerationContext } from '../types/generation-context.types';
 import { BaseNodeGenerator } from './base-node.generator';
 import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS } from '../constants';
-import { ExcalidrawArrow, ExcalidrawRectangle } from '../../types/excalidraw.types';
+import { ExcalidrawRectangle } from '../../types/excalidraw.types';
 
 /**
  * UnionExec node generator
  * UnionExec can have many inputs (not just 1 or 2)
  * The number of output arrows is the total number of output arrows from all its inputs
- * Children are positioned horizontally centered around the parent
+ * Children are placed side by side and centered under the parent by the layout pass
  * Arrows connect from child top edges to UnionExec bottom edge
  */
 export class UnionNodeGenerator extends BaseNodeGenerator {
@@ -20,8 +20,14 @@ export class UnionNodeGenerator extends BaseNodeGenerator {
     _isRoot: boolean,
     context: GenerationContext
   ): NodeInfo {
-    const nodeWidth = NODE_DIMENSIONS.DATASOURCE_WIDTH;
-    const nodeHeight = NODE_DIMENSIONS.DEFAULT_HEIGHT;
+    const layout = this.fitDetailLines(
+      this.buildDetailLines(node, context),
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      NODE_DIMENSIONS.DEFAULT_HEIGHT,
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
 
     // Create rectangle
     const rectId = context.idGenerator.generateId();
@@ -52,6 +58,7 @@ export class UnionNodeGenerator extends BaseNodeGenerator {
       strokeColor: context.config.nodeColor,
     });
     context.elements.push(operatorTextElement);
+    this.drawDetailLines(layout, x, y, context);
 
     // Calculate positions for children and get input arrow count
     // UnionExec can have many inputs
@@ -63,19 +70,14 @@ export class UnionNodeGenerator extends BaseNodeGenerator {
     let outputSortOrder: string[] = [];
 
     if (node.children.length > 0) {
-      // Position children horizontally centered around the parent
-      // Increase horizontal spacing to avoid overlap between children
+      // Children are drawn left to right; the layout pass centers them under the parent
       // Use larger spacing for UnionExec children as they might have wider subtrees
       const spacing = context.config.horizontalSpacing * 1.5;
 
-      // Track element count before generating children so we can shift them later
-      const elementsBeforeChildren = context.elements.length;
-
       // Adjust vertical spacing to make arrows 3/5 of original length
       const adjustedVerticalSpacing = (context.config.verticalSpacing * 3) / 5;
       const childY = y + nodeHeight + adjustedVerticalSpacing;
 
-      // Start with an initial X position (will be adjusted after we know actual widths)
       let currentChildX = x;
 
       const childrenInfo: Array<{
@@ -115,49 +117,6 @@ export class UnionNodeGenerator extends BaseNodeGenerator {
         currentChildX += childInfo.width + spacing;
       }
 
-      // Now that we know the actual total width, center all children relative to parent
-      const totalWidth = childrenInfo.reduce((sum, info) => sum + info.childInfo.width, 0) +
-                        (childrenInfo.length - 1) * spacing;
-      const startX = x + nodeWidth / 2 - totalWidth / 2;
-      const firstChildX = childrenInfo[0].childInfo.x;
-      const shiftAmount = startX - firstChildX;
-
-      // Shift all elements created during child generation to center the children
-      if (Math.abs(shiftAmount) > 0.1) {
-        // Update child x positions in info
-        for (let i = 0; i < childrenInfo.length; i++) {
-          childrenInfo[i].childInfo.x += shiftAmount;
-        }
-
-        // Shift all elements that were created during child generation
-        // For arrows with bindings, we only shift the base x coordinate
-        // Excalidraw bindings will automatically adjust the endpoints to connect to shifted rectangles
-        for (let j = elementsBeforeChildren; j < context.elements.length; j++) {
-          const element = context.elements[j];
-
-          if (element.type === 'arrow') {
-            const arrow = element as ExcalidrawArrow;
-            // For arrows with bindings, only shift the base x coordinate
-            // The bindings will handle endpoint positioning automatically
-            if (arrow.startBinding && arrow.endBinding) {
-              element.x += shiftAmount;
-              // Don't shift points - bindings will handle endpoint positioning
-            } else {
-              // For arrows without bindings (shouldn't happen in our code), shift everything
-              element.x += shiftAmount;
-              if (arrow.points) {
-                for (let k = 0; k < arrow.points.length; k++) {
-                  arrow.points[k][0] += shiftAmount;
-                }
-              }
-            }
-          } else {
-            // Shift x coordinate for non-arrow elements (rectangles, text, ellipses, etc.)
-            element.x += shiftAmount;
-          }
-        }
-      }
-
       // Calculate arrow positions distributed across UnionExec's bottom edge
       // For few arrows (4 or fewer), use a central region (60% of width, centered)
       // For more arrows, use the full width
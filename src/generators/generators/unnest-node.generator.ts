@@ -0,0 +1,162 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { NodeInfo } from '../types/node-info.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { BaseNodeGenerator } from './base-node.generator';
+import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS, COLORS, SOURCE_NODE } from '../constants';
+import { DetailLine } from '../builders/detail-text.builder';
+
+/**
+ * UnnestExec node generator
+ * DataFusion prints UnnestExec without properties: the columns it expands are
+ * the __unnest_placeholder(...) columns computed by the projection below it.
+ * Each expanded column is listed as UNNEST(col); list columns produce one row
+ * per element, struct columns one column per field.
+ * outputColumns = input columns with each placeholder renamed to UNNEST(col)
+ * outputSortOrder from input (child) for the columns that are not expanded
+ */
+export class UnnestNodeGenerator extends BaseNodeGenerator {
+  private static readonly PLACEHOLDER = '__unnest_placeholder(';
+
+  generate(
+    node: ExecutionPlanNode,
+    x: number,
+    y: number,
+    _isRoot: boolean,
+    context: GenerationContext
+  ): NodeInfo {
+    const detailLines = this.buildDetailLines(node, context);
+    const layout = this.fitDetailLines(
+      detailLines,
+      NODE_DIMENSIONS.DATASOURCE_WIDTH,
+      Math.max(NODE_DIMENSIONS.DEFAULT_HEIGHT, SOURCE_NODE.DETAILS_OFFSET + detailLines.length * TEXT_HEIGHTS.DETAILS_LINE + SOURCE_NODE.BOTTOM_PADDING),
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
+
+    // Create rectangle
+    const rectId = context.idGenerator.generateId();
+    context.elements.push(context.elementFactory.createRectangle({
+      id: rectId,
+      x,
+      y,
+      width: nodeWidth,
+      height: nodeHeight,
+      strokeColor: context.config.nodeColor,
+      roundnessType: 3,
+    }));
+
+    // Create operator name text (centered, bold)
+    context.elements.push(context.elementFactory.createText({
+      id: context.idGenerator.generateId(),
+      x,
+      y: y + 5,
+      width: nodeWidth,
+      height: TEXT_HEIGHTS.OPERATOR,
+      text: node.operator,
+      fontSize: FONT_SIZES.OPERATOR,
+      fontFamily: FONT_FAMILIES.BOLD,
+      textAlign: 'center',
+      verticalAlign: 'top',
+      containerId: rectId,
+      strokeColor: context.config.nodeColor,
+    }));
+
+    this.drawDetailLines(layout, x, y, context);
+
+    // Process children using the recursive generator from context
+    const childResult = this.processChildren(
+      node,
+      x,
+      y,
+      nodeHeight,
+      rectId,
+      nodeWidth,
+      context,
+      (child, childX, childY, isChildRoot, childContext) => {
+        return childContext.generateChildNode(child, childX, childY, isChildRoot);
+      }
+    );
+
+    // Placeholder columns are replaced by their unnested values
+    let outputColumns: string[] = [];
+    let outputSortOrder: string[] = [];
+    if (childResult.firstChildInfo) {
+      outputColumns = childResult.firstChildInfo.outputColumns.map((column) => this.renamePlaceholder(column));
+      outputSortOrder = childResult.firstChildInfo.outputSortOrder.filter((column) => !column.startsWith(UnnestNodeGenerator.PLACEHOLDER));
+    }
+
+    // UnnestExec keeps the partitioning of its input: output arrows = input arrows
+    const { positions: outputArrowPositions, fullCount: outputArrowCount } =
+      context.arrowCalculator.calculateOutputArrowPositions(
+        childResult.totalInputArrows,
+        x,
+        nodeWidth
+      );
+
+    return {
+      x,
+      y: childResult.maxChildY,
+      width: nodeWidth,
+      height: nodeHeight,
+      rectId,
+      inputArrowCount: outputArrowCount,
+      inputArrowPositions: outputArrowPositions.length > 0 ? outputArrowPositions : childResult.allInputArrowPositions,
+      outputColumns,
+      outputSortOrder,
+    };
+  }
+
+  /**
+   * Each expanded column as UNNEST(col)
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode): DetailLine[] {
+    return this.findExpandedColumns(node).map((column) => ({ text: `UNNEST(${column})`, color: COLORS.PURPLE_MODE }));
+  }
+
+  /**
+   * Finds the columns wrapped in __unnest_placeholder(...) by the first input below
+   * the node that has an expr= property (the projection feeding UnnestExec)
+   * Example: "[a@0 as __unnest_placeholder(t.a), b@1 as b]" -> ["t.a"]
+   */
+  private findExpandedColumns(node: ExecutionPlanNode): string[] {
+    let input = node.children[0];
+    while (input && !input.properties?.expr && input.children.length === 1) {
+      input = input.children[0];
+    }
+    const expr = input?.properties?.expr ?? '';
+
+    const columns: string[] = [];
+    let start = expr.indexOf(UnnestNodeGenerator.PLACEHOLDER);
+    while (start !== -1) {
+      const end = this.findClosingParen(expr, start + UnnestNodeGenerator.PLACEHOLDER.length);
+      columns.push(expr.slice(start + UnnestNodeGenerator.PLACEHOLDER.length, end));
+      start = expr.indexOf(UnnestNodeGenerator.PLACEHOLDER, end);
+    }
+    return columns;
+  }
+
+  /**
+   * "__unnest_placeholder(t.a)" -> "UNNEST(t.a)"; other columns are unchanged
+   */
+  private renamePlaceholder(column: string): string {
+    return column.startsWith(UnnestNodeGenerator.PLACEHOLDER) ?
+      `UNNEST(${column.slice(UnnestNodeGenerator.PLACEHOLDER.length, this.findClosingParen(column, UnnestNodeGenerator.PLACEHOLDER.length))})` :
+      column;
+  }
+
+  /**
+   * Index of the parenthesis closing the one opened just before `from`
+   */
+  private findClosingParen(text: string, from: number): number {
+    let depth = 1;
+    for (let i = from; i < text.length; i++) {
+      if (text[i] === '(') {
+        depth++;
+      } else if (text[i] === ')' && --depth === 0) {
+        return i;
+      }
+    }
+    return text.length;
+  }
+}
@@ -0,0 +1,136 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { NodeInfo } from '../types/node-info.types';
+import { GenerationContext } from '../types/generation-context.types';
+import { BaseNodeGenerator } from './base-node.generator';
+import { NODE_DIMENSIONS, FONT_SIZES, FONT_FAMILIES, TEXT_HEIGHTS, COLORS, WINDOW_NODE } from '../constants';
+import { WindowExpression } from '../utils/property.parser';
+import { DetailLine } from '../builders/detail-text.builder';
+
+/**
+ * WindowAggExec / BoundedWindowAggExec node generator
+ * Lists every window function of the wdw property with its PARTITION BY and
+ * ORDER BY keys and its frame; bounded windows also show their mode
+ * (Sorted, Linear, PartiallySorted). The box grows with the number of functions.
+ * outputColumns = input columns followed by one column per window function
+ * outputSortOrder from input (child): window operators keep their input order
+ */
+export class WindowAggNodeGenerator extends BaseNodeGenerator {
+  generate(
+    node: ExecutionPlanNode,
+    x: number,
+    y: number,
+    _isRoot: boolean,
+    context: GenerationContext
+  ): NodeInfo {
+    const windows = this.parseWindows(node, context);
+    const detailLines = this.buildDetailLines(node, context);
+
+    const widest = Math.max(
+      context.textMeasurement.measureText(node.operator, FONT_SIZES.OPERATOR),
+      ...detailLines.map((line) => context.textMeasurement.measureText(line.text, FONT_SIZES.DETAILS))
+    );
+    const layout = this.fitDetailLines(
+      detailLines,
+      Math.min(WINDOW_NODE.MAX_WIDTH, Math.max(NODE_DIMENSIONS.DATASOURCE_WIDTH, widest + WINDOW_NODE.TEXT_PADDING * 2)),
+      Math.max(NODE_DIMENSIONS.DEFAULT_HEIGHT, WINDOW_NODE.BASE_HEIGHT + detailLines.length * TEXT_HEIGHTS.DETAILS_LINE),
+      context
+    );
+    const nodeWidth = layout.width;
+    const nodeHeight = layout.height;
+
+    // Create rectangle
+    const rectId = context.idGenerator.generateId();
+    context.elements.push(context.elementFactory.createRectangle({
+      id: rectId,
+      x,
+      y,
+      width: nodeWidth,
+      height: nodeHeight,
+      strokeColor: context.config.nodeColor,
+      roundnessType: 3,
+    }));
+
+    // Create operator name text (centered, bold)
+    context.elements.push(context.elementFactory.createText({
+      id: context.idGenerator.generateId(),
+      x,
+      y: y + 5,
+      width: nodeWidth,
+      height: TEXT_HEIGHTS.OPERATOR,
+      text: node.operator,
+      fontSize: FONT_SIZES.OPERATOR,
+      fontFamily: FONT_FAMILIES.BOLD,
+      textAlign: 'center',
+      verticalAlign: 'top',
+      containerId: rectId,
+      strokeColor: context.config.nodeColor,
+    }));
+
+    // Create detail lines below the operator name
+    this.drawDetailLines(layout, x, y, context);
+
+    // Process children using the recursive generator from context
+    const childResult = this.processChildren(
+      node,
+      x,
+      y,
+      nodeHeight,
+      rectId,
+      nodeWidth,
+      context,
+      (child, childX, childY, isChildRoot, childContext) => {
+        return childContext.generateChildNode(child, childX, childY, isChildRoot);
+      }
+    );
+
+    // Window operators append one column per window function to their input columns
+    let outputColumns: string[] = [];
+    let outputSortOrder: string[] = [];
+    if (childResult.firstChildInfo) {
+      outputColumns = [...childResult.firstChildInfo.outputColumns];
+      outputSortOrder = [...childResult.firstChildInfo.outputSortOrder];
+    }
+    outputColumns.push(...windows.map((window) => window.function));
+
+    // Window operators: output arrows = input arrows (partitioning is preserved)
+    const { positions: outputArrowPositions, fullCount: outputArrowCount } =
+      context.arrowCalculator.calculateOutputArrowPositions(
+        childResult.totalInputArrows,
+        x,
+        nodeWidth
+      );
+
+    return {
+      x,
+      y: childResult.maxChildY,
+      width: nodeWidth,
+      height: nodeHeight,
+      rectId,
+      inputArrowCount: outputArrowCount,
+      inputArrowPositions: outputArrowPositions.length > 0 ? outputArrowPositions : childResult.allInputArrowPositions,
+      outputColumns,
+      outputSortOrder,
+    };
+  }
+
+  /**
+   * Mode line (purple) followed by the lines of every window function
+   */
+  protected buildStandardDetailLines(node: ExecutionPlanNode, context: GenerationContext): DetailLine[] {
+    const lines: DetailLine[] = [];
+    const mode = node.properties?.mode?.replace(/^\[|\]$/g, '');
+    if (mode) {
+      lines.push({ text: `mode=${mode}`, color: COLORS.PURPLE_MODE });
+    }
+    return [...lines, ...this.parseWindows(node, context).flatMap((window) => [
+      { text: window.function, color: context.config.nodeColor },
+      ...(window.partitionBy.length > 0 ? [{ text: `PARTITION BY [${window.partitionBy.join(', ')}]`, color: context.config.nodeColor }] : []),
+      ...(window.orderBy.length > 0 ? [{ text: `ORDER BY [${window.orderBy.join(', ')}]`, color: COLORS.ORDERED_COLUMN }] : []),
+      ...(window.frame ? [{ text: window.frame, color: COLORS.DARK_RED }] : []),
+    ])];
+  }
+
+  private parseWindows(node: ExecutionPlanNode, context: GenerationContext): WindowExpression[] {
+    return node.properties?.wdw ? context.propertyParser.parseWindowExpressions(node.properties.wdw) : [];
+  }
+}
@@ -2,5 +2,5 @@ export * from './excalidraw.generator';
 export { BaseNodeGenerator } from './generators/base-node.generator';
 export type { NodeGeneratorStrategy } from './generators/node-generator.strategy';
 export type { GenerationContext } from './types/generation-context.types';
-export type { NodeInfo } from './types/node-info.types';
+export type { InputLayout, NodeInfo } from './types/node-info.types';
 export type { ExecutionPlanNode } from '../types/execution-plan.types';
@@ -24,6 +24,11 @@ describe('ColumnLabelRenderer', () => {
       detailsFontSize: 14,
       nodeColor: '#1e1e1e',
       arrowColor: '#1e1e1e',
+      scanDetails: false,
+      detailLevel: 'standard',
+      maxNodeWidth: 500,
+      maxNodeHeight: 400,
+      metricsOverlay: false,
     };
     elementFactory = new ElementFactory(idGenerator, config);
     renderer = new ColumnLabelRenderer(elementFactory, textMeasurement, idGenerator);
@@ -0,0 +1,163 @@
+import { MetricsOverlayRenderer } from '../metrics-overlay.renderer';
+import { ElementFactory } from '../../factories/element.factory';
+import { TextMeasurement } from '../../utils/text-measurement';
+import { IdGenerator } from '../../utils/id.generator';
+import { MetricsParser } from '../../../parsers/metrics.parser';
+import { ExcalidrawElement, ResolvedExcalidrawConfig } from '../../../types/excalidraw.types';
+import { ExecutionPlanNode } from '../../../types/execution-plan.types';
+import { RenderedNode } from '../../types/node-info.types';
+import { COLORS, TEXT_HEIGHTS } from '../../constants';
+
+describe('MetricsOverlayRenderer', () => {
+  let renderer: MetricsOverlayRenderer;
+  let elementFactory: ElementFactory;
+  let metricsParser: MetricsParser;
+  let config: ResolvedExcalidrawConfig;
+
+  const createNode = (operator: string, metrics: string): ExecutionPlanNode => ({
+    operator,
+    properties: { metrics },
+    children: [],
+    level: 0,
+    metrics: metricsParser.parse(metrics),
+  });
+
+  const renderNode = (node: ExecutionPlanNode, rectId: string, y: number): RenderedNode => ({
+    node,
+    info: {
+      x: 0,
+      y: y + 80,
+      width: 200,
+      height: 80,
+      rectId,
+      inputArrowCount: 1,
+      inputArrowPositions: [100],
+      outputColumns: [],
+      outputSortOrder: [],
+    },
+  });
+
+  beforeEach(() => {
+    const idGenerator = new IdGenerator();
+    metricsParser = new MetricsParser();
+    config = {
+      nodeWidth: 200,
+      nodeHeight: 80,
+      verticalSpacing: 100,
+      horizontalSpacing: 50,
+      fontSize: 16,
+      operatorFontSize: 20,
+      detailsFontSize: 14,
+      nodeColor: '#1e1e1e',
+      arrowColor: '#1e1e1e',
+      scanDetails: false,
+      detailLevel: 'standard',
+      maxNodeWidth: 500,
+      maxNodeHeight: 400,
+      metricsOverlay: false,
+    };
+    elementFactory = new ElementFactory(idGenerator, config);
+    renderer = new MetricsOverlayRenderer(elementFactory, new TextMeasurement(), idGenerator);
+  });
+
+  describe('heatColor', () => {
+    it('should interpolate between the cold and hot colors', () => {
+      expect(renderer.heatColor(0)).toBe(COLORS.HEAT_COLD);
+      expect(renderer.heatColor(1)).toBe(COLORS.HEAT_HOT);
+      expect(renderer.heatColor(2)).toBe(COLORS.HEAT_HOT);
+    });
+  });
+
+  describe('buildDetailLine', () => {
+    it('should show rows and elapsed time with the share of total compute', () => {
+      const parent = createNode('CoalescePartitionsExec', '[output_rows=1, elapsed_compute=1ns]');
+      parent.children.push(createNode('ProjectionExec', '[output_rows=8192, elapsed_compute=3ns]'));
+      const total = renderer.totalCompute(parent);
+
+      expect(total).toBe(4);
+      expect(renderer.buildDetailLine(parent.children[0], total, config.nodeColor)).toEqual({
+        text: 'rows=8.19K, elapsed=3ns (75%)',
+        color: config.nodeColor,
+      });
+    });
+
+    it('should return no line for nodes without metrics', () => {
+      const plain: ExecutionPlanNode = { operator: 'EmptyExec', properties: {}, children: [], level: 0 };
+
+      expect(renderer.buildDetailLine(plain, 4, config.nodeColor)).toBeUndefined();
+    });
+  });
+
+  describe('render', () => {
+    let elements: ExcalidrawElement[];
+    let renderedNodes: RenderedNode[];
+
+    beforeEach(() => {
+      const parent = createNode('CoalescePartitionsExec', '[output_rows=1, elapsed_compute=1ns]');
+      const child = createNode('ProjectionExec', '[output_rows=8192, elapsed_compute=3ns]');
+      elements = [
+        elementFactory.createRectangle({ id: 'parent', x: 0, y: 0, width: 200, height: 80 }),
+        elementFactory.createRectangle({ id: 'child', x: 0, y: 180, width: 200, height: 80 }),
+        elementFactory.createArrow({
+          id: 'arrow',
+          startX: 100,
+          startY: 180,
+          endX: 100,
+          endY: 80,
+          childRectId: 'child',
+          parentRectId: 'parent',
+        }),
+      ];
+      renderedNodes = [renderNode(child, 'child', 180), renderNode(parent, 'parent', 0)];
+    });
+
+    it('should shade rectangles by their share of elapsed compute', () => {
+      renderer.render(renderedNodes, elements);
+
+      expect(elements[0].backgroundColor).toBe(renderer.heatColor(0.25));
+      expect(elements[1].backgroundColor).toBe(renderer.heatColor(0.75));
+    });
+
+    it('should not add elements', () => {
+      renderer.render(renderedNodes, elements);
+
+      expect(elements).toHaveLength(3);
+    });
+
+    it('should leave nodes without metrics untouched', () => {
+      const plain: ExecutionPlanNode = { operator: 'EmptyExec', properties: {}, children: [], level: 0 };
+      const rect = elementFactory.createRectangle({ id: 'plain', x: 0, y: 0, width: 200, height: 80 });
+
+      renderer.render([renderNode(plain, 'plain', 0)], [rect]);
+
+      expect(rect.backgroundColor).toBe(COLORS.TRANSPARENT);
+    });
+
+    describe('renderRowCountLabel', () => {
+      it('should label output arrows with row counts right of them', () => {
+        const label = renderer.renderRowCountLabel(renderedNodes[0].node, 'child', elements);
+
+        expect(label?.text).toBe('8.19K rows');
+        expect(label!.strokeColor).toBe(COLORS.ROW_COUNT);
+        expect(label!.x).toBeGreaterThan(100);
+        expect(label!.groupIds).toHaveLength(1);
+      });
+
+      it('should skip nodes without output arrows', () => {
+        expect(renderer.renderRowCountLabel(renderedNodes[1].node, 'parent', elements)).toBeUndefined();
+      });
+
+      it('should join the group of the column labels right of the arrows', () => {
+        // Centered on the arrow's midpoint, as ColumnLabelRenderer draws it
+        const height = TEXT_HEIGHTS.COLUMN_LABEL;
+        const columnLabel = elementFactory.createText({ id: 'columns', x: 105, y: 130 - height / 2, width: 40, height, text: 'a' });
+        columnLabel.groupIds = ['columns-group'];
+
+        const label = renderer.renderRowCountLabel(renderedNodes[0].node, 'child', [...elements, columnLabel]);
+
+        expect(label!.groupIds).toEqual(['columns-group']);
+        expect(label!.y).toBe(columnLabel.y + columnLabel.height);
+      });
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { ExcalidrawGenerator } from '../../excalidraw.generator';
+import { ExcalidrawArrow, ExcalidrawData, ExcalidrawElement, ExcalidrawText, Orientation } from '../../../types/excalidraw.types';
+import { TestHelpers } from '../../__tests__/utils/test-helpers';
+
+describe('OrientationRenderer', () => {
+  const generate = (plan: string, orientation: Orientation): ExcalidrawData =>
+    new ExcalidrawGenerator({ orientation }).generate(TestHelpers.parsePlan(plan));
+
+  const rectOf = (result: ExcalidrawData, operator: string): ExcalidrawElement => {
+    const text = result.elements.find((el): el is ExcalidrawText => el.type === 'text' && el.text.startsWith(operator))!;
+    return result.elements.find((el) => el.id === text.containerId)!;
+  };
+
+  const arrowsInto = (result: ExcalidrawData, target: ExcalidrawElement): ExcalidrawArrow[] =>
+    result.elements.filter((el): el is ExcalidrawArrow => el.type === 'arrow' && el.endBinding?.elementId === target.id);
+
+  const ends = (arrow: ExcalidrawArrow): { start: [number, number]; end: [number, number] } => {
+    const last = arrow.points[arrow.points.length - 1];
+    return { start: [arrow.x, arrow.y], end: [arrow.x + last[0], arrow.y + last[1]] };
+  };
+
+  const labelsOf = (result: ExcalidrawData, text: string): ExcalidrawText[] =>
+    result.elements.filter((el): el is ExcalidrawText => el.type === 'text' && el.text === text && !el.containerId);
+
+  const filterPlan = `FilterExec: amount@1 > 100
+  DataSourceExec: file_groups={1 group: [[sales.parquet]]}, projection=[region, amount], file_type=parquet`;
+
+  const joinPlan = `HashJoinExec: mode=CollectLeft, join_type=Inner, on=[(id@0, id@0)]
+  DataSourceExec: file_groups={1 group: [[left.parquet]]}, projection=[id], file_type=parquet
+  DataSourceExec: file_groups={1 group: [[right.parquet]]}, projection=[id, v], file_type=parquet`;
+
+  it('should leave top-down diagrams untouched', () => {
+    const topDown = generate(joinPlan, 'top-down');
+    const defaults = new ExcalidrawGenerator().generate(TestHelpers.parsePlan(joinPlan));
+
+    expect(topDown.elements.map((el) => [el.type, el.x, el.y, el.width, el.height]))
+      .toEqual(defaults.elements.map((el) => [el.type, el.x, el.y, el.width, el.height]));
+  });
+
+  describe('bottom-up', () => {
+    it('should put inputs above their parent with arrows pointing down', () => {
+      const result = generate(filterPlan, 'bottom-up');
+      const filter = rectOf(result, 'FilterExec');
+      const source = rectOf(result, 'DataSourceExec');
+      const [arrow] = arrowsInto(result, filter);
+      const { start, end } = ends(arrow);
+
+      expect(source.y + source.height).toBeLessThan(filter.y);
+      expect(arrow.startBinding?.elementId).toBe(source.id);
+      expect(start[1]).toBe(source.y + source.height);
+      expect(end[1]).toBe(filter.y);
+    });
+
+    it('should keep column labels between the nodes', () => {
+      const result = generate(filterPlan, 'bottom-up');
+      const filter = rectOf(result, 'FilterExec');
+      const source = rectOf(result, 'DataSourceExec');
+      const label = labelsOf(result, 'region, amount').pop()!;
+
+      expect(label.y).toBeGreaterThan(source.y + source.height);
+      expect(label.y + label.height).toBeLessThan(filter.y);
+    });
+
+    it('should keep work table loops bound to both ends', () => {
+      const result = generate(`RecursiveQueryExec: name=nodes, is_distinct=false
+  ProjectionExec: expr=[1 as id]
+    PlaceholderRowExec
+  ProjectionExec: expr=[id@0 + 1 as id]
+    WorkTableExec: name=nodes`, 'bottom-up');
+      const workTable = rectOf(result, 'WorkTableExec');
+      const recursive = rectOf(result, 'RecursiveQueryExec');
+      const loop = result.elements.find((el): el is ExcalidrawArrow => el.type === 'arrow' && el.strokeStyle === 'dashed')!;
+      const { start, end } = ends(loop);
+
+      expect(workTable.y).toBeLessThan(recursive.y);
+      expect(loop.startBinding?.elementId).toBe(workTable.id);
+      expect(loop.endBinding?.elementId).toBe(recursive.id);
+      expect(start[1]).toBeGreaterThanOrEqual(workTable.y);
+      expect(start[1]).toBeLessThanOrEqual(workTable.y + workTable.height);
+      expect(end[1]).toBeGreaterThanOrEqual(recursive.y);
+      expect(end[1]).toBeLessThanOrEqual(recursive.y + recursive.height);
+    });
+  });
+
+  describe('left-to-right', () => {
+    it('should put inputs left of their parent with straight arrows between the facing edges', () => {
+      const result = generate(filterPlan, 'left-to-right');
+      const filter = rectOf(result, 'FilterExec');
+      const source = rectOf(result, 'DataSourceExec');
+      const [arrow] = arrowsInto(result, filter);
+      const { start, end } = ends(arrow);
+
+      expect(source.x + source.width).toBeLessThan(filter.x);
+      expect(start[0]).toBe(source.x + source.width);
+      expect(end[0]).toBe(filter.x);
+      expect(start[1]).toBe(end[1]);
+    });
+
+    it('should put column labels between the nodes next to their arrow', () => {
+      const result = generate(filterPlan, 'left-to-right');
+      const filter = rectOf(result, 'FilterExec');
+      const source = rectOf(result, 'DataSourceExec');
+      const [arrow] = arrowsInto(result, filter);
+      const label = labelsOf(result, 'region, amount').pop()!;
+
+      expect(label.x).toBeGreaterThanOrEqual(source.x + source.width);
+      expect(label.x + label.width).toBeLessThanOrEqual(filter.x);
+      expect(label.y + label.height <= arrow.y || label.y >= arrow.y).toBe(true);
+    });
+
+    it('should turn file groups into columns left of the scan', () => {
+      const result = generate('DataSourceExec: file_groups={2 groups: [[a.parquet, b.parquet], [c.parquet]]}, projection=[id], file_type=parquet', 'left-to-right');
+      const source = rectOf(result, 'DataSourceExec');
+      const files = result.elements.filter((el) => el.type === 'ellipse');
+      const group = result.elements.find((el) => el.type === 'rectangle' && el.strokeStyle === 'dashed')!;
+
+      expect(files).toHaveLength(3);
+      expect(files.every((file) => file.x + file.width < source.x)).toBe(true);
+      // The two files of the first group sit side by side, away from the scan
+      const grouped = files.filter((file) => file.x >= group.x && file.x + file.width <= group.x + group.width &&
+        file.y >= group.y && file.y + file.height <= group.y + group.height);
+      expect(grouped).toHaveLength(2);
+      expect(grouped[0].y).toBeCloseTo(grouped[1].y);
+      expect(group.height).toBeLessThan(group.width);
+      for (const arrow of arrowsInto(result, source)) {
+        const { start, end } = ends(arrow);
+        expect([group, ...files].map((shape) => shape.id)).toContain(arrow.startBinding?.elementId);
+        expect(end[0]).toBe(source.x);
+        expect(start[0]).toBeLessThan(end[0]);
+      }
+    });
+
+    it('should put the first join input above the second, both left of the join', () => {
+      const result = generate(joinPlan, 'left-to-right');
+      const join = rectOf(result, 'HashJoinExec');
+      const [left, right] = result.elements.filter((el) => el.type === 'rectangle' &&
+        result.elements.some((text) => text.type === 'text' && text.containerId === el.id && text.text.startsWith('DataSourceExec')));
+      const hashTable = result.elements.find((el) => el.type === 'ellipse' && el.x > join.x && el.x + el.width < join.x + join.width)!;
+
+      expect(left.y + left.height).toBeLessThan(right.y);
+      expect(left.x + left.width).toBeLessThan(join.x);
+      expect(right.x + right.width).toBeLessThan(join.x);
+      const [build] = arrowsInto(result, hashTable);
+      expect(build.startBinding?.elementId).toBe(left.id);
+      expect(ends(build).start[0]).toBe(left.x + left.width);
+    });
+  });
+
+  describe('metrics overlay', () => {
+    const analyzedPlan = `CoalescePartitionsExec, metrics=[output_rows=1, elapsed_compute=1ns]
+  ProjectionExec: expr=[count(*)@0 as count(*)], metrics=[output_rows=1, elapsed_compute=3ns]
+    DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[a], file_type=parquet, metrics=[output_rows=8192]`;
+
+    it.each<Orientation>(['bottom-up', 'left-to-right'])('should keep row counts beside their arrows, clear of other elements (%s)', (orientation) => {
+      const result = new ExcalidrawGenerator({ orientation, metricsOverlay: true }).generate(TestHelpers.parsePlan(analyzedPlan));
+      const rowLabels = result.elements.filter((el): el is ExcalidrawText => el.type === 'text' && el.text.endsWith(' rows'));
+      const overlaps = (a: ExcalidrawElement, b: ExcalidrawElement): boolean =>
+        a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+      expect(rowLabels.map((label) => label.text)).toEqual(['8.19K rows', '1 rows']);
+      for (const label of rowLabels) {
+        const others = result.elements.filter((el) => el.type !== 'arrow' && el !== label);
+        expect(others.filter((el) => overlaps(el, label))).toEqual([]);
+
+        const arrow = result.elements.find((el): el is ExcalidrawArrow => el.type === 'arrow' &&
+          overlaps({ ...el, x: el.x - 30, y: el.y - 30, width: el.width + 60, height: el.height + 60 }, label));
+        expect(arrow).toBeDefined();
+      }
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { PlanDiffOverlayRenderer } from '../plan-diff-overlay.renderer';
+import { ElementFactory } from '../../factories/element.factory';
+import { TextMeasurement } from '../../utils/text-measurement';
+import { IdGenerator } from '../../utils/id.generator';
+import { ExcalidrawArrow, ExcalidrawElement, ResolvedExcalidrawConfig } from '../../../types/excalidraw.types';
+import { ExecutionPlanNode, PlanDiffNode } from '../../../types';
+import { RenderedNode } from '../../types/node-info.types';
+import { COLORS, DIFF_OVERLAY } from '../../constants';
+
+describe('PlanDiffOverlayRenderer', () => {
+  let renderer: PlanDiffOverlayRenderer;
+  let elementFactory: ElementFactory;
+
+  const createNode = (operator: string): ExecutionPlanNode => ({ operator, children: [], level: 0 });
+
+  const renderNode = (node: ExecutionPlanNode, rectId: string): RenderedNode => ({
+    node,
+    info: {
+      x: 0,
+      y: 0,
+      width: 200,
+      height: 80,
+      rectId,
+      inputArrowCount: 1,
+      inputArrowPositions: [100],
+      outputColumns: [],
+      outputSortOrder: [],
+    },
+  });
+
+  const createRect = (id: string, y: number): ExcalidrawElement =>
+    elementFactory.createRectangle({ id, x: 0, y, width: 200, height: 80 });
+
+  beforeEach(() => {
+    const idGenerator = new IdGenerator();
+    const config: ResolvedExcalidrawConfig = {
+      nodeWidth: 200,
+      nodeHeight: 80,
+      verticalSpacing: 100,
+      horizontalSpacing: 50,
+      fontSize: 16,
+      operatorFontSize: 20,
+      detailsFontSize: 14,
+      nodeColor: '#1e1e1e',
+      arrowColor: '#1e1e1e',
+      scanDetails: false,
+      detailLevel: 'standard',
+      maxNodeWidth: 500,
+      maxNodeHeight: 400,
+      metricsOverlay: false,
+    };
+    elementFactory = new ElementFactory(idGenerator, config);
+    renderer = new PlanDiffOverlayRenderer(elementFactory, new TextMeasurement(), idGenerator);
+  });
+
+  it('should outline nodes by status and leave unchanged nodes alone', () => {
+    const nodes = ['unchanged', 'added', 'changed'].map((status) => createNode(status));
+    const elements = nodes.map((_, i) => createRect(`rect-${i}`, i * 200));
+    const diffs = new Map<ExecutionPlanNode, PlanDiffNode>(nodes.map((node) => [
+      node,
+      { status: node.operator as PlanDiffNode['status'], node, changes: [], children: [] },
+    ]));
+
+    renderer.render(nodes.map((node, i) => renderNode(node, `rect-${i}`)), elements, diffs);
+
+    expect(elements.map((el) => el.strokeColor)).toEqual(['#1e1e1e', COLORS.DIFF_ADDED, COLORS.DIFF_CHANGED]);
+    expect(elements[1].strokeWidth).toBe(DIFF_OVERLAY.STROKE_WIDTH);
+  });
+
+  it('should draw removed nodes as ghosts', () => {
+    const node = createNode('CoalesceBatchesExec');
+    const rect = createRect('removed', 0);
+    const text = elementFactory.createOperatorText('text', 0, 0, 200, 'CoalesceBatchesExec', 'removed');
+    const outputArrow = elementFactory.createArrow({
+      id: 'arrow', startX: 100, startY: 0, endX: 100, endY: -100, childRectId: 'removed', parentRectId: 'parent',
+    });
+    const elements: ExcalidrawElement[] = [rect, text, outputArrow];
+
+    renderer.render([renderNode(node, 'removed')], elements, new Map([[node, { status: 'removed', node, changes: [], children: [] }]]));
+
+    expect(rect).toMatchObject({ strokeColor: COLORS.DIFF_REMOVED, strokeStyle: 'dashed', opacity: DIFF_OVERLAY.GHOST_OPACITY });
+    expect(text.opacity).toBe(DIFF_OVERLAY.GHOST_OPACITY);
+    expect((outputArrow as ExcalidrawArrow).strokeStyle).toBe('dashed');
+  });
+
+  it('should list changed properties and replaced operators to the right of the node', () => {
+    const changed = createNode('RepartitionExec');
+    const added = createNode('SortMergeJoinExec');
+    const elements = [createRect('changed', 0), createRect('added', 200)];
+    const diffs = new Map<ExecutionPlanNode, PlanDiffNode>([
+      [changed, {
+        status: 'changed',
+        node: changed,
+        changes: [{ key: 'partitioning', before: 'Hash([a@0], 4)', after: 'Hash([a@0], 8)' }, { key: 'preserve_order', after: 'true' }],
+        children: [],
+      }],
+      [added, { status: 'added', node: added, replaced: createNode('HashJoinExec'), changes: [], children: [] }],
+    ]);
+
+    const labels = renderer.render([renderNode(changed, 'changed'), renderNode(added, 'added')], elements, diffs);
+
+    expect(labels.map((label) => label.text)).toEqual([
+      'partitioning: Hash([a@0], 4) → Hash([a@0], 8)',
+      'preserve_order: (none) → true',
+      'replaces HashJoinExec',
+    ]);
+    expect(labels[0].x).toBe(200 + DIFF_OVERLAY.LABEL_GAP);
+    expect(labels[0].strokeColor).toBe(COLORS.DIFF_CHANGED);
+    expect(labels[2].strokeColor).toBe(COLORS.DIFF_ADDED);
+  });
+
+  it('should shorten long property values', () => {
+    const line = renderer.formatChange({ key: 'expr', before: 'a'.repeat(100), after: 'b' });
+
+    expect(line).toBe(`expr: ${'a'.repeat(DIFF_OVERLAY.MAX_VALUE_LENGTH - 3)}... → b`);
+  });
+});
@@ -0,0 +1,85 @@
+import { PlanLinkRenderer } from '../plan-link.renderer';
+import { ElementFactory } from '../../factories/element.factory';
+import { IdGenerator } from '../../utils/id.generator';
+import { ExcalidrawElement, ResolvedExcalidrawConfig } from '../../../types/excalidraw.types';
+import { ExecutionPlanNode } from '../../../types/execution-plan.types';
+import { RenderedNode } from '../../types/node-info.types';
+import { COLORS } from '../../constants';
+
+describe('PlanLinkRenderer', () => {
+  let renderer: PlanLinkRenderer;
+  let elementFactory: ElementFactory;
+
+  const createNode = (operator: string): ExecutionPlanNode => ({ operator, children: [], level: 0 });
+
+  const renderNode = (node: ExecutionPlanNode, rectId: string): RenderedNode => ({
+    node,
+    info: {
+      x: 0,
+      y: 0,
+      width: 200,
+      height: 80,
+      rectId,
+      inputArrowCount: 1,
+      inputArrowPositions: [100],
+      outputColumns: [],
+      outputSortOrder: [],
+    },
+  });
+
+  beforeEach(() => {
+    const idGenerator = new IdGenerator();
+    const config: ResolvedExcalidrawConfig = {
+      nodeWidth: 200,
+      nodeHeight: 80,
+      verticalSpacing: 100,
+      horizontalSpacing: 50,
+      fontSize: 16,
+      operatorFontSize: 20,
+      detailsFontSize: 14,
+      nodeColor: '#1e1e1e',
+      arrowColor: '#1e1e1e',
+      scanDetails: false,
+      detailLevel: 'standard',
+      maxNodeWidth: 500,
+      maxNodeHeight: 400,
+      metricsOverlay: false,
+    };
+    elementFactory = new ElementFactory(idGenerator, config);
+    renderer = new PlanLinkRenderer(elementFactory, idGenerator);
+  });
+
+  it('should draw a dashed arrow from the logical node to the physical node', () => {
+    const scan = createNode('TableScan');
+    const source = createNode('DataSourceExec');
+    const elements: ExcalidrawElement[] = [
+      elementFactory.createRectangle({ id: 'logical', x: 0, y: 0, width: 300, height: 60 }),
+      elementFactory.createRectangle({ id: 'physical', x: 600, y: 100, width: 200, height: 80 }),
+    ];
+
+    const arrows = renderer.render(
+      [{ logical: scan, physical: source }],
+      [renderNode(scan, 'logical'), renderNode(source, 'physical')],
+      elements
+    );
+
+    expect(arrows).toHaveLength(1);
+    expect(arrows[0]).toMatchObject({
+      x: 300,
+      y: 30,
+      points: [[0, 0], [300, 110]],
+      strokeStyle: 'dashed',
+      strokeColor: COLORS.PLAN_LINK,
+      startBinding: { elementId: 'logical' },
+      endBinding: { elementId: 'physical' },
+    });
+    expect(elements[0].boundElements).toEqual([{ id: arrows[0].id, type: 'arrow' }]);
+    expect(elements[1].boundElements).toEqual([{ id: arrows[0].id, type: 'arrow' }]);
+  });
+
+  it('should skip links to nodes that were not rendered', () => {
+    const arrows = renderer.render([{ logical: createNode('TableScan'), physical: createNode('DataSourceExec') }], [], []);
+
+    expect(arrows).toEqual([]);
+  });
+});
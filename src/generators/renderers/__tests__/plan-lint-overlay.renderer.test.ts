@@ -0,0 +1,108 @@
+import { PlanLintOverlayRenderer } from '../plan-lint-overlay.renderer';
+import { ElementFactory } from '../../factories/element.factory';
+import { TextMeasurement } from '../../utils/text-measurement';
+import { IdGenerator } from '../../utils/id.generator';
+import { GeometryUtils } from '../../utils/geometry.utils';
+import { ExcalidrawArrow, ExcalidrawElement, ExcalidrawText, ResolvedExcalidrawConfig } from '../../../types/excalidraw.types';
+import { ExecutionPlanNode, LintFinding, LintSeverity } from '../../../types';
+import { RenderedNode } from '../../types/node-info.types';
+import { COLORS, LINT_CALLOUT } from '../../constants';
+
+describe('PlanLintOverlayRenderer', () => {
+  let renderer: PlanLintOverlayRenderer;
+  let elementFactory: ElementFactory;
+
+  const createNode = (operator: string): ExecutionPlanNode => ({ operator, children: [], level: 0 });
+
+  const renderNode = (node: ExecutionPlanNode, rectId: string): RenderedNode => ({
+    node,
+    info: {
+      x: 0,
+      y: 0,
+      width: 200,
+      height: 80,
+      rectId,
+      inputArrowCount: 1,
+      inputArrowPositions: [100],
+      outputColumns: [],
+      outputSortOrder: [],
+    },
+  });
+
+  const createFinding = (node: ExecutionPlanNode, severity: LintSeverity, message = 'Something to look at'): LintFinding => ({
+    rule: `${severity}-rule`,
+    severity,
+    message,
+    operator: node.operator,
+    path: [node.operator],
+    node,
+  });
+
+  beforeEach(() => {
+    const idGenerator = new IdGenerator();
+    const config: ResolvedExcalidrawConfig = {
+      nodeWidth: 200,
+      nodeHeight: 80,
+      verticalSpacing: 100,
+      horizontalSpacing: 50,
+      fontSize: 16,
+      operatorFontSize: 20,
+      detailsFontSize: 14,
+      nodeColor: '#1e1e1e',
+      arrowColor: '#1e1e1e',
+      scanDetails: false,
+      detailLevel: 'standard',
+      maxNodeWidth: 500,
+      maxNodeHeight: 400,
+      metricsOverlay: false,
+    };
+    elementFactory = new ElementFactory(idGenerator, config);
+    renderer = new PlanLintOverlayRenderer(elementFactory, new TextMeasurement(), idGenerator, new GeometryUtils());
+  });
+
+  it('should outline flagged nodes and point a callout at them from the right of the plan', () => {
+    const node = createNode('SortExec');
+    const rect = elementFactory.createRectangle({ id: 'sort', x: 0, y: 0, width: 200, height: 80 });
+
+    const callouts = renderer.render([renderNode(node, 'sort')], [rect], [createFinding(node, 'warning')]);
+    const [note] = callouts;
+    const arrow = callouts.find((el) => el.type === 'arrow') as ExcalidrawArrow;
+    const texts = callouts.filter((el): el is ExcalidrawText => el.type === 'text').map((el) => el.text);
+
+    expect(rect.strokeColor).toBe(COLORS.LINT_WARNING);
+    expect(note.x).toBe(200 + LINT_CALLOUT.GAP);
+    expect(note.backgroundColor).toBe(COLORS.LINT_WARNING_BACKGROUND);
+    expect(texts).toEqual(['warning-rule', 'Something to look at']);
+    expect(arrow.startBinding?.elementId).toBe(note.id);
+    expect(arrow.endBinding?.elementId).toBe('sort');
+    expect(rect.boundElements).toContainEqual({ id: arrow.id, type: 'arrow' });
+  });
+
+  it('should keep the warning color when a node also has info findings', () => {
+    const node = createNode('CrossJoinExec');
+    const rect = elementFactory.createRectangle({ id: 'join', x: 0, y: 0, width: 200, height: 80 });
+
+    renderer.render([renderNode(node, 'join')], [rect], [createFinding(node, 'warning'), createFinding(node, 'info')]);
+
+    expect(rect.strokeColor).toBe(COLORS.LINT_WARNING);
+  });
+
+  it('should wrap long messages and stack callouts without overlap', () => {
+    const node = createNode('AggregateExec');
+    const rect = elementFactory.createRectangle({ id: 'agg', x: 0, y: 0, width: 200, height: 80 });
+    const message = 'word '.repeat(30).trim();
+
+    const callouts = renderer.render([renderNode(node, 'agg')], [rect], [createFinding(node, 'info', message), createFinding(node, 'info')]);
+    const notes = callouts.filter((el) => el.type === 'rectangle');
+    const lines = callouts.filter((el): el is ExcalidrawText => el.type === 'text').map((el) => el.text);
+
+    expect(lines.every((line) => line.length <= LINT_CALLOUT.LINE_LENGTH)).toBe(true);
+    expect(notes[1].y).toBeGreaterThanOrEqual(notes[0].y + notes[0].height);
+  });
+
+  it('should skip findings for nodes that were not rendered', () => {
+    const rect: ExcalidrawElement = elementFactory.createRectangle({ id: 'other', x: 0, y: 0, width: 200, height: 80 });
+
+    expect(renderer.render([], [rect], [createFinding(createNode('SortExec'), 'warning')])).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import { ExcalidrawArrow, ExcalidrawElement, ExcalidrawText } from '../../types/excalidraw.types';
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { ElementFactory } from '../factories/element.factory';
+import { TextMeasurement } from '../utils/text-measurement';
+import { IdGenerator } from '../utils/id.generator';
+import { MetricsFormatter } from '../utils/metrics.formatter';
+import { RenderedNode } from '../types/node-info.types';
+import { DetailLine } from '../builders/detail-text.builder';
+import { COLORS, FONT_SIZES, TEXT_HEIGHTS, FONT_FAMILIES, ELEMENT_DEFAULTS, METRICS_OVERLAY } from '../constants';
+
+/**
+ * Metrics Overlay Renderer
+ * Turns an EXPLAIN ANALYZE diagram into a performance heat map:
+ * nodes are shaded by their share of total compute time and every arrow carries
+ * the row count flowing through it. Rows and elapsed time are shown inside each
+ * node as a detail line built by buildDetailLine.
+ */
+export class MetricsOverlayRenderer {
+  private readonly formatter = new MetricsFormatter();
+
+  constructor(
+    private elementFactory: ElementFactory,
+    private textMeasurement: TextMeasurement,
+    private idGenerator: IdGenerator
+  ) {}
+
+  /**
+   * Shades the rectangles of already generated elements in place
+   * Row count labels are drawn with the tree (see renderRowCountLabel)
+   * @param renderedNodes - Nodes in generation order with their node information
+   * @param elements - All elements generated for the plan
+   */
+  render(renderedNodes: RenderedNode[], elements: ExcalidrawElement[]): void {
+    const totalCompute = renderedNodes.reduce(
+      (sum, { node }) => sum + (node.metrics?.elapsedCompute ?? 0),
+      0
+    );
+
+    this.applyHeatColors(renderedNodes, elements, totalCompute);
+  }
+
+  /**
+   * Sums elapsed_compute over a plan tree, the total that node shares are taken of
+   */
+  totalCompute(root: ExecutionPlanNode): number {
+    return root.children.reduce(
+      (sum, child) => sum + this.totalCompute(child),
+      root.metrics?.elapsedCompute ?? 0
+    );
+  }
+
+  /**
+   * Builds the "rows=..., elapsed=... (share)" detail line of a node
+   * @param totalCompute - Total elapsed_compute of the plan (see totalCompute)
+   * @param color - Text color
+   * @returns The line, or undefined if the node has neither output_rows nor elapsed_compute
+   */
+  buildDetailLine(node: ExecutionPlanNode, totalCompute: number, color: string): DetailLine | undefined {
+    const metrics = node.metrics;
+    const parts: string[] = [];
+    if (metrics?.outputRows !== undefined) {
+      parts.push(`rows=${this.formatter.formatCount(metrics.outputRows)}`);
+    }
+    if (metrics?.elapsedCompute !== undefined) {
+      const share = totalCompute > 0 ? ` (${this.formatter.formatPercentage(metrics.elapsedCompute / totalCompute)})` : '';
+      parts.push(`elapsed=${this.formatter.formatDuration(metrics.elapsedCompute)}${share}`);
+    }
+    return parts.length > 0 ? { text: parts.join(', '), color } : undefined;
+  }
+
+  /**
+   * Computes the heat color for a share of total compute time
+   * Interpolates linearly between COLORS.HEAT_COLD (0) and COLORS.HEAT_HOT (1)
+   */
+  heatColor(ratio: number): string {
+    const clamped = Math.min(Math.max(ratio, 0), 1);
+    const cold = this.parseHex(COLORS.HEAT_COLD);
+    const hot = this.parseHex(COLORS.HEAT_HOT);
+    const channels = cold.map((value, i) => Math.round(value + (hot[i] - value) * clamped));
+    return '#' + channels.map((value) => value.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Fills each node rectangle with its heat color
+   * Nodes without elapsed_compute are left untouched
+   */
+  private applyHeatColors(renderedNodes: RenderedNode[], elements: ExcalidrawElement[], totalCompute: number): void {
+    if (totalCompute <= 0) {
+      return;
+    }
+
+    for (const { node, info } of renderedNodes) {
+      const elapsed = node.metrics?.elapsedCompute;
+      if (elapsed === undefined) {
+        continue;
+      }
+      const rect = elements.find((el) => el.id === info.rectId && el.type === 'rectangle');
+      if (rect) {
+        rect.backgroundColor = this.heatColor(elapsed / totalCompute);
+      }
+    }
+  }
+
+  /**
+   * Renders "N rows" next to the arrows leaving a node with output_rows, as drawn top-down:
+   * just below the column labels right of the arrows, in the same group, so that
+   * OrientationRenderer keeps the two together when it turns the tree
+   * @param rectId - Rectangle of the node the arrows leave
+   * @param elements - Elements drawn by the node the arrows enter: the arrows and their column labels
+   * @returns The label, or undefined if the node has no output_rows or no arrows
+   */
+  renderRowCountLabel(node: ExecutionPlanNode, rectId: string, elements: ExcalidrawElement[]): ExcalidrawText | undefined {
+    const outputRows = node.metrics?.outputRows;
+    const outputArrows = elements.filter((el): el is ExcalidrawArrow => el.type === 'arrow' && el.startBinding?.elementId === rectId);
+    if (outputRows === undefined || outputArrows.length === 0) {
+      return undefined;
+    }
+
+    const fontSize = FONT_SIZES.COLUMN_LABEL;
+    const textHeight = TEXT_HEIGHTS.COLUMN_LABEL;
+    const rightmostX = Math.max(...outputArrows.map((arrow) => arrow.x));
+    const startY = outputArrows[0].y;
+    const endY = startY + outputArrows[0].points[outputArrows[0].points.length - 1][1];
+    const midY = (startY + endY) / 2;
+    const text = `${this.formatter.formatCount(outputRows)} rows`;
+
+    const label = this.elementFactory.createText({
+      id: this.idGenerator.generateId(),
+      x: rightmostX + METRICS_OVERLAY.ROW_LABEL_OFFSET,
+      y: midY + textHeight / 2,
+      width: this.textMeasurement.measureText(text, fontSize),
+      height: textHeight,
+      text,
+      fontSize,
+      fontFamily: FONT_FAMILIES.NORMAL,
+      textAlign: 'left',
+      verticalAlign: 'top',
+      strokeColor: COLORS.ROW_COUNT,
+      autoResize: true,
+      lineHeight: ELEMENT_DEFAULTS.LINE_HEIGHT,
+    });
+    const columnLabel = elements.find((el) => el.type === 'text' && el.groupIds.length > 0 &&
+      el.x >= rightmostX && el.y <= midY && midY <= el.y + el.height);
+    label.groupIds = [columnLabel?.groupIds[0] ?? this.idGenerator.generateId()];
+    return label;
+  }
+
+  private parseHex(color: string): number[] {
+    const hex = color.replace('#', '');
+    return [0, 2, 4].map((offset) => parseInt(hex.substring(offset, offset + 2), 16));
+  }
+}
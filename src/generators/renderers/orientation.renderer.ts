@@ -0,0 +1,756 @@
+import { ExcalidrawArrow, ExcalidrawElement, Orientation } from '../../types/excalidraw.types';
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { InputLayout } from '../types/node-info.types';
+import { Bounds, GeometryUtils } from '../utils/geometry.utils';
+import { MeasuredNode, TreeLayoutCalculator } from '../utils/tree-layout.calculator';
+import { ORIENTATION } from '../constants';
+
+/**
+ * A node of a plan tree as drawn top-down
+ */
+export interface OrientedNode {
+  /** The node rectangle */
+  rect: ExcalidrawElement;
+  /** Everything else the node's generator drew for the node itself, including the arrows from its inputs */
+  elements: ExcalidrawElement[];
+  /** How the node's inputs are arranged */
+  inputLayout: InputLayout;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Elements that move together: a group, a shape with the text inside or
+ * just under it, or a single element
+ */
+interface Unit {
+  elements: ExcalidrawElement[];
+  /** Box of the elements as drawn top-down */
+  box: Box;
+}
+
+/**
+ * Column labels of a set of arrows
+ */
+interface ArrowLabel {
+  unit: Unit;
+  arrows: ExcalidrawArrow[];
+  /** Whether the labels were drawn right of the arrows (they go below them when drawn left to right) */
+  after: boolean;
+}
+
+/**
+ * "..." drawn between two arrows for the arrows left out
+ */
+interface ArrowEllipsis {
+  unit: Unit;
+  arrows: [ExcalidrawArrow, ExcalidrawArrow];
+}
+
+/**
+ * A node with what its generator drew for it, sorted by how each part follows the node
+ */
+interface Cell {
+  node: ExecutionPlanNode;
+  rect: ExcalidrawElement;
+  inputLayout: InputLayout;
+  children: Cell[];
+  /** Units starting inside the node's vertical span: moved with the node as they are */
+  body: Unit[];
+  /** Units above or below the node (file ellipses, write targets, panels) */
+  decorations: Unit[];
+  labels: ArrowLabel[];
+  ellipses: ArrowEllipsis[];
+  /** Labels of arrows routed around the subtree (work table loops) */
+  laneLabels: Unit[];
+  /** Arrows drawn as a single segment */
+  arrows: ExcalidrawArrow[];
+  /** Arrows routed around the subtree through waypoints */
+  loops: ExcalidrawArrow[];
+}
+
+/**
+ * Every element of the tree by id, with the node it was drawn for and its box as drawn top-down
+ */
+interface Lookup {
+  elements: Map<string, ExcalidrawElement>;
+  owners: Map<string, Cell>;
+  original: Map<string, Box>;
+}
+
+/**
+ * Orientation Renderer
+ * Redraws a plan tree drawn top-down in another orientation. Node boxes keep their
+ * shape and content; what is drawn around them follows the direction of the flow.
+ * - bottom-up: the tree is mirrored vertically; node bodies are moved, not mirrored,
+ *   and arrows into shapes inside a node (hash tables) end on the moved shape
+ * - left-to-right: inputs are placed left of their node, at a distance that fits the
+ *   column labels between them, and TreeLayoutCalculator spreads siblings vertically.
+ *   Shapes drawn below a node (file ellipses and their groups, scan panels) go left of
+ *   it and shapes drawn above it (write targets) go right of it, turned a quarter turn
+ *   about the node, and arrows are redrawn between the edges they were bound to, turned
+ *   the same way (a top edge becomes a right edge). Column labels are placed above or
+ *   below their arrows, on the side facing away from the arrows they were drawn next to
+ */
+export class OrientationRenderer {
+  /** Tolerance when comparing element edges */
+  private static readonly EPSILON = 0.5;
+
+  constructor(private geometryUtils: GeometryUtils, private treeLayoutCalculator: TreeLayoutCalculator) {}
+
+  /**
+   * Redraws a tree drawn top-down in the given orientation; elements are updated in place
+   * The root node keeps its position
+   * @param drawn - Every node of the tree that was drawn; other inputs are left out
+   */
+  orient(root: ExecutionPlanNode, drawn: Map<ExecutionPlanNode, OrientedNode>, orientation: Orientation): void {
+    if (orientation === 'top-down') {
+      return;
+    }
+
+    const owners = new Map<string, ExecutionPlanNode>();
+    for (const [node, { rect, elements }] of drawn) {
+      for (const element of [rect, ...elements]) {
+        owners.set(element.id, node);
+      }
+    }
+    const cells = new Map<ExecutionPlanNode, Cell>();
+    const rootCell = this.createCell(root, drawn, owners, cells);
+
+    if (orientation === 'bottom-up') {
+      this.flip(rootCell, cells);
+    } else {
+      this.rotate(rootCell, cells);
+    }
+  }
+
+  private createCell(
+    node: ExecutionPlanNode,
+    drawn: Map<ExecutionPlanNode, OrientedNode>,
+    owners: Map<string, ExecutionPlanNode>,
+    cells: Map<ExecutionPlanNode, Cell>
+  ): Cell {
+    const { rect, elements, inputLayout } = drawn.get(node)!;
+    const arrows = elements.filter((el): el is ExcalidrawArrow => el.type === 'arrow');
+    const straight = arrows.filter((arrow) => arrow.points.length <= 2);
+    const loops = arrows.filter((arrow) => arrow.points.length > 2);
+    const lanes = loops.map((loop) => loop.x + loop.points[1][0]);
+    const cell: Cell = {
+      node,
+      rect,
+      inputLayout,
+      children: node.children.filter((child) => drawn.has(child)).map((child) => this.createCell(child, drawn, owners, cells)),
+      body: [],
+      decorations: [],
+      labels: [],
+      ellipses: [],
+      laneLabels: [],
+      arrows: straight,
+      loops,
+    };
+    cells.set(node, cell);
+
+    for (const unit of this.createUnits(elements.filter((el) => el.type !== 'arrow'))) {
+      const { box, elements: members } = unit;
+      const ellipsis = members.length === 1 && members[0].type === 'text' && members[0].text === '...' ?
+        this.findNeighbours(unit, straight) :
+        null;
+      if (box.y >= rect.y - OrientationRenderer.EPSILON && box.y < rect.y + rect.height - OrientationRenderer.EPSILON) {
+        cell.body.push(unit);
+      } else if (lanes.some((lane) => box.x >= lane)) {
+        cell.laneLabels.push(unit);
+      } else if (straight.length > 0 && members[0].groupIds.length > 0 && members.every((el) => el.type === 'text')) {
+        cell.labels.push(this.createArrowLabel(unit, elements, straight, owners));
+      } else if (ellipsis) {
+        cell.ellipses.push({ unit, arrows: ellipsis });
+      } else {
+        cell.decorations.push(unit);
+      }
+    }
+    return cell;
+  }
+
+  /**
+   * Splits elements into units: groups stay together, and texts join the
+   * ellipse they are drawn in or just under
+   */
+  private createUnits(elements: ExcalidrawElement[]): Unit[] {
+    const units: ExcalidrawElement[][] = [];
+    const groups = new Map<string, ExcalidrawElement[]>();
+    const shapes = new Map<string, ExcalidrawElement[]>();
+    for (const element of elements) {
+      const groupId = element.groupIds[0];
+      let unit = groupId ? groups.get(groupId) : undefined;
+      if (!unit && element.type === 'text') {
+        const shape = elements.find((el) => el.type === 'ellipse' && (el.id === element.containerId || this.isUnder(element, el)));
+        unit = shape && shapes.get(shape.id);
+      }
+      if (!unit) {
+        unit = [];
+        units.push(unit);
+      }
+      unit.push(element);
+      if (groupId) {
+        groups.set(groupId, unit);
+      }
+      if (element.type === 'ellipse') {
+        shapes.set(element.id, unit);
+      }
+    }
+    return units.map((unit) => ({ elements: unit, box: this.toBox(this.geometryUtils.getBounds(unit)) }));
+  }
+
+  private isUnder(text: ExcalidrawElement, shape: ExcalidrawElement): boolean {
+    const centerX = text.x + text.width / 2;
+    return Math.abs(text.y - (shape.y + shape.height)) <= OrientationRenderer.EPSILON && centerX >= shape.x && centerX <= shape.x + shape.width;
+  }
+
+  /**
+   * Finds the arrows labeled by a column label group: generators draw the labels
+   * right after the arrows of an input, otherwise the arrows sharing the start
+   * node and end element of the arrow closest to the labels are taken
+   */
+  private createArrowLabel(
+    unit: Unit,
+    elements: ExcalidrawElement[],
+    arrows: ExcalidrawArrow[],
+    owners: Map<string, ExecutionPlanNode>
+  ): ArrowLabel {
+    const centerX = unit.box.x + unit.box.width / 2;
+    const centerY = unit.box.y + unit.box.height / 2;
+    const distance = (arrow: ExcalidrawArrow): number => Math.abs(centerX - this.xAt(arrow, centerY));
+    const closestOf = (candidates: ExcalidrawArrow[]): ExcalidrawArrow =>
+      candidates.reduce((best, arrow) => distance(arrow) < distance(best) ? arrow : best);
+
+    const preceding: ExcalidrawArrow[] = [];
+    for (let i = elements.indexOf(unit.elements[0]) - 1; i >= 0 && !(elements[i].type === 'text' && elements[i].groupIds.length > 0); i--) {
+      const element = elements[i];
+      if (element.type === 'arrow' && arrows.includes(element)) {
+        preceding.push(element);
+      }
+    }
+    if (preceding.length > 0) {
+      return { unit, arrows: preceding, after: centerX > this.xAt(closestOf(preceding), centerY) };
+    }
+
+    const closest = closestOf(arrows);
+    const startOwner = (arrow: ExcalidrawArrow): ExecutionPlanNode | undefined => owners.get(arrow.startBinding?.elementId ?? '');
+    return {
+      unit,
+      arrows: arrows.filter((arrow) => startOwner(arrow) === startOwner(closest) && arrow.endBinding?.elementId === closest.endBinding?.elementId),
+      after: centerX > this.xAt(closest, centerY),
+    };
+  }
+
+  /**
+   * The arrows left and right of a "..." drawn across them, if any
+   */
+  private findNeighbours(unit: Unit, arrows: ExcalidrawArrow[]): [ExcalidrawArrow, ExcalidrawArrow] | null {
+    const centerX = unit.box.x + unit.box.width / 2;
+    const centerY = unit.box.y + unit.box.height / 2;
+    const crossing = arrows.filter((arrow) => {
+      const [[, startY], [, endY]] = this.absolutePoints(arrow);
+      return Math.min(startY, endY) <= centerY && centerY <= Math.max(startY, endY);
+    });
+    const left = crossing.filter((arrow) => this.xAt(arrow, centerY) < centerX);
+    const right = crossing.filter((arrow) => this.xAt(arrow, centerY) > centerX);
+    if (left.length === 0 || right.length === 0) {
+      return null;
+    }
+    const byDistance = (a: ExcalidrawArrow, b: ExcalidrawArrow): number =>
+      Math.abs(this.xAt(a, centerY) - centerX) - Math.abs(this.xAt(b, centerY) - centerX);
+    return [left.sort(byDistance)[0], right.sort(byDistance)[0]];
+  }
+
+  /**
+   * Bottom-up: mirrors everything about the middle of the root node
+   * Nodes and the shapes inside them are moved rather than mirrored, so their text stays in place
+   */
+  private flip(root: Cell, cells: Map<ExecutionPlanNode, Cell>): void {
+    const axis = 2 * root.rect.y + root.rect.height;
+    const mirror = (y: number, height: number): number => axis - y - height;
+    const bodies = new Map<string, { element: ExcalidrawElement; shift: number }>();
+
+    for (const cell of cells.values()) {
+      const shift = mirror(cell.rect.y, cell.rect.height) - cell.rect.y;
+      cell.rect.y += shift;
+      for (const unit of cell.body) {
+        this.moveUnit(unit, 0, shift);
+        unit.elements.forEach((element) => bodies.set(element.id, { element, shift }));
+      }
+      const outside = [...cell.decorations, ...cell.labels.map(({ unit }) => unit), ...cell.ellipses.map(({ unit }) => unit), ...cell.laneLabels];
+      for (const unit of outside) {
+        this.moveUnit(unit, 0, mirror(unit.box.y, unit.box.height) - unit.box.y);
+      }
+    }
+
+    for (const cell of cells.values()) {
+      for (const arrow of [...cell.arrows, ...cell.loops]) {
+        const original = this.absolutePoints(arrow);
+        const points = original.map(([px, py]): [number, number] => [px, axis - py]);
+        // Ends on shapes inside a node follow the moved shape
+        const ends = [
+          { index: 0, neighbour: 1, inside: bodies.get(arrow.startBinding?.elementId ?? '') },
+          { index: points.length - 1, neighbour: points.length - 2, inside: bodies.get(arrow.endBinding?.elementId ?? '') },
+        ];
+        for (const { index, neighbour, inside } of ends) {
+          if (inside) {
+            points[index] = inside.element.type === 'ellipse' ?
+              this.edgePoint(points[neighbour], inside.element) :
+              [original[index][0], original[index][1] + inside.shift];
+          }
+        }
+        this.setPoints(arrow, points);
+      }
+    }
+  }
+
+  /**
+   * Left-to-right: places every node left of its parent and lays out siblings vertically,
+   * then redraws arrows, column labels and loops around the new positions
+   */
+  private rotate(root: Cell, cells: Map<ExecutionPlanNode, Cell>): void {
+    const all = [...cells.values()];
+    const lookup: Lookup = { elements: new Map(), owners: new Map(), original: new Map() };
+    for (const cell of all) {
+      for (const element of [cell.rect, ...this.unitsOf(cell).flatMap((unit) => unit.elements)]) {
+        lookup.elements.set(element.id, element);
+        lookup.owners.set(element.id, cell);
+        lookup.original.set(element.id, this.toBox(element));
+      }
+    }
+    const points = new Map(all.flatMap((cell) => [...cell.arrows, ...cell.loops]).map((arrow) => [arrow, this.absolutePoints(arrow)]));
+    const laneOffsets = new Map(all.flatMap((cell) => cell.loops.map((loop) => [loop, points.get(loop)![1][0] - this.inputBounds(cell).maxX])));
+
+    // Room left of each node for its inputs: as far as they were drawn below it, or wider to fit the column labels
+    const gaps = new Map<Cell, { nearest: number; gap: number }>();
+    for (const cell of all) {
+      const bottom = cell.rect.y + cell.rect.height;
+      const distances = [
+        ...cell.children.map((child) => child.rect.y - bottom),
+        ...cell.decorations.filter((unit) => this.isBelow(unit, cell)).map((unit) => unit.box.y - bottom),
+      ];
+      const nearest = distances.length > 0 ? Math.max(0, Math.min(...distances)) : 0;
+      const labelWidth = Math.max(0, ...cell.labels.map(({ unit }) => unit.box.width + 2 * ORIENTATION.LABEL_MARGIN));
+      gaps.set(cell, { nearest, gap: Math.max(nearest, labelWidth) });
+    }
+
+    // Boxes relative to the top-left corner of the node, as drawn left to right
+    const local = new Map<ExcalidrawElement, Box>();
+    const extents = new Map<Cell, Box[]>();
+    for (const cell of all) {
+      extents.set(cell, this.layoutCell(cell, gaps.get(cell)!, local));
+    }
+    for (const cell of all) {
+      for (const label of cell.labels) {
+        this.estimateLabel(cell, label, gaps.get(cell)!.gap, lookup, local, points, extents);
+      }
+    }
+
+    // Horizontal positions: each input ends where the gap left of its parent starts
+    const positionsX = new Map<Cell, number>();
+    const placeX = (cell: Cell, x: number): void => {
+      positionsX.set(cell, x);
+      for (const child of cell.children) {
+        const right = Math.max(child.rect.width, ...[...child.body, ...child.decorations]
+          .flatMap((unit) => unit.elements).map((el) => local.get(el)!.x + local.get(el)!.width));
+        placeX(child, x - gaps.get(cell)!.gap - right);
+      }
+    };
+    placeX(root, root.rect.x);
+
+    // Vertical positions: the tree layout in the turned frame, inputs preferring to be centered on their node
+    const measured = new Map<ExecutionPlanNode, MeasuredNode>();
+    const measure = (cell: Cell, y: number): void => {
+      const extent = this.union(extents.get(cell)!);
+      const x = positionsX.get(cell)!;
+      measured.set(cell.node, {
+        x: y,
+        width: cell.rect.height,
+        bounds: { minX: y + extent.y, maxX: y + extent.y + extent.height, minY: x + extent.x, maxY: x + extent.x + extent.width },
+        inputLayout: cell.inputLayout,
+      });
+      cell.children.forEach((child) => measure(child, y + (cell.rect.height - child.rect.height) / 2));
+    };
+    measure(root, root.rect.y);
+    const positionsY = this.treeLayoutCalculator.layout(root.node, measured);
+
+    for (const cell of all) {
+      const x = positionsX.get(cell)!;
+      const y = positionsY.get(cell.node)!;
+      cell.rect.x = x;
+      cell.rect.y = y;
+      for (const element of [...cell.body, ...cell.decorations].flatMap((unit) => unit.elements)) {
+        const box = local.get(element)!;
+        Object.assign(element, { x: x + box.x, y: y + box.y, width: box.width, height: box.height });
+      }
+    }
+
+    const bodies = new Set(all.flatMap((cell) => cell.body.flatMap((unit) => unit.elements)));
+    for (const cell of all) {
+      for (const arrow of cell.arrows) {
+        this.rotateArrow(arrow, points.get(arrow)!, cell, gaps.get(cell)!, lookup, bodies);
+      }
+      for (const label of cell.labels) {
+        this.placeLabel(cell, label, lookup);
+      }
+      for (const { unit, arrows } of cell.ellipses) {
+        const middles = arrows.map((arrow) => this.absolutePoints(arrow)).map(([[x1, y1], [x2, y2]]) => [(x1 + x2) / 2, (y1 + y2) / 2]);
+        const centerX = (middles[0][0] + middles[1][0]) / 2;
+        const centerY = (middles[0][1] + middles[1][1]) / 2;
+        this.moveUnit(unit, centerX - unit.box.width / 2 - unit.box.x, centerY - unit.box.height / 2 - unit.box.y);
+      }
+    }
+
+    // Loops go below the inputs instead of right of them; inner loops first
+    const placeLoops = (cell: Cell): void => {
+      cell.children.forEach(placeLoops);
+      const lanes = cell.loops.map((loop) => {
+        const loopPoints = points.get(loop)!;
+        const startId = loop.startBinding?.elementId ?? '';
+        const start = this.rotateEdgePoint(loopPoints[0], lookup.original.get(startId)!, lookup.elements.get(startId)!);
+        const end = this.rotateEdgePoint(loopPoints[loopPoints.length - 1], lookup.original.get(cell.rect.id)!, cell.rect);
+        const laneY = this.inputBounds(cell).maxY + laneOffsets.get(loop)!;
+        this.setPoints(loop, [start, [start[0], laneY], [end[0], laneY], end]);
+        return { laneX: loopPoints[1][0], centerY: (loopPoints[0][1] + loopPoints[loopPoints.length - 1][1]) / 2, start, end, laneY };
+      });
+      for (const unit of cell.laneLabels) {
+        const centerY = unit.box.y + unit.box.height / 2;
+        const lane = lanes.reduce((best, candidate) => Math.abs(candidate.centerY - centerY) < Math.abs(best.centerY - centerY) ? candidate : best);
+        const x = (lane.start[0] + lane.end[0]) / 2 - unit.box.width / 2;
+        this.moveUnit(unit, x - unit.box.x, lane.laneY + unit.box.x - lane.laneX - unit.box.y);
+      }
+    };
+    placeLoops(root);
+  }
+
+  /**
+   * Boxes of the node's body and decorations relative to its top-left corner when drawn left to right
+   * Decorations are turned about the node: what was drawn below it goes left of it (starting
+   * at the gap left for its inputs), what was drawn above goes right of it, and horizontal
+   * offsets from the middle of the node become vertical ones. Shapes keep their size except
+   * rectangles, which are turned too, or fitted around the shapes they were drawn around
+   * @returns The boxes, node included
+   */
+  private layoutCell(cell: Cell, { nearest, gap }: { nearest: number; gap: number }, local: Map<ExcalidrawElement, Box>): Box[] {
+    const { rect } = cell;
+    const middle = rect.x + rect.width / 2;
+    for (const unit of cell.body) {
+      for (const element of unit.elements) {
+        local.set(element, { x: element.x - rect.x, y: element.y - rect.y, width: element.width, height: element.height });
+      }
+    }
+
+    const frames: Array<{ unit: Unit; around: Unit[] }> = [];
+    for (const unit of cell.decorations) {
+      const { box } = unit;
+      const centerX = box.x + box.width / 2;
+      const centerY = box.y + box.height / 2;
+      const newCenterX = this.isBelow(unit, cell) ?
+        -(gap + centerY - rect.y - rect.height - nearest) :
+        rect.width + rect.y - centerY;
+      const newCenterY = rect.height / 2 + centerX - middle;
+      const turned = unit.elements.length === 1 && unit.elements[0].type === 'rectangle';
+      if (turned) {
+        local.set(unit.elements[0], { x: newCenterX - box.height / 2, y: newCenterY - box.width / 2, width: box.height, height: box.width });
+        const around = cell.decorations.filter((other) => other !== unit && this.encloses(box, other.box));
+        if (around.length > 0) {
+          frames.push({ unit, around });
+        }
+        continue;
+      }
+      for (const element of unit.elements) {
+        local.set(element, {
+          x: newCenterX + element.x - centerX,
+          y: newCenterY + element.y - centerY,
+          width: element.width,
+          height: element.height,
+        });
+      }
+    }
+
+    // Rectangles drawn around other shapes (file groups) are fitted around them again
+    for (const { unit, around } of frames) {
+      const frame = unit.box;
+      const inner = this.union(around.map(({ box }) => box));
+      const padding = Math.min(inner.x - frame.x, inner.y - frame.y, frame.x + frame.width - inner.x - inner.width, frame.y + frame.height - inner.y - inner.height);
+      const turned = this.union(around.flatMap(({ elements }) => elements).map((el) => local.get(el)!));
+      local.set(unit.elements[0], {
+        x: turned.x - padding,
+        y: turned.y - padding,
+        width: turned.width + 2 * padding,
+        height: turned.height + 2 * padding,
+      });
+    }
+    this.separateDecorations(cell, local);
+
+    return [
+      { x: 0, y: 0, width: rect.width, height: rect.height },
+      ...[...cell.body, ...cell.decorations].flatMap((unit) => unit.elements).map((el) => local.get(el)!),
+    ];
+  }
+
+  /**
+   * Decorations that were stacked below (or above) the node keep their width when turned,
+   * so a wide one can run into its neighbour; each is pushed away from the node until it
+   * clears the decorations drawn closer to the node by the distance it had from them
+   * A rectangle moves together with the shapes drawn inside it
+   */
+  private separateDecorations(cell: Cell, local: Map<ExcalidrawElement, Box>): void {
+    const outermost = cell.decorations.filter((unit) => !cell.decorations.some((other) => other !== unit && this.encloses(other.box, unit.box)));
+    for (const below of [true, false]) {
+      const blocks = outermost
+        .filter((unit) => this.isBelow(unit, cell) === below)
+        .map((unit) => ({ unit, members: [unit, ...cell.decorations.filter((other) => other !== unit && this.encloses(unit.box, other.box))] }))
+        .sort((a, b) => below ? a.unit.box.y - b.unit.box.y : b.unit.box.y - a.unit.box.y);
+      const placed: Array<{ original: Box; box: Box }> = [];
+      for (const { unit, members } of blocks) {
+        const elements = members.flatMap(({ elements }) => elements);
+        let box = this.union(elements.map((el) => local.get(el)!));
+        let shift = 0;
+        for (const other of placed) {
+          const overlaps = box.y < other.box.y + other.box.height && other.box.y < box.y + box.height;
+          const distance = below ?
+            unit.box.y - other.original.y - other.original.height :
+            other.original.y - unit.box.y - unit.box.height;
+          if (overlaps) {
+            shift = below ?
+              Math.min(shift, other.box.x - distance - box.x - box.width) :
+              Math.max(shift, other.box.x + other.box.width + distance - box.x);
+          }
+        }
+        if (shift !== 0) {
+          for (const element of elements) {
+            const old = local.get(element)!;
+            local.set(element, { ...old, x: old.x + shift });
+          }
+          box = { ...box, x: box.x + shift };
+        }
+        placed.push({ original: unit.box, box });
+      }
+    }
+  }
+
+  /**
+   * Reserves room for column labels next to the arrows they label, in the layout
+   * of the node the arrows start from, before the final positions are known
+   */
+  private estimateLabel(
+    cell: Cell,
+    label: ArrowLabel,
+    gap: number,
+    lookup: Lookup,
+    local: Map<ExcalidrawElement, Box>,
+    points: Map<ExcalidrawArrow, Array<[number, number]>>,
+    extents: Map<Cell, Box[]>
+  ): void {
+    const starts = label.arrows.flatMap((arrow) => {
+      const id = arrow.startBinding?.elementId ?? '';
+      const owner = lookup.owners.get(id);
+      const element = lookup.elements.get(id);
+      const box = element && owner && (element === owner.rect ? { x: 0, y: 0, width: owner.rect.width, height: owner.rect.height } : local.get(element));
+      return box ? [{ owner: owner!, box, point: this.rotateEdgePoint(points.get(arrow)![0], lookup.original.get(id)!, box) }] : [];
+    });
+    if (starts.length === 0) {
+      return;
+    }
+
+    const { owner } = starts[0];
+    const right = Math.max(...starts.map(({ box }) => box.x + box.width));
+    const end = owner === cell ? 0 : right + gap;
+    const ys = starts.map(({ point }) => point[1]);
+    const { width, height } = label.unit.box;
+    extents.get(owner)!.push({
+      x: (right + end) / 2 - width / 2,
+      y: label.after ? Math.max(...ys) + ORIENTATION.LABEL_GAP : Math.min(...ys) - ORIENTATION.LABEL_GAP - height,
+      width,
+      height,
+    });
+  }
+
+  /**
+   * Places column labels halfway between the node and where their arrows start,
+   * just above or below the arrows
+   */
+  private placeLabel(cell: Cell, label: ArrowLabel, lookup: Lookup): void {
+    const starts = label.arrows.flatMap((arrow) => lookup.elements.get(arrow.startBinding?.elementId ?? '') ?? []);
+    if (starts.length === 0) {
+      return;
+    }
+    const right = Math.max(...starts.map((el) => el.x + el.width));
+    const { width, height } = label.unit.box;
+    const left = (right + cell.rect.x) / 2 - width / 2;
+    const ys = label.arrows.flatMap((arrow) => [this.yAt(arrow, left), this.yAt(arrow, left + width)]);
+    const top = label.after ? Math.max(...ys) + ORIENTATION.LABEL_GAP : Math.min(...ys) - ORIENTATION.LABEL_GAP - height;
+    this.moveUnit(label.unit, left - label.unit.box.x, top - label.unit.box.y);
+  }
+
+  /**
+   * Redraws a straight arrow between the turned edges of the elements it is bound to;
+   * arrows into shapes inside a node end where they meet the shape
+   */
+  private rotateArrow(
+    arrow: ExcalidrawArrow,
+    [start, ...rest]: Array<[number, number]>,
+    cell: Cell,
+    gaps: { nearest: number; gap: number },
+    lookup: Lookup,
+    bodies: Set<ExcalidrawElement>
+  ): void {
+    const end = rest[rest.length - 1];
+    const startElement = lookup.elements.get(arrow.startBinding?.elementId ?? '');
+    const endElement = lookup.elements.get(arrow.endBinding?.elementId ?? '');
+    const turn = (point: [number, number], element: ExcalidrawElement | undefined): [number, number] => element ?
+      this.rotateEdgePoint(point, lookup.original.get(element.id)!, element) :
+      this.rotateFreePoint(point, cell, gaps, lookup.original.get(cell.rect.id)!);
+    let newStart = turn(start, startElement);
+    let newEnd = turn(end, endElement);
+    // Vertical arrows between boxes stay straight where the two edges face each other
+    if (Math.abs(start[0] - end[0]) < OrientationRenderer.EPSILON && startElement?.type === 'rectangle' && endElement?.type === 'rectangle') {
+      const top = Math.max(startElement.y, endElement.y);
+      const bottom = Math.min(startElement.y + startElement.height, endElement.y + endElement.height);
+      if (top <= bottom) {
+        const y = this.clamp(newStart[1], top, bottom);
+        newStart = [newStart[0], y];
+        newEnd = [newEnd[0], y];
+      }
+    }
+    if (endElement && endElement.type === 'ellipse' && bodies.has(endElement)) {
+      newEnd = this.edgePoint(newStart, endElement);
+    }
+    if (startElement && startElement.type === 'ellipse' && bodies.has(startElement)) {
+      newStart = this.edgePoint(newEnd, startElement);
+    }
+    this.setPoints(arrow, [newStart, newEnd]);
+  }
+
+  /**
+   * Moves a point on the edge of a box drawn top-down to the matching point of the box
+   * drawn left to right: top edges become right edges, bottom edges left edges, left
+   * edges top edges and right edges bottom edges, keeping the point's share of the edge
+   */
+  private rotateEdgePoint([px, py]: [number, number], before: Box, after: Box): [number, number] {
+    const distances = [
+      Math.abs(py - before.y),
+      Math.abs(before.y + before.height - py),
+      Math.abs(px - before.x),
+      Math.abs(before.x + before.width - px),
+    ];
+    const side = distances.indexOf(Math.min(...distances));
+    const share = (offset: number, length: number): number => length > 0 ? this.clamp(offset / length, 0, 1) : 0.5;
+    const alongX = share(px - before.x, before.width);
+    const alongY = share(py - before.y, before.height);
+    switch (side) {
+    case 0:
+      return [after.x + after.width, after.y + alongX * after.height];
+    case 1:
+      return [after.x, after.y + alongX * after.height];
+    case 2:
+      return [after.x + (1 - alongY) * after.width, after.y];
+    default:
+      return [after.x + (1 - alongY) * after.width, after.y + after.height];
+    }
+  }
+
+  /**
+   * Moves a point not bound to any element the way decorations of its node move
+   */
+  private rotateFreePoint([px, py]: [number, number], { rect }: Cell, { nearest, gap }: { nearest: number; gap: number }, before: Box): [number, number] {
+    const y = rect.y + rect.height / 2 + px - before.x - before.width / 2;
+    return [rect.x + (py > before.y + before.height ? -(gap + py - before.y - before.height - nearest) : rect.width + before.y - py), y];
+  }
+
+  private isBelow(unit: Unit, cell: Cell): boolean {
+    return unit.box.y + unit.box.height / 2 > cell.rect.y + cell.rect.height;
+  }
+
+  private encloses(outer: Box, inner: Box): boolean {
+    return inner.x >= outer.x && inner.y >= outer.y && inner.x + inner.width <= outer.x + outer.width && inner.y + inner.height <= outer.y + outer.height;
+  }
+
+  /**
+   * Bounds of everything drawn for the inputs of a node, arrows excluded
+   */
+  private inputBounds(cell: Cell): Bounds {
+    const collect = (input: Cell): ExcalidrawElement[] => [
+      input.rect,
+      ...this.unitsOf(input).flatMap((unit) => unit.elements),
+      ...input.children.flatMap(collect),
+    ];
+    return this.geometryUtils.getBounds(cell.children.flatMap(collect));
+  }
+
+  private unitsOf(cell: Cell): Unit[] {
+    return [...cell.body, ...cell.decorations, ...cell.labels.map(({ unit }) => unit), ...cell.ellipses.map(({ unit }) => unit), ...cell.laneLabels];
+  }
+
+  private moveUnit(unit: Unit, dx: number, dy: number): void {
+    for (const element of unit.elements) {
+      element.x += dx;
+      element.y += dy;
+    }
+  }
+
+  private edgePoint([px, py]: [number, number], ellipse: ExcalidrawElement): [number, number] {
+    return this.geometryUtils.getEllipseEdgePoint(px, py, ellipse.x + ellipse.width / 2, ellipse.y + ellipse.height / 2, ellipse.width, ellipse.height);
+  }
+
+  /**
+   * X of an arrow's first segment at a given y, clamped to its ends
+   */
+  private xAt(arrow: ExcalidrawArrow, y: number): number {
+    const [[x1, y1], [x2, y2]] = this.absolutePoints(arrow);
+    const t = y2 === y1 ? 0 : this.clamp((y - y1) / (y2 - y1), 0, 1);
+    return x1 + t * (x2 - x1);
+  }
+
+  /**
+   * Y of an arrow's first segment at a given x, clamped to its ends
+   */
+  private yAt(arrow: ExcalidrawArrow, x: number): number {
+    const [[x1, y1], [x2, y2]] = this.absolutePoints(arrow);
+    const t = x2 === x1 ? 0 : this.clamp((x - x1) / (x2 - x1), 0, 1);
+    return y1 + t * (y2 - y1);
+  }
+
+  private absolutePoints(arrow: ExcalidrawArrow): Array<[number, number]> {
+    return arrow.points.map(([px, py]): [number, number] => [arrow.x + px, arrow.y + py]);
+  }
+
+  /**
+   * Rewrites the absolute points of an arrow and updates its position and size
+   */
+  private setPoints(arrow: ExcalidrawArrow, points: Array<[number, number]>): void {
+    const [startX, startY] = points[0];
+    const xs = points.map(([px]) => px);
+    const ys = points.map(([, py]) => py);
+    arrow.x = startX;
+    arrow.y = startY;
+    arrow.points = points.map(([px, py]) => [px - startX, py - startY]);
+    arrow.width = Math.max(...xs) - Math.min(...xs);
+    arrow.height = Math.max(...ys) - Math.min(...ys);
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+  }
+
+  private union(boxes: Box[]): Box {
+    const minX = Math.min(...boxes.map((box) => box.x));
+    const minY = Math.min(...boxes.map((box) => box.y));
+    const maxX = Math.max(...boxes.map((box) => box.x + box.width));
+    const maxY = Math.max(...boxes.map((box) => box.y + box.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  }
+
+  private toBox(bounds: Bounds | Box): Box {
+    return 'minX' in bounds ?
+      { x: bounds.minX, y: bounds.minY, width: bounds.maxX - bounds.minX, height: bounds.maxY - bounds.minY } :
+      { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height };
+  }
+}
@@ -0,0 +1,143 @@
+import { ExcalidrawArrow, ExcalidrawElement, ExcalidrawText } from '../../types/excalidraw.types';
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { PlanDiffNode, PlanDiffStatus, PlanPropertyChange } from '../../types/plan-diff.types';
+import { ElementFactory } from '../factories/element.factory';
+import { TextMeasurement } from '../utils/text-measurement';
+import { IdGenerator } from '../utils/id.generator';
+import { RenderedNode } from '../types/node-info.types';
+import { COLORS, DIFF_OVERLAY, ELEMENT_DEFAULTS, FONT_FAMILIES, FONT_SIZES, TEXT_HEIGHTS } from '../constants';
+
+/**
+ * Plan Diff Overlay Renderer
+ * Highlights a diagram of a merged diff tree: added operators are outlined
+ * green, removed operators red and drawn as ghosts, changed operators orange
+ * with their changed properties listed to the right of the node
+ */
+export class PlanDiffOverlayRenderer {
+  private static readonly STATUS_COLORS: Record<Exclude<PlanDiffStatus, 'unchanged'>, string> = {
+    added: COLORS.DIFF_ADDED,
+    removed: COLORS.DIFF_REMOVED,
+    changed: COLORS.DIFF_CHANGED,
+  };
+
+  constructor(
+    private elementFactory: ElementFactory,
+    private textMeasurement: TextMeasurement,
+    private idGenerator: IdGenerator
+  ) {}
+
+  /**
+   * Applies the overlay to already generated elements
+   * Rectangles are restyled in place; new text elements are returned
+   * @param renderedNodes - Nodes in generation order with their node information
+   * @param elements - All elements generated for the merged plan
+   * @param diffs - Diff node for every rendered plan node
+   */
+  render(
+    renderedNodes: RenderedNode[],
+    elements: ExcalidrawElement[],
+    diffs: Map<ExecutionPlanNode, PlanDiffNode>
+  ): ExcalidrawText[] {
+    const labels: ExcalidrawText[] = [];
+
+    for (const { node, info } of renderedNodes) {
+      const diff = diffs.get(node);
+      const rect = elements.find((el) => el.id === info.rectId && el.type === 'rectangle');
+      if (!diff || !rect || diff.status === 'unchanged') {
+        continue;
+      }
+
+      const color = PlanDiffOverlayRenderer.STATUS_COLORS[diff.status];
+      rect.strokeColor = color;
+      rect.strokeWidth = DIFF_OVERLAY.STROKE_WIDTH;
+
+      if (diff.status === 'removed') {
+        this.ghost(rect, elements);
+      }
+
+      labels.push(...this.renderLabels(rect, diff));
+    }
+
+    return labels;
+  }
+
+  /**
+   * Renders the annotation lines of a diff node to the right of its rectangle,
+   * vertically centered on it: the changed properties, or the operator it replaces
+   * Also used before layout, so that the labels take part in the node's measured bounds
+   */
+  renderLabels(rect: ExcalidrawElement, diff: PlanDiffNode): ExcalidrawText[] {
+    if (diff.status === 'unchanged') {
+      return [];
+    }
+    const lines = diff.replaced ?
+      [`replaces ${diff.replaced.operator}`] :
+      diff.changes.map((change) => this.formatChange(change));
+    return this.renderLabel(rect, lines, PlanDiffOverlayRenderer.STATUS_COLORS[diff.status]);
+  }
+
+  /**
+   * Formats a property change as "key: before → after"
+   */
+  formatChange(change: PlanPropertyChange): string {
+    const before = change.before === undefined ? '(none)' : this.shorten(change.before);
+    const after = change.after === undefined ? '(none)' : this.shorten(change.after);
+    return `${change.key}: ${before} → ${after}`;
+  }
+
+  /**
+   * Fades a removed node: its rectangle becomes dashed, and everything drawn
+   * inside it as well as its output arrows become translucent
+   */
+  private ghost(rect: ExcalidrawElement, elements: ExcalidrawElement[]): void {
+    rect.strokeStyle = 'dashed';
+
+    for (const element of elements) {
+      const isOutputArrow = element.type === 'arrow' && (element as ExcalidrawArrow).startBinding?.elementId === rect.id;
+      const isInside = element.type !== 'arrow' &&
+        element.x >= rect.x && element.x + element.width <= rect.x + rect.width &&
+        element.y >= rect.y && element.y + element.height <= rect.y + rect.height;
+      if (isOutputArrow || isInside) {
+        element.opacity = DIFF_OVERLAY.GHOST_OPACITY;
+      }
+      if (isOutputArrow) {
+        element.strokeStyle = 'dashed';
+      }
+    }
+  }
+
+  /**
+   * Renders annotation lines to the right of a node, vertically centered on it
+   */
+  private renderLabel(rect: ExcalidrawElement, lines: string[], color: string): ExcalidrawText[] {
+    const fontSize = FONT_SIZES.DETAILS;
+    const lineHeight = TEXT_HEIGHTS.DETAILS_LINE;
+    let currentY = rect.y + (rect.height - lines.length * lineHeight) / 2;
+
+    return lines.map((line) => {
+      const text = this.elementFactory.createText({
+        id: this.idGenerator.generateId(),
+        x: rect.x + rect.width + DIFF_OVERLAY.LABEL_GAP,
+        y: currentY,
+        width: this.textMeasurement.measureText(line, fontSize),
+        height: lineHeight,
+        text: line,
+        fontSize,
+        fontFamily: FONT_FAMILIES.NORMAL,
+        textAlign: 'left',
+        verticalAlign: 'top',
+        strokeColor: color,
+        autoResize: true,
+        lineHeight: ELEMENT_DEFAULTS.LINE_HEIGHT,
+      });
+      currentY += lineHeight;
+      return text;
+    });
+  }
+
+  private shorten(value: string): string {
+    return value.length > DIFF_OVERLAY.MAX_VALUE_LENGTH ?
+      `${value.substring(0, DIFF_OVERLAY.MAX_VALUE_LENGTH - 3)}...` :
+      value;
+  }
+}
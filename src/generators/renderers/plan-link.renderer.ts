@@ -0,0 +1,61 @@
+import { ExcalidrawArrow, ExcalidrawElement } from '../../types/excalidraw.types';
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { ElementFactory } from '../factories/element.factory';
+import { IdGenerator } from '../utils/id.generator';
+import { PlanNodeLink } from '../utils/plan-node.matcher';
+import { RenderedNode } from '../types/node-info.types';
+import { COLORS } from '../constants';
+
+/**
+ * Plan Link Renderer
+ * Draws dashed connector arrows from logical operators to the physical
+ * operators that implement them on a side-by-side canvas
+ */
+export class PlanLinkRenderer {
+  constructor(
+    private elementFactory: ElementFactory,
+    private idGenerator: IdGenerator
+  ) {}
+
+  /**
+   * Renders one arrow per link, from the right edge of the logical node to
+   * the left edge of the physical node, and binds it to both rectangles
+   * @param links - Logical/physical node pairs
+   * @param renderedNodes - Nodes of both plans with their node information
+   * @param elements - All elements already on the canvas (rectangles are looked up here)
+   */
+  render(links: PlanNodeLink[], renderedNodes: RenderedNode[], elements: ExcalidrawElement[]): ExcalidrawArrow[] {
+    const rectIds = new Map<ExecutionPlanNode, string>(renderedNodes.map(({ node, info }) => [node, info.rectId]));
+    const arrows: ExcalidrawArrow[] = [];
+
+    for (const { logical, physical } of links) {
+      const logicalRect = this.findRectangle(elements, rectIds.get(logical));
+      const physicalRect = this.findRectangle(elements, rectIds.get(physical));
+      if (!logicalRect || !physicalRect) {
+        continue;
+      }
+
+      const arrow = this.elementFactory.createArrow({
+        id: this.idGenerator.generateId(),
+        startX: logicalRect.x + logicalRect.width,
+        startY: logicalRect.y + logicalRect.height / 2,
+        endX: physicalRect.x,
+        endY: physicalRect.y + physicalRect.height / 2,
+        childRectId: logicalRect.id,
+        parentRectId: physicalRect.id,
+        strokeColor: COLORS.PLAN_LINK,
+        strokeStyle: 'dashed',
+      });
+      for (const rect of [logicalRect, physicalRect]) {
+        rect.boundElements = [...(rect.boundElements ?? []), { id: arrow.id, type: 'arrow' }];
+      }
+      arrows.push(arrow);
+    }
+
+    return arrows;
+  }
+
+  private findRectangle(elements: ExcalidrawElement[], rectId: string | undefined): ExcalidrawElement | undefined {
+    return rectId === undefined ? undefined : elements.find((el) => el.id === rectId && el.type === 'rectangle');
+  }
+}
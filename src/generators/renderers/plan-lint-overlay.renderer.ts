@@ -0,0 +1,126 @@
+import { ExcalidrawElement } from '../../types/excalidraw.types';
+import { LintFinding, LintSeverity } from '../../types/plan-lint.types';
+import { ElementFactory } from '../factories/element.factory';
+import { TextMeasurement } from '../utils/text-measurement';
+import { IdGenerator } from '../utils/id.generator';
+import { GeometryUtils } from '../utils/geometry.utils';
+import { RenderedNode } from '../types/node-info.types';
+import { COLORS, ELEMENT_DEFAULTS, FONT_FAMILIES, FONT_SIZES, LINT_CALLOUT, TEXT_HEIGHTS } from '../constants';
+
+/**
+ * Plan Lint Overlay Renderer
+ * Draws lint findings as callouts: flagged nodes are outlined in the color of
+ * their most severe finding, and each finding becomes a note in a column to
+ * the right of the plan with a dashed arrow pointing at its node
+ */
+export class PlanLintOverlayRenderer {
+  private static readonly SEVERITY_COLORS: Record<LintSeverity, { stroke: string; background: string }> = {
+    warning: { stroke: COLORS.LINT_WARNING, background: COLORS.LINT_WARNING_BACKGROUND },
+    info: { stroke: COLORS.LINT_INFO, background: COLORS.LINT_INFO_BACKGROUND },
+  };
+
+  constructor(
+    private elementFactory: ElementFactory,
+    private textMeasurement: TextMeasurement,
+    private idGenerator: IdGenerator,
+    private geometryUtils: GeometryUtils
+  ) {}
+
+  /**
+   * Applies the overlay to already generated elements
+   * Flagged rectangles are restyled in place; callout elements are returned
+   * @param renderedNodes - Nodes in generation order with their node information
+   * @param elements - All elements generated for the plan
+   * @param findings - Findings from PlanLinter.lint on the same plan tree
+   */
+  render(renderedNodes: RenderedNode[], elements: ExcalidrawElement[], findings: LintFinding[]): ExcalidrawElement[] {
+    const rectIds = new Map(renderedNodes.map(({ node, info }) => [node, info.rectId]));
+    const calloutX = this.geometryUtils.getBounds(elements).maxX + LINT_CALLOUT.GAP;
+    const callouts: ExcalidrawElement[] = [];
+    let nextY = -Infinity;
+
+    for (const finding of findings) {
+      const rect = elements.find((el) => el.id === rectIds.get(finding.node) && el.type === 'rectangle');
+      if (!rect) {
+        continue;
+      }
+
+      const colors = PlanLintOverlayRenderer.SEVERITY_COLORS[finding.severity];
+      if (rect.strokeColor !== COLORS.LINT_WARNING) {
+        rect.strokeColor = colors.stroke;
+        rect.strokeWidth = LINT_CALLOUT.STROKE_WIDTH;
+      }
+
+      const lines = [finding.rule, ...this.wrap(finding.message)];
+      const height = lines.length * TEXT_HEIGHTS.DETAILS_LINE + LINT_CALLOUT.PADDING * 2;
+      const y = Math.max(rect.y + rect.height / 2 - height / 2, nextY);
+      callouts.push(...this.renderCallout(calloutX, y, height, lines, colors, rect));
+      nextY = y + height + LINT_CALLOUT.SPACING;
+    }
+
+    return callouts;
+  }
+
+  private renderCallout(
+    x: number,
+    y: number,
+    height: number,
+    lines: string[],
+    colors: { stroke: string; background: string },
+    target: ExcalidrawElement
+  ): ExcalidrawElement[] {
+    const fontSize = FONT_SIZES.DETAILS;
+    const width = Math.max(...lines.map((line) => this.textMeasurement.measureText(line, fontSize))) + LINT_CALLOUT.PADDING * 2;
+    const note = this.elementFactory.createRectangle({ id: this.idGenerator.generateId(), x, y, width, height, strokeColor: colors.stroke });
+    note.backgroundColor = colors.background;
+
+    const texts = lines.map((line, i) => this.elementFactory.createText({
+      id: this.idGenerator.generateId(),
+      x: x + LINT_CALLOUT.PADDING,
+      y: y + LINT_CALLOUT.PADDING + i * TEXT_HEIGHTS.DETAILS_LINE,
+      width: this.textMeasurement.measureText(line, fontSize),
+      height: TEXT_HEIGHTS.DETAILS_LINE,
+      text: line,
+      fontSize,
+      fontFamily: i === 0 ? FONT_FAMILIES.BOLD : FONT_FAMILIES.NORMAL,
+      textAlign: 'left',
+      verticalAlign: 'top',
+      strokeColor: colors.stroke,
+      autoResize: true,
+      lineHeight: ELEMENT_DEFAULTS.LINE_HEIGHT,
+    }));
+
+    const arrow = this.elementFactory.createArrow({
+      id: this.idGenerator.generateId(),
+      startX: x,
+      startY: y + height / 2,
+      endX: target.x + target.width,
+      endY: target.y + target.height / 2,
+      childRectId: note.id,
+      parentRectId: target.id,
+      strokeColor: colors.stroke,
+      strokeStyle: 'dashed',
+    });
+    note.boundElements = [{ id: arrow.id, type: 'arrow' }];
+    target.boundElements = [...(target.boundElements ?? []), { id: arrow.id, type: 'arrow' }];
+
+    return [note, ...texts, arrow];
+  }
+
+  /**
+   * Word-wraps a message to lines of at most LINT_CALLOUT.LINE_LENGTH characters
+   */
+  private wrap(message: string): string[] {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of message.split(' ')) {
+      if (current && current.length + 1 + word.length > LINT_CALLOUT.LINE_LENGTH) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    return current ? [...lines, current] : lines;
+  }
+}
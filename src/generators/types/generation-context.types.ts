@@ -6,8 +6,10 @@ import { ArrowPositionCalculator } from '../utils/arrow-position.calculator';
 import { ColumnLabelRenderer } from '../renderers/column-label.renderer';
 import { IdGenerator } from '../utils/id.generator';
 import { TextMeasurement } from '../utils/text-measurement';
+import { TextWrapper } from '../utils/text-wrapper';
 import { GeometryUtils } from '../utils/geometry.utils';
 import { NodeInfo } from './node-info.types';
+import { DetailLine } from '../builders/detail-text.builder';
 
 /**
  * Context passed to node generators
@@ -26,6 +28,8 @@ export interface GenerationContext {
   idGenerator: IdGenerator;
   /** Text measurement utility */
   textMeasurement: TextMeasurement;
+  /** Measured text wrapping */
+  textWrapper: TextWrapper;
   /** Geometry utilities */
   geometryUtils: GeometryUtils;
   /** Configuration */
@@ -39,4 +43,8 @@ export interface GenerationContext {
     childY: number,
     isRoot: boolean
   ) => NodeInfo;
+  /** Node information returned for a node already generated in this drawing, if any */
+  getNodeInfo: (node: ExecutionPlanNode) => NodeInfo | undefined;
+  /** Rows and elapsed time of a node as a detail line, if the metrics overlay is on and the node has metrics */
+  getMetricsLine: (node: ExecutionPlanNode) => DetailLine | undefined;
 }
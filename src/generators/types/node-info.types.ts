@@ -1,3 +1,13 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+
+/**
+ * How the layout pass arranges the inputs of a node
+ * - below: a single input keeps the offset its generator drew it at; several inputs are spread out and centered under the node
+ * - centered: like below, but a single input is centered under the node too
+ * - beside: the first input to the left of the node and the second to its right
+ */
+export type InputLayout = 'below' | 'centered' | 'beside';
+
 /**
  * Node information returned by node generators
  * Contains positioning, sizing, and connection information for a node
@@ -21,5 +31,17 @@ export interface NodeInfo {
   outputColumns: string[];
   /** Output sort order (columns that are sorted) */
   outputSortOrder: string[];
+  /** How the layout pass arranges the inputs (default: below) */
+  inputLayout?: InputLayout;
 }
 
+/**
+ * A plan node together with the node information its generator returned
+ * Collected by ExcalidrawGenerator so overlays can be drawn after layout
+ */
+export interface RenderedNode {
+  /** The execution plan node */
+  node: ExecutionPlanNode;
+  /** Positioning information returned by the node generator */
+  info: NodeInfo;
+}
@@ -1,5 +1,6 @@
 import { GeometryUtils } from '../geometry.utils';
 import { ARROW_CONSTANTS } from '../../constants';
+import { ExcalidrawElement } from '../../../types/excalidraw.types';
 
 describe('GeometryUtils', () => {
   let utils: GeometryUtils;
@@ -244,5 +245,19 @@ describe('GeometryUtils', () => {
       expect(my).toBe(0);
     });
   });
-});
 
+  describe('getBounds', () => {
+    it('should return the bounding box of all elements', () => {
+      const elements = [
+        { x: -20, y: 10, width: 50, height: 30 },
+        { x: 40, y: -5, width: 100, height: 20 },
+      ] as ExcalidrawElement[];
+
+      expect(utils.getBounds(elements)).toEqual({ minX: -20, minY: -5, maxX: 140, maxY: 40 });
+    });
+
+    it('should return zeros for no elements', () => {
+      expect(utils.getBounds([])).toEqual({ minX: 0, minY: 0, maxX: 0, maxY: 0 });
+    });
+  });
+});
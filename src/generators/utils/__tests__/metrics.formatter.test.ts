@@ -0,0 +1,42 @@
+import { MetricsFormatter } from '../metrics.formatter';
+
+describe('MetricsFormatter', () => {
+  let formatter: MetricsFormatter;
+
+  beforeEach(() => {
+    formatter = new MetricsFormatter();
+  });
+
+  describe('formatDuration', () => {
+    it('should pick the largest readable unit', () => {
+      expect(formatter.formatDuration(1)).toBe('1ns');
+      expect(formatter.formatDuration(2375)).toBe('2.38µs');
+      expect(formatter.formatDuration(1500000)).toBe('1.50ms');
+      expect(formatter.formatDuration(2500000000)).toBe('2.50s');
+    });
+  });
+
+  describe('formatCount', () => {
+    it('should add K/M/B suffixes for large counts', () => {
+      expect(formatter.formatCount(999)).toBe('999');
+      expect(formatter.formatCount(8192)).toBe('8.19K');
+      expect(formatter.formatCount(1200000)).toBe('1.20M');
+      expect(formatter.formatCount(3000000000)).toBe('3.00B');
+    });
+  });
+
+  describe('formatBytes', () => {
+    it('should use 1024-based units', () => {
+      expect(formatter.formatBytes(512)).toBe('512 B');
+      expect(formatter.formatBytes(1536)).toBe('1.50 KB');
+      expect(formatter.formatBytes(2 * 1024 ** 3)).toBe('2.00 GB');
+    });
+  });
+
+  describe('formatPercentage', () => {
+    it('should round to a whole percentage', () => {
+      expect(formatter.formatPercentage(0.456)).toBe('46%');
+      expect(formatter.formatPercentage(1)).toBe('100%');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { PlanNodeDiffer } from '../plan-node.differ';
+import { PlanDiffNode } from '../../../types';
+import { TestHelpers } from '../../__tests__/utils/test-helpers';
+
+describe('PlanNodeDiffer', () => {
+  let differ: PlanNodeDiffer;
+
+  const summarize = (diff: PlanDiffNode): string[] => [
+    `${diff.status} ${diff.node.operator}`,
+    ...diff.children.flatMap((child) => summarize(child).map((line) => `  ${line}`)),
+  ];
+
+  beforeEach(() => {
+    differ = new PlanNodeDiffer();
+  });
+
+  it('should report identical plans as unchanged', () => {
+    const plan = `ProjectionExec: expr=[a@0 as a]
+  DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[a], file_type=parquet`;
+
+    expect(summarize(differ.diff(TestHelpers.parsePlan(plan), TestHelpers.parsePlan(plan)))).toEqual([
+      'unchanged ProjectionExec',
+      '  unchanged DataSourceExec',
+    ]);
+  });
+
+  it('should list changed properties', () => {
+    const diff = differ.diff(
+      TestHelpers.parsePlan('RepartitionExec: partitioning=Hash([env@0], 4), input_partitions=1'),
+      TestHelpers.parsePlan('RepartitionExec: partitioning=Hash([env@0], 8), input_partitions=1, preserve_order=true')
+    );
+
+    expect(diff.status).toBe('changed');
+    expect(diff.changes).toEqual([
+      { key: 'partitioning', before: 'Hash([env@0], 4)', after: 'Hash([env@0], 8)' },
+      { key: 'preserve_order', before: undefined, after: 'true' },
+    ]);
+  });
+
+  it('should ignore EXPLAIN ANALYZE metrics', () => {
+    const diff = differ.diff(
+      TestHelpers.parsePlan('CoalesceBatchesExec: target_batch_size=8192, metrics=[output_rows=10]'),
+      TestHelpers.parsePlan('CoalesceBatchesExec: target_batch_size=8192, metrics=[output_rows=20]')
+    );
+
+    expect(diff.status).toBe('unchanged');
+  });
+
+  it('should keep matching around operators removed from and added to a chain', () => {
+    const before = TestHelpers.parsePlan(`AggregateExec: mode=FinalPartitioned, gby=[env@0 as env], aggr=[]
+  CoalesceBatchesExec: target_batch_size=8192
+    RepartitionExec: partitioning=Hash([env@0], 4), input_partitions=1
+      DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[env], file_type=parquet`);
+    const after = TestHelpers.parsePlan(`AggregateExec: mode=FinalPartitioned, gby=[env@0 as env], aggr=[]
+  RepartitionExec: partitioning=Hash([env@0], 4), input_partitions=1
+    FilterExec: env@0 = prod
+      DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[env], file_type=parquet`);
+
+    expect(summarize(differ.diff(before, after))).toEqual([
+      'unchanged AggregateExec',
+      '  removed CoalesceBatchesExec',
+      '    unchanged RepartitionExec',
+      '      added FilterExec',
+      '        unchanged DataSourceExec',
+    ]);
+  });
+
+  it('should align join inputs and record replaced operators', () => {
+    const before = TestHelpers.parsePlan(`HashJoinExec: mode=CollectLeft, join_type=Inner, on=[(a@0, a@0)]
+  DataSourceExec: file_groups={1 group: [[l.parquet]]}, projection=[a], file_type=parquet
+  DataSourceExec: file_groups={1 group: [[r.parquet]]}, projection=[a], file_type=parquet`);
+    const after = TestHelpers.parsePlan(`SortMergeJoinExec: join_type=Inner, on=[(a@0, a@0)]
+  SortExec: expr=[a@0 ASC], preserve_partitioning=[false]
+    DataSourceExec: file_groups={1 group: [[l.parquet]]}, projection=[a], file_type=parquet
+  DataSourceExec: file_groups={1 group: [[r.parquet]]}, projection=[a], file_type=parquet`);
+
+    const diff = differ.diff(before, after);
+
+    expect(diff.replaced?.operator).toBe('HashJoinExec');
+    expect(summarize(diff)).toEqual([
+      'added SortMergeJoinExec',
+      '  added SortExec',
+      '    unchanged DataSourceExec',
+      '  unchanged DataSourceExec',
+    ]);
+  });
+
+  it('should mark unmatched children as whole added or removed subtrees', () => {
+    const before = TestHelpers.parsePlan(`UnionExec
+  DataSourceExec: file_groups={1 group: [[a.parquet]]}, file_type=parquet`);
+    const after = TestHelpers.parsePlan(`UnionExec
+  DataSourceExec: file_groups={1 group: [[a.parquet]]}, file_type=parquet
+  ProjectionExec: expr=[b@0 as b]
+    DataSourceExec: file_groups={1 group: [[b.parquet]]}, file_type=parquet`);
+
+    expect(summarize(differ.diff(before, after))).toEqual([
+      'unchanged UnionExec',
+      '  unchanged DataSourceExec',
+      '  added ProjectionExec',
+      '    added DataSourceExec',
+    ]);
+  });
+});
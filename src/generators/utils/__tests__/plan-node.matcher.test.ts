@@ -0,0 +1,68 @@
+import { PlanNodeMatcher } from '../plan-node.matcher';
+import { ExecutionPlanParser } from '../../../parsers/execution-plan.parser';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('PlanNodeMatcher', () => {
+  let matcher: PlanNodeMatcher;
+  let parser: ExecutionPlanParser;
+
+  beforeEach(() => {
+    matcher = new PlanNodeMatcher();
+    parser = new ExecutionPlanParser();
+  });
+
+  describe('extractColumns', () => {
+    it('should drop qualifiers and column indexes', () => {
+      expect([...matcher.extractColumns('a.env ASC, t.time_bin')]).toEqual(['env', 'asc', 'time_bin']);
+      expect([...matcher.extractColumns('env@0 ASC, time_bin@1')]).toEqual(['env', 'asc', 'time_bin']);
+    });
+  });
+
+  describe('match', () => {
+    it('should link an Aggregate to both halves of a Partial/Final pair', () => {
+      const logical = parser.parseLogicalPlan(`Aggregate: groupBy=[[t.env]], aggr=[[count(Int64(1))]]
+  TableScan: t projection=[env]`)!;
+      const physical = parser.parse(`AggregateExec: mode=FinalPartitioned, gby=[env@0 as env], aggr=[count(Int64(1))]
+  RepartitionExec: partitioning=Hash([env@0], 4), input_partitions=1
+    AggregateExec: mode=Partial, gby=[env@0 as env], aggr=[count(Int64(1))]
+      DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[env], file_type=parquet`).root!;
+
+      const links = matcher.match(logical, physical);
+
+      expect(links.map(({ logical, physical }) => `${logical.operator} -> ${physical.properties?.mode ?? physical.operator}`)).toEqual([
+        'Aggregate -> FinalPartitioned',
+        'Aggregate -> Partial',
+        'TableScan -> DataSourceExec',
+      ]);
+    });
+
+    it('should pick the candidate sharing the most columns', () => {
+      const planText = fs.readFileSync(path.join(__dirname, '../../../../tests/join_aggregates.sql'), 'utf-8');
+      const parsed = parser.parse(planText);
+
+      const links = matcher.match(parsed.logicalRoot!, parsed.root!);
+      const scanLinks = links.filter(({ logical }) => logical.operator === 'TableScan');
+      const joinLinks = links.filter(({ logical }) => logical.operator === 'Inner Join');
+      const dimAggregateLinks = links.filter(({ logical }) => logical.properties?.groupBy?.includes('dim2_parquet'));
+
+      expect(scanLinks.map(({ logical, physical }) => [logical.properties?.table, physical.properties?.projection])).toEqual([
+        ['dim2_parquet', '[d_dkey, env, service]'],
+        ['fact_parquet_sorted', '[f_dkey, timestamp, value]'],
+      ]);
+      expect(joinLinks.map(({ physical }) => physical.operator)).toEqual(['HashJoinExec']);
+      expect(dimAggregateLinks.map(({ physical }) => physical.properties?.mode)).toEqual(['Final', 'Partial']);
+    });
+
+    it('should leave operators without a physical counterpart unlinked', () => {
+      const logical = parser.parseLogicalPlan(`SubqueryAlias: t
+  Filter: t.a > Int64(1)
+    TableScan: t projection=[a]`)!;
+      const physical = parser.parse('DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[a], predicate=a@0 > 1, file_type=parquet').root!;
+
+      const links = matcher.match(logical, physical);
+
+      expect(links.map(({ logical }) => logical.operator)).toEqual(['TableScan']);
+    });
+  });
+});
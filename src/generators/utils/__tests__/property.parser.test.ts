@@ -180,5 +180,83 @@ describe('PropertyParser', () => {
       expect(result.partitionCount).toBe(8);
     });
   });
-});
 
+  describe('parseWindowExpressions', () => {
+    it('should parse functions, keys and WindowFrame debug output', () => {
+      const result = parser.parseWindowExpressions(
+        '[row_number() PARTITION BY [a@0] ORDER BY [b@1 DESC NULLS FIRST] ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW: ' +
+        'Ok(Field { name: "row_number() PARTITION BY [a@0] ORDER BY [b@1 DESC NULLS FIRST] ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW", ' +
+        'data_type: UInt64, nullable: false, dict_id: 0, dict_is_ordered: false, metadata: {} }), ' +
+        'frame: WindowFrame { units: Rows, start_bound: Preceding(UInt64(NULL)), end_bound: CurrentRow, is_causal: true }]'
+      );
+      expect(result).toEqual([{
+        function: 'row_number()',
+        partitionBy: ['a'],
+        orderBy: ['b DESC'],
+        frame: 'ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW',
+      }]);
+    });
+
+    it('should take the frame from the frame entry when the name has none', () => {
+      const result = parser.parseWindowExpressions(
+        '[sum(t.c): Field { "sum(t.c)": nullable Int64 }, frame: WindowFrame { units: Range, start_bound: Preceding(Int64(3)), ' +
+        'end_bound: Following(Int64(NULL)), is_causal: false }, max(t.c) ORDER BY [t.a ASC]: Field { "max(t.c)": Int64 }, ' +
+        'frame: GROUPS BETWEEN 1 PRECEDING AND 1 FOLLOWING]'
+      );
+      expect(result).toEqual([
+        { function: 'sum(t.c)', partitionBy: [], orderBy: [], frame: 'RANGE BETWEEN 3 PRECEDING AND UNBOUNDED FOLLOWING' },
+        { function: 'max(t.c)', partitionBy: [], orderBy: ['t.a ASC'], frame: 'GROUPS BETWEEN 1 PRECEDING AND 1 FOLLOWING' },
+      ]);
+    });
+  });
+
+  describe('extractRowCount', () => {
+    it('should read exact and inexact row statistics', () => {
+      expect(parser.extractRowCount({ statistics: '[Rows=Exact(3), Bytes=Inexact(120)]' })).toBe(3);
+      expect(parser.extractRowCount({ statistics: '[Rows=Inexact(1000), Bytes=Absent]' })).toBe(1000);
+    });
+
+    it('should return undefined for absent statistics', () => {
+      expect(parser.extractRowCount({ statistics: '[Rows=Absent, Bytes=Absent]' })).toBeUndefined();
+      expect(parser.extractRowCount({})).toBeUndefined();
+    });
+  });
+
+  describe('extractPartitionCount', () => {
+    it('should prefer partitions= over partition_sizes=', () => {
+      expect(parser.extractPartitionCount({ partitions: '2', partition_sizes: '[1, 1]' })).toBe(2);
+    });
+
+    it('should count partition_sizes entries or read a plain count', () => {
+      expect(parser.extractPartitionCount({ partition_sizes: '[4, 2, 1]' })).toBe(3);
+      expect(parser.extractPartitionCount({ partition_sizes: '4' })).toBe(4);
+    });
+
+    it('should default to one partition', () => {
+      expect(parser.extractPartitionCount(undefined)).toBe(1);
+    });
+  });
+
+  describe('parseSink', () => {
+    it('should parse file sinks with their files and common directory', () => {
+      expect(parser.parseSink('ParquetSink(file_groups=[out/part-0.parquet, out/part-1.parquet])')).toEqual({
+        kind: 'ParquetSink',
+        format: 'parquet',
+        files: ['out/part-0.parquet', 'out/part-1.parquet'],
+        location: 'out/',
+        partitions: null,
+      });
+    });
+
+    it('should parse file groups printed like DataSourceExec', () => {
+      expect(parser.parseSink('CsvSink(file_groups={1 group: [[a/x.csv, b/y.csv]]})').files).toEqual(['a/x.csv', 'b/y.csv']);
+      expect(parser.parseSink('CsvSink(file_groups={1 group: [[a/x.csv, b/y.csv]]})').location).toBeNull();
+    });
+
+    it('should parse sinks without files', () => {
+      expect(parser.parseSink('JsonSink(file_groups=[])')).toMatchObject({ format: 'json', files: [], location: null });
+      expect(parser.parseSink('MemoryTable (partitions=2)')).toMatchObject({ kind: 'MemoryTable', format: 'memory', partitions: 2 });
+      expect(parser.parseSink('StreamWrite { location: "/tmp/fifo", batch_size: 8192 }')).toMatchObject({ format: 'stream', location: '/tmp/fifo' });
+    });
+  });
+});
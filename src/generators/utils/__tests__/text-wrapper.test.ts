@@ -0,0 +1,69 @@
+import { TextWrapper } from '../text-wrapper';
+import { TextMeasurement } from '../text-measurement';
+import { PropertyParser } from '../property.parser';
+
+describe('TextWrapper', () => {
+  const fontSize = 14;
+  let measurement: TextMeasurement;
+  let wrapper: TextWrapper;
+
+  beforeEach(() => {
+    measurement = new TextMeasurement();
+    wrapper = new TextWrapper(measurement, new PropertyParser());
+  });
+
+  const widthOf = (text: string): number => measurement.measureText(text, fontSize);
+
+  describe('wrap', () => {
+    it('should keep text that fits on one line', () => {
+      expect(wrapper.wrap('gby=[env], aggr=[count(1)]', 300, fontSize)).toEqual(['gby=[env], aggr=[count(1)]']);
+    });
+
+    it('should break at top-level commas, not inside nested expressions', () => {
+      const text = 'gby=[f_dkey, date_bin], aggr=[max(j.env), max(j.value)]';
+      const lines = wrapper.wrap(text, widthOf('aggr=[max(j.env), max(j.value)]'), fontSize);
+
+      expect(lines).toEqual(['gby=[f_dkey, date_bin],', 'aggr=[max(j.env), max(j.value)]']);
+    });
+
+    it('should break between the items of a bracketed list', () => {
+      const text = 'expr=[region@0 as region, sum(amount@1) as total, count(1) as orders]';
+      const lines = wrapper.wrap(text, widthOf('expr=[region@0 as region,'), fontSize);
+
+      expect(lines).toEqual(['expr=[region@0 as region,', 'sum(amount@1) as total,', 'count(1) as orders]']);
+    });
+
+    it('should fall back to spaces for predicates without commas', () => {
+      const lines = wrapper.wrap('amount@1 > 100 AND region@0 = europe', widthOf('amount@1 > 100 AND'), fontSize);
+
+      expect(lines).toEqual(['amount@1 > 100 AND', 'region@0 = europe']);
+    });
+
+    it('should split words wider than a line', () => {
+      const lines = wrapper.wrap('a_very_long_file_name.parquet', widthOf('a_very_long'), fontSize);
+
+      expect(lines.length).toBeGreaterThan(1);
+      expect(lines.join('')).toBe('a_very_long_file_name.parquet');
+      expect(lines.every((line) => widthOf(line) <= widthOf('a_very_long'))).toBe(true);
+    });
+  });
+
+  describe('truncate', () => {
+    it('should keep text that fits', () => {
+      expect(wrapper.truncate('projection=[a]', 300, fontSize)).toBe('projection=[a]');
+    });
+
+    it('should cut text that does not fit and end it with an ellipsis', () => {
+      const truncated = wrapper.truncate('projection=[a, b, c, d, e, f, g, h]', widthOf('projection=[a, b'), fontSize);
+
+      expect(truncated.endsWith('...')).toBe(true);
+      expect(widthOf(truncated)).toBeLessThanOrEqual(widthOf('projection=[a, b'));
+    });
+  });
+
+  describe('ellipsise', () => {
+    it('should mark text that continues on hidden lines', () => {
+      expect(wrapper.ellipsise('gby=[env],', 300, fontSize)).toBe('gby=[env],...');
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { MeasuredNode, TreeLayoutCalculator } from '../tree-layout.calculator';
+import { ExecutionPlanNode } from '../../../types/execution-plan.types';
+import { InputLayout } from '../../types/node-info.types';
+
+describe('TreeLayoutCalculator', () => {
+  const spacing = 50;
+  let calculator: TreeLayoutCalculator;
+  let measured: Map<ExecutionPlanNode, MeasuredNode>;
+
+  beforeEach(() => {
+    calculator = new TreeLayoutCalculator(spacing);
+    measured = new Map();
+  });
+
+  /**
+   * Creates a node measured as a box at (x, y); extraRight widens what it draws beyond its box
+   */
+  const node = (
+    operator: string,
+    x: number,
+    y: number,
+    children: ExecutionPlanNode[] = [],
+    options: { width?: number; inputLayout?: InputLayout; extraRight?: number } = {}
+  ): ExecutionPlanNode => {
+    const planNode: ExecutionPlanNode = { operator, properties: {}, children, level: 0 };
+    const width = options.width ?? 300;
+    measured.set(planNode, {
+      x,
+      width,
+      bounds: { minX: x, minY: y, maxX: x + width + (options.extraRight ?? 0), maxY: y + 100 },
+      inputLayout: options.inputLayout ?? 'below',
+    });
+    return planNode;
+  };
+
+  it('should keep the root and a single input where they were drawn', () => {
+    const child = node('Child', 0, 200);
+    const root = node('Root', 0, 0, [child], { width: 500 });
+
+    const positions = calculator.layout(root, measured);
+
+    expect(positions.get(root)).toBe(0);
+    expect(positions.get(child)).toBe(0);
+  });
+
+  it('should center a single input when the parent asks for it', () => {
+    const child = node('Child', 0, 200, [], { width: 200 });
+    const root = node('Root', 0, 0, [child], { width: 300, inputLayout: 'centered' });
+
+    expect(calculator.layout(root, measured).get(child)).toBe(50);
+  });
+
+  it('should spread inputs drawn on top of each other and center them under the parent', () => {
+    const inputs = [node('A', 0, 200), node('B', 0, 200), node('C', 0, 200)];
+    const root = node('Root', 0, 0, inputs);
+
+    const positions = calculator.layout(root, measured);
+
+    expect(inputs.map((input) => positions.get(input))).toEqual([-350, 0, 350]);
+  });
+
+  it('should keep the spacing to whatever a subtree draws beyond its boxes', () => {
+    const left = node('Left', 0, 200, [], { extraRight: 40 });
+    const right = node('Right', 0, 200);
+    const root = node('Root', 0, 0, [left, right]);
+
+    const positions = calculator.layout(root, measured);
+
+    expect(positions.get(right)! - (positions.get(left)! + 300 + 40)).toBe(spacing);
+  });
+
+  it('should push apart siblings whose deeper descendants collide', () => {
+    // Both subtrees fan out two levels down; their roots alone would fit side by side
+    const leftLeaves = [node('L1', 0, 400), node('L2', 0, 400)];
+    const rightLeaves = [node('R1', 400, 400), node('R2', 400, 400)];
+    const left = node('Left', 0, 200, leftLeaves);
+    const right = node('Right', 400, 200, rightLeaves);
+    const root = node('Root', 200, 0, [left, right]);
+
+    const positions = calculator.layout(root, measured);
+
+    expect(positions.get(rightLeaves[0])! - (positions.get(leftLeaves[1])! + 300)).toBe(spacing);
+    expect((positions.get(left)! + positions.get(right)! + 300) / 2).toBe(positions.get(root)! + 150);
+  });
+
+  it('should keep the inputs of a join on either side of it', () => {
+    const build = node('Build', -350, 200, [], { width: 500 });
+    const probe = node('Probe', 350, 200);
+    const join = node('Join', 0, 0, [build, probe], { width: 400, inputLayout: 'beside' });
+
+    const positions = calculator.layout(join, measured);
+
+    expect(positions.get(build)! + 500).toBe(-spacing);
+    expect(positions.get(probe)).toBe(400 + spacing);
+  });
+
+  it('should move both inputs of a join away from it when they collide below it', () => {
+    const buildLeaves = [node('B1', -350, 400), node('B2', -350, 400), node('B3', -350, 400)];
+    const build = node('Build', -350, 200, buildLeaves);
+    const probeLeaves = [node('P1', 350, 400), node('P2', 350, 400), node('P3', 350, 400)];
+    const probe = node('Probe', 350, 200, probeLeaves);
+    const join = node('Join', 0, 0, [build, probe], { inputLayout: 'beside' });
+
+    const positions = calculator.layout(join, measured);
+    const gap = positions.get(probeLeaves[0])! - (positions.get(buildLeaves[2])! + 300);
+
+    expect(gap).toBe(spacing);
+    expect(-50 - (positions.get(build)! + 300)).toBe(positions.get(probe)! - 350);
+  });
+
+  it('should leave out inputs that were not drawn', () => {
+    const drawn = node('Drawn', 0, 200);
+    const root = node('Root', 0, 0, [drawn, { operator: 'Skipped', properties: {}, children: [], level: 1 }]);
+
+    const positions = calculator.layout(root, measured);
+
+    expect([...positions.keys()]).toEqual([root, drawn]);
+  });
+});
@@ -1,3 +1,4 @@
+import { ExcalidrawElement } from '../../types/excalidraw.types';
 import { ARROW_CONSTANTS } from '../constants';
 
 export interface Region {
@@ -6,6 +7,13 @@ export interface Region {
   width: number;
 }
 
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
 /**
  * Geometry Utilities
  * Provides geometric calculations for layout and positioning
@@ -83,5 +91,20 @@ export class GeometryUtils {
   getMidpoint(x1: number, y1: number, x2: number, y2: number): [number, number] {
     return [(x1 + x2) / 2, (y1 + y2) / 2];
   }
-}
 
+  /**
+   * Calculates the bounding box of a set of elements
+   * Returns all zeros for an empty set
+   */
+  getBounds(elements: ExcalidrawElement[]): Bounds {
+    if (elements.length === 0) {
+      return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+    }
+    return {
+      minX: Math.min(...elements.map((el) => el.x)),
+      minY: Math.min(...elements.map((el) => el.y)),
+      maxX: Math.max(...elements.map((el) => el.x + el.width)),
+      maxY: Math.max(...elements.map((el) => el.y + el.height)),
+    };
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Metrics Formatter utility
+ * Turns normalised EXPLAIN ANALYZE metric values back into short human-readable labels
+ */
+export class MetricsFormatter {
+  /**
+   * Formats a duration given in nanoseconds
+   * Example: 2375 -> "2.38µs", 1500000 -> "1.50ms"
+   */
+  formatDuration(nanoseconds: number): string {
+    if (nanoseconds < 1e3) {
+      return `${nanoseconds}ns`;
+    }
+    if (nanoseconds < 1e6) {
+      return `${(nanoseconds / 1e3).toFixed(2)}µs`;
+    }
+    if (nanoseconds < 1e9) {
+      return `${(nanoseconds / 1e6).toFixed(2)}ms`;
+    }
+    return `${(nanoseconds / 1e9).toFixed(2)}s`;
+  }
+
+  /**
+   * Formats a row or batch count with K/M/B suffixes
+   * Example: 999 -> "999", 8192 -> "8.19K"
+   */
+  formatCount(count: number): string {
+    if (count < 1e3) {
+      return `${count}`;
+    }
+    if (count < 1e6) {
+      return `${(count / 1e3).toFixed(2)}K`;
+    }
+    if (count < 1e9) {
+      return `${(count / 1e6).toFixed(2)}M`;
+    }
+    return `${(count / 1e9).toFixed(2)}B`;
+  }
+
+  /**
+   * Formats a size given in bytes (1024-based)
+   * Example: 512 -> "512 B", 1536 -> "1.50 KB"
+   */
+  formatBytes(bytes: number): string {
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    if (bytes < 1024) {
+      return `${bytes} B`;
+    }
+    let value = bytes / 1024;
+    let unitIndex = 0;
+    while (value >= 1024 && unitIndex < units.length - 1) {
+      value /= 1024;
+      unitIndex++;
+    }
+    return `${value.toFixed(2)} ${units[unitIndex]}`;
+  }
+
+  /**
+   * Formats a ratio as a whole percentage
+   * Example: 0.456 -> "46%"
+   */
+  formatPercentage(ratio: number): string {
+    return `${Math.round(ratio * 100)}%`;
+  }
+}
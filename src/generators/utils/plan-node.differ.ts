@@ -0,0 +1,148 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { PlanDiffNode, PlanPropertyChange } from '../../types/plan-diff.types';
+
+/**
+ * Plan Node Differ
+ * Matches two plan trees structurally and merges them into one diff tree.
+ * Children are aligned by operator name (longest common subsequence); an
+ * operator inserted into or dropped from a single-child chain (for example a
+ * CoalesceBatchesExec or RepartitionExec) is reported as added/removed while
+ * the operators around it still match. An operator replaced by a different
+ * one at the same position is reported as added, with the old operator kept
+ * in `replaced`.
+ */
+export class PlanNodeDiffer {
+  /**
+   * Properties that differ between runs of the same plan and are not compared
+   */
+  private static readonly IGNORED_PROPERTIES = ['metrics'];
+
+  /**
+   * Diffs two plans
+   * @param before - Root of the old plan
+   * @param after - Root of the new plan
+   * @returns Root of the merged diff tree
+   */
+  diff(before: ExecutionPlanNode, after: ExecutionPlanNode): PlanDiffNode {
+    return this.diffNodes(before, after);
+  }
+
+  /**
+   * Compares the properties of two nodes, in new-plan order followed by removed properties
+   */
+  compareProperties(before: ExecutionPlanNode, after: ExecutionPlanNode): PlanPropertyChange[] {
+    const beforeProperties = before.properties ?? {};
+    const afterProperties = after.properties ?? {};
+    const keys = [...new Set([...Object.keys(afterProperties), ...Object.keys(beforeProperties)])];
+
+    return keys
+      .filter((key) => !PlanNodeDiffer.IGNORED_PROPERTIES.includes(key))
+      .filter((key) => beforeProperties[key] !== afterProperties[key])
+      .map((key) => ({ key, before: beforeProperties[key], after: afterProperties[key] }));
+  }
+
+  private diffNodes(before: ExecutionPlanNode, after: ExecutionPlanNode): PlanDiffNode {
+    if (before.operator === after.operator) {
+      const changes = this.compareProperties(before, after);
+      return {
+        status: changes.length > 0 ? 'changed' : 'unchanged',
+        node: after,
+        changes,
+        children: this.diffChildren(before.children, after.children),
+      };
+    }
+
+    // An operator dropped from a chain: the new node matches further down the old chain
+    if (before.children.length === 1 && this.chainContains(before.children[0], after.operator)) {
+      return { status: 'removed', node: before, changes: [], children: [this.diffNodes(before.children[0], after)] };
+    }
+
+    // An operator inserted into a chain: the old node matches further down the new chain
+    if (after.children.length === 1 && this.chainContains(after.children[0], before.operator)) {
+      return { status: 'added', node: after, changes: [], children: [this.diffNodes(before, after.children[0])] };
+    }
+
+    return {
+      status: 'added',
+      node: after,
+      replaced: before,
+      changes: [],
+      children: this.diffChildren(before.children, after.children),
+    };
+  }
+
+  /**
+   * Aligns two child lists on their longest common subsequence of operators
+   * Unaligned children between two aligned pairs are diffed pairwise; the
+   * remainder becomes removed/added subtrees
+   */
+  private diffChildren(before: ExecutionPlanNode[], after: ExecutionPlanNode[]): PlanDiffNode[] {
+    const anchors = this.alignOperators(before, after);
+    const result: PlanDiffNode[] = [];
+    let beforeIndex = 0;
+    let afterIndex = 0;
+
+    for (const [anchorBefore, anchorAfter] of [...anchors, [before.length, after.length]]) {
+      const gapBefore = before.slice(beforeIndex, anchorBefore);
+      const gapAfter = after.slice(afterIndex, anchorAfter);
+      const paired = Math.min(gapBefore.length, gapAfter.length);
+
+      for (let i = 0; i < paired; i++) {
+        result.push(this.diffNodes(gapBefore[i], gapAfter[i]));
+      }
+      result.push(...gapBefore.slice(paired).map((node) => this.markSubtree(node, 'removed')));
+      result.push(...gapAfter.slice(paired).map((node) => this.markSubtree(node, 'added')));
+
+      if (anchorBefore < before.length) {
+        result.push(this.diffNodes(before[anchorBefore], after[anchorAfter]));
+      }
+      beforeIndex = anchorBefore + 1;
+      afterIndex = anchorAfter + 1;
+    }
+
+    return result;
+  }
+
+  /**
+   * Longest common subsequence of operator names
+   * @returns Index pairs [beforeIndex, afterIndex] of aligned children, in order
+   */
+  private alignOperators(before: ExecutionPlanNode[], after: ExecutionPlanNode[]): Array<[number, number]> {
+    const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+    for (let i = before.length - 1; i >= 0; i--) {
+      for (let j = after.length - 1; j >= 0; j--) {
+        lengths[i][j] = before[i].operator === after[j].operator ?
+          lengths[i + 1][j + 1] + 1 :
+          Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const pairs: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length && j < after.length) {
+      if (before[i].operator === after[j].operator) {
+        pairs.push([i++, j++]);
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    return pairs;
+  }
+
+  /**
+   * Whether the operator appears in the single-child chain starting at node
+   */
+  private chainContains(node: ExecutionPlanNode, operator: string): boolean {
+    if (node.operator === operator) {
+      return true;
+    }
+    return node.children.length === 1 && this.chainContains(node.children[0], operator);
+  }
+
+  private markSubtree(node: ExecutionPlanNode, status: 'added' | 'removed'): PlanDiffNode {
+    return { status, node, changes: [], children: node.children.map((child) => this.markSubtree(child, status)) };
+  }
+}
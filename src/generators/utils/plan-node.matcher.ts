@@ -0,0 +1,162 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+
+/**
+ * A logical operator and a physical operator that implements it
+ */
+export interface PlanNodeLink {
+  logical: ExecutionPlanNode;
+  physical: ExecutionPlanNode;
+}
+
+/**
+ * How a kind of logical operator maps onto physical operators
+ */
+interface MappingRule {
+  /** Matches the logical operator name */
+  logical: RegExp;
+  /** Physical operators that may implement it */
+  physical: string[];
+  /** Logical properties compared by column names (first present wins) */
+  logicalKeys: string[];
+  /** Physical properties compared by column names (first present wins) */
+  physicalKeys: string[];
+}
+
+/**
+ * Plan Node Matcher
+ * Links logical operators to the physical operators that implement them using
+ * heuristics: candidates are chosen by operator kind and ranked by how many
+ * column names their expressions share. Ties are all linked, so an Aggregate
+ * links to both halves of an AggregateExec Partial/Final pair.
+ */
+export class PlanNodeMatcher {
+  private static readonly RULES: MappingRule[] = [
+    {
+      logical: /^TableScan$/,
+      physical: ['DataSourceExec', 'ParquetExec', 'CsvExec', 'MemoryExec'],
+      logicalKeys: ['projection', 'table'],
+      physicalKeys: ['projection'],
+    },
+    {
+      logical: /^Aggregate$/,
+      physical: ['AggregateExec'],
+      logicalKeys: ['groupBy'],
+      physicalKeys: ['gby'],
+    },
+    {
+      logical: /Join$/,
+      physical: ['HashJoinExec', 'SortMergeJoin', 'SortMergeJoinExec', 'NestedLoopJoinExec', 'SymmetricHashJoinExec', 'CrossJoinExec'],
+      logicalKeys: ['on'],
+      physicalKeys: ['on'],
+    },
+    {
+      logical: /^Filter$/,
+      physical: ['FilterExec'],
+      logicalKeys: ['predicate'],
+      physicalKeys: ['predicate', 'filter'],
+    },
+    {
+      logical: /^Sort$/,
+      physical: ['SortExec', 'SortPreservingMergeExec'],
+      logicalKeys: ['expr'],
+      physicalKeys: ['expr', 'expression'],
+    },
+    {
+      logical: /^Projection$/,
+      physical: ['ProjectionExec'],
+      logicalKeys: ['expr'],
+      physicalKeys: ['expr'],
+    },
+    {
+      logical: /^Limit$/,
+      physical: ['GlobalLimitExec', 'LocalLimitExec'],
+      logicalKeys: [],
+      physicalKeys: [],
+    },
+    {
+      logical: /^Union$/,
+      physical: ['UnionExec', 'InterleaveExec'],
+      logicalKeys: [],
+      physicalKeys: [],
+    },
+    {
+      logical: /^Window$/,
+      physical: ['WindowAggExec', 'BoundedWindowAggExec'],
+      logicalKeys: ['windowExpr', 'expression'],
+      physicalKeys: ['wdw'],
+    },
+  ];
+
+  /**
+   * Links every logical node to its best matching physical nodes
+   * Logical nodes without a counterpart (e.g. SubqueryAlias) are left unlinked
+   * @returns Links in logical plan order
+   */
+  match(logicalRoot: ExecutionPlanNode, physicalRoot: ExecutionPlanNode): PlanNodeLink[] {
+    const physicalNodes = this.flatten(physicalRoot);
+    const links: PlanNodeLink[] = [];
+
+    for (const logical of this.flatten(logicalRoot)) {
+      const rule = PlanNodeMatcher.RULES.find((candidate) => candidate.logical.test(logical.operator));
+      if (!rule) {
+        continue;
+      }
+
+      const candidates = physicalNodes.filter((node) => rule.physical.includes(node.operator));
+      for (const physical of this.selectBest(logical, candidates, rule)) {
+        links.push({ logical, physical });
+      }
+    }
+
+    return links;
+  }
+
+  /**
+   * Extracts column names from an expression, dropping table qualifiers and
+   * physical column indexes: "a.env ASC" and "env@0 ASC" both give {env, asc}
+   */
+  extractColumns(expression: string): Set<string> {
+    const columns = new Set<string>();
+    const identifier = /(?:[A-Za-z_]\w*\.)*([A-Za-z_]\w*)/g;
+    for (const match of expression.replace(/@\d+/g, '').matchAll(identifier)) {
+      columns.add(match[1].toLowerCase());
+    }
+    return columns;
+  }
+
+  /**
+   * Picks the candidates sharing the most column names with the logical node
+   * A single candidate of the right kind is linked even without shared columns
+   */
+  private selectBest(logical: ExecutionPlanNode, candidates: ExecutionPlanNode[], rule: MappingRule): ExecutionPlanNode[] {
+    if (candidates.length <= 1) {
+      return candidates;
+    }
+
+    const logicalColumns = this.extractColumns(this.firstProperty(logical, rule.logicalKeys));
+    const scores = candidates.map((candidate) =>
+      this.similarity(logicalColumns, this.extractColumns(this.firstProperty(candidate, rule.physicalKeys)))
+    );
+    const best = Math.max(...scores);
+
+    return best > 0 ? candidates.filter((_, i) => scores[i] === best) : [];
+  }
+
+  /**
+   * Jaccard similarity of two column sets
+   */
+  private similarity(a: Set<string>, b: Set<string>): number {
+    const shared = [...a].filter((column) => b.has(column)).length;
+    const union = new Set([...a, ...b]).size;
+    return union === 0 ? 0 : shared / union;
+  }
+
+  private firstProperty(node: ExecutionPlanNode, keys: string[]): string {
+    const key = keys.find((candidate) => node.properties?.[candidate] !== undefined);
+    return key ? node.properties![key] : '';
+  }
+
+  private flatten(root: ExecutionPlanNode): ExecutionPlanNode[] {
+    return [root, ...root.children.flatMap((child) => this.flatten(child))];
+  }
+}
@@ -1,8 +1,52 @@
+/**
+ * One window function of a WindowAggExec/BoundedWindowAggExec `wdw=[...]` list
+ */
+export interface WindowExpression {
+  /** Function call (e.g., row_number(), sum(t.c)) */
+  function: string;
+  /** PARTITION BY keys without column indexes */
+  partitionBy: string[];
+  /** ORDER BY keys with their direction (e.g., b ASC) */
+  orderBy: string[];
+  /** Frame specification in SQL form (e.g., ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW) */
+  frame: string | null;
+}
+
+/**
+ * Write target of a DataSinkExec/FileSinkExec `sink=` property
+ */
+export interface SinkTarget {
+  /** Sink as printed (e.g., ParquetSink, CsvSink, MemoryTable, StreamWrite) */
+  kind: string;
+  /** Output format (e.g., parquet, csv, json, memory) */
+  format: string;
+  /** Files written, when known at planning time */
+  files: string[];
+  /** Output directory or stream location, when known */
+  location: string | null;
+  /** Partitions of an in-memory target, when known */
+  partitions: number | null;
+}
+
 /**
  * Property Parser utility
  * Extracts and parses properties from execution plan nodes
  */
 export class PropertyParser {
+  /**
+   * Output format written by each known sink
+   */
+  private static readonly SINK_FORMATS: Record<string, string> = {
+    ParquetSink: 'parquet',
+    CsvSink: 'csv',
+    JsonSink: 'json',
+    ArrowSink: 'arrow',
+    AvroSink: 'avro',
+    MemoryTable: 'memory',
+    MemSink: 'memory',
+    StreamWrite: 'stream',
+  };
+
   /**
    * Parses comma-separated values while respecting nested parentheses and brackets
    * Handles complex expressions like function calls, arrays, etc.
@@ -307,6 +351,139 @@ export class PropertyParser {
     return null;
   }
 
+  /**
+   * Extracts the row count from the statistics= property
+   * Example: "[Rows=Exact(3), Bytes=Inexact(120), [(Col[0]: ...)]]" -> 3
+   * Returns undefined when statistics are absent or the row count is Absent
+   */
+  extractRowCount(properties?: Record<string, string>): number | undefined {
+    const match = properties?.statistics?.match(/Rows=(?:Exact|Inexact)\((\d+)\)/);
+    return match ? parseInt(match[1], 10) : undefined;
+  }
+
+  /**
+   * Counts the partitions of a leaf from partitions= or from the entries of partition_sizes=
+   * Examples: "partitions=2" -> 2, "partition_sizes=[1, 3]" -> 2, "partition_sizes=4" -> 4
+   * Returns 1 when neither property is present
+   */
+  extractPartitionCount(properties?: Record<string, string>): number {
+    const partitions = parseInt(properties?.partitions ?? '', 10);
+    if (!Number.isNaN(partitions)) {
+      return partitions;
+    }
+    const sizes = properties?.partition_sizes?.trim();
+    if (sizes?.startsWith('[')) {
+      return this.parseCommaSeparated(sizes.slice(1, -1)).filter((size) => size.trim()).length;
+    }
+    const count = parseInt(sizes ?? '', 10);
+    return Number.isNaN(count) ? 1 : count;
+  }
+
+  /**
+   * Parses the sink= property of DataSinkExec/FileSinkExec
+   * Examples:
+   * - "ParquetSink(file_groups=[out/part-0.parquet, out/part-1.parquet])" -> parquet, both files, location "out/"
+   * - "MemoryTable (partitions=2)" -> memory, 2 partitions
+   * - "StreamWrite { location: \"/tmp/fifo\", batch_size: 8192, ... }" -> stream, location "/tmp/fifo"
+   */
+  parseSink(sink: string): SinkTarget {
+    const kind = sink.trim().match(/^\w+/)?.[0] ?? sink.trim();
+    const format = PropertyParser.SINK_FORMATS[kind] ?? kind.replace(/Sink$/, '').toLowerCase();
+
+    let files: string[] = [];
+    const fileGroups = sink.match(/file_groups=(\{.*\}|\[.*?\])/);
+    if (fileGroups?.[1].startsWith('{')) {
+      files = this.parseFileGroups({ file_groups: fileGroups[1] }).flat();
+    } else if (fileGroups) {
+      files = this.parseCommaSeparated(fileGroups[1].slice(1, -1))
+        .map((file) => file.trim().replace(/^["']|["']$/g, ''))
+        .filter((file) => file);
+    }
+
+    // Explicit location, else the directory shared by all written files
+    let location = sink.match(/(?:location:\s*"([^"]+)"|(?:output_url|path)=([^,)\s]+))/)?.slice(1).find((value) => value) ?? null;
+    if (!location && files.length > 0) {
+      const directories = new Set(files.map((file) => file.includes('/') ? file.slice(0, file.lastIndexOf('/') + 1) : ''));
+      location = directories.size === 1 ? [...directories][0] || null : null;
+    }
+
+    const partitions = sink.match(/partitions=(\d+)/);
+    return { kind, format, files, location, partitions: partitions ? parseInt(partitions[1], 10) : null };
+  }
+
+  /**
+   * Parses the wdw= property of window operators into one entry per window function
+   * Example: "[row_number() PARTITION BY [a@0] ORDER BY [b@1 ASC NULLS LAST] ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW: Ok(Field { ... }),
+   * frame: WindowFrame { units: Rows, ... }]"
+   * Returns: [{ function: "row_number()", partitionBy: ["a"], orderBy: ["b ASC"], frame: "ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW" }]
+   */
+  parseWindowExpressions(wdw: string): WindowExpression[] {
+    const content = wdw.trim().replace(/^\[/, '').replace(/\]$/, '');
+    const expressions: WindowExpression[] = [];
+
+    for (const item of this.parseCommaSeparated(content)) {
+      // Each function is followed by a "frame: ..." entry describing its frame
+      if (item.startsWith('frame:')) {
+        const last = expressions[expressions.length - 1];
+        if (last && !last.frame) {
+          last.frame = this.formatWindowFrame(item.substring('frame:'.length).trim());
+        }
+        continue;
+      }
+
+      // "<name>: Ok(Field { ... })" in older DataFusion versions, "<name>: Field { ... }" in newer ones
+      const fieldMatch = item.match(/:\s*(?:Ok\()?Field\b/);
+      const name = fieldMatch ? item.substring(0, fieldMatch.index).trim() : item;
+      const frameMatch = name.match(/\b(?:ROWS|RANGE|GROUPS) BETWEEN .+$/);
+      const functionEnd = name.search(/ PARTITION BY \[| ORDER BY \[| (?:ROWS|RANGE|GROUPS) BETWEEN /);
+
+      expressions.push({
+        function: functionEnd === -1 ? name : name.substring(0, functionEnd),
+        partitionBy: this.parseWindowKeys(name.match(/PARTITION BY \[([^\]]*)\]/)?.[1]),
+        orderBy: this.parseWindowKeys(name.match(/ORDER BY \[([^\]]*)\]/)?.[1]),
+        frame: frameMatch ? frameMatch[0] : null,
+      });
+    }
+
+    return expressions;
+  }
+
+  /**
+   * Simplifies window keys: "t.b@1 ASC NULLS LAST" -> "t.b ASC"
+   */
+  private parseWindowKeys(keys: string | undefined): string[] {
+    if (!keys) {
+      return [];
+    }
+    return this.parseCommaSeparated(keys).map((key) => key.replace(/@\d+/g, '').replace(/\s+NULLS (?:FIRST|LAST)$/, ''));
+  }
+
+  /**
+   * Formats a frame as SQL, converting the WindowFrame debug form of older DataFusion versions
+   * Example: "WindowFrame { units: Rows, start_bound: Preceding(UInt64(NULL)), end_bound: CurrentRow, is_causal: true }"
+   * -> "ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW"
+   */
+  private formatWindowFrame(frame: string): string {
+    const debugMatch = frame.match(/units:\s*(\w+),\s*start_bound:\s*(.+?),\s*end_bound:\s*(.+?)(?:,\s*is_causal.*)?\s*}$/);
+    if (!debugMatch) {
+      return frame;
+    }
+
+    const formatBound = (bound: string): string => {
+      if (bound === 'CurrentRow') {
+        return 'CURRENT ROW';
+      }
+      const boundMatch = bound.match(/^(Preceding|Following)\((?:\w+\()?([^()]*)\)?\)$/);
+      if (!boundMatch) {
+        return bound;
+      }
+      const offset = boundMatch[2] === 'NULL' ? 'UNBOUNDED' : boundMatch[2];
+      return `${offset} ${boundMatch[1].toUpperCase()}`;
+    };
+
+    return `${debugMatch[1].toUpperCase()} BETWEEN ${formatBound(debugMatch[2])} AND ${formatBound(debugMatch[3])}`;
+  }
+
   /**
    * Simplifies partitioning expression
    * Example: "Hash([d_dkey@0, env@1], 16)" -> "Hash([d_dkey, env], 16)"
@@ -0,0 +1,114 @@
+import { TextMeasurement } from './text-measurement';
+import { PropertyParser } from './property.parser';
+
+/**
+ * Text Wrapper utility
+ * Breaks text into lines no wider than a given width, as measured by TextMeasurement
+ * Plan expressions are broken at top-level commas first ("gby=[a, b], aggr=[c]"),
+ * then inside a bracketed list ("aggr=[max(a), max(b)]"), then at spaces, and
+ * only as a last resort inside a word
+ */
+export class TextWrapper {
+  private static readonly ELLIPSIS = '...';
+
+  constructor(
+    private textMeasurement: TextMeasurement,
+    private propertyParser: PropertyParser
+  ) {}
+
+  /**
+   * Wraps text to lines no wider than maxWidth
+   * Every line but the last keeps the comma it was broken after
+   */
+  wrap(text: string, maxWidth: number, fontSize: number): string[] {
+    if (this.fits(text, maxWidth, fontSize)) {
+      return [text];
+    }
+
+    const pieces = this.splitPieces(text);
+    if (pieces.length <= 1) {
+      return this.splitCharacters(text, maxWidth, fontSize);
+    }
+
+    const lines: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+      const candidate = current ? `${current} ${piece}` : piece;
+      if (this.fits(candidate, maxWidth, fontSize)) {
+        current = candidate;
+        continue;
+      }
+      if (current) {
+        lines.push(current);
+      }
+      const pieceLines = this.wrap(piece, maxWidth, fontSize);
+      lines.push(...pieceLines.slice(0, -1));
+      current = pieceLines[pieceLines.length - 1];
+    }
+    return current ? [...lines, current] : lines;
+  }
+
+  /**
+   * Returns text unchanged if it fits, otherwise cut short and ending in "..."
+   */
+  truncate(text: string, maxWidth: number, fontSize: number): string {
+    return this.fits(text, maxWidth, fontSize) ? text : this.ellipsise(text, maxWidth, fontSize);
+  }
+
+  /**
+   * Appends "..." to text, cutting the text short so the result fits maxWidth
+   */
+  ellipsise(text: string, maxWidth: number, fontSize: number): string {
+    let kept = text.trimEnd();
+    while (kept && !this.fits(`${kept}${TextWrapper.ELLIPSIS}`, maxWidth, fontSize)) {
+      kept = kept.slice(0, -1).trimEnd();
+    }
+    return `${kept}${TextWrapper.ELLIPSIS}`;
+  }
+
+  /**
+   * Pieces a line may be broken between, from the coarsest split available:
+   * top-level comma-separated items, items of a bracketed list, or words
+   */
+  private splitPieces(text: string): string[] {
+    const items = this.propertyParser.parseCommaSeparated(text);
+    if (items.length > 1) {
+      return this.withCommas(items);
+    }
+
+    // "aggr=[max(a), max(b)]": break between the list items, keeping "aggr=[" and "]" attached
+    const list = text.match(/^([^[({]*[[({])(.*)([\])}][^[\](){}]*)$/);
+    if (list) {
+      const listItems = this.propertyParser.parseCommaSeparated(list[2]);
+      if (listItems.length > 1) {
+        const pieces = this.withCommas(listItems);
+        pieces[0] = `${list[1]}${pieces[0]}`;
+        pieces[pieces.length - 1] = `${pieces[pieces.length - 1]}${list[3]}`;
+        return pieces;
+      }
+    }
+
+    return text.split(' ').filter((word) => word.length > 0);
+  }
+
+  private withCommas(items: string[]): string[] {
+    return items.map((item, i) => (i < items.length - 1 ? `${item},` : item));
+  }
+
+  private splitCharacters(text: string, maxWidth: number, fontSize: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+    for (const char of text) {
+      if (current && !this.fits(current + char, maxWidth, fontSize)) {
+        lines.push(current);
+        current = '';
+      }
+      current += char;
+    }
+    return current ? [...lines, current] : lines;
+  }
+
+  private fits(text: string, maxWidth: number, fontSize: number): boolean {
+    return this.textMeasurement.measureText(text, fontSize) <= maxWidth;
+  }
+}
@@ -0,0 +1,142 @@
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { InputLayout } from '../types/node-info.types';
+import { Bounds } from './geometry.utils';
+
+/**
+ * A node as drawn by the measuring pass
+ */
+export interface MeasuredNode {
+  /** Left edge of the node rectangle */
+  x: number;
+  /** Width of the node rectangle */
+  width: number;
+  /** Bounds of everything the node's generator drew for the node itself (arrows excluded) */
+  bounds: Bounds;
+  /** How the node's inputs are arranged */
+  inputLayout: InputLayout;
+}
+
+/**
+ * Part of a subtree's outline; x relative to the left edge of the subtree's root node
+ */
+interface Extent {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Tree Layout Calculator
+ * Assigns the horizontal position of every node of a plan tree, Reingold–Tilford style:
+ * subtrees are laid out bottom-up, siblings are pushed apart until no part of one
+ * subtree comes closer than the spacing to a part of another at the same height,
+ * and parents are centered over their inputs
+ * Vertical positions are left to the generators, which stack nodes by their heights
+ */
+export class TreeLayoutCalculator {
+  constructor(private spacing: number) {}
+
+  /**
+   * Computes the left edge of every node rectangle in the tree
+   * The root keeps its measured position; inputs its generator did not draw are left out
+   * @param measured - Every node of the tree as drawn by the measuring pass
+   */
+  layout(root: ExecutionPlanNode, measured: Map<ExecutionPlanNode, MeasuredNode>): Map<ExecutionPlanNode, number> {
+    const offsets = new Map<ExecutionPlanNode, number>();
+    this.layoutSubtree(root, measured, offsets);
+
+    const positions = new Map<ExecutionPlanNode, number>();
+    const place = (node: ExecutionPlanNode, x: number): void => {
+      positions.set(node, x);
+      for (const child of this.drawnInputs(node, measured)) {
+        place(child, x + offsets.get(child)!);
+      }
+    };
+    place(root, measured.get(root)!.x);
+    return positions;
+  }
+
+  /**
+   * Places the inputs of node relative to it, recording their offsets
+   * @returns Outline of the subtree relative to the node
+   */
+  private layoutSubtree(
+    node: ExecutionPlanNode,
+    measured: Map<ExecutionPlanNode, MeasuredNode>,
+    offsets: Map<ExecutionPlanNode, number>
+  ): Extent[] {
+    const own = measured.get(node)!;
+    const children = this.drawnInputs(node, measured);
+    const outline: Extent[] = [{
+      left: own.bounds.minX - own.x,
+      right: own.bounds.maxX - own.x,
+      top: own.bounds.minY,
+      bottom: own.bounds.maxY,
+    }];
+    if (children.length === 0) {
+      return outline;
+    }
+
+    const outlines = children.map((child) => this.layoutSubtree(child, measured, offsets));
+    const widths = children.map((child) => measured.get(child)!.width);
+    // Inputs start where their generator drew them
+    const positions = children.map((child) => measured.get(child)!.x - own.x);
+    const beside = own.inputLayout === 'beside' && children.length === 2;
+
+    if (beside) {
+      // The first input ends left of the node and the second starts right of it; a clash moves both away
+      positions[0] = Math.min(positions[0], -this.spacing - widths[0]);
+      positions[1] = Math.max(positions[1], own.width + this.spacing);
+      const overlap = this.separation(this.shift(outlines[0], positions[0]), this.shift(outlines[1], positions[1]));
+      positions[0] -= overlap / 2;
+      positions[1] += overlap / 2;
+    } else {
+      // Each input moves right until it clears the inputs before it
+      const placed = this.shift(outlines[0], positions[0]);
+      for (let i = 1; i < outlines.length; i++) {
+        positions[i] += this.separation(placed, this.shift(outlines[i], positions[i]));
+        placed.push(...this.shift(outlines[i], positions[i]));
+      }
+
+      // Several inputs (or a single one, when asked) are centered under the node as a block
+      if (children.length > 1 || own.inputLayout === 'centered') {
+        const last = positions.length - 1;
+        const shift = own.width / 2 - (positions[0] + positions[last] + widths[last]) / 2;
+        for (let i = 0; i < positions.length; i++) {
+          positions[i] += shift;
+        }
+      }
+    }
+
+    children.forEach((child, i) => {
+      offsets.set(child, positions[i]);
+      outline.push(...this.shift(outlines[i], positions[i]));
+    });
+    return outline;
+  }
+
+  /**
+   * How far the right outline must move right to keep the spacing to the left outline
+   * wherever the two are at the same height; zero when they are already apart
+   */
+  private separation(left: Extent[], right: Extent[]): number {
+    let distance = 0;
+    for (const a of left) {
+      for (const b of right) {
+        if (a.top < b.bottom && b.top < a.bottom) {
+          distance = Math.max(distance, a.right + this.spacing - b.left);
+        }
+      }
+    }
+    return distance;
+  }
+
+  private shift(outline: Extent[], dx: number): Extent[] {
+    return outline.map((extent) => ({ ...extent, left: extent.left + dx, right: extent.right + dx }));
+  }
+
+  private drawnInputs(node: ExecutionPlanNode, measured: Map<ExecutionPlanNode, MeasuredNode>): ExecutionPlanNode[] {
+    return node.children.filter((child) => measured.has(child));
+  }
+}
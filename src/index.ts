@@ -10,6 +10,8 @@ export * from './types';
 export * from './parsers';
 export * from './generators';
 export * from './services';
+export * from './exporters';
+export * from './analyzers';
 
 /**
  * Converts an Apache Data Fusion Physical Execution Plan to Excalidraw JSON
@@ -35,3 +37,48 @@ export function convertPlanToExcalidraw(
   const converter = new ConverterService(config);
   return converter.convert(planText);
 }
+
+/**
+ * Converts an Apache Data Fusion Physical Execution Plan to a standalone SVG document
+ * @param planText - The physical execution plan text
+ * @param config - Optional configuration for parsing, generation and SVG export
+ * @returns SVG markup
+ * @throws Error if the plan text is invalid
+ */
+export function convertPlanToSvg(
+  planText: string,
+  config?: ConverterConfig
+): string {
+  const converter = new ConverterService(config);
+  return converter.convertToSvg(planText);
+}
+
+/**
+ * Converts an Apache Data Fusion Physical Execution Plan to a Mermaid flowchart
+ * @param planText - The physical execution plan text
+ * @param config - Optional configuration for parsing
+ * @returns Mermaid source
+ * @throws Error if the plan text is invalid
+ */
+export function convertPlanToMermaid(
+  planText: string,
+  config?: ConverterConfig
+): string {
+  const converter = new ConverterService(config);
+  return converter.convertToMermaid(planText);
+}
+
+/**
+ * Converts an Apache Data Fusion Physical Execution Plan to a Graphviz DOT graph
+ * @param planText - The physical execution plan text
+ * @param config - Optional configuration for parsing
+ * @returns DOT source
+ * @throws Error if the plan text is invalid
+ */
+export function convertPlanToDot(
+  planText: string,
+  config?: ConverterConfig
+): string {
+  const converter = new ConverterService(config);
+  return converter.convertToDot(planText);
+}
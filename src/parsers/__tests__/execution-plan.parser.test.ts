@@ -186,6 +186,70 @@ describe('ExecutionPlanParser', () => {
       expect(result.root?.properties?.file_type).toBe('parquet');
     });
 
+    it('should parse the logical_plan row into logicalRoot', () => {
+      const sqlExplainText = `+---------------+-------------------------------------------------------------------------------+
+| plan_type     | plan                                                                          |
++---------------+-------------------------------------------------------------------------------+
+| logical_plan  | Sort: a.env ASC NULLS LAST, fetch=10                                          |
+|               |   Inner Join: d.d_dkey = f.f_dkey                                             |
+|               |     SubqueryAlias: d                                                          |
+|               |       Filter: dim.service = Utf8View("log")                                   |
+|               |         TableScan: dim projection=[d_dkey, service], partial_filters=[dim.service = Utf8View("log")] |
+|               |     TableScan: fact projection=[f_dkey]                                       |
+| physical_plan | SortExec: TopK(fetch=10), expr=[env@0 ASC NULLS LAST]                         |
++---------------+-------------------------------------------------------------------------------+`;
+
+      const result = parser.parse(sqlExplainText);
+      const sort = result.logicalRoot;
+      const join = sort?.children[0];
+      const filter = join?.children[0].children[0];
+      const scan = filter?.children[0];
+
+      expect(result.root?.operator).toBe('SortExec');
+      expect(sort?.properties).toEqual({ expr: 'a.env ASC NULLS LAST', fetch: '10' });
+      expect(join?.operator).toBe('Inner Join');
+      expect(join?.properties).toEqual({ join_type: 'Inner', on: 'd.d_dkey = f.f_dkey' });
+      expect(join?.children.map((child) => child.operator)).toEqual(['SubqueryAlias', 'TableScan']);
+      expect(join?.children[0].properties?.alias).toBe('d');
+      expect(filter?.properties).toEqual({ predicate: 'dim.service = Utf8View("log")' });
+      expect(scan?.properties).toEqual({
+        table: 'dim',
+        projection: '[d_dkey, service]',
+        partial_filters: '[dim.service = Utf8View("log")]',
+      });
+    });
+
+    it('should leave logicalRoot unset for plans without a logical_plan row', () => {
+      const result = parser.parse('ProjectionExec: expr=[a@0 as a]');
+
+      expect(result.logicalRoot).toBeUndefined();
+    });
+
+    it('should parse a bare logical plan', () => {
+      const root = parser.parseLogicalPlan(`Projection: t.a
+  Aggregate: groupBy=[[t.a]], aggr=[[count(Int64(1))]]
+    TableScan: t`);
+
+      expect(root?.operator).toBe('Projection');
+      expect(root?.properties?.expr).toBe('t.a');
+      expect(root?.children[0].properties).toEqual({ groupBy: '[[t.a]]', aggr: '[[count(Int64(1))]]' });
+      expect(root?.children[0].children[0].properties).toEqual({ table: 't' });
+      expect(parser.parseLogicalPlan('  ')).toBeNull();
+    });
+
+    it('should reject EXPLAIN tables without a logical_plan row', () => {
+      const analyzeText = `+-------------------+------------------------------------------------+
+| plan_type         | plan                                           |
++-------------------+------------------------------------------------+
+| Plan with Metrics | ProjectionExec: expr=[a@0 as a], metrics=[]    |
++-------------------+------------------------------------------------+`;
+      const physicalRows = `|               | AggregateExec: mode=Final, gby=[], aggr=[]     |
+|               |   CoalescePartitionsExec                       |`;
+
+      expect(() => parser.parseLogicalPlan(analyzeText)).toThrow('no logical_plan row');
+      expect(() => parser.parseLogicalPlan(physicalRows)).toThrow('no logical_plan row');
+    });
+
     it('should handle continuation lines with non-empty trimmed text', () => {
       const sqlExplainText = `EXPLAIN SELECT * FROM table;
 +---------------+------------------------------------------------------------------------------------------------------------------------------------+
@@ -315,5 +379,83 @@ describe('ExecutionPlanParser', () => {
         '[output_rows=1, elapsed_compute=1ns]'
       );
     });
+
+    it('should expose typed metrics for EXPLAIN ANALYZE operators', () => {
+      const planText = `CoalescePartitionsExec, metrics=[output_rows=1, elapsed_compute=2.5µs, mem_used=2 KB]
+  ProjectionExec: expr=[a@0 as a], metrics=[output_rows=1, elapsed_compute=1ns]
+    DataSourceExec: file_groups={1 group: [[a.parquet]]}, file_type=parquet`;
+
+      const result = parser.parse(planText);
+
+      expect(result.root?.metrics?.outputRows).toBe(1);
+      expect(result.root?.metrics?.elapsedCompute).toBe(2500);
+      expect(result.root?.metrics?.memUsed).toBe(2048);
+      expect(result.root?.children[0].metrics?.elapsedCompute).toBe(1);
+      expect(result.root?.children[0].children[0].metrics).toBeUndefined();
+    });
+  });
+
+  describe('parseStages', () => {
+    const verboseText = `+------------------------------------------------------------+--------------------------------------------------------------------------------+
+| plan_type                                                  | plan                                                                           |
++------------------------------------------------------------+--------------------------------------------------------------------------------+
+| initial_logical_plan                                       | Projection: count(*)                                                           |
+|                                                            |   Aggregate: groupBy=[[]], aggr=[[count(*)]]                                   |
+|                                                            |     TableScan: t                                                               |
+| logical_plan after type_coercion                           | SAME TEXT AS ABOVE                                                             |
+| logical_plan                                               | Projection: count(Int64(1)) AS count(*)                                        |
+|                                                            |   Aggregate: groupBy=[[]], aggr=[[count(Int64(1))]]                            |
+|                                                            |     TableScan: t projection=[]                                                 |
+| initial_physical_plan                                      | ProjectionExec: expr=[count(Int64(1))@0 as count(*)]                           |
+|                                                            |   AggregateExec: mode=Final, gby=[], aggr=[count(Int64(1))]                    |
+|                                                            |     AggregateExec: mode=Partial, gby=[], aggr=[count(Int64(1))]                |
+|                                                            |       DataSourceExec: file_groups={1 group: [[t.parquet]]}, file_type=parquet  |
+| physical_plan after EnforceDistribution                    | ProjectionExec: expr=[count(Int64(1))@0 as count(*)]                           |
+|                                                            |   AggregateExec: mode=Final, gby=[], aggr=[count(Int64(1))]                    |
+|                                                            |     CoalescePartitionsExec                                                     |
+|                                                            |       AggregateExec: mode=Partial, gby=[], aggr=[count(Int64(1))]              |
+|                                                            |         DataSourceExec: file_groups={1 group: [[t.parquet]]}, file_type=parquet|
+| physical_plan after EnforceSorting                         | SAME TEXT AS ABOVE                                                             |
+| physical_plan                                              | ProjectionExec: expr=[count(Int64(1))@0 as count(*)]                           |
+|                                                            |   AggregateExec: mode=Final, gby=[], aggr=[count(Int64(1))]                    |
+|                                                            |     CoalescePartitionsExec                                                     |
+|                                                            |       AggregateExec: mode=Partial, gby=[], aggr=[count(Int64(1))]              |
+|                                                            |         DataSourceExec: file_groups={1 group: [[t.parquet]]}, file_type=parquet|
++------------------------------------------------------------+--------------------------------------------------------------------------------+`;
+
+    it('should return every EXPLAIN VERBOSE row as a named stage', () => {
+      const stages = parser.parseStages(verboseText);
+
+      expect(stages.map(({ name, kind, unchanged }) => [name, kind, unchanged])).toEqual([
+        ['initial_logical_plan', 'logical', false],
+        ['logical_plan after type_coercion', 'logical', true],
+        ['logical_plan', 'logical', false],
+        ['initial_physical_plan', 'physical', false],
+        ['physical_plan after EnforceDistribution', 'physical', false],
+        ['physical_plan after EnforceSorting', 'physical', true],
+        ['physical_plan', 'physical', false],
+      ]);
+      expect(stages[2].root?.children[0].children[0].properties).toEqual({ table: 't', projection: '[]' });
+      expect(stages[3].root?.children[0].children[0].properties?.mode).toBe('Partial');
+      expect(stages[4].root?.children[0].children[0].operator).toBe('CoalescePartitionsExec');
+    });
+
+    it('should reuse the previous tree of the same kind for unchanged stages', () => {
+      const stages = parser.parseStages(verboseText);
+
+      expect(stages[1].root).toBe(stages[0].root);
+      expect(stages[5].root).toBe(stages[4].root);
+    });
+
+    it('should keep parse() on the final physical_plan row', () => {
+      const result = parser.parse(verboseText);
+
+      expect(result.root?.children[0].children[0].operator).toBe('CoalescePartitionsExec');
+      expect(result.logicalRoot?.properties?.expr).toBe('count(Int64(1)) AS count(*)');
+    });
+
+    it('should return no stages for a bare plan', () => {
+      expect(parser.parseStages('ProjectionExec: expr=[a@0 as a]')).toEqual([]);
+    });
   });
 });
@@ -0,0 +1,85 @@
+import { MetricsParser } from '../metrics.parser';
+
+describe('MetricsParser', () => {
+  let parser: MetricsParser;
+
+  beforeEach(() => {
+    parser = new MetricsParser();
+  });
+
+  describe('parse', () => {
+    it('should parse output_rows and elapsed_compute', () => {
+      const metrics = parser.parse('[output_rows=1, elapsed_compute=2375ns]');
+
+      expect(metrics.outputRows).toBe(1);
+      expect(metrics.elapsedCompute).toBe(2375);
+      expect(metrics.values.output_rows).toEqual({
+        name: 'output_rows',
+        value: 1,
+        unit: 'count',
+        raw: '1',
+      });
+      expect(metrics.values.elapsed_compute.unit).toBe('nanoseconds');
+    });
+
+    it('should normalise durations to nanoseconds', () => {
+      const metrics = parser.parse(
+        '[elapsed_compute=2.38µs, time_elapsed_opening=1.5ms, time_elapsed_processing=2s, time_elapsed_scanning_total=12us]'
+      );
+
+      expect(metrics.elapsedCompute).toBe(2380);
+      expect(metrics.timeElapsedOpening).toBe(1500000);
+      expect(metrics.timeElapsedProcessing).toBe(2000000000);
+      expect(metrics.timeElapsedScanningTotal).toBe(12000);
+    });
+
+    it('should normalise byte sizes to bytes', () => {
+      const metrics = parser.parse('[mem_used=1.5 KB, spilled_bytes=2 MB, bytes_scanned=512, output_bytes=64.0 B]');
+
+      expect(metrics.memUsed).toBe(1536);
+      expect(metrics.spilledBytes).toBe(2 * 1024 * 1024);
+      expect(metrics.bytesScanned).toBe(512);
+      expect(metrics.outputBytes).toBe(64);
+      expect(metrics.values.mem_used.unit).toBe('bytes');
+    });
+
+    it('should parse spill metrics', () => {
+      const metrics = parser.parse('[output_rows=10, spill_count=3, spilled_rows=42, spilled_bytes=0]');
+
+      expect(metrics.spillCount).toBe(3);
+      expect(metrics.spilledRows).toBe(42);
+      expect(metrics.spilledBytes).toBe(0);
+    });
+
+    it('should expand human-readable counts', () => {
+      const metrics = parser.parse('[output_rows=8.19 K, output_batches=2 M]');
+
+      expect(metrics.outputRows).toBe(8190);
+      expect(metrics.outputBatches).toBe(2000000);
+    });
+
+    it('should keep less common metrics in values', () => {
+      const metrics = parser.parse('[output_rows=5, page_index_rows_pruned=100, build_time=10ns]');
+
+      expect(metrics.values.page_index_rows_pruned.value).toBe(100);
+      expect(metrics.values.page_index_rows_pruned.unit).toBe('count');
+      expect(metrics.values.build_time.unit).toBe('nanoseconds');
+    });
+
+    it('should convert "total → matched" pruning metrics to pruned counts', () => {
+      const metrics = parser.parse('[row_groups_pruned_statistics=4 total → 1 matched]');
+
+      expect(metrics.values.row_groups_pruned_statistics.value).toBe(3);
+    });
+
+    it('should skip metrics that are not numeric', () => {
+      const metrics = parser.parse('[output_rows=1, start_timestamp=2024-01-01 00:00:00 UTC]');
+
+      expect(Object.keys(metrics.values)).toEqual(['output_rows']);
+    });
+
+    it('should return empty metrics for an empty list', () => {
+      expect(parser.parse('[]')).toEqual({ values: {} });
+    });
+  });
+});
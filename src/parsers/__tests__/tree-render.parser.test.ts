@@ -0,0 +1,193 @@
+import { TreeRenderParser } from '../tree-render.parser';
+import { ExecutionPlanParser } from '../execution-plan.parser';
+import { ExecutionPlanNode } from '../../types/execution-plan.types';
+import { ConverterService } from '../../services/converter.service';
+
+describe('TreeRenderParser', () => {
+  // EXPLAIN FORMAT TREE output as printed by datafusion-cli
+  const joinPlan = `+---------------+------------------------------------------------------------+
+| plan_type     | plan                                                       |
++---------------+------------------------------------------------------------+
+| physical_plan | ┌───────────────────────────┐                              |
+|               | │    CoalesceBatchesExec    │                              |
+|               | │    --------------------   │                              |
+|               | │     target_batch_size:    │                              |
+|               | │            8192           │                              |
+|               | └─────────────┬─────────────┘                              |
+|               | ┌─────────────┴─────────────┐                              |
+|               | │        HashJoinExec       │                              |
+|               | │    --------------------   │                              |
+|               | │      join_type: Left      ├──────────────┐               |
+|               | │                           │              │               |
+|               | │            on:            │              │               |
+|               | │ (l_orderkey = o_orderkey) │              │               |
+|               | └─────────────┬─────────────┘              │               |
+|               | ┌─────────────┴─────────────┐┌─────────────┴─────────────┐ |
+|               | │       DataSourceExec      ││      RepartitionExec      │ |
+|               | │    --------------------   ││    --------------------   │ |
+|               | │          files: 1         ││ partition_count(in->out): │ |
+|               | │        format: csv        ││           1 -> 4          │ |
+|               | │                           ││                           │ |
+|               | │                           ││    partitioning_scheme:   │ |
+|               | │                           ││     RoundRobinBatch(4)    │ |
+|               | └───────────────────────────┘└─────────────┬─────────────┘ |
+|               |                              ┌─────────────┴─────────────┐ |
+|               |                              │         FilterExec        │ |
+|               |                              │    --------------------   │ |
+|               |                              │         predicate:        │ |
+|               |                              │  l_quantity@4 >= Some(100 │ |
+|               |                              │  ),5,2 AND l_quantity@4 < │ |
+|               |                              │      = Some(2000),5,2     │ |
+|               |                              └─────────────┬─────────────┘ |
+|               |                              ┌─────────────┴─────────────┐ |
+|               |                              │       DataSourceExec      │ |
+|               |                              │    --------------------   │ |
+|               |                              │          files: 4         │ |
+|               |                              │      format: parquet      │ |
+|               |                              └───────────────────────────┘ |
++---------------+------------------------------------------------------------+`;
+
+  const unionPlan = `┌───────────────────────────┐
+│         UnionExec         ├───────────────────────────────────────────┬────────────────────────────┐
+└─────────────┬─────────────┘                                           │                            │
+┌─────────────┴─────────────┐                             ┌─────────────┴─────────────┐┌─────────────┴─────────────┐
+│        HashJoinExec       │                             │       AggregateExec       ││     PlaceholderRowExec    │
+│    --------------------   │                             │    --------------------   ││                           │
+│        on: (a = b)        ├──────────────┐              │       aggr: count(1)      ││                           │
+│                           │              │              │        group_by: c        ││                           │
+│                           │              │              │        mode: Single       ││                           │
+└─────────────┬─────────────┘              │              └─────────────┬─────────────┘└───────────────────────────┘
+┌─────────────┴─────────────┐┌─────────────┴─────────────┐┌─────────────┴─────────────┐
+│       DataSourceExec      ││       DataSourceExec      ││       DataSourceExec      │
+│    --------------------   ││    --------------------   ││    --------------------   │
+│    partition_sizes: [1]   ││    partition_sizes: [2]   ││          files: 1         │
+│                           ││                           ││        format: json       │
+└───────────────────────────┘└───────────────────────────┘└───────────────────────────┘`;
+
+  // EXPLAIN VERBOSE with tree rendering: an indented logical plan and two tree stages
+  const stagesPlan = `+-----------------------+-------------------------------+
+| plan_type             | plan                          |
++-----------------------+-------------------------------+
+| logical_plan          | Projection: t.a + Int64(1)    |
+|                       |   TableScan: t projection=[a] |
+| initial_physical_plan | ┌───────────────────────────┐ |
+|                       | │       ProjectionExec      │ |
+|                       | │    --------------------   │ |
+|                       | │      t.a + Int64(1):      │ |
+|                       | │          a@0 + 1          │ |
+|                       | └─────────────┬─────────────┘ |
+|                       | ┌─────────────┴─────────────┐ |
+|                       | │       DataSourceExec      │ |
+|                       | │    --------------------   │ |
+|                       | │    partition_sizes: [1]   │ |
+|                       | └───────────────────────────┘ |
+| physical_plan         | ┌───────────────────────────┐ |
+|                       | │   CoalescePartitionsExec  │ |
+|                       | └─────────────┬─────────────┘ |
+|                       | ┌─────────────┴─────────────┐ |
+|                       | │       ProjectionExec      │ |
+|                       | │    --------------------   │ |
+|                       | │      t.a + Int64(1):      │ |
+|                       | │          a@0 + 1          │ |
+|                       | └─────────────┬─────────────┘ |
+|                       | ┌─────────────┴─────────────┐ |
+|                       | │       DataSourceExec      │ |
+|                       | │    --------------------   │ |
+|                       | │    partition_sizes: [1]   │ |
+|                       | └───────────────────────────┘ |
++-----------------------+-------------------------------+`;
+
+  let parser: TreeRenderParser;
+
+  beforeEach(() => {
+    parser = new TreeRenderParser();
+  });
+
+  it('should detect box-drawing plans only', () => {
+    expect(parser.canParse(joinPlan)).toBe(true);
+    expect(parser.canParse(unionPlan)).toBe(true);
+    expect(parser.canParse('ProjectionExec: expr=[a@0 as a]\n  DataSourceExec: file_groups={1 group: [[a.csv]]}')).toBe(false);
+  });
+
+  it('should rebuild a chain and the second child branching off the right border', () => {
+    const root = parser.parse(joinPlan);
+
+    expect(root?.operator).toBe('CoalesceBatchesExec');
+    expect(root?.level).toBe(0);
+    const join = root!.children[0];
+    expect(join.operator).toBe('HashJoinExec');
+    expect(join.children.map((child) => child.operator)).toEqual(['DataSourceExec', 'RepartitionExec']);
+    const scan = join.children[1].children[0].children[0];
+    expect(scan.operator).toBe('DataSourceExec');
+    expect(scan.level).toBe(4);
+    expect(scan.children).toHaveLength(0);
+  });
+
+  it('should read inline, wrapped and renamed key/value lines', () => {
+    const root = parser.parse(joinPlan)!;
+    const join = root.children[0];
+    const repartition = join.children[1];
+
+    expect(root.properties).toEqual({ target_batch_size: '8192' });
+    expect(join.properties).toEqual({ join_type: 'Left', on: '(l_orderkey = o_orderkey)' });
+    expect(join.children[0].properties).toEqual({ files: '1', file_type: 'csv' });
+    expect(repartition.properties).toEqual({ 'partition_count(in->out)': '1 -> 4', 'partitioning': 'RoundRobinBatch(4)' });
+    expect(repartition.children[0].properties).toEqual({ predicate: 'l_quantity@4 >= Some(100),5,2 AND l_quantity@4 <= Some(2000),5,2' });
+  });
+
+  it('should follow branches that pass over other subtrees and keep boxes without properties', () => {
+    const root = parser.parse(unionPlan)!;
+
+    expect(root.operator).toBe('UnionExec');
+    expect(root.properties).toBeUndefined();
+    expect(root.children.map((child) => child.operator)).toEqual(['HashJoinExec', 'AggregateExec', 'PlaceholderRowExec']);
+    expect(root.children[0].children.map((child) => child.properties?.partition_sizes)).toEqual(['[1]', '[2]']);
+    expect(root.children[1].properties).toEqual({ aggr: 'count(1)', gby: '[c]', mode: 'Single' });
+    expect(root.children[1].children[0].properties).toEqual({ files: '1', file_type: 'json' });
+    expect(root.children[2].children).toHaveLength(0);
+  });
+
+  it('should reject a box that is not connected to a parent', () => {
+    const detached = `┌───────────────────────────┐
+│    CoalesceBatchesExec    │
+└─────────────┬─────────────┘
+┌─────────────┴─────────────┐
+│        HashJoinExec       │
+└───────────────────────────┘
+┌───────────────────────────┐
+│       DataSourceExec      │
+└───────────────────────────┘`;
+
+    expect(() => new TreeRenderParser().parse(detached)).toThrow('No parent found for the DataSourceExec box at line 7');
+  });
+
+  it('should skip properties when extractProperties is disabled', () => {
+    const root = new TreeRenderParser({ extractProperties: false }).parse(joinPlan);
+
+    expect(root?.operator).toBe('CoalesceBatchesExec');
+    expect(root?.properties).toBeUndefined();
+  });
+
+  it('should be picked automatically by ExecutionPlanParser and the converter', () => {
+    const result = new ExecutionPlanParser().parse(unionPlan);
+    const data = new ConverterService().convert(joinPlan);
+
+    expect(result.root?.children).toHaveLength(3);
+    expect(new ExecutionPlanParser().parseStages(joinPlan).map((stage) => stage.root?.operator)).toEqual(['CoalesceBatchesExec']);
+    expect(data.elements.some((el) => el.type === 'text' && el.text.startsWith('HashJoinExec'))).toBe(true);
+    expect(data.elements.some((el) => el.type === 'text' && el.text.startsWith('RepartitionExec'))).toBe(true);
+  });
+
+  it('should parse every box-drawing stage from its own row', () => {
+    const stages = new ExecutionPlanParser().parseStages(stagesPlan);
+    const operators = (node: ExecutionPlanNode | null): string[] => node ? [node.operator, ...node.children.flatMap(operators)] : [];
+
+    expect(stages.map((stage) => [stage.name, operators(stage.root)])).toEqual([
+      ['logical_plan', ['Projection', 'TableScan']],
+      ['initial_physical_plan', ['ProjectionExec', 'DataSourceExec']],
+      ['physical_plan', ['CoalescePartitionsExec', 'ProjectionExec', 'DataSourceExec']],
+    ]);
+    expect(stages[2].root?.children[0].properties).toEqual({ 't.a + Int64(1)': 'a@0 + 1' });
+    expect(new ExecutionPlanParser().parse(stagesPlan).root?.operator).toBe('CoalescePartitionsExec');
+  });
+});
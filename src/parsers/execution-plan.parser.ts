@@ -2,10 +2,14 @@ import {
   ExecutionPlanNode,
   ParsedExecutionPlan,
   ParserConfig,
+  PlanKind,
+  PlanStage,
 } from '../types/execution-plan.types';
+import { MetricsParser } from './metrics.parser';
+import { TreeRenderParser } from './tree-render.parser';
 
 /**
- * Parser for Apache Data Fusion Physical Execution Plans
+ * Parser for Apache Data Fusion Physical Execution Plans (and the logical plans printed above them)
  * Follows Single Responsibility Principle - only responsible for parsing
  */
 export class ExecutionPlanParser {
@@ -16,17 +20,46 @@ export class ExecutionPlanParser {
    */
   private static readonly PHYSICAL_PLAN_ROW_LABELS = ['physical_plan', 'Plan with Metrics'] as const;
 
+  /**
+   * EXPLAIN table row labels that contain the optimized logical plan.
+   */
+  private static readonly LOGICAL_PLAN_ROW_LABELS = ['logical_plan'] as const;
+
+  /**
+   * Plan text `EXPLAIN VERBOSE` prints for a stage that did not change the plan.
+   */
+  private static readonly SAME_TEXT_AS_ABOVE = 'SAME TEXT AS ABOVE';
+
+  /**
+   * Logical operators whose whole payload is a single expression list, and the
+   * property name it is stored under. Their payloads contain `=` comparisons
+   * (e.g. `Filter: t.a = Int64(1)`) that must not be read as key=value pairs.
+   */
+  private static readonly LOGICAL_POSITIONAL_PROPERTIES: Record<string, string> = {
+    Projection: 'expr',
+    Filter: 'predicate',
+    Sort: 'expr',
+    SubqueryAlias: 'alias',
+    Distinct: 'expr',
+    Values: 'expr',
+  };
+
   private readonly config: Required<ParserConfig>;
+  private readonly metricsParser: MetricsParser;
+  private readonly treeRenderParser: TreeRenderParser;
 
   constructor(config: ParserConfig = {}) {
     this.config = {
       indentationSize: config.indentationSize ?? 2,
       extractProperties: config.extractProperties ?? true,
     };
+    this.metricsParser = new MetricsParser();
+    this.treeRenderParser = new TreeRenderParser(config);
   }
 
   /**
    * Parses a physical execution plan text into a tree structure
+   * Indented plans and box-drawing plans (`EXPLAIN FORMAT TREE`) are told apart automatically
    * @param planText - The raw execution plan text
    * @returns Parsed execution plan with root node
    */
@@ -42,8 +75,18 @@ export class ExecutionPlanParser {
     const extractedPlan = this.extractPhysicalPlanFromExplain(planText);
     const planToParse = extractedPlan || planText;
 
-    const lines = this.preprocessLines(planToParse);
-    const root = this.buildTree(lines);
+    const root = this.treeRenderParser.canParse(planToParse) ?
+      this.treeRenderParser.parse(planToParse) :
+      this.buildTree(this.preprocessLines(planToParse), 'physical');
+
+    const logicalPlan = this.extractPlanFromExplain(planText, ExecutionPlanParser.LOGICAL_PLAN_ROW_LABELS);
+    if (logicalPlan) {
+      return {
+        root,
+        logicalRoot: this.buildTree(this.preprocessLines(logicalPlan), 'logical'),
+        originalText: planText,
+      };
+    }
 
     return {
       root,
@@ -51,86 +94,168 @@ export class ExecutionPlanParser {
     };
   }
 
+  /**
+   * Parses a logical plan into a tree structure
+   * Accepts either SQL EXPLAIN table output (the `logical_plan` row is used)
+   * or a bare logical plan such as `Projection: ...` / `  TableScan: t`
+   * @param planText - The raw plan text
+   * @returns Root node of the logical plan, or null if the text is empty
+   * @throws Error if the text is an EXPLAIN table without a `logical_plan` row
+   */
+  public parseLogicalPlan(planText: string): ExecutionPlanNode | null {
+    if (!planText || planText.trim().length === 0) {
+      return null;
+    }
+
+    const extractedPlan = this.extractPlanFromExplain(planText, ExecutionPlanParser.LOGICAL_PLAN_ROW_LABELS);
+    if (!extractedPlan && this.isExplainTable(planText)) {
+      throw new Error('EXPLAIN output has no logical_plan row');
+    }
+    return this.buildTree(this.preprocessLines(extractedPlan || planText), 'logical');
+  }
+
+  /**
+   * Parses every row of SQL EXPLAIN table output into a named plan stage
+   * `EXPLAIN VERBOSE` prints one row per optimizer stage (initial_logical_plan,
+   * `logical_plan after ...`, initial_physical_plan, `physical_plan after EnforceSorting`, ...);
+   * plain EXPLAIN yields just the `logical_plan` and `physical_plan` stages
+   * @param planText - The raw EXPLAIN output
+   * @returns Stages in the order DataFusion printed them (empty if the text is not an EXPLAIN table)
+   */
+  public parseStages(planText: string): PlanStage[] {
+    const stages: PlanStage[] = [];
+    const previousRoots: Partial<Record<PlanKind, ExecutionPlanNode | null>> = {};
+
+    for (const { label, plan } of this.extractExplainRows(planText)) {
+      const kind: PlanKind = label.includes('logical_plan') ? 'logical' : 'physical';
+      const unchanged = plan.trim() === ExecutionPlanParser.SAME_TEXT_AS_ABOVE;
+      let root: ExecutionPlanNode | null;
+      if (unchanged) {
+        root = previousRoots[kind] ?? null;
+      } else if (this.treeRenderParser.canParse(plan)) {
+        root = this.treeRenderParser.parse(plan);
+      } else {
+        root = this.buildTree(this.preprocessLines(plan), kind);
+      }
+
+      previousRoots[kind] = root;
+      stages.push({ name: label, kind, root, unchanged });
+    }
+
+    return stages;
+  }
+
   /**
    * Extracts physical plan from SQL EXPLAIN table format.
    *
    * Recognizes rows whose `plan_type` column is one of
-   * {@link ExecutionPlanParser.PHYSICAL_PLAN_ROW_LABELS}. Continuation lines
-   * (indented operators under an empty `plan_type` cell) are included.
+   * {@link ExecutionPlanParser.PHYSICAL_PLAN_ROW_LABELS}.
    *
    * @param planText - The raw plan text (may be SQL EXPLAIN output)
    * @returns Extracted physical plan line or null if not SQL EXPLAIN format
    */
   private extractPhysicalPlanFromExplain(planText: string): string | null {
-    const lines = planText.split('\n');
+    return this.extractPlanFromExplain(planText, ExecutionPlanParser.PHYSICAL_PLAN_ROW_LABELS);
+  }
 
-    // Check if this looks like SQL EXPLAIN table format
-    // It should have lines with | separators and a physical_plan row
-    let foundPhysicalPlan = false;
-    let physicalPlanLine = '';
+  /**
+   * Extracts the plan of the first row whose `plan_type` column is one of
+   * `rowLabels` from SQL EXPLAIN table format.
+   *
+   * @param planText - The raw plan text (may be SQL EXPLAIN output)
+   * @param rowLabels - Accepted `plan_type` values
+   * @returns Extracted plan or null if no matching row exists
+   */
+  private extractPlanFromExplain(planText: string, rowLabels: readonly string[]): string | null {
+    const row = this.extractExplainRows(planText).find(({ label }) => rowLabels.includes(label));
+    return row && row.plan ? row.plan : null;
+  }
+
+  /**
+   * Whether the text is SQL EXPLAIN table output, or rows cut from it, rather than a bare plan
+   */
+  private isExplainTable(planText: string): boolean {
+    return planText.split('\n').some((line) => line.trim().startsWith('|'));
+  }
+
+  /**
+   * Extracts all rows of SQL EXPLAIN table format as `plan_type` label and
+   * plan text. Continuation lines (indented operators under an empty
+   * `plan_type` cell) are included. Box-drawing rows (`EXPLAIN FORMAT TREE`)
+   * keep their cells untrimmed so that the boxes stay aligned.
+   *
+   * @param planText - The raw plan text (may be SQL EXPLAIN output)
+   * @returns Rows in table order (empty if not SQL EXPLAIN format)
+   */
+  private extractExplainRows(planText: string): Array<{ label: string; plan: string }> {
+    const lines = planText.split('\n');
+    const rows: Array<{ label: string; plan: string }> = [];
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
 
       const parts = line.split('|');
       const planType = parts.length >= 3 ? parts[1].trim() : '';
-      if (
-        line.trim().startsWith('|') &&
-        ExecutionPlanParser.PHYSICAL_PLAN_ROW_LABELS.includes(
-          planType as (typeof ExecutionPlanParser.PHYSICAL_PLAN_ROW_LABELS)[number]
-        )
-      ) {
-        foundPhysicalPlan = true;
-        const planLines: string[] = [];
-        if (parts.length >= 3) {
-          planLines.push(parts[2].trim());
-        }
+      if (line.trim().startsWith('|') && planType.length > 0 && planType !== 'plan_type') {
+        const boxTree = parts[2].trim().startsWith('┌');
+        const planLines: string[] = [boxTree ? this.extractPlanCell(line) : parts[2].trim()];
         // Check if the plan continues on subsequent lines (if it's wrapped)
         // Preserve indentation structure by keeping each line separate
         let j = i + 1;
         while (j < lines.length) {
           const nextLine = lines[j];
           const nextLineTrimmed = nextLine.trim();
+          const nextParts = nextLine.split('|');
           // If next line starts with | but doesn't contain another column header or separator, it's continuation
           if (
             nextLineTrimmed.startsWith('|') &&
             !nextLineTrimmed.includes('plan_type') &&
-            !nextLineTrimmed.includes('+')
+            // Expressions inside boxes may contain "+"; table borders never start with "|"
+            (boxTree || !nextLineTrimmed.includes('+')) &&
+            nextParts.length >= 3 &&
+            nextParts[1].trim().length === 0
           ) {
-            const nextParts = nextLine.split('|');
-            if (nextParts.length >= 3) {
-              const continuationText = nextParts[2]; // Use parts[2] which is the plan column
-              // Count leading spaces to determine indentation level
-              const leadingSpacesMatch = continuationText.match(/^(\s*)/);
-              const leadingSpaces = leadingSpacesMatch ? leadingSpacesMatch[1].length : 0;
-              const trimmedText = continuationText.trim();
-              if (trimmedText.length > 0) {
-                // Preserve indentation: 2 spaces per level
-                // The first line has 1 space, each level adds 2 spaces
-                // So: level 0 = 1 space, level 1 = 3 spaces, level 2 = 5 spaces, etc.
-                // Formula: indentLevel = (leadingSpaces - 1) / 2
-                const indentLevel = Math.floor((leadingSpaces - 1) / 2);
-                const indent = '  '.repeat(indentLevel);
-                planLines.push(indent + trimmedText);
-              } else {
-                // Empty continuation line, stop here
-                break;
-              }
-            } else {
+            if (boxTree) {
+              planLines.push(this.extractPlanCell(nextLine));
+              j++;
+              continue;
+            }
+            const continuationText = nextParts[2]; // Use parts[2] which is the plan column
+            // Count leading spaces to determine indentation level
+            const leadingSpacesMatch = continuationText.match(/^(\s*)/);
+            const leadingSpaces = leadingSpacesMatch ? leadingSpacesMatch[1].length : 0;
+            const trimmedText = continuationText.trim();
+            if (trimmedText.length === 0) {
+              // Empty continuation line, stop here
               break;
             }
+            // Preserve indentation: 2 spaces per level
+            // The first line has 1 space, each level adds 2 spaces
+            // So: level 0 = 1 space, level 1 = 3 spaces, level 2 = 5 spaces, etc.
+            // Formula: indentLevel = (leadingSpaces - 1) / 2
+            const indentLevel = Math.floor((leadingSpaces - 1) / 2);
+            planLines.push('  '.repeat(indentLevel) + trimmedText);
             j++;
           } else {
             break;
           }
         }
         // Join lines with newlines to preserve structure
-        physicalPlanLine = planLines.join('\n');
-        break;
+        rows.push({ label: planType, plan: planLines.join('\n') });
+        i = j - 1;
       }
     }
 
-    return foundPhysicalPlan && physicalPlanLine ? physicalPlanLine : null;
+    return rows;
+  }
+
+  /**
+   * Text of the `plan` column of a table line, with its leading spaces:
+   * "| physical_plan | ┌───┐   |" -> " ┌───┐"
+   */
+  private extractPlanCell(line: string): string {
+    const start = line.indexOf('|', line.indexOf('|') + 1) + 1;
+    return line.substring(start, line.lastIndexOf('|')).trimEnd();
   }
 
   /**
@@ -183,7 +308,7 @@ export class ExecutionPlanParser {
   /**
    * Builds the execution plan tree from lines
    */
-  private buildTree(lines: string[]): ExecutionPlanNode | null {
+  private buildTree(lines: string[], kind: PlanKind): ExecutionPlanNode | null {
     if (lines.length === 0) {
       return null;
     }
@@ -192,7 +317,9 @@ export class ExecutionPlanParser {
 
     for (const line of lines) {
       const level = this.getIndentationLevel(line);
-      const { operator, properties } = this.parseOperatorLine(line.trim());
+      const { operator, properties } = kind === 'logical' ?
+        this.parseLogicalOperatorLine(line.trim()) :
+        this.parseOperatorLine(line.trim());
 
       const node: ExecutionPlanNode = {
         operator,
@@ -201,6 +328,11 @@ export class ExecutionPlanParser {
         level,
       };
 
+      // EXPLAIN ANALYZE: keep the raw metrics property and expose typed values
+      if (properties?.metrics) {
+        node.metrics = this.metricsParser.parse(properties.metrics);
+      }
+
       nodes.push({ node, level });
     }
 
@@ -260,6 +392,65 @@ export class ExecutionPlanParser {
     return { operator, properties: Object.keys(properties).length > 0 ? properties : undefined };
   }
 
+  /**
+   * Parses a logical plan operator line
+   * Examples:
+   * "Projection: f.f_dkey, f.timestamp" -> expr
+   * "Inner Join: d.d_dkey = f.f_dkey" -> join_type=Inner, on
+   * "TableScan: t projection=[a, b], partial_filters=[t.a > Int64(1)]" -> table, projection, partial_filters
+   * "Aggregate: groupBy=[[t.a]], aggr=[[count(Int64(1))]]" -> groupBy, aggr
+   */
+  private parseLogicalOperatorLine(line: string): {
+    operator: string;
+    properties?: Record<string, string>;
+  } {
+    const colonIndex = line.indexOf(':');
+    if (!this.config.extractProperties || colonIndex === -1) {
+      return { operator: line };
+    }
+
+    const operator = line.substring(0, colonIndex).trim();
+    const payload = line.substring(colonIndex + 1).trim();
+    const properties: Record<string, string> = {};
+
+    if (operator === 'TableScan') {
+      const tableMatch = payload.match(/^(\S+)\s*(.*)$/);
+      if (tableMatch) {
+        properties.table = tableMatch[1].replace(/,$/, '');
+        for (const [key, value] of this.extractKeyValuePairs(tableMatch[2])) {
+          properties[key] = value;
+        }
+      }
+    } else if (/Join$/.test(operator)) {
+      const joinType = operator.replace(/\s*Join$/, '');
+      if (joinType) {
+        properties.join_type = joinType;
+      }
+      const filterIndex = payload.indexOf(' Filter: ');
+      const on = filterIndex >= 0 ? payload.substring(0, filterIndex).trim() : payload;
+      if (on) {
+        properties.on = on;
+      }
+      if (filterIndex >= 0) {
+        properties.filter = payload.substring(filterIndex + ' Filter: '.length).trim();
+      }
+    } else if (operator in ExecutionPlanParser.LOGICAL_POSITIONAL_PROPERTIES) {
+      // Sort (and Limit-pushed operators) may end with ", fetch=N"
+      const fetchMatch = payload.match(/^(.*?),\s*fetch=(\d+)$/);
+      const expression = fetchMatch ? fetchMatch[1] : payload;
+      if (expression) {
+        properties[ExecutionPlanParser.LOGICAL_POSITIONAL_PROPERTIES[operator]] = expression;
+      }
+      if (fetchMatch) {
+        properties.fetch = fetchMatch[2];
+      }
+    } else {
+      Object.assign(properties, this.parsePropertiesText(operator, payload));
+    }
+
+    return { operator, properties: Object.keys(properties).length > 0 ? properties : undefined };
+  }
+
   /**
    * Parses the text after an operator name.
    */
@@ -1 +1,3 @@
 export * from './execution-plan.parser';
+export * from './metrics.parser';
+export * from './tree-render.parser';
@@ -0,0 +1,171 @@
+import { ExecutionPlanMetrics, MetricUnit, MetricValue } from '../types/execution-plan.types';
+
+/**
+ * Parser for EXPLAIN ANALYZE `metrics=[...]` properties
+ * Normalises durations to nanoseconds, sizes to bytes and counts to plain numbers
+ */
+export class MetricsParser {
+  private static readonly DURATION_UNITS: Record<string, number> = {
+    'ns': 1,
+    'µs': 1e3,
+    'μs': 1e3,
+    'us': 1e3,
+    'ms': 1e6,
+    's': 1e9,
+    'm': 60e9,
+    'min': 60e9,
+    'h': 3600e9,
+  };
+
+  private static readonly BYTE_UNITS: Record<string, number> = {
+    B: 1,
+    KB: 1024,
+    KiB: 1024,
+    MB: 1024 ** 2,
+    MiB: 1024 ** 2,
+    GB: 1024 ** 3,
+    GiB: 1024 ** 3,
+    TB: 1024 ** 4,
+    TiB: 1024 ** 4,
+  };
+
+  private static readonly COUNT_UNITS: Record<string, number> = {
+    K: 1e3,
+    M: 1e6,
+    B: 1e9,
+    T: 1e12,
+  };
+
+  /**
+   * Maps DataFusion metric names to typed {@link ExecutionPlanMetrics} fields
+   */
+  private static readonly WELL_KNOWN_METRICS: Record<string, keyof Omit<ExecutionPlanMetrics, 'values'>> = {
+    output_rows: 'outputRows',
+    elapsed_compute: 'elapsedCompute',
+    spill_count: 'spillCount',
+    spilled_bytes: 'spilledBytes',
+    spilled_rows: 'spilledRows',
+    mem_used: 'memUsed',
+    output_bytes: 'outputBytes',
+    output_batches: 'outputBatches',
+    time_elapsed_opening: 'timeElapsedOpening',
+    time_elapsed_processing: 'timeElapsedProcessing',
+    time_elapsed_scanning_total: 'timeElapsedScanningTotal',
+    time_elapsed_scanning_until_data: 'timeElapsedScanningUntilData',
+    bytes_scanned: 'bytesScanned',
+  };
+
+  /**
+   * Parses a metrics property value
+   * @param metricsText - Value of the metrics property, e.g. "[output_rows=1, elapsed_compute=2375ns]"
+   * @returns Typed metrics; metrics whose value cannot be interpreted as a number are skipped
+   */
+  parse(metricsText: string): ExecutionPlanMetrics {
+    const metrics: ExecutionPlanMetrics = { values: {} };
+    const content = metricsText.trim().replace(/^\[/, '').replace(/\]$/, '');
+
+    for (const entry of this.splitEntries(content)) {
+      const equalsIndex = entry.indexOf('=');
+      if (equalsIndex <= 0) {
+        continue;
+      }
+
+      const name = entry.substring(0, equalsIndex).trim();
+      const raw = entry.substring(equalsIndex + 1).trim();
+      const metric = this.parseValue(name, raw);
+      if (!metric) {
+        continue;
+      }
+
+      metrics.values[name] = metric;
+      const field = MetricsParser.WELL_KNOWN_METRICS[name];
+      if (field) {
+        metrics[field] = metric.value;
+      }
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Interprets a single metric value based on its suffix and, where the suffix is
+   * ambiguous (e.g. "B" for bytes or billions), on the metric name
+   */
+  parseValue(name: string, raw: string): MetricValue | null {
+    // Pruning metrics: "3 total → 1 matched" means 2 were pruned
+    const pruningMatch = raw.match(/^(\d+)\s+total\s*(?:→|->)\s*(\d+)\s+matched/);
+    if (pruningMatch) {
+      const total = parseInt(pruningMatch[1], 10);
+      const matched = parseInt(pruningMatch[2], 10);
+      return this.createMetric(name, total - matched, 'count', raw);
+    }
+
+    const match = raw.match(/^(-?\d+(?:\.\d+)?)\s*([A-Za-zµμ]*)$/);
+    if (!match) {
+      return null;
+    }
+
+    const amount = parseFloat(match[1]);
+    const suffix = match[2];
+
+    if (suffix in MetricsParser.DURATION_UNITS) {
+      return this.createMetric(name, amount * MetricsParser.DURATION_UNITS[suffix], 'nanoseconds', raw);
+    }
+
+    if (this.isByteMetric(name)) {
+      const multiplier = suffix ? MetricsParser.BYTE_UNITS[suffix] : 1;
+      return multiplier === undefined ? null : this.createMetric(name, amount * multiplier, 'bytes', raw);
+    }
+
+    if (!suffix && this.isTimeMetric(name)) {
+      return this.createMetric(name, amount, 'nanoseconds', raw);
+    }
+
+    const multiplier = suffix ? MetricsParser.COUNT_UNITS[suffix] : 1;
+    return multiplier === undefined ? null : this.createMetric(name, amount * multiplier, 'count', raw);
+  }
+
+  private createMetric(name: string, value: number, unit: MetricUnit, raw: string): MetricValue {
+    return { name, value: Math.round(value), unit, raw };
+  }
+
+  private isByteMetric(name: string): boolean {
+    return /bytes|mem_used|memory|_size$/.test(name);
+  }
+
+  private isTimeMetric(name: string): boolean {
+    return /^(elapsed_|time_)|_time$|_time_|_nanos$/.test(name);
+  }
+
+  /**
+   * Splits the metric list at top-level commas
+   */
+  private splitEntries(content: string): string[] {
+    const entries: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of content) {
+      if (char === '[' || char === '(' || char === '{') {
+        depth++;
+      } else if (char === ']' || char === ')' || char === '}') {
+        depth--;
+      }
+
+      if (char === ',' && depth === 0) {
+        if (current.trim()) {
+          entries.push(current.trim());
+        }
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+
+    if (current.trim()) {
+      entries.push(current.trim());
+    }
+
+    return entries;
+  }
+}
@@ -0,0 +1,242 @@
+import { ExecutionPlanNode, ParserConfig } from '../types/execution-plan.types';
+
+/**
+ * A box found in the rendered plan, by its border rows and columns
+ */
+interface RenderedBox {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+  node: ExecutionPlanNode;
+}
+
+/**
+ * Parser for physical plans printed as box trees (`EXPLAIN FORMAT TREE`, or
+ * `datafusion.explain.format = 'tree'`) instead of indented text:
+ *
+ * ┌───────────────────────────┐
+ * │        HashJoinExec       │
+ * │    --------------------   │
+ * │        on: (a = b)        ├──────────────┐
+ * └─────────────┬─────────────┘              │
+ * ┌─────────────┴─────────────┐┌─────────────┴─────────────┐
+ * │       DataSourceExec      ││       DataSourceExec      │
+ * └───────────────────────────┘└───────────────────────────┘
+ *
+ * Each box holds the operator name, then key/value lines below a dashed separator.
+ * A child hangs below its parent's ┬, further children off the ├ on its right border.
+ * Works on the bare tree and on the EXPLAIN table around it, whose ASCII | borders
+ * are never box-drawing characters.
+ */
+export class TreeRenderParser {
+  /**
+   * Tree render keys whose indented-format counterpart has another name,
+   * so that the node generators find them under the usual property names.
+   */
+  private static readonly PROPERTY_NAMES: Record<string, string> = {
+    partitioning_scheme: 'partitioning',
+    format: 'file_type',
+    group_by: 'gby',
+  };
+
+  private readonly extractProperties: boolean;
+
+  constructor(config: ParserConfig = {}) {
+    this.extractProperties = config.extractProperties ?? true;
+  }
+
+  /**
+   * Whether the text contains a box-drawing plan
+   */
+  public canParse(planText: string): boolean {
+    return /┌─*┐/.test(planText) && planText.includes('└');
+  }
+
+  /**
+   * Rebuilds the plan tree from the box layout
+   * @param planText - Tree render output, bare or inside the EXPLAIN table
+   * @returns Root node (the top left box), or null if the text contains no box
+   * @throws If a box other than the root is not connected to a parent
+   */
+  public parse(planText: string): ExecutionPlanNode | null {
+    const grid = planText.split('\n').map((line) => Array.from(line.trimEnd()));
+    const boxes = this.findBoxes(grid);
+    if (boxes.length === 0) {
+      return null;
+    }
+
+    const roots: RenderedBox[] = [];
+    for (const box of boxes) {
+      const parent = this.findParent(grid, boxes, box);
+      if (parent) {
+        parent.node.children.push(box.node);
+      } else {
+        roots.push(box);
+      }
+    }
+
+    // Every box below the root must hang from another, or its subtree would be lost
+    if (roots.length !== 1) {
+      const orphan = roots[1];
+      throw new Error(`No parent found for the ${orphan.node.operator} box at line ${orphan.top + 1}`);
+    }
+
+    // Boxes are found row by row from the left, so children are already in input order
+    const root = roots[0].node;
+    this.assignLevels(root, 0);
+    return root;
+  }
+
+  /**
+   * Finds every ┌───┐ ... └───┘ box, top to bottom and left to right
+   */
+  private findBoxes(grid: string[][]): RenderedBox[] {
+    const boxes: RenderedBox[] = [];
+
+    for (let top = 0; top < grid.length; top++) {
+      const row = grid[top];
+      for (let left = row.indexOf('┌'); left !== -1; left = row.indexOf('┌', left + 1)) {
+        let right = left + 1;
+        while (row[right] === '─' || row[right] === '┴') {
+          right++;
+        }
+        if (row[right] !== '┐') {
+          continue;
+        }
+
+        let bottom = top + 1;
+        while (bottom < grid.length && grid[bottom][left] === '│') {
+          bottom++;
+        }
+        if (grid[bottom]?.[left] !== '└') {
+          continue;
+        }
+
+        const lines = grid.slice(top + 1, bottom).map((line) => line.slice(left + 1, right).join('').trim());
+        boxes.push({ top, bottom, left, right, node: this.parseBox(lines, right - left - 1) });
+      }
+    }
+
+    return boxes;
+  }
+
+  /**
+   * Follows the line leaving the ┴ on top of a box up to the box it hangs from:
+   * either straight up to a ┬ on a bottom border, or up to a ┐/┬ branch and
+   * then left along ─ to the ├ on a right border
+   */
+  private findParent(grid: string[][], boxes: RenderedBox[], box: RenderedBox): RenderedBox | undefined {
+    const column = grid[box.top].indexOf('┴', box.left);
+    if (column === -1 || column > box.right) {
+      return undefined;
+    }
+
+    let row = box.top - 1;
+    while (row >= 0 && (grid[row][column] === '│' || grid[row][column] === '┼')) {
+      row--;
+    }
+    if (row < 0) {
+      return undefined;
+    }
+
+    const above = boxes.find((candidate) => candidate.bottom === row && candidate.left < column && column < candidate.right);
+    if (above) {
+      return above;
+    }
+
+    let branch = column - 1;
+    while (branch >= 0 && ['─', '┬', '┼'].includes(grid[row][branch])) {
+      branch--;
+    }
+    if (grid[row][branch] !== '├') {
+      return undefined;
+    }
+    return boxes.find((candidate) => candidate.right === branch && candidate.top < row && row < candidate.bottom);
+  }
+
+  private assignLevels(node: ExecutionPlanNode, level: number): void {
+    node.level = level;
+    for (const child of node.children) {
+      this.assignLevels(child, level + 1);
+    }
+  }
+
+  /**
+   * Reads the operator name and the key/value lines of one box
+   * @param lines - Trimmed inner lines of the box
+   * @param width - Inner width of the box, used to tell hard-wrapped values apart
+   */
+  private parseBox(lines: string[], width: number): ExecutionPlanNode {
+    const separator = lines.findIndex((line) => /^-{3,}$/.test(line));
+    const operator = (separator === -1 ? lines : lines.slice(0, separator)).join('');
+    const node: ExecutionPlanNode = { operator, children: [], level: 0 };
+
+    if (this.extractProperties && separator !== -1) {
+      const properties = this.parseProperties(lines.slice(separator + 1), width);
+      if (Object.keys(properties).length > 0) {
+        node.properties = properties;
+      }
+    }
+    return node;
+  }
+
+  /**
+   * Reads the lines below the separator. DataFusion prints a short entry as
+   * "key: value", a long one as "key:" followed by the value wrapped over several
+   * lines, and a blank line after every wrapped entry. A key without a value is a flag.
+   */
+  private parseProperties(lines: string[], width: number): Record<string, string> {
+    const properties: Record<string, string> = {};
+    let openKey: string | null = null;
+    let previousLine = '';
+
+    for (const line of lines) {
+      if (line.length === 0) {
+        openKey = null;
+        continue;
+      }
+
+      if (openKey !== null) {
+        properties[openKey] = this.joinWrappedLine(properties[openKey], previousLine, line, width);
+        previousLine = line;
+        continue;
+      }
+
+      const wrapped = line.match(/^([^:\s][^:]*):$/);
+      const inline = line.match(/^([^:\s][^:]*?):\s+(.+)$/);
+      if (wrapped) {
+        openKey = this.propertyName(wrapped[1]);
+        properties[openKey] = '';
+        previousLine = '';
+      } else if (inline) {
+        properties[this.propertyName(inline[1])] = inline[2];
+      } else {
+        properties[this.propertyName(line)] = '';
+      }
+    }
+
+    if (properties.gby && !properties.gby.startsWith('[')) {
+      properties.gby = `[${properties.gby}]`;
+    }
+    return properties;
+  }
+
+  /**
+   * Appends the next wrapped line of a value. DataFusion breaks values before
+   * spaces and punctuation; a line that starts with a letter or digit lost the
+   * space it was broken at to centering, unless the previous line filled the box
+   * (a word too long to break)
+   */
+  private joinWrappedLine(value: string, previousLine: string, line: string, width: number): string {
+    if (value.length === 0) {
+      return line;
+    }
+    const brokenAtSpace = /^\w/.test(line) && previousLine.length < width - 2;
+    return brokenAtSpace ? `${value} ${line}` : `${value}${line}`;
+  }
+
+  private propertyName(key: string): string {
+    return TreeRenderParser.PROPERTY_NAMES[key] ?? key;
+  }
+}
@@ -0,0 +1,102 @@
+import { BATCH_CACHE_FILE, BatchConverterService } from '../batch-converter.service';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('BatchConverterService', () => {
+  const plansDir = path.join(__dirname, '../../../tests');
+  let root: string;
+  let inputDir: string;
+  let outputDir: string;
+
+  const writePlan = (file: string, text: string): void => {
+    fs.mkdirSync(path.dirname(path.join(inputDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(inputDir, file), text, 'utf-8');
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-viz-batch-'));
+    inputDir = path.join(root, 'plans');
+    outputDir = path.join(root, 'out');
+    writePlan('join.sql', fs.readFileSync(path.join(plansDir, 'join.sql'), 'utf-8'));
+    writePlan('nested/deeper/sort.sql', fs.readFileSync(path.join(plansDir, 'sort.sql'), 'utf-8'));
+    writePlan('nested/notes.txt', 'not a plan file');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should convert every .sql file into each format, keeping the directory structure', async () => {
+    const summary = await new BatchConverterService().convertDirectory({ inputDir, outputDir, formats: ['excalidraw', 'svg'] });
+
+    expect(summary.results.map((result) => [result.file, result.status])).toEqual([
+      ['join.sql', 'converted'],
+      [path.join('nested', 'deeper', 'sort.sql'), 'converted'],
+    ]);
+    expect(summary).toMatchObject({ converted: 2, skipped: 0, failed: 0 });
+    expect(JSON.parse(fs.readFileSync(path.join(outputDir, 'join.excalidraw'), 'utf-8')).type).toBe('excalidraw');
+    expect(fs.readFileSync(path.join(outputDir, 'nested/deeper/sort.svg'), 'utf-8')).toContain('<svg');
+    expect(fs.existsSync(path.join(outputDir, 'nested/notes.excalidraw'))).toBe(false);
+  });
+
+  it('should convert changed files and skip files unchanged since the last run', async () => {
+    const converter = new BatchConverterService();
+    await converter.convertDirectory({ inputDir, outputDir });
+    writePlan('join.sql', fs.readFileSync(path.join(plansDir, 'union.sql'), 'utf-8'));
+
+    const summary = await converter.convertDirectory({ inputDir, outputDir });
+
+    expect(summary.results.map((result) => result.status)).toEqual(['converted', 'skipped']);
+    expect(fs.readFileSync(path.join(outputDir, 'join.excalidraw'), 'utf-8')).toContain('UnionExec');
+  });
+
+  it('should convert again when the options or the outputs changed, or when forced', async () => {
+    await new BatchConverterService().convertDirectory({ inputDir, outputDir });
+    fs.rmSync(path.join(outputDir, 'join.excalidraw'));
+
+    const afterDelete = await new BatchConverterService().convertDirectory({ inputDir, outputDir });
+    const newOptions = await new BatchConverterService({ generator: { detailLevel: 'minimal' } }).convertDirectory({ inputDir, outputDir });
+    const forced = await new BatchConverterService({ generator: { detailLevel: 'minimal' } }).convertDirectory({ inputDir, outputDir, force: true });
+
+    expect(afterDelete.results.map((result) => result.status)).toEqual(['converted', 'skipped']);
+    expect(newOptions.converted).toBe(2);
+    expect(forced.converted).toBe(2);
+  });
+
+  it('should convert again after an upgrade', async () => {
+    await new BatchConverterService().convertDirectory({ inputDir, outputDir });
+    const cachePath = path.join(outputDir, BATCH_CACHE_FILE);
+    fs.writeFileSync(cachePath, JSON.stringify({ ...JSON.parse(fs.readFileSync(cachePath, 'utf-8')), version: '0.0.1' }), 'utf-8');
+
+    const summary = await new BatchConverterService().convertDirectory({ inputDir, outputDir });
+
+    expect(summary.converted).toBe(2);
+  });
+
+  it('should report files that fail to convert without stopping the others, and retry them next time', async () => {
+    writePlan('broken/empty.sql', '   \n');
+    const converter = new BatchConverterService();
+
+    const first = await converter.convertDirectory({ inputDir, outputDir, formats: ['mermaid', 'dot'] });
+    const second = await converter.convertDirectory({ inputDir, outputDir, formats: ['mermaid', 'dot'] });
+
+    expect(first).toMatchObject({ converted: 2, failed: 1 });
+    expect(first.results[0]).toMatchObject({ file: path.join('broken', 'empty.sql'), status: 'failed', error: 'Execution plan text cannot be empty' });
+    expect(fs.existsSync(path.join(outputDir, 'join.mmd'))).toBe(true);
+    expect(fs.existsSync(path.join(outputDir, 'join.dot'))).toBe(true);
+    expect(second).toMatchObject({ skipped: 2, failed: 1 });
+    expect(Object.keys(JSON.parse(fs.readFileSync(path.join(outputDir, BATCH_CACHE_FILE), 'utf-8')).files))
+      .not.toContain(path.join('broken', 'empty.sql'));
+  });
+
+  it('should reject a missing input directory and a job count that is not a positive integer', async () => {
+    await expect(new BatchConverterService().convertDirectory({ inputDir: path.join(root, 'missing'), outputDir }))
+      .rejects.toThrow('Input directory not found');
+    await expect(new BatchConverterService().convertDirectory({ inputDir, outputDir, jobs: NaN }))
+      .rejects.toThrow('jobs must be a positive integer: NaN');
+    await expect(new BatchConverterService().convertDirectory({ inputDir, outputDir, jobs: 0 }))
+      .rejects.toThrow('jobs must be a positive integer: 0');
+    expect(fs.existsSync(outputDir)).toBe(false);
+  });
+});
@@ -136,6 +136,226 @@ describe('ConverterService', () => {
     });
   });
 
+  describe('convertToSvg', () => {
+    it('should convert a plan to an SVG document', () => {
+      const converter = new ConverterService({ svg: { padding: 10 } });
+
+      const svg = converter.convertToSvg('ProjectionExec: expr=[a@0 as a]');
+
+      expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+      expect(svg).toContain('>ProjectionExec</text>');
+    });
+
+    it('should reject empty plans', () => {
+      expect(() => new ConverterService().convertToSvg('')).toThrow('Execution plan text cannot be empty');
+    });
+  });
+
+  describe('convertToFormat', () => {
+    const planText = `ProjectionExec: expr=[a@0 as a]
+  DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[a], file_type=parquet`;
+
+    it('should serialize Excalidraw data as JSON by default', () => {
+      const output = new ConverterService().convertToFormat(planText, 'excalidraw');
+
+      expect(JSON.parse(output).type).toBe('excalidraw');
+    });
+
+    it('should produce Mermaid and DOT sources', () => {
+      const converter = new ConverterService();
+
+      expect(converter.convertToFormat(planText, 'mermaid')).toContain('n1 --> n0');
+      expect(converter.convertToFormat(planText, 'dot')).toContain('n1 -> n0;');
+      expect(converter.convertToFormat(planText, 'svg')).toContain('<svg');
+    });
+
+    it('should reject plans without operators', () => {
+      expect(() => new ConverterService().convertToMermaid('   ')).toThrow('Execution plan text cannot be empty');
+    });
+  });
+
+  describe('convertLogical', () => {
+    it('should draw the logical plan from EXPLAIN output', () => {
+      const planText = fs.readFileSync(path.join(__dirname, '../../../tests/join_aggregates.sql'), 'utf-8');
+
+      const result = new ConverterService().convertLogical(planText);
+      const texts = result.elements.filter((el) => el.type === 'text').map((el) => (el as { text: string }).text);
+
+      expect(texts).toContain('Inner Join');
+      expect(texts).toContain('TableScan: fact_parquet_sorted');
+      expect(texts).not.toContain('SortExec');
+    });
+
+    it('should select the logical plan for text formats', () => {
+      const planText = fs.readFileSync(path.join(__dirname, '../../../tests/join_aggregates.sql'), 'utf-8');
+
+      expect(new ConverterService().convertToFormat(planText, 'mermaid', 'logical')).toContain('<b>Inner Join</b><br/>d.d_dkey = f.f_dkey');
+    });
+  });
+
+  describe('convertSideBySide', () => {
+    it('should draw both plans on one canvas', () => {
+      const planText = fs.readFileSync(path.join(__dirname, '../../../tests/join_aggregates.sql'), 'utf-8');
+
+      const result = new ConverterService().convertSideBySide(planText);
+      const texts = result.elements.filter((el) => el.type === 'text').map((el) => (el as { text: string }).text);
+
+      expect(texts).toEqual(expect.arrayContaining(['Logical plan', 'Physical plan', 'Inner Join', 'AggregateExec']));
+      expect(result.elements.some((el) => el.type === 'arrow' && el.strokeStyle === 'dashed')).toBe(true);
+    });
+
+    it('should not draw physical EXPLAIN output as a logical plan', () => {
+      for (const file of ['explain_analyze_coalesce_projection.sql', 'coalescePartition.sql']) {
+        const planText = fs.readFileSync(path.join(__dirname, '../../../tests', file), 'utf-8');
+
+        expect(() => new ConverterService().convertLogical(planText)).toThrow('no logical_plan row');
+      }
+    });
+
+    it('should require a logical_plan row', () => {
+      expect(() => new ConverterService().convertSideBySide('ProjectionExec: expr=[a@0 as a]')).toThrow(
+        'Side-by-side view requires EXPLAIN output with a logical_plan row'
+      );
+    });
+
+    it('should reject side-by-side text formats', () => {
+      const planText = fs.readFileSync(path.join(__dirname, '../../../tests/join_aggregates.sql'), 'utf-8');
+
+      expect(new ConverterService().convertToFormat(planText, 'svg', 'both')).toContain('<svg');
+      expect(() => new ConverterService().convertToFormat(planText, 'dot', 'both')).toThrow('not supported for dot output');
+    });
+  });
+
+  describe('convertDiff', () => {
+    it('should highlight added, removed and changed operators', () => {
+      const before = `CoalesceBatchesExec: target_batch_size=8192
+  RepartitionExec: partitioning=Hash([env@0], 4), input_partitions=1
+    DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[env], file_type=parquet`;
+      const after = `RepartitionExec: partitioning=Hash([env@0], 8), input_partitions=1
+  FilterExec: env@0 = prod
+    DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[env], file_type=parquet`;
+
+      const result = new ConverterService().convertDiff(before, after);
+      const rects = result.elements.filter((el) => el.type === 'rectangle');
+      const texts = result.elements.filter((el) => el.type === 'text').map((el) => (el as { text: string }).text);
+
+      expect(rects.map((rect) => rect.strokeColor)).toEqual(['#e03131', '#f08c00', '#2f9e44', '#1e1e1e']);
+      expect(rects[0].strokeStyle).toBe('dashed');
+      expect(texts).toContain('partitioning: Hash([env@0], 4) → Hash([env@0], 8)');
+    });
+
+    it('should make room for the labels of a changed join input', () => {
+      const plan = (filter: string): string => `HashJoinExec: mode=Partitioned, join_type=Inner, on=[(a@0, a@0)]
+  FilterExec: ${filter}
+    DataSourceExec: file_groups={1 group: [[l.parquet]]}, projection=[a, c], file_type=parquet
+  RepartitionExec: partitioning=Hash([a@0], 4), input_partitions=1
+    DataSourceExec: file_groups={1 group: [[r.parquet]]}, projection=[a], file_type=parquet`;
+
+      const result = new ConverterService().convertDiff(
+        plan('a@0 > 10 AND c@1 < 100'),
+        plan('a@0 > 20 AND c@1 < 500 AND c@1 IS NOT NULL AND a@0 < 1000')
+      );
+      const rects = result.elements.filter((el) => el.type === 'rectangle');
+      const labels = result.elements.filter((el) => el.type === 'text' && (el as { text: string }).text.includes('→'));
+      type Box = { x: number; y: number; width: number; height: number };
+      const overlaps = (a: Box, b: Box): boolean =>
+        a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+      expect(labels.length).toBeGreaterThan(0);
+      for (const label of labels) {
+        expect(rects.filter((rect) => overlaps(rect, label))).toEqual([]);
+      }
+    });
+
+    it('should throw for an empty plan', () => {
+      expect(() => new ConverterService().convertDiff('', 'ProjectionExec: expr=[a@0 as a]')).toThrow('Execution plan text cannot be empty');
+    });
+  });
+
+  describe('convertStagesToFormat', () => {
+    const verboseText = `+-----------------------------------------+------------------------------------------------------------+
+| plan_type                               | plan                                                       |
++-----------------------------------------+------------------------------------------------------------+
+| logical_plan                            | Projection: t.a                                            |
+|                                         |   TableScan: t projection=[a]                              |
+| initial_physical_plan                   | ProjectionExec: expr=[a@0 as a]                            |
+|                                         |   DataSourceExec: file_groups={1 group: [[t.parquet]]}     |
+| physical_plan after EnforceDistribution | SAME TEXT AS ABOVE                                         |
++-----------------------------------------+------------------------------------------------------------+`;
+
+    it('should render every stage with the generator for its kind', () => {
+      const stages = new ConverterService().convertStagesToFormat(verboseText, 'mermaid');
+
+      expect(stages.map(({ stage }) => stage.name)).toEqual(['logical_plan', 'initial_physical_plan', 'physical_plan after EnforceDistribution']);
+      expect(stages[0].output).toContain('<b>Projection</b><br/>t.a');
+      expect(stages[2].output).toBe(stages[1].output);
+    });
+
+    it('should render Excalidraw JSON per stage', () => {
+      const [logical] = new ConverterService().convertStagesToFormat(verboseText, 'excalidraw');
+
+      expect(JSON.parse(logical.output).type).toBe('excalidraw');
+    });
+
+    it('should throw when there are no EXPLAIN rows', () => {
+      expect(() => new ConverterService().parseStages('ProjectionExec: expr=[a@0 as a]')).toThrow('No plan stages found');
+      expect(() => new ConverterService().parseStages(' ')).toThrow('Execution plan text cannot be empty');
+    });
+  });
+
+  describe('convertWalkthroughToFormat', () => {
+    const verboseText = `+----------------------------------------+----------------------------------------------------+
+| plan_type                              | plan                                               |
++----------------------------------------+----------------------------------------------------+
+| initial_physical_plan                  | ProjectionExec: expr=[a@0 as a]                    |
+|                                        |   DataSourceExec: file_groups={1 group: [[t.csv]]} |
+| physical_plan after CombinePartial     | SAME TEXT AS ABOVE                                 |
+| physical_plan after ProjectionPushdown | DataSourceExec: file_groups={1 group: [[t.csv]]}   |
++----------------------------------------+----------------------------------------------------+`;
+
+    it('should emit one frame per stage that changed the plan', () => {
+      const data = JSON.parse(new ConverterService().convertWalkthroughToFormat(verboseText, 'excalidraw'));
+      const frames = data.elements.filter((el: { type: string }) => el.type === 'frame');
+
+      expect(frames.map((frame: { name: string }) => frame.name)).toEqual(['initial_physical_plan', 'physical_plan after ProjectionPushdown']);
+    });
+
+    it('should render SVG and reject text formats', () => {
+      expect(new ConverterService().convertWalkthroughToFormat(verboseText, 'svg')).toContain('physical_plan after ProjectionPushdown');
+      expect(() => new ConverterService().convertWalkthroughToFormat(verboseText, 'mermaid')).toThrow('not supported for mermaid output');
+    });
+  });
+
+  describe('lint', () => {
+    const planText = `SortPreservingMergeExec: [a@0 ASC]
+  RepartitionExec: partitioning=RoundRobinBatch(4), input_partitions=1
+    DataSourceExec: file_groups={1 group: [[t.parquet]]}, projection=[a], file_type=parquet`;
+
+    it('should report findings for the physical plan', () => {
+      const findings = new ConverterService().lint(planText);
+
+      expect(findings.map((finding) => finding.rule)).toEqual(['round-robin-under-sort-preserving-merge']);
+    });
+
+    it('should pass linter configuration through', () => {
+      const crossJoin = `CrossJoinExec
+  DataSourceExec: file_groups={1 group: [[a.parquet]]}, projection=[a], file_type=parquet, metrics=[output_rows=50]
+  DataSourceExec: file_groups={1 group: [[b.parquet]]}, projection=[b], file_type=parquet, metrics=[output_rows=50]`;
+
+      expect(new ConverterService().lint(crossJoin)).toEqual([]);
+      expect(new ConverterService({ linter: { largeInputRows: 10 } }).lint(crossJoin)[0].severity).toBe('warning');
+    });
+
+    it('should draw findings as callouts', () => {
+      const data = JSON.parse(new ConverterService().convertLintToFormat(planText, 'excalidraw'));
+      const texts = data.elements.filter((el: { type: string }) => el.type === 'text').map((el: { text: string }) => el.text);
+
+      expect(texts).toContain('round-robin-under-sort-preserving-merge');
+      expect(new ConverterService().convertLintToFormat(planText, 'svg')).toContain('<svg');
+      expect(() => new ConverterService().convertLintToFormat(planText, 'dot')).toThrow('not supported for dot output');
+    });
+  });
+
   describe('custom configuration', () => {
     it('should use custom parser configuration', () => {
       const customConverter = new ConverterService({
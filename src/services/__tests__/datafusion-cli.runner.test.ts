@@ -0,0 +1,81 @@
+import { DataFusionCliRunner } from '../datafusion-cli.runner';
+import { ConverterService } from '../converter.service';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('DataFusionCliRunner', () => {
+  const explainFile = path.join(__dirname, '../../../tests/join.sql');
+  let root: string;
+  let binary: string;
+  let argsFile: string;
+
+  // Stands in for datafusion-cli: records its arguments, prints EXPLAIN output
+  // and fails like datafusion-cli does for queries mentioning missing_table
+  const writeFakeCli = (): void => {
+    fs.writeFileSync(binary, `#!${process.execPath}
+const fs = require('fs');
+const args = process.argv.slice(2);
+fs.writeFileSync(${JSON.stringify(argsFile)}, JSON.stringify(args));
+if (args[args.length - 1].includes('missing_table')) {
+  console.log("Error: Error during planning: table 'datafusion.public.missing_table' not found");
+  process.exit(1);
+}
+process.stdout.write(fs.readFileSync(${JSON.stringify(explainFile)}, 'utf-8'));
+`);
+    fs.chmodSync(binary, 0o755);
+  };
+
+  const recordedArgs = (): string[] => JSON.parse(fs.readFileSync(argsFile, 'utf-8'));
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-viz-datafusion-'));
+    binary = path.join(root, 'datafusion-cli');
+    argsFile = path.join(root, 'args.json');
+    writeFakeCli();
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should run the setup file and EXPLAIN for the query and return the table output', async () => {
+    const setupFile = path.join(root, 'setup.sql');
+    fs.writeFileSync(setupFile, 'CREATE EXTERNAL TABLE t STORED AS PARQUET LOCATION \'t.parquet\';');
+
+    const output = await new DataFusionCliRunner({ binary }).explain({ sql: 'SELECT * FROM t;\n', setupFile });
+
+    expect(output).toBe(fs.readFileSync(explainFile, 'utf-8'));
+    expect(recordedArgs()).toEqual(['--quiet', '--format', 'table', '--file', setupFile, '--command', 'EXPLAIN SELECT * FROM t']);
+  });
+
+  it('should feed the output straight into the converter', async () => {
+    const planText = await new DataFusionCliRunner({ binary }).explain({ sql: 'SELECT 1' });
+    const data = new ConverterService().convert(planText);
+
+    expect(data.elements.some((el) => el.type === 'text' && el.text.startsWith('HashJoinExec'))).toBe(true);
+  });
+
+  it('should run EXPLAIN ANALYZE when asked and keep statements that are already EXPLAIN', async () => {
+    const runner = new DataFusionCliRunner({ binary });
+
+    await runner.explain({ sql: 'SELECT 1', analyze: true });
+    expect(recordedArgs().pop()).toBe('EXPLAIN ANALYZE SELECT 1');
+
+    await runner.explain({ sql: 'explain verbose SELECT 1' });
+    expect(recordedArgs().pop()).toBe('explain verbose SELECT 1');
+  });
+
+  it('should report what datafusion-cli printed when it fails', async () => {
+    await expect(new DataFusionCliRunner({ binary }).explain({ sql: 'SELECT * FROM missing_table' }))
+      .rejects.toThrow('datafusion-cli failed: Error: Error during planning: table \'datafusion.public.missing_table\' not found');
+  });
+
+  it('should reject a missing binary, a missing setup file and an empty query', async () => {
+    await expect(new DataFusionCliRunner({ binary: path.join(root, 'missing-cli') }).explain({ sql: 'SELECT 1' }))
+      .rejects.toThrow('datafusion-cli not found');
+    await expect(new DataFusionCliRunner({ binary }).explain({ sql: 'SELECT 1', setupFile: path.join(root, 'missing.sql') }))
+      .rejects.toThrow('Setup file not found');
+    await expect(new DataFusionCliRunner({ binary }).explain({ sql: ' ; ' })).rejects.toThrow('SQL query cannot be empty');
+  });
+});
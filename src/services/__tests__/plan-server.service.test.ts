@@ -0,0 +1,71 @@
+import { PlanServer, PlanServerService } from '../plan-server.service';
+import { ExcalidrawData, ExcalidrawText } from '../../types/excalidraw.types';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('PlanServerService', () => {
+  const planText = fs.readFileSync(path.join(__dirname, '../../../tests/join.sql'), 'utf-8');
+  let server: PlanServer;
+
+  const convert = (body: unknown, query = ''): Promise<Response> => fetch(`${server.url}/convert${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+  beforeAll(async () => {
+    server = await new PlanServerService().listen({ port: 0, maxBodyBytes: 64 * 1024 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should serve the preview page with a paste box', async () => {
+    const response = await fetch(`${server.url}/`);
+    const page = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/html');
+    expect(page).toContain('<textarea id="plan-text"');
+    expect(page).not.toMatch(/src="http|href="http/);
+  });
+
+  it('should answer POST /convert with ExcalidrawData by default', async () => {
+    const response = await convert({ planText });
+    const data = await response.json() as ExcalidrawData;
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('application/json');
+    expect(data.type).toBe('excalidraw');
+    expect(data.elements.some((el) => el.type === 'text' && (el as ExcalidrawText).text.startsWith('HashJoinExec'))).toBe(true);
+  });
+
+  it('should answer with SVG or Mermaid when asked for, from JSON or plain text bodies', async () => {
+    const svg = await convert({ planText, format: 'svg' });
+    const mermaid = await convert(planText, '?format=mermaid&plan=physical');
+
+    expect(svg.headers.get('content-type')).toContain('image/svg+xml');
+    expect(await svg.text()).toContain('<svg');
+    expect(mermaid.headers.get('content-type')).toContain('text/plain');
+    expect(await mermaid.text()).toMatch(/^flowchart/);
+  });
+
+  it('should report invalid requests and plans as JSON errors', async () => {
+    const empty = await convert({ planText: '   ' });
+    const unknownFormat = await convert({ planText, format: 'png' });
+    const malformed = await fetch(`${server.url}/convert`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{' });
+
+    expect(empty.status).toBe(422);
+    expect(await empty.json()).toEqual({ error: 'Execution plan text cannot be empty' });
+    expect(unknownFormat.status).toBe(400);
+    expect((await unknownFormat.json() as { error: string }).error).toContain('Unknown format: png');
+    expect(malformed.status).toBe(400);
+  });
+
+  it('should reject unknown paths, wrong methods and oversized bodies', async () => {
+    expect((await fetch(`${server.url}/missing`)).status).toBe(404);
+    expect((await fetch(`${server.url}/convert`)).status).toBe(405);
+    expect((await convert({ planText: 'x'.repeat(100 * 1024) })).status).toBe(413);
+  });
+});
@@ -0,0 +1,121 @@
+import { PlanWatchService, PlanWatcher } from '../plan-watch.service';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('PlanWatchService', () => {
+  const plansDir = path.join(__dirname, '../../../tests');
+  const plan = (name: string): string => fs.readFileSync(path.join(plansDir, name), 'utf-8');
+  let root: string;
+  let watcher: PlanWatcher | undefined;
+
+  const waitFor = async (condition: () => boolean, timeoutMs = 5000): Promise<void> => {
+    const start = Date.now();
+    while (!condition()) {
+      if (Date.now() - start > timeoutMs) {
+        throw new Error('Timed out waiting for the watcher');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-viz-watch-'));
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = undefined;
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should convert the file when the watch starts and again after each change', async () => {
+    const input = path.join(root, 'plan.sql');
+    const output = path.join(root, 'plan.excalidraw');
+    fs.writeFileSync(input, plan('join.sql'));
+    const converted: string[] = [];
+
+    watcher = new PlanWatchService().watch({ input, output, debounceMs: 10, onConverted: (_input, written) => converted.push(written) });
+    expect(converted).toEqual([output]);
+    expect(fs.readFileSync(output, 'utf-8')).toContain('HashJoinExec');
+
+    fs.writeFileSync(input, plan('union.sql'));
+    await waitFor(() => converted.length === 2);
+
+    expect(fs.readFileSync(output, 'utf-8')).toContain('UnionExec');
+    expect(fs.readdirSync(root).sort()).toEqual(['plan.excalidraw', 'plan.sql']);
+  });
+
+  it('should report plans that fail to convert, keep the previous output and recover', async () => {
+    const input = path.join(root, 'plan.sql');
+    const output = path.join(root, 'plan.svg');
+    fs.writeFileSync(input, plan('join.sql'));
+    const errors: string[] = [];
+    let converted = 0;
+
+    watcher = new PlanWatchService().watch({
+      input,
+      output,
+      format: 'svg',
+      debounceMs: 10,
+      onConverted: () => converted++,
+      onError: (_input, error) => errors.push(error.message),
+    });
+    fs.writeFileSync(input, '   ');
+    await waitFor(() => errors.length === 1);
+
+    expect(errors).toEqual(['Execution plan text cannot be empty']);
+    expect(fs.readFileSync(output, 'utf-8')).toContain('HashJoinExec');
+
+    fs.writeFileSync(input, plan('sort.sql'));
+    await waitFor(() => converted === 2);
+    expect(fs.readFileSync(output, 'utf-8')).toContain('SortExec');
+  });
+
+  it('should convert the plan files of a directory into a mirrored output directory', async () => {
+    const input = path.join(root, 'plans');
+    const output = path.join(root, 'out');
+    fs.mkdirSync(path.join(input, 'nested'), { recursive: true });
+    fs.writeFileSync(path.join(input, 'join.sql'), plan('join.sql'));
+    const converted: string[] = [];
+
+    watcher = new PlanWatchService().watch({ input, output, format: 'mermaid', debounceMs: 10, onConverted: (_input, written) => converted.push(written) });
+    fs.writeFileSync(path.join(input, 'nested', 'notes.txt'), 'not a plan');
+    fs.writeFileSync(path.join(input, 'nested', 'sort.sql'), plan('sort.sql'));
+    await waitFor(() => converted.length === 2);
+
+    expect(converted).toEqual([path.join(output, 'join.mmd'), path.join(output, 'nested', 'sort.mmd')]);
+    expect(fs.readdirSync(path.join(output, 'nested'))).toEqual(['sort.mmd']);
+  });
+
+  it('should report a failing watch and close it', () => {
+    const input = path.join(root, 'plan.sql');
+    fs.writeFileSync(input, plan('join.sql'));
+    const watchers: fs.FSWatcher[] = [];
+    // The namespace import is read-only; the service reads watch from the module object at call time
+    const nodeFs = jest.requireActual<typeof fs>('fs');
+    const realWatch = nodeFs.watch;
+    const watchSpy = jest.spyOn(nodeFs, 'watch').mockImplementation(((...args: Parameters<typeof fs.watch>) => {
+      const fsWatcher = realWatch(...args);
+      watchers.push(fsWatcher);
+      return fsWatcher;
+    }) as typeof fs.watch);
+    const errors: string[] = [];
+
+    try {
+      watcher = new PlanWatchService().watch({ input, output: path.join(root, 'plan.excalidraw'), onWatchError: (error) => errors.push(error.message) });
+      const closeSpy = jest.spyOn(watchers[0], 'close');
+      watchers[0].emit('error', new Error('EACCES: permission denied'));
+
+      expect(errors).toEqual(['EACCES: permission denied']);
+      expect(closeSpy).toHaveBeenCalled();
+    } finally {
+      watchSpy.mockRestore();
+    }
+  });
+
+  it('should reject a missing input', () => {
+    expect(() => new PlanWatchService().watch({ input: path.join(root, 'missing.sql'), output: path.join(root, 'out.excalidraw') }))
+      .toThrow('Input not found');
+  });
+});
@@ -0,0 +1,284 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { ConverterConfig, ConverterService, OutputFormat, PlanSelection } from './converter.service';
+
+/**
+ * File extension written for each output format
+ */
+export const OUTPUT_EXTENSIONS: Record<OutputFormat, string> = {
+  excalidraw: '.excalidraw',
+  svg: '.svg',
+  mermaid: '.mmd',
+  dot: '.dot',
+};
+
+/**
+ * Name of the file in the output directory that records the hash of every converted input
+ */
+export const BATCH_CACHE_FILE = '.plan-viz-cache.json';
+
+/**
+ * Version of plan-viz, recorded in the cache: outputs written by another version are
+ * converted again, as an upgrade may change how plans are drawn
+ */
+const PLAN_VIZ_VERSION: string = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf-8')).version;
+
+/**
+ * Options for {@link BatchConverterService.convertDirectory}
+ */
+export interface BatchConvertOptions {
+  /** Directory searched recursively for .sql plan files */
+  inputDir: string;
+  /** Directory the outputs are written to, mirroring the input directory structure */
+  outputDir: string;
+  /** One output file is written per format (default: excalidraw) */
+  formats?: OutputFormat[];
+  /** Plan drawn from each file (default: physical) */
+  plan?: PlanSelection;
+  /** Number of files converted at the same time (default: number of CPUs) */
+  jobs?: number;
+  /** Convert every file, even when its content and the options have not changed */
+  force?: boolean;
+}
+
+/**
+ * Outcome of one input file
+ * - converted: every output was written
+ * - skipped: the input and the options are unchanged since the last run and the outputs exist
+ * - failed: the plan could not be converted; error holds the reason
+ */
+export interface BatchFileResult {
+  /** Input path relative to the input directory */
+  file: string;
+  status: 'converted' | 'skipped' | 'failed';
+  /** Output paths, absolute */
+  outputs: string[];
+  error?: string;
+}
+
+/**
+ * Result of a directory conversion, files in path order
+ */
+export interface BatchSummary {
+  results: BatchFileResult[];
+  converted: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * One file handed to a worker
+ */
+export interface BatchTask {
+  planText: string;
+  /** Output path for each format */
+  outputs: Array<{ format: OutputFormat; path: string }>;
+  plan: PlanSelection;
+}
+
+/**
+ * Converts one plan into every requested format and writes the outputs
+ * Shared by the worker threads and the in-process fallback
+ * @returns The error message, or undefined when every output was written
+ */
+export function runBatchTask(converter: ConverterService, task: BatchTask): string | undefined {
+  try {
+    const rendered = task.outputs.map(({ format, path: outputPath }) => ({
+      outputPath,
+      output: converter.convertToFormat(task.planText, format, task.plan),
+    }));
+    for (const { outputPath, output } of rendered) {
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, output, 'utf-8');
+    }
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Paths of the .sql plan files below dir, relative to it and sorted
+ */
+export function findPlanFiles(dir: string, prefix = ''): string[] {
+  const files: string[] = [];
+  const entries = fs.readdirSync(path.join(dir, prefix), { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const relative = path.join(prefix, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...findPlanFiles(dir, relative));
+    } else if (entry.isFile() && isPlanFile(entry.name)) {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+/**
+ * Whether a file name has the .sql extension of plan files
+ */
+export function isPlanFile(fileName: string): boolean {
+  return path.extname(fileName).toLowerCase() === '.sql';
+}
+
+/**
+ * Converts every .sql plan file of a directory tree
+ * Files are converted by a pool of worker threads; inputs whose content (and the
+ * conversion options) did not change since the last run are skipped, using the
+ * hashes recorded in {@link BATCH_CACHE_FILE} in the output directory
+ * Workers receive a copy of the configuration, so configurations with custom
+ * generators, and runs from the TypeScript sources, convert on the main thread
+ */
+export class BatchConverterService {
+  private static readonly WORKER_SCRIPT = path.join(__dirname, 'batch-converter.worker.js');
+
+  constructor(private readonly config: ConverterConfig = {}) {}
+
+  /**
+   * Converts every .sql file below options.inputDir
+   * A file that fails to convert does not stop the others
+   * @returns One result per file and the totals
+   * @throws Error if the input directory does not exist
+   */
+  public async convertDirectory(options: BatchConvertOptions): Promise<BatchSummary> {
+    const inputDir = path.resolve(options.inputDir);
+    const outputDir = path.resolve(options.outputDir);
+    if (!fs.existsSync(inputDir) || !fs.statSync(inputDir).isDirectory()) {
+      throw new Error(`Input directory not found: ${inputDir}`);
+    }
+    const formats = options.formats && options.formats.length > 0 ? [...new Set(options.formats)] : ['excalidraw' as const];
+    const plan = options.plan ?? 'physical';
+
+    const cachePath = path.join(outputDir, BATCH_CACHE_FILE);
+    const cache = this.readCache(cachePath);
+    const results: BatchFileResult[] = [];
+    const pending: Array<{ result: BatchFileResult; hash: string; task: BatchTask }> = [];
+
+    for (const file of findPlanFiles(inputDir)) {
+      const planText = fs.readFileSync(path.join(inputDir, file), 'utf-8');
+      const { dir, name } = path.parse(file);
+      const outputs = formats.map((format) => ({ format, path: path.join(outputDir, dir, name + OUTPUT_EXTENSIONS[format]) }));
+      const hash = this.hash(planText, formats, plan);
+      const result: BatchFileResult = { file, status: 'skipped', outputs: outputs.map((output) => output.path) };
+      results.push(result);
+
+      if (!options.force && cache[file] === hash && outputs.every((output) => fs.existsSync(output.path))) {
+        continue;
+      }
+      pending.push({ result, hash, task: { planText, outputs, plan } });
+    }
+
+    const errors = await this.run(pending.map(({ task }) => task), options.jobs ?? os.availableParallelism());
+    pending.forEach(({ result, hash }, i) => {
+      if (errors[i] === undefined) {
+        result.status = 'converted';
+        cache[result.file] = hash;
+      } else {
+        result.status = 'failed';
+        result.error = errors[i];
+        delete cache[result.file];
+      }
+    });
+
+    // Files that no longer exist are dropped from the cache
+    const fresh = Object.fromEntries(results.filter(({ file }) => file in cache).map(({ file }) => [file, cache[file]]));
+    fs.mkdirSync(outputDir, { recursive: true });
+    fs.writeFileSync(cachePath, JSON.stringify({ version: PLAN_VIZ_VERSION, files: fresh }, null, 2), 'utf-8');
+
+    return {
+      results,
+      converted: results.filter((result) => result.status === 'converted').length,
+      skipped: results.filter((result) => result.status === 'skipped').length,
+      failed: results.filter((result) => result.status === 'failed').length,
+    };
+  }
+
+  /**
+   * Runs the tasks, on worker threads when possible
+   * @returns The error of each task, undefined for tasks that succeeded
+   * @throws Error if jobs is not a positive integer, or a worker thread dies
+   */
+  private async run(tasks: BatchTask[], jobs: number): Promise<Array<string | undefined>> {
+    if (!Number.isInteger(jobs) || jobs < 1) {
+      throw new Error(`jobs must be a positive integer: ${jobs}`);
+    }
+    const workers = Math.min(jobs, tasks.length);
+    const canUseWorkers = fs.existsSync(BatchConverterService.WORKER_SCRIPT) && !this.config.generator?.customGenerators?.length;
+    if (workers <= 1 || !canUseWorkers) {
+      const converter = new ConverterService(this.config);
+      return tasks.map((task) => runBatchTask(converter, task));
+    }
+
+    const errors: Array<string | undefined> = new Array(tasks.length);
+    const pool: Worker[] = [];
+    let next = 0;
+    let failed = false;
+    const runWorker = (): Promise<void> => new Promise((resolve, reject) => {
+      const worker = new Worker(BatchConverterService.WORKER_SCRIPT, { workerData: this.config });
+      pool.push(worker);
+      let current = -1;
+      let finished = false;
+      const fail = (error: Error): void => {
+        if (!finished) {
+          finished = true;
+          reject(error);
+        }
+      };
+      const dispatch = (): void => {
+        if (failed || next >= tasks.length) {
+          finished = true;
+          worker.terminate().then(() => resolve(), reject);
+          return;
+        }
+        current = next++;
+        worker.postMessage(tasks[current]);
+      };
+      worker.on('message', (error: string | undefined) => {
+        errors[current] = error;
+        dispatch();
+      });
+      worker.on('error', fail);
+      // A worker that exits while it still has a task would otherwise leave the pool waiting forever
+      worker.on('exit', (code) => fail(new Error(`Batch worker exited with code ${code}`)));
+      dispatch();
+    });
+
+    try {
+      await Promise.all(Array.from({ length: workers }, runWorker));
+    } catch (error) {
+      failed = true;
+      await Promise.all(pool.map((worker) => worker.terminate()));
+      throw error;
+    }
+    return errors;
+  }
+
+  /**
+   * Hash of everything the outputs of one file depend on
+   */
+  private hash(planText: string, formats: OutputFormat[], plan: PlanSelection): string {
+    return crypto.createHash('sha256')
+      .update(JSON.stringify({ formats, plan, config: this.config }))
+      .update('\0')
+      .update(planText)
+      .digest('hex');
+  }
+
+  /**
+   * Reads the hashes of the last run; a missing or unreadable cache, or one written by
+   * another version of plan-viz, means nothing is skipped
+   */
+  private readCache(cachePath: string): Record<string, string> {
+    try {
+      const cache = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+      const files = cache?.version === PLAN_VIZ_VERSION ? cache.files : undefined;
+      return files && typeof files === 'object' && !Array.isArray(files) ? files : {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { parentPort, workerData } from 'worker_threads';
+import { ConverterConfig, ConverterService } from './converter.service';
+import { BatchTask, runBatchTask } from './batch-converter.service';
+
+/**
+ * Worker thread of {@link BatchConverterService}: converts the files it is sent,
+ * one at a time, and answers each with its error (undefined on success)
+ */
+const converter = new ConverterService(workerData as ConverterConfig);
+
+parentPort!.on('message', (task: BatchTask) => {
+  parentPort!.postMessage(runBatchTask(converter, task));
+});
@@ -1,7 +1,13 @@
 import { ExecutionPlanParser } from '../parsers/execution-plan.parser';
 import { ExcalidrawGenerator } from '../generators/excalidraw.generator';
 import { ExcalidrawData, ExcalidrawConfig } from '../types/excalidraw.types';
-import { ParserConfig } from '../types/execution-plan.types';
+import { ExecutionPlanNode, ParserConfig, PlanKind, PlanStage } from '../types/execution-plan.types';
+import { SvgExporter, SvgExportConfig } from '../exporters/svg.exporter';
+import { MermaidExporter } from '../exporters/mermaid.exporter';
+import { DotExporter } from '../exporters/dot.exporter';
+import { PlanNodeDiffer } from '../generators/utils/plan-node.differ';
+import { PlanLinter } from '../analyzers/plan.linter';
+import { LintFinding, PlanLinterConfig } from '../types/plan-lint.types';
 
 /**
  * Configuration for the converter service
@@ -9,6 +15,26 @@ import { ParserConfig } from '../types/execution-plan.types';
 export interface ConverterConfig {
   parser?: ParserConfig;
   generator?: ExcalidrawConfig;
+  svg?: SvgExportConfig;
+  linter?: PlanLinterConfig;
+}
+
+/**
+ * Output formats supported by {@link ConverterService.convertToFormat}
+ */
+export type OutputFormat = 'excalidraw' | 'svg' | 'mermaid' | 'dot';
+
+/**
+ * Plans that can be drawn from EXPLAIN output: one of the plans, or both side by side
+ */
+export type PlanSelection = PlanKind | 'both';
+
+/**
+ * A plan stage rendered by {@link ConverterService.convertStagesToFormat}
+ */
+export interface RenderedStage {
+  stage: PlanStage;
+  output: string;
 }
 
 /**
@@ -18,10 +44,20 @@ export interface ConverterConfig {
 export class ConverterService {
   private readonly parser: ExecutionPlanParser;
   private readonly generator: ExcalidrawGenerator;
+  private readonly svgExporter: SvgExporter;
+  private readonly mermaidExporter: MermaidExporter;
+  private readonly dotExporter: DotExporter;
+  private readonly differ: PlanNodeDiffer;
+  private readonly linter: PlanLinter;
 
   constructor(config: ConverterConfig = {}) {
     this.parser = new ExecutionPlanParser(config.parser);
     this.generator = new ExcalidrawGenerator(config.generator);
+    this.svgExporter = new SvgExporter(config.svg);
+    this.mermaidExporter = new MermaidExporter(this.generator);
+    this.dotExporter = new DotExporter(this.generator);
+    this.differ = new PlanNodeDiffer();
+    this.linter = new PlanLinter(config.linter);
   }
 
   /**
@@ -31,10 +67,246 @@ export class ConverterService {
    * @throws Error if the plan text is invalid
    */
   public convert(planText: string): ExcalidrawData {
+    // Generate Excalidraw JSON
+    const excalidrawData = this.generator.generate(this.parseRoot(planText));
+
+    return excalidrawData;
+  }
+
+  /**
+   * Converts the logical plan in an EXPLAIN output (or a bare logical plan) to Excalidraw JSON
+   * @param planText - EXPLAIN output containing a `logical_plan` row, or a logical plan
+   * @returns Excalidraw-compatible JSON data
+   * @throws Error if the plan text is empty or contains no logical operators
+   */
+  public convertLogical(planText: string): ExcalidrawData {
+    return this.generator.generateLogical(this.parseRoot(planText, 'logical'));
+  }
+
+  /**
+   * Converts EXPLAIN output to one Excalidraw canvas showing the logical plan
+   * next to the physical plan, with dashed arrows from logical operators to
+   * the physical operators that implement them
+   * @param planText - EXPLAIN output containing `logical_plan` and `physical_plan` rows
+   * @returns Excalidraw-compatible JSON data
+   * @throws Error if the plan text is empty or lacks either plan
+   */
+  public convertSideBySide(planText: string): ExcalidrawData {
+    const physicalRoot = this.parseRoot(planText);
+    const logicalRoot = this.parser.parse(planText).logicalRoot;
+    if (!logicalRoot) {
+      throw new Error('Side-by-side view requires EXPLAIN output with a logical_plan row');
+    }
+
+    return this.generator.generateSideBySide(logicalRoot, physicalRoot);
+  }
+
+  /**
+   * Converts two physical plans to one Excalidraw diagram of their differences:
+   * added operators in green, removed operators in red (drawn as ghosts) and
+   * operators with changed properties in orange with the changes listed
+   * @param beforeText - The old plan text
+   * @param afterText - The new plan text
+   * @returns Excalidraw-compatible JSON data
+   * @throws Error if either plan text is invalid
+   */
+  public convertDiff(beforeText: string, afterText: string): ExcalidrawData {
+    return this.generator.generateDiff(this.differ.diff(this.parseRoot(beforeText), this.parseRoot(afterText)));
+  }
+
+  /**
+   * Lints a physical plan for common performance anti-patterns
+   * @param planText - The physical execution plan text
+   * @returns Findings in plan order
+   * @throws Error if the plan text is invalid
+   */
+  public lint(planText: string): LintFinding[] {
+    return this.linter.lint(this.parseRoot(planText));
+  }
+
+  /**
+   * Converts a physical plan to a diagram with its lint findings drawn as callouts
+   * @param planText - The physical execution plan text
+   * @param format - Output format (excalidraw or svg)
+   * @returns Serialized output
+   * @throws Error if the plan text is invalid, or for text formats, which cannot hold callouts
+   */
+  public convertLintToFormat(planText: string, format: OutputFormat): string {
+    if (format === 'mermaid' || format === 'dot') {
+      throw new Error(`Lint callouts are not supported for ${format} output`);
+    }
+
+    const root = this.parseRoot(planText);
+    const data = this.generator.generateWithFindings(root, this.linter.lint(root));
+    return format === 'svg' ? this.svgExporter.export(data) : JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Converts an execution plan text to a standalone SVG document
+   * @param planText - The execution plan text
+   * @param plan - Which plan to draw (default: physical)
+   * @returns SVG markup
+   * @throws Error if the plan text is invalid
+   */
+  public convertToSvg(planText: string, plan: PlanSelection = 'physical'): string {
+    return this.svgExporter.export(this.convertPlan(planText, plan));
+  }
+
+  /**
+   * Converts an execution plan text to a Mermaid flowchart
+   * @param planText - The execution plan text
+   * @param plan - Which plan to draw (default: physical)
+   * @returns Mermaid source
+   * @throws Error if the plan text is invalid
+   */
+  public convertToMermaid(planText: string, plan: PlanKind = 'physical'): string {
+    return this.mermaidExporter.export(this.parseRoot(planText, plan), plan);
+  }
+
+  /**
+   * Converts an execution plan text to a Graphviz DOT graph
+   * @param planText - The execution plan text
+   * @param plan - Which plan to draw (default: physical)
+   * @returns DOT source
+   * @throws Error if the plan text is invalid
+   */
+  public convertToDot(planText: string, plan: PlanKind = 'physical'): string {
+    return this.dotExporter.export(this.parseRoot(planText, plan), plan);
+  }
+
+  /**
+   * Converts an execution plan text to the requested output format
+   * Excalidraw data is serialized as indented JSON
+   * @param planText - The physical execution plan text
+   * @param format - Output format
+   * @param plan - Which plan to draw (default: physical)
+   * @returns Serialized output
+   * @throws Error if the plan text is invalid
+   */
+  public convertToFormat(planText: string, format: OutputFormat, plan: PlanSelection = 'physical'): string {
+    if (plan === 'both' && (format === 'mermaid' || format === 'dot')) {
+      throw new Error(`Side-by-side plans are not supported for ${format} output`);
+    }
+
+    switch (format) {
+    case 'svg':
+      return this.convertToSvg(planText, plan);
+    case 'mermaid':
+      return this.convertToMermaid(planText, plan as PlanKind);
+    case 'dot':
+      return this.convertToDot(planText, plan as PlanKind);
+    default:
+      return JSON.stringify(this.convertPlan(planText, plan), null, 2);
+    }
+  }
+
+  /**
+   * Parses every plan stage of `EXPLAIN VERBOSE` output
+   * @param planText - EXPLAIN (VERBOSE) table output
+   * @returns Stages in the order DataFusion printed them
+   * @throws Error if the text is empty or contains no EXPLAIN rows
+   */
+  public parseStages(planText: string): PlanStage[] {
+    if (!planText || planText.trim().length === 0) {
+      throw new Error('Execution plan text cannot be empty');
+    }
+
+    const stages = this.parser.parseStages(planText);
+    if (stages.length === 0) {
+      throw new Error('No plan stages found: expected EXPLAIN table output');
+    }
+
+    return stages;
+  }
+
+  /**
+   * Renders every plan stage of `EXPLAIN VERBOSE` output in the requested format
+   * Stages without operators are skipped
+   * @param planText - EXPLAIN (VERBOSE) table output
+   * @param format - Output format
+   * @returns One rendered output per stage, in plan order
+   * @throws Error if the text is empty or contains no EXPLAIN rows
+   */
+  public convertStagesToFormat(planText: string, format: OutputFormat): RenderedStage[] {
+    return this.parseStages(planText)
+      .filter((stage) => stage.root !== null)
+      .map((stage) => ({ stage, output: this.renderRoot(stage.root!, stage.kind, format) }));
+  }
+
+  /**
+   * Converts `EXPLAIN VERBOSE` output to an optimizer walkthrough: one
+   * Excalidraw frame per stage that changed the plan, laid out left to right,
+   * with changed operators highlighted against the previous frame
+   * @param planText - EXPLAIN VERBOSE table output
+   * @returns Excalidraw-compatible JSON data
+   * @throws Error if the text is empty or contains no EXPLAIN rows
+   */
+  public convertWalkthrough(planText: string): ExcalidrawData {
+    return this.generator.generateWalkthrough(this.parseStages(planText));
+  }
+
+  /**
+   * Converts `EXPLAIN VERBOSE` output to a walkthrough in the requested format
+   * @param planText - EXPLAIN VERBOSE table output
+   * @param format - Output format (excalidraw or svg)
+   * @returns Serialized output
+   * @throws Error for text formats, which cannot hold frames
+   */
+  public convertWalkthroughToFormat(planText: string, format: OutputFormat): string {
+    if (format === 'mermaid' || format === 'dot') {
+      throw new Error(`Walkthroughs are not supported for ${format} output`);
+    }
+
+    const data = this.convertWalkthrough(planText);
+    return format === 'svg' ? this.svgExporter.export(data) : JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Renders an already parsed plan tree in the requested format
+   */
+  private renderRoot(root: ExecutionPlanNode, kind: PlanKind, format: OutputFormat): string {
+    if (format === 'mermaid') {
+      return this.mermaidExporter.export(root, kind);
+    }
+    if (format === 'dot') {
+      return this.dotExporter.export(root, kind);
+    }
+
+    const data = kind === 'logical' ? this.generator.generateLogical(root) : this.generator.generate(root);
+    return format === 'svg' ? this.svgExporter.export(data) : JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Converts the selected plan(s) to Excalidraw JSON
+   */
+  private convertPlan(planText: string, plan: PlanSelection): ExcalidrawData {
+    switch (plan) {
+    case 'logical':
+      return this.convertLogical(planText);
+    case 'both':
+      return this.convertSideBySide(planText);
+    default:
+      return this.convert(planText);
+    }
+  }
+
+  /**
+   * Parses plan text and returns the root node of the requested plan
+   * @throws Error if the plan text is empty or contains no operators
+   */
+  private parseRoot(planText: string, plan: PlanKind = 'physical'): ExecutionPlanNode {
     if (!planText || planText.trim().length === 0) {
       throw new Error('Execution plan text cannot be empty');
     }
 
+    if (plan === 'logical') {
+      const logicalRoot = this.parser.parseLogicalPlan(planText);
+      if (!logicalRoot) {
+        throw new Error('Failed to parse logical plan: no valid operators found');
+      }
+      return logicalRoot;
+    }
+
     // Parse the execution plan
     const parsedPlan = this.parser.parse(planText);
 
@@ -42,9 +314,6 @@ export class ConverterService {
       throw new Error('Failed to parse execution plan: no valid operators found');
     }
 
-    // Generate Excalidraw JSON
-    const excalidrawData = this.generator.generate(parsedPlan.root);
-
-    return excalidrawData;
+    return parsedPlan.root;
   }
 }
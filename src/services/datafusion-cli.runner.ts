@@ -0,0 +1,94 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Configuration for {@link DataFusionCliRunner}
+ */
+export interface DataFusionCliConfig {
+  /** Path of the datafusion-cli binary (default: datafusion-cli, looked up on the PATH) */
+  binary?: string;
+}
+
+/**
+ * What to explain
+ */
+export interface DataFusionExplainOptions {
+  /** Query to explain; a statement that already starts with EXPLAIN is run as is */
+  sql: string;
+  /** SQL file run first, typically CREATE EXTERNAL TABLE statements */
+  setupFile?: string;
+  /** Run EXPLAIN ANALYZE, which executes the query and adds runtime metrics */
+  analyze?: boolean;
+}
+
+/**
+ * Runs EXPLAIN through a local datafusion-cli binary, so that plans can be drawn
+ * straight from SQL instead of from copied EXPLAIN output
+ * The binary is started as a child process (no network) in quiet mode with
+ * table output: the setup file is run with -f, then the EXPLAIN statement with -c
+ */
+export class DataFusionCliRunner {
+  private static readonly MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+  private readonly binary: string;
+
+  constructor(config: DataFusionCliConfig = {}) {
+    this.binary = config.binary ?? 'datafusion-cli';
+  }
+
+  /**
+   * Runs the setup file and EXPLAIN for the query
+   * @returns What datafusion-cli printed: the EXPLAIN table, ready for ExecutionPlanParser
+   * @throws Error if the query is empty, the setup file or the binary is missing, or datafusion-cli fails
+   */
+  public async explain(options: DataFusionExplainOptions): Promise<string> {
+    const args = this.buildArguments(options);
+    return new Promise((resolve, reject) => {
+      execFile(this.binary, args, { maxBuffer: DataFusionCliRunner.MAX_OUTPUT_BYTES }, (error, stdout, stderr) => {
+        if (!error) {
+          resolve(stdout);
+          return;
+        }
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          reject(new Error(`datafusion-cli not found: ${this.binary} (install it or give the path of the binary)`));
+          return;
+        }
+        // datafusion-cli prints SQL errors as "Error: ..." on either stream
+        const message = `${stderr}\n${stdout}`.split('\n').map((line) => line.trim()).filter((line) => line.length > 0).pop();
+        reject(new Error(`datafusion-cli failed: ${message ?? error.message}`));
+      });
+    });
+  }
+
+  /**
+   * Command line arguments for one run
+   * @throws Error if the query is empty or the setup file does not exist
+   */
+  private buildArguments(options: DataFusionExplainOptions): string[] {
+    const args = ['--quiet', '--format', 'table'];
+    if (options.setupFile) {
+      const setupPath = path.resolve(options.setupFile);
+      if (!fs.existsSync(setupPath)) {
+        throw new Error(`Setup file not found: ${setupPath}`);
+      }
+      args.push('--file', setupPath);
+    }
+    args.push('--command', this.explainStatement(options.sql, options.analyze ?? false));
+    return args;
+  }
+
+  /**
+   * "SELECT 1;" -> "EXPLAIN SELECT 1"
+   */
+  private explainStatement(sql: string, analyze: boolean): string {
+    const statement = sql.trim().replace(/[;\s]+$/, '');
+    if (statement.length === 0) {
+      throw new Error('SQL query cannot be empty');
+    }
+    if (/^explain\b/i.test(statement)) {
+      return statement;
+    }
+    return `${analyze ? 'EXPLAIN ANALYZE' : 'EXPLAIN'} ${statement}`;
+  }
+}
@@ -1 +1,9 @@
 export * from './converter.service';
+export { BATCH_CACHE_FILE, BatchConverterService, OUTPUT_EXTENSIONS } from './batch-converter.service';
+export type { BatchConvertOptions, BatchFileResult, BatchSummary } from './batch-converter.service';
+export { PlanWatchService } from './plan-watch.service';
+export type { PlanWatchOptions, PlanWatcher } from './plan-watch.service';
+export { PlanServerService } from './plan-server.service';
+export type { PlanServer, PlanServerOptions } from './plan-server.service';
+export { DataFusionCliRunner } from './datafusion-cli.runner';
+export type { DataFusionCliConfig, DataFusionExplainOptions } from './datafusion-cli.runner';
@@ -0,0 +1,108 @@
+/**
+ * Preview page served by {@link PlanServerService} at "/"
+ * Self-contained (no scripts, styles or fonts from elsewhere): the EXPLAIN output
+ * is posted to /convert, SVG results are drawn on the page and text results
+ * (Excalidraw JSON, Mermaid, DOT) are shown as source, each with a download button
+ */
+export const PREVIEW_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>plan-viz</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0; display: flex; height: 100vh; color: #1e1e1e; }
+  #input { width: 35%; min-width: 280px; display: flex; flex-direction: column; padding: 12px; box-sizing: border-box; border-right: 1px solid #ddd; }
+  #plan-text { flex: 1; font-family: ui-monospace, monospace; font-size: 12px; white-space: pre; resize: none; }
+  .controls { display: flex; gap: 8px; margin-top: 8px; flex-wrap: wrap; align-items: center; }
+  #output { flex: 1; overflow: auto; padding: 12px; }
+  #error { color: #e03131; white-space: pre-wrap; }
+  #result svg { max-width: none; }
+  #result pre { font-size: 12px; }
+</style>
+</head>
+<body>
+<div id="input">
+  <label for="plan-text"><strong>EXPLAIN output</strong></label>
+  <textarea id="plan-text" spellcheck="false" placeholder="Paste the output of EXPLAIN or EXPLAIN ANALYZE here"></textarea>
+  <div class="controls">
+    <select id="format" aria-label="Output">
+      <option value="svg">Diagram</option>
+      <option value="excalidraw">Excalidraw JSON</option>
+      <option value="mermaid">Mermaid</option>
+      <option value="dot">Graphviz DOT</option>
+    </select>
+    <select id="plan" aria-label="Plan">
+      <option value="physical">Physical plan</option>
+      <option value="logical">Logical plan</option>
+      <option value="both">Both, side by side</option>
+    </select>
+    <button id="visualize">Visualize</button>
+    <button id="download" disabled>Download</button>
+  </div>
+</div>
+<div id="output">
+  <div id="error"></div>
+  <div id="result"></div>
+</div>
+<script>
+  const EXTENSIONS = { excalidraw: '.excalidraw', svg: '.svg', mermaid: '.mmd', dot: '.dot' };
+  let last = null;
+
+  document.getElementById('visualize').addEventListener('click', async () => {
+    const format = document.getElementById('format').value;
+    const error = document.getElementById('error');
+    const result = document.getElementById('result');
+    error.textContent = '';
+    let response;
+    let body;
+    try {
+      response = await fetch('/convert', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          planText: document.getElementById('plan-text').value,
+          format,
+          plan: document.getElementById('plan').value,
+        }),
+      });
+      body = await response.text();
+    } catch (e) {
+      error.textContent = 'Request failed: ' + e.message;
+      return;
+    }
+    if (!response.ok) {
+      error.textContent = errorMessage(response, body);
+      return;
+    }
+
+    last = { format, body, type: response.headers.get('Content-Type') };
+    document.getElementById('download').disabled = false;
+    if (format === 'svg') {
+      result.innerHTML = body;
+    } else {
+      const pre = document.createElement('pre');
+      pre.textContent = body;
+      result.replaceChildren(pre);
+    }
+  });
+
+  // Errors from the server are JSON; others (e.g. from a proxy) fall back to the status
+  function errorMessage(response, body) {
+    try {
+      return JSON.parse(body).error || response.statusText;
+    } catch {
+      return response.status + ' ' + response.statusText;
+    }
+  }
+
+  document.getElementById('download').addEventListener('click', () => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([last.body], { type: last.type }));
+    link.download = 'plan' + EXTENSIONS[last.format];
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 0);
+  });
+</script>
+</body>
+</html>
+`;
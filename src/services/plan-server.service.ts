@@ -0,0 +1,192 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ConverterConfig, ConverterService, OutputFormat, PlanSelection } from './converter.service';
+import { OUTPUT_EXTENSIONS } from './batch-converter.service';
+import { PREVIEW_PAGE } from './plan-server.page';
+
+/**
+ * Options for {@link PlanServerService.listen}
+ */
+export interface PlanServerOptions {
+  /** Port to listen on (default: 3000; 0 picks a free port) */
+  port?: number;
+  /** Interface to listen on (default: 127.0.0.1; use 0.0.0.0 to share the server on a network) */
+  host?: string;
+  /** Largest accepted request body in bytes (default: 5 MiB) */
+  maxBodyBytes?: number;
+}
+
+/**
+ * A running server, stopped with close()
+ */
+export interface PlanServer {
+  /** Base URL, e.g. http://127.0.0.1:3000 */
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * A request that cannot be answered, with its HTTP status
+ */
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Local HTTP server for converting plans without Node tooling, built on Node's http module only
+ * - GET /: preview page with a paste box for EXPLAIN output
+ * - POST /convert: converts a plan. The body is either JSON, {"planText": "...", "format": "svg", "plan": "logical"},
+ *   or the plan text itself with format and plan as query parameters (/convert?format=svg)
+ *   Answers with ExcalidrawData JSON (default), an SVG document, or Mermaid or DOT source;
+ *   invalid requests and plans are answered with {"error": "..."} and a 4xx status
+ */
+export class PlanServerService {
+  private static readonly DEFAULT_PORT = 3000;
+  private static readonly DEFAULT_HOST = '127.0.0.1';
+  private static readonly DEFAULT_MAX_BODY_BYTES = 5 * 1024 * 1024;
+  private static readonly PLANS: PlanSelection[] = ['physical', 'logical', 'both'];
+  private static readonly CONTENT_TYPES: Record<OutputFormat, string> = {
+    excalidraw: 'application/json; charset=utf-8',
+    svg: 'image/svg+xml; charset=utf-8',
+    mermaid: 'text/plain; charset=utf-8',
+    dot: 'text/vnd.graphviz; charset=utf-8',
+  };
+
+  private readonly converter: ConverterService;
+
+  constructor(config: ConverterConfig = {}) {
+    this.converter = new ConverterService(config);
+  }
+
+  /**
+   * Starts the server
+   * @returns The running server once it accepts connections
+   */
+  public listen(options: PlanServerOptions = {}): Promise<PlanServer> {
+    const maxBodyBytes = options.maxBodyBytes ?? PlanServerService.DEFAULT_MAX_BODY_BYTES;
+    const server = http.createServer((request, response) => {
+      this.handle(request, response, maxBodyBytes).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        this.send(response, status, 'application/json; charset=utf-8', JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(options.port ?? PlanServerService.DEFAULT_PORT, options.host ?? PlanServerService.DEFAULT_HOST, () => {
+        server.off('error', reject);
+        const { address, family, port } = server.address() as AddressInfo;
+        resolve({
+          url: `http://${family === 'IPv6' ? `[${address}]` : address}:${port}`,
+          close: () => new Promise((done, fail) => {
+            server.close((error) => error ? fail(error) : done());
+            server.closeAllConnections();
+          }),
+        });
+      });
+    });
+  }
+
+  /**
+   * Routes one request
+   * @throws HttpError for requests that cannot be answered
+   */
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse, maxBodyBytes: number): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (url.pathname === '/') {
+      this.requireMethod(request, 'GET');
+      response.setHeader(
+        'Content-Security-Policy',
+        'default-src \'none\'; script-src \'unsafe-inline\'; style-src \'unsafe-inline\'; connect-src \'self\'; img-src \'self\' data: blob:'
+      );
+      this.send(response, 200, 'text/html; charset=utf-8', PREVIEW_PAGE);
+      return;
+    }
+
+    if (url.pathname === '/convert') {
+      this.requireMethod(request, 'POST');
+      const body = await this.readBody(request, maxBodyBytes);
+      const { planText, format, plan } = this.parseConvertRequest(body, request.headers['content-type'], url.searchParams);
+      try {
+        this.send(response, 200, PlanServerService.CONTENT_TYPES[format], this.converter.convertToFormat(planText, format, plan));
+      } catch (error) {
+        throw new HttpError(422, error instanceof Error ? error.message : String(error));
+      }
+      return;
+    }
+
+    throw new HttpError(404, `Not found: ${url.pathname}`);
+  }
+
+  /**
+   * Reads the conversion parameters from a JSON body, or from a plain text body and the query
+   * @throws HttpError for malformed JSON and unknown formats or plans
+   */
+  private parseConvertRequest(
+    body: string,
+    contentType: string | undefined,
+    query: URLSearchParams
+  ): { planText: string; format: OutputFormat; plan: PlanSelection } {
+    let fields: { planText?: unknown; format?: unknown; plan?: unknown };
+    if (contentType?.startsWith('application/json')) {
+      try {
+        fields = JSON.parse(body);
+      } catch {
+        throw new HttpError(400, 'Request body is not valid JSON');
+      }
+      if (!fields || typeof fields !== 'object' || typeof fields.planText !== 'string') {
+        throw new HttpError(400, 'Request body must be a JSON object with a "planText" string');
+      }
+    } else {
+      fields = { planText: body, format: query.get('format') ?? undefined, plan: query.get('plan') ?? undefined };
+    }
+
+    const format = fields.format ?? 'excalidraw';
+    if (typeof format !== 'string' || !Object.keys(OUTPUT_EXTENSIONS).includes(format)) {
+      throw new HttpError(400, `Unknown format: ${String(format)} (expected ${Object.keys(OUTPUT_EXTENSIONS).join(', ')})`);
+    }
+    const plan = fields.plan ?? 'physical';
+    if (!PlanServerService.PLANS.includes(plan as PlanSelection)) {
+      throw new HttpError(400, `Unknown plan: ${String(plan)} (expected ${PlanServerService.PLANS.join(', ')})`);
+    }
+    return { planText: fields.planText as string, format: format as OutputFormat, plan: plan as PlanSelection };
+  }
+
+  /**
+   * @throws HttpError 413 when the body is larger than maxBodyBytes
+   */
+  private readBody(request: http.IncomingMessage, maxBodyBytes: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      request.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBodyBytes) {
+          reject(new HttpError(413, `Request body is larger than ${maxBodyBytes} bytes`));
+          request.resume();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      request.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+      request.on('error', reject);
+    });
+  }
+
+  /**
+   * @throws HttpError 405 for any other method
+   */
+  private requireMethod(request: http.IncomingMessage, method: string): void {
+    if (request.method !== method) {
+      throw new HttpError(405, `Method not allowed: ${request.method} (expected ${method})`);
+    }
+  }
+
+  private send(response: http.ServerResponse, status: number, contentType: string, body: string): void {
+    response.writeHead(status, { 'Content-Type': contentType });
+    response.end(body);
+  }
+}
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConverterConfig, ConverterService, OutputFormat, PlanSelection } from './converter.service';
+import { OUTPUT_EXTENSIONS, findPlanFiles, isPlanFile } from './batch-converter.service';
+
+/**
+ * Options for {@link PlanWatchService.watch}
+ */
+export interface PlanWatchOptions {
+  /** Plan file, or directory whose .sql plan files (at any depth) are watched */
+  input: string;
+  /** Output file for a plan file; output directory, mirroring the input directory, for a directory */
+  output: string;
+  /** Output format (default: excalidraw) */
+  format?: OutputFormat;
+  /** Plan drawn from each file (default: physical) */
+  plan?: PlanSelection;
+  /** Quiet time after the last change of a file before it is converted, in milliseconds (default: 100) */
+  debounceMs?: number;
+  /** Called after an output was written; paths are absolute */
+  onConverted?: (input: string, output: string) => void;
+  /** Called when a plan could not be converted; the previous output is kept */
+  onError?: (input: string, error: Error) => void;
+  /** Called when the watch itself fails, e.g. the watched directory became unreadable; the watch is closed */
+  onWatchError?: (error: Error) => void;
+}
+
+/**
+ * A running watch, stopped with close()
+ */
+export interface PlanWatcher {
+  close(): void;
+}
+
+/**
+ * Regenerates diagrams whenever plan files change
+ * Inputs are converted once when the watch starts and again after each change;
+ * outputs are replaced atomically so viewers reloading the file never see it half written
+ * The parent directory of a single input file is watched, so editors that save by
+ * replacing the file are followed too
+ */
+export class PlanWatchService {
+  private static readonly DEFAULT_DEBOUNCE_MS = 100;
+
+  private readonly converter: ConverterService;
+
+  constructor(config: ConverterConfig = {}) {
+    this.converter = new ConverterService(config);
+  }
+
+  /**
+   * Converts the input and watches it for changes
+   * @returns The running watch
+   * @throws Error if the input does not exist
+   */
+  public watch(options: PlanWatchOptions): PlanWatcher {
+    const input = path.resolve(options.input);
+    if (!fs.existsSync(input)) {
+      throw new Error(`Input not found: ${input}`);
+    }
+    const isDirectory = fs.statSync(input).isDirectory();
+    const watchedDir = isDirectory ? input : path.dirname(input);
+    const debounceMs = options.debounceMs ?? PlanWatchService.DEFAULT_DEBOUNCE_MS;
+    const timers = new Map<string, NodeJS.Timeout>();
+
+    // Path of the input file a watch event refers to, or undefined for other files
+    const inputOf = (fileName: string | null): string | undefined => {
+      if (!fileName) {
+        return undefined;
+      }
+      const changed = path.join(watchedDir, fileName);
+      if (isDirectory) {
+        return isPlanFile(fileName) ? changed : undefined;
+      }
+      return changed === input ? changed : undefined;
+    };
+
+    const watcher = fs.watch(watchedDir, { recursive: isDirectory }, (_event, fileName) => {
+      const changed = inputOf(fileName);
+      if (!changed) {
+        return;
+      }
+      clearTimeout(timers.get(changed));
+      timers.set(changed, setTimeout(() => {
+        timers.delete(changed);
+        // Deleted files (or the first half of a replace) have nothing to convert
+        if (fs.existsSync(changed)) {
+          this.convertFile(changed, this.outputPath(changed, input, isDirectory, options), options);
+        }
+      }, debounceMs));
+    });
+
+    let closed = false;
+    const close = (): void => {
+      closed = true;
+      watcher.close();
+      for (const timer of timers.values()) {
+        clearTimeout(timer);
+      }
+      timers.clear();
+    };
+    watcher.on('error', (error) => {
+      if (!closed) {
+        close();
+        options.onWatchError?.(error);
+      }
+    });
+
+    const initial = isDirectory ? findPlanFiles(input).map((file) => path.join(input, file)) : [input];
+    for (const file of initial) {
+      this.convertFile(file, this.outputPath(file, input, isDirectory, options), options);
+    }
+
+    return { close };
+  }
+
+  /**
+   * Where the output of one input file goes
+   */
+  private outputPath(file: string, input: string, isDirectory: boolean, options: PlanWatchOptions): string {
+    if (!isDirectory) {
+      return path.resolve(options.output);
+    }
+    const { dir, name } = path.parse(path.relative(input, file));
+    return path.join(path.resolve(options.output), dir, name + OUTPUT_EXTENSIONS[options.format ?? 'excalidraw']);
+  }
+
+  /**
+   * Converts one plan file and replaces its output, reporting the outcome through the callbacks
+   */
+  private convertFile(file: string, outputPath: string, options: PlanWatchOptions): void {
+    try {
+      const planText = fs.readFileSync(file, 'utf-8');
+      const output = this.converter.convertToFormat(planText, options.format ?? 'excalidraw', options.plan ?? 'physical');
+      this.writeAtomically(outputPath, output);
+      options.onConverted?.(file, outputPath);
+    } catch (error) {
+      options.onError?.(file, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Writes a temporary file next to the target and renames it over the target
+   */
+  private writeAtomically(outputPath: string, content: string): void {
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    const temporaryPath = path.join(path.dirname(outputPath), `.${path.basename(outputPath)}.${process.pid}.tmp`);
+    try {
+      fs.writeFileSync(temporaryPath, content, 'utf-8');
+      fs.renameSync(temporaryPath, outputPath);
+    } catch (error) {
+      fs.rmSync(temporaryPath, { force: true });
+      throw error;
+    }
+  }
+}
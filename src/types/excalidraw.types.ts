@@ -3,7 +3,23 @@ import type { NodeGeneratorStrategy } from '../generators/generators/node-genera
 /**
  * Excalidraw element types
  */
-export type ExcalidrawElementType = 'rectangle' | 'arrow' | 'text' | 'ellipse';
+export type ExcalidrawElementType = 'rectangle' | 'arrow' | 'text' | 'ellipse' | 'frame';
+
+/**
+ * How much of each operator is drawn inside its node
+ * - `minimal`: operator name only
+ * - `standard`: the curated details chosen by each node generator
+ * - `full`: every raw property of the operator, wrapped inside the node
+ */
+export type DetailLevel = 'minimal' | 'standard' | 'full';
+
+/**
+ * Direction a plan tree is drawn in
+ * - `top-down`: root at the top, data flowing up from the sources below it
+ * - `bottom-up`: sources at the top, data flowing down to the root
+ * - `left-to-right`: sources on the left, data flowing right to the root
+ */
+export type Orientation = 'top-down' | 'bottom-up' | 'left-to-right';
 
 /**
  * Base properties for all Excalidraw elements
@@ -82,6 +98,15 @@ export interface ExcalidrawEllipse extends ExcalidrawElementBase {
   type: 'ellipse';
 }
 
+/**
+ * Frame element in Excalidraw
+ * Elements inside the frame reference it through their frameId
+ */
+export interface ExcalidrawFrame extends ExcalidrawElementBase {
+  type: 'frame';
+  name: string | null;
+}
+
 /**
  * Union type for all Excalidraw elements
  */
@@ -89,7 +114,8 @@ export type ExcalidrawElement =
   | ExcalidrawRectangle
   | ExcalidrawArrow
   | ExcalidrawText
-  | ExcalidrawEllipse;
+  | ExcalidrawEllipse
+  | ExcalidrawFrame;
 
 /**
  * Complete Excalidraw data structure
@@ -128,6 +154,39 @@ export interface ExcalidrawConfig {
   nodeColor?: string;
   /** Default arrow color */
   arrowColor?: string;
+  /**
+   * Overlay EXPLAIN ANALYZE metrics as a performance heat map (default: false).
+   * Nodes are shaded by their share of total elapsed_compute and show rows and
+   * elapsed time as their last detail line, at every detail level. Arrows are
+   * labeled with the rows flowing through them.
+   */
+  metricsOverlay?: boolean;
+  /**
+   * Show full DataSourceExec details (default: false): byte ranges under each file
+   * and a grouped panel below the scan with the projection, pushed-down predicate,
+   * required guarantees, file format and, for EXPLAIN ANALYZE, pruning metrics.
+   */
+  scanDetails?: boolean;
+  /**
+   * Details drawn inside each node (default: 'standard'). Node heights are
+   * resized to fit, and everything below a resized node moves with it.
+   */
+  detailLevel?: DetailLevel;
+  /**
+   * Widest a node may grow to fit its details (default: 500). Details wider
+   * than this are wrapped at top-level commas, then at spaces.
+   */
+  maxNodeWidth?: number;
+  /**
+   * Tallest a node may grow to fit its wrapped details (default: 400).
+   * Lines that do not fit are dropped and the last shown line ends in "...".
+   */
+  maxNodeHeight?: number;
+  /**
+   * Direction the plan is drawn in (default: 'top-down'). Node boxes keep their
+   * layout; arrows, column labels, file ellipses and join inputs follow the flow.
+   */
+  orientation?: Orientation;
   /**
    * Custom node generators to register after built-in generators.
    * If a custom generator uses the same operator key as a built-in generator,
@@ -138,7 +197,7 @@ export interface ExcalidrawConfig {
 
 /**
  * Fully resolved rendering config passed to node generators.
- * Extension registration is consumed by ExcalidrawGenerator and is not part of
- * the per-node rendering context.
+ * Only extension registration (customGenerators) and the orientation are left
+ * out: both are consumed by ExcalidrawGenerator, not by the node generators.
  */
-export type ResolvedExcalidrawConfig = Required<Omit<ExcalidrawConfig, 'customGenerators'>>;
+export type ResolvedExcalidrawConfig = Required<Omit<ExcalidrawConfig, 'customGenerators' | 'orientation'>>;
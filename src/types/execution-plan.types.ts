@@ -6,22 +6,102 @@ export interface ExecutionPlanNode {
   operator: string;
   /** Optional properties/metadata for the operator */
   properties?: Record<string, string>;
+  /** Runtime metrics parsed from `metrics=[...]` (EXPLAIN ANALYZE output only) */
+  metrics?: ExecutionPlanMetrics;
   /** Child nodes in the execution plan */
   children: ExecutionPlanNode[];
   /** Indentation level in the original plan text */
   level: number;
 }
 
+/**
+ * Unit of a normalised metric value
+ * - `count`: plain number (rows, batches, files, spills, ...)
+ * - `nanoseconds`: durations, normalised from ns/µs/ms/s/min/h
+ * - `bytes`: sizes, normalised from B/KB/MB/GB/TB (1024-based)
+ */
+export type MetricUnit = 'count' | 'nanoseconds' | 'bytes';
+
+/**
+ * A single EXPLAIN ANALYZE metric with its value normalised to {@link MetricUnit}
+ */
+export interface MetricValue {
+  /** Metric name as printed by DataFusion (e.g., elapsed_compute) */
+  name: string;
+  /** Normalised numeric value */
+  value: number;
+  /** Unit of the normalised value */
+  unit: MetricUnit;
+  /** Original text of the value (e.g., 2.38µs) */
+  raw: string;
+}
+
+/**
+ * Typed runtime statistics for one operator
+ * Well-known metrics are exposed as fields; every parsed metric is available in `values`
+ */
+export interface ExecutionPlanMetrics {
+  /** Number of rows produced by the operator */
+  outputRows?: number;
+  /** CPU time spent in the operator, in nanoseconds */
+  elapsedCompute?: number;
+  /** Number of times the operator spilled to disk */
+  spillCount?: number;
+  /** Bytes written while spilling */
+  spilledBytes?: number;
+  /** Rows written while spilling */
+  spilledRows?: number;
+  /** Peak memory used by the operator, in bytes */
+  memUsed?: number;
+  /** Bytes produced by the operator */
+  outputBytes?: number;
+  /** Number of record batches produced by the operator */
+  outputBatches?: number;
+  /** Time spent opening files, in nanoseconds (DataSourceExec) */
+  timeElapsedOpening?: number;
+  /** Time spent processing files, in nanoseconds (DataSourceExec) */
+  timeElapsedProcessing?: number;
+  /** Time spent scanning files, in nanoseconds (DataSourceExec) */
+  timeElapsedScanningTotal?: number;
+  /** Time until the first batch was scanned, in nanoseconds (DataSourceExec) */
+  timeElapsedScanningUntilData?: number;
+  /** Bytes read from storage (DataSourceExec) */
+  bytesScanned?: number;
+  /** All parsed metrics keyed by metric name */
+  values: Record<string, MetricValue>;
+}
+
 /**
  * Result of parsing an execution plan
  */
 export interface ParsedExecutionPlan {
   /** Root node of the execution plan tree */
   root: ExecutionPlanNode | null;
+  /** Root node of the logical plan tree (only set when the EXPLAIN output contains a `logical_plan` row) */
+  logicalRoot?: ExecutionPlanNode | null;
   /** Original plan text */
   originalText: string;
 }
 
+/**
+ * Kind of plan to visualise: the optimized logical plan or the physical execution plan
+ */
+export type PlanKind = 'physical' | 'logical';
+
+/**
+ * One row of `EXPLAIN VERBOSE` output: the plan as it stood after an optimizer stage
+ */
+export interface PlanStage {
+  /** `plan_type` label of the row (e.g., initial_physical_plan, physical_plan after EnforceSorting) */
+  name: string;
+  /** Whether the row holds a logical or a physical plan */
+  kind: PlanKind;
+  /** Root node of the plan at this stage */
+  root: ExecutionPlanNode | null;
+  /** True when DataFusion printed "SAME TEXT AS ABOVE": the plan equals the previous stage of the same kind */
+  unchanged: boolean;
+}
+
 /**
  * Configuration for parsing execution plans
  */
@@ -1,2 +1,4 @@
 export * from './execution-plan.types';
 export * from './excalidraw.types';
+export * from './plan-diff.types';
+export * from './plan-lint.types';
@@ -0,0 +1,39 @@
+import { ExecutionPlanNode } from './execution-plan.types';
+
+/**
+ * How an operator differs between two plans
+ * - `unchanged`: same operator with identical properties
+ * - `changed`: same operator with different properties
+ * - `added`: only present in the new plan
+ * - `removed`: only present in the old plan
+ */
+export type PlanDiffStatus = 'unchanged' | 'changed' | 'added' | 'removed';
+
+/**
+ * A property whose value differs between two plans
+ */
+export interface PlanPropertyChange {
+  /** Property name (e.g., partitioning, mode) */
+  key: string;
+  /** Value in the old plan (undefined if the property was added) */
+  before?: string;
+  /** Value in the new plan (undefined if the property was removed) */
+  after?: string;
+}
+
+/**
+ * A node of the merged tree produced by diffing two plans
+ * Removed operators stay in the tree so they can be drawn as ghosts
+ */
+export interface PlanDiffNode {
+  /** Difference status of the operator */
+  status: PlanDiffStatus;
+  /** The operator as it appears in the new plan, or in the old plan if removed */
+  node: ExecutionPlanNode;
+  /** Old operator this `added` node replaced at the same position, if any */
+  replaced?: ExecutionPlanNode;
+  /** Changed properties (only for `changed` nodes) */
+  changes: PlanPropertyChange[];
+  /** Merged children */
+  children: PlanDiffNode[];
+}
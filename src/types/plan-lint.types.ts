@@ -0,0 +1,37 @@
+import { ExecutionPlanNode } from './execution-plan.types';
+
+/**
+ * How serious a lint finding is
+ * - `info`: worth a look, but the plan may well be fine (e.g., sizes unknown)
+ * - `warning`: a likely performance problem
+ */
+export type LintSeverity = 'info' | 'warning';
+
+/**
+ * A performance anti-pattern found in a physical plan
+ */
+export interface LintFinding {
+  /** Identifier of the rule that produced the finding (e.g., sort-without-preserve-partitioning) */
+  rule: string;
+  /** Severity of the finding */
+  severity: LintSeverity;
+  /** Human-readable explanation */
+  message: string;
+  /** Operator the finding is attached to */
+  operator: string;
+  /**
+   * Operators from the root down to the flagged node; a child index is
+   * appended when the parent has several inputs (e.g., HashJoinExec > CoalesceBatchesExec[1])
+   */
+  path: string[];
+  /** The flagged node */
+  node: ExecutionPlanNode;
+}
+
+/**
+ * Configuration for the plan linter
+ */
+export interface PlanLinterConfig {
+  /** Row count from which an input counts as large (default: 1,000,000) */
+  largeInputRows?: number;
+}